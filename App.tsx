@@ -4,19 +4,65 @@
 */
 import React, { useState, useEffect, useRef } from 'react';
 import { Hero } from './components/Hero';
-import { InputArea } from './components/InputArea';
+import { InputArea, Attachment } from './components/InputArea';
 import { LivePreview } from './components/LivePreview';
-import { CreationHistory, Creation } from './components/CreationHistory';
-import { bringToLife } from './services/gemini';
-import { ArrowUpTrayIcon, SunIcon, MoonIcon, DevicePhoneMobileIcon, LanguageIcon } from '@heroicons/react/24/outline';
+import { ERROR_MESSAGES } from './components/GenerationMonitor';
+import { CreationHistory, Creation, CreationInput, CreationSummary, ChatTurn } from './components/CreationHistory';
+import { ProviderSettingsDialog } from './components/ProviderSettingsDialog';
+import { LanguagePicker } from './components/LanguagePicker';
+import { ModeEditorDialog } from './components/ModeEditorDialog';
+import { ArchiveDialog } from './components/ArchiveDialog';
+import { ExamplesDialog } from './components/ExamplesDialog';
+import { UndoToast } from './components/UndoToast';
+import { ARCHIVE_FILE_ERRORS, ImportDialog } from './components/ImportDialog';
+import { bringToLife, refineCreation, configureProvider, GenerationAttachment, GenerationProgress, REFINE_REPLY } from './services/generation';
+import { datasetOf, describeDocument, documentFormat, documentMimeType, embedDatasets, parseDocument, ParsedDocument } from './services/documents';
+import { formatPageRanges, loadPdf, renderPageToPng } from './services/pdf';
+import { loadProviderSettings, saveProviderSettings, ProviderSettings, toProviderError } from './services/providers';
+import { ensureRevisions, addRevision, checkoutRevision, conversationForRevision, createRevision } from './services/revisions';
+import { listCreations, loadCreation, saveCreation, deleteCreation, updateCreationMeta, migrateFromLocalStorage, getStorageUsage, CreationMeta, StorageUsage } from './services/creationStore';
+import { SandboxPermissions } from './services/sandbox';
+import { Sketch } from './services/sketch';
+import { allModes, DEFAULT_MODE, findMode, GenerationMode, loadCustomModes, loadSelectedModeId, saveCustomModes, saveSelectedModeId } from './services/modes';
+import { createVariantRun, planVariants, VariantRun, VariantSpec } from './services/variants';
+import { ValidationReport } from './services/validation';
+import { createThumbnails, needsThumbnail } from './services/thumbnails';
+import { ArchiveFileError, CollisionPolicy, exportArchive, ImportReport, ParsedArchive, planImport, readArchive } from './services/backup';
+import { downloadBlob } from './services/exporters';
+import { Viewport } from './services/viewport';
+import { clearShareFragment, isShareFragment, readShareFragment } from './services/share';
+import { BUNDLED_EXAMPLES, Example, exampleCreationId, exampleToCreation, examplesSeeded, markExamplesSeeded, missingExamples } from './services/examples';
+import { Locale, MessageKey, loadLocale, localeInfo, saveLocale, translator } from './services/i18n';
+import { ArrowUpTrayIcon, SunIcon, MoonIcon, CpuChipIcon, LightBulbIcon } from '@heroicons/react/24/outline';
 
 const App: React.FC = () => {
   const [activeCreation, setActiveCreation] = useState<Creation | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [history, setHistory] = useState<Creation[]>([]);
+  const [isRefining, setIsRefining] = useState(false);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [history, setHistory] = useState<CreationSummary[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(true); // Default to dark
-  const [lang, setLang] = useState<'en' | 'ar'>('en');
+  const [lang, setLang] = useState<Locale>(loadLocale);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [sketchToEdit, setSketchToEdit] = useState<Sketch | null>(null);
+  const [customModes, setCustomModes] = useState<GenerationMode[]>(loadCustomModes);
+  const [modeId, setModeId] = useState<string>(loadSelectedModeId);
+  const [showModeEditor, setShowModeEditor] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const [showExamples, setShowExamples] = useState(false);
+  const [deletedCreation, setDeletedCreation] = useState<Creation | null>(null); // Offered for undo until dismissed
+  const [sharedId, setSharedId] = useState<string | null>(null); // Creation opened from a share link and not archived yet
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; archive: ParsedArchive } | null>(null);
+  const [capturingId, setCapturingId] = useState<string | null>(null); // Creation whose thumbnail is being captured
+  const [variantSpecs, setVariantSpecs] = useState<VariantSpec[]>(() => planVariants(1, DEFAULT_MODE));
+  // Variants generated side by side, waiting for the user to keep some of them
+  const [variantBatch, setVariantBatch] = useState<{ runs: VariantRun[]; name: string; prompt: string; inputs: CreationInput[] } | null>(null);
+  const variantControllers = useRef(new Map<string, AbortController>());
   const importInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const failedThumbnailsRef = useRef(new Set<string>()); // Not retried until reload
 
   // Initialize theme from local storage or system preference
   useEffect(() => {
@@ -26,11 +72,6 @@ const App: React.FC = () => {
     } else if (window.matchMedia && window.matchMedia('(prefers-color-scheme: light)').matches) {
         setIsDarkMode(false);
     }
-
-    const savedLang = localStorage.getItem('gemini_app_lang') as 'en' | 'ar';
-    if (savedLang) {
-        setLang(savedLang);
-    }
   }, []);
 
   // Apply theme to document
@@ -49,113 +90,136 @@ const App: React.FC = () => {
   useEffect(() => {
     const html = document.documentElement;
     const body = document.body;
+    const info = localeInfo(lang);
     
-    html.setAttribute('dir', lang === 'ar' ? 'rtl' : 'ltr');
+    html.setAttribute('dir', info.dir);
     html.lang = lang;
     
-    if (lang === 'ar') {
+    if (info.arabicScript) {
         body.classList.add('font-arabic');
     } else {
         body.classList.remove('font-arabic');
     }
 
-    localStorage.setItem('gemini_app_lang', lang);
+    saveLocale(lang);
   }, [lang]);
 
+  const t = translator(lang);
+
   const toggleTheme = () => {
     setIsDarkMode(prev => !prev);
   };
 
-  const toggleLang = () => {
-    setLang(prev => prev === 'en' ? 'ar' : 'en');
+  const handleSaveProviderSettings = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    configureProvider(settings);
+    setProviderSettings(settings);
+    setShowProviderSettings(false);
   };
 
-  const handleDownloadApk = () => {
-    // Simulate APK download
-    const link = document.createElement('a');
-    link.href = '#'; // In a real app, this would be a real URL
-    link.download = 'Nakamoko-v1.apk';
-    // Just for visual feedback since we don't have a real file
-    alert(lang === 'ar' ? "جاري تحضير ملف الـ APK..." : "Preparing APK download...");
-    // Simulate delay
-    setTimeout(() => {
-        // In reality, this would trigger the browser download
-        console.log("Download triggered");
-    }, 1000);
+  const modes = allModes(customModes);
+
+  const handleModeChange = (id: string) => {
+    saveSelectedModeId(id);
+    setModeId(id);
+  };
+
+  const handleCustomModesChange = (next: GenerationMode[]) => {
+    saveCustomModes(next);
+    setCustomModes(next);
+  };
+
+  // Aborts whichever request is running; its handler treats that as a silent stop
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const reportFailure = (error: unknown, fallback: MessageKey) => {
+    const failure = toProviderError(error);
+    if (failure.kind === 'cancelled') return;
+    alert(t(ERROR_MESSAGES[failure.kind] || fallback));
+  };
+
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(e => console.warn("Storage estimate unavailable", e));
+  };
+
+  // Write a single creation to the archive and keep the in-memory summaries in sync
+  const persistCreation = async (creation: Creation) => {
+    try {
+      const summary = await saveCreation(creation);
+      setHistory(prev => prev.some(c => c.id === summary.id)
+        ? prev.map(c => c.id === summary.id ? summary : c)
+        : [summary, ...prev]);
+    } catch (e) {
+      console.error("Failed to save creation", e);
+      alert(t('app.saveFailed'));
+    } finally {
+      refreshStorageUsage();
+    }
   };
 
-  // Load history from local storage or fetch examples on mount
+  // Load history from IndexedDB (migrating the legacy localStorage archive) or seed examples on mount
   useEffect(() => {
     const initHistory = async () => {
-      const saved = localStorage.getItem('gemini_app_history');
-      let loadedHistory: Creation[] = [];
-
-      if (saved) {
-        try {
-          const parsed = JSON.parse(saved);
-          loadedHistory = parsed.map((item: any) => ({
-              ...item,
-              timestamp: new Date(item.timestamp)
-          }));
-        } catch (e) {
-          console.error("Failed to load history", e);
-        }
+      let loadedHistory: CreationSummary[] = [];
+
+      try {
+        const migrated = await migrateFromLocalStorage();
+        if (migrated > 0) console.info(`Migrated ${migrated} creations from localStorage`);
+        loadedHistory = await listCreations();
+      } catch (e) {
+        console.error("Failed to load history", e);
       }
 
       if (loadedHistory.length > 0) {
         setHistory(loadedHistory);
-      } else {
-        // If no history (new user or cleared), load examples
+      } else if (!examplesSeeded()) {
+        // New user: start the archive with the bundled examples, which need no network
         try {
-           const exampleUrls = [
-               'https://storage.googleapis.com/sideprojects-asronline/bringanythingtolife/vibecode-blog.json',
-               'https://storage.googleapis.com/sideprojects-asronline/bringanythingtolife/cassette.json',
-               'https://storage.googleapis.com/sideprojects-asronline/bringanythingtolife/chess.json'
-           ];
-
-           const examples = await Promise.all(exampleUrls.map(async (url) => {
-               const res = await fetch(url);
-               if (!res.ok) return null;
-               const data = await res.json();
-               return {
-                   ...data,
-                   timestamp: new Date(data.timestamp || Date.now()),
-                   id: data.id || crypto.randomUUID()
-               };
-           }));
-           
-           const validExamples = examples.filter((e): e is Creation => e !== null);
-           setHistory(validExamples);
+          const now = Date.now();
+          await Promise.all(BUNDLED_EXAMPLES.map((example, i) => saveCreation(exampleToCreation(example, new Date(now - i * 1000)))));
+          markExamplesSeeded();
+          setHistory(await listCreations());
         } catch (e) {
-            console.error("Failed to load examples", e);
+          console.error("Failed to seed examples", e);
         }
       }
+
+      refreshStorageUsage();
     };
 
     initHistory();
   }, []);
 
-  // Save history when it changes
+  // Open creations shared through a link; the fragment is read again if it changes in place
   useEffect(() => {
-    if (history.length > 0) {
-        try {
-            localStorage.setItem('gemini_app_history', JSON.stringify(history));
-        } catch (e) {
-            console.warn("Local storage full or error saving history", e);
-        }
-    }
-  }, [history]);
+    const openShared = async () => {
+      if (!isShareFragment(window.location.hash)) return;
+      try {
+        const shared = await readShareFragment(window.location.hash);
+        setActiveCreation(shared);
+        setSharedId(shared.id);
+      } catch (e) {
+        console.error("Could not open share link", e);
+        clearShareFragment();
+        // The listener outlives language changes, so read the saved locale rather than `t`
+        alert(translator(loadLocale())('share.invalid'));
+      }
+    };
+    openShared();
+    window.addEventListener('hashchange', openShared);
+    return () => window.removeEventListener('hashchange', openShared);
+  }, []);
 
-  // Helper to convert file to base64
-  const fileToBase64 = (file: File): Promise<string> => {
+  // Helper to read a file as a data URL
+  const fileToDataUrl = (file: Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.readAsDataURL(file);
       reader.onload = () => {
         if (typeof reader.result === 'string') {
-          // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
-          const base64 = reader.result.split(',')[1];
-          resolve(base64);
+          resolve(reader.result);
         } else {
           reject(new Error('Failed to convert file to base64'));
         }
@@ -164,142 +228,469 @@ const App: React.FC = () => {
     });
   };
 
-  const handleGenerate = async (promptText: string, file?: File) => {
+  const createGeneratedCreation = (html: string, validation: ValidationReport | undefined, name: string, promptText: string, inputs: CreationInput[], mode: string): Creation => {
+    const root = createRevision(html, 'generate', undefined, promptText || undefined, validation);
+    return {
+      id: crypto.randomUUID(),
+      name,
+      html,
+      revisions: [root],
+      currentRevisionId: root.id,
+      inputs: inputs.length > 0 ? inputs : undefined,
+      timestamp: new Date(),
+      mode,
+      prompt: promptText || undefined,
+    };
+  };
+
+  const handleGenerate = async (promptText: string, selections: Attachment[] = []) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsGenerating(true);
+    setProgress(null);
     // Clear active creation to show loading state
     setActiveCreation(null);
 
     try {
-      let imageBase64: string | undefined;
-      let mimeType: string | undefined;
+      const inputs: CreationInput[] = [];
+      const attachments: GenerationAttachment[] = [];
+      const datasets: Record<string, unknown> = {};
+
+      for (const { file, pages, sketch } of selections) {
+        const format = documentFormat(file.name, file.type);
+        if (format) {
+          // Data and documents are parsed locally and described to the model as text
+          let parsed: ParsedDocument;
+          try {
+            parsed = await parseDocument(file, file.name, file.type);
+          } catch (e) {
+            console.error(`Failed to parse ${file.name}`, e);
+            alert(t('app.readFileFailed', { name: file.name }));
+            return;
+          }
+          const dataset = datasetOf(parsed);
+          if (dataset !== undefined) datasets[file.name] = dataset;
+          attachments.push({ name: file.name, text: describeDocument(file.name, parsed) });
+          inputs.push({ name: file.name, mimeType: documentMimeType(format), dataUrl: await fileToDataUrl(file) });
+        } else if (file.type === 'application/pdf' && pages) {
+          // Only the chosen pages reach the model, rasterised one image per page
+          const pdf = await loadPdf(file);
+          try {
+            attachments.push({ name: file.name, text: `The following ${pages.length} images are pages ${formatPageRanges(pages)} of the ${pdf.numPages}-page PDF "${file.name}".` });
+            for (const page of pages) {
+              const image = await fileToDataUrl(await renderPageToPng(pdf, page));
+              attachments.push({ data: image.split(',')[1], mimeType: 'image/png', page });
+            }
+          } finally {
+            pdf.destroy();
+          }
+          inputs.push({ name: file.name, mimeType: 'application/pdf', dataUrl: await fileToDataUrl(file), pages });
+        } else {
+          const dataUrl = await fileToDataUrl(file);
+          // The model gets raw base64 without the data URL prefix (e.g. "data:image/jpeg;base64,")
+          attachments.push({ data: dataUrl.split(',')[1], mimeType: file.type.toLowerCase() });
+          inputs.push({ name: file.name, mimeType: file.type.toLowerCase(), dataUrl, sketch });
+        }
+      }
 
-      if (file) {
-        imageBase64 = await fileToBase64(file);
-        mimeType = file.type.toLowerCase();
+      // Determine a smart name for the creation
+      let creationName = t('app.newCreation');
+      if (selections.length > 0) {
+        const firstName = selections[0].file.name;
+        creationName = selections.length > 1 ? `${firstName} +${selections.length - 1}` : firstName;
+      } else if (promptText) {
+        // Take first 3 words or 25 chars
+        const words = promptText.split(' ');
+        creationName = words.slice(0, 4).join(' ') + (words.length > 4 ? '...' : '');
+        if (creationName.length > 30) creationName = creationName.substring(0, 27) + '...';
       }
+      const withDatasets = (html: string) => Object.keys(datasets).length > 0 ? embedDatasets(html, datasets) : html;
 
-      const html = await bringToLife(promptText, imageBase64, mimeType, lang);
+      if (variantSpecs.length > 1) {
+        await generateVariants(promptText, attachments, creationName, inputs, withDatasets, controller.signal);
+        return;
+      }
+
+      const mode = findMode(modes, modeId);
+      const result = await bringToLife(promptText, attachments, lang, mode, setProgress, controller.signal);
+      const html = withDatasets(result.html);
       
       if (html) {
-        // Determine a smart name for the creation
-        let creationName = lang === 'ar' ? 'مشروع جديد' : 'New Creation';
-        if (file) {
-          creationName = file.name;
-        } else if (promptText) {
-          // Take first 3 words or 25 chars
-          const words = promptText.split(' ');
-          creationName = words.slice(0, 4).join(' ') + (words.length > 4 ? '...' : '');
-          if (creationName.length > 30) creationName = creationName.substring(0, 27) + '...';
-        }
-
-        const newCreation: Creation = {
-          id: crypto.randomUUID(),
-          name: creationName,
-          html: html,
-          // Store the full data URL for easy display
-          originalImage: imageBase64 && mimeType ? `data:${mimeType};base64,${imageBase64}` : undefined,
-          timestamp: new Date(),
-        };
+        const newCreation = createGeneratedCreation(html, result.validation, creationName, promptText, inputs, mode.id);
         setActiveCreation(newCreation);
-        setHistory(prev => [newCreation, ...prev]);
+        await persistCreation(newCreation);
       }
 
     } catch (error) {
       console.error("Failed to generate:", error);
-      alert(lang === 'ar' ? "حدث خطأ ما أثناء توليد التطبيق. يرجى المحاولة مرة أخرى." : "Something went wrong while bringing your idea to life. Please try again.");
+      reportFailure(error, 'app.generateFailed');
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsGenerating(false);
+      setProgress(null);
+    }
+  };
+
+  // Runs every planned variant in parallel; each can be cancelled on its own
+  const generateVariants = async (promptText: string, attachments: GenerationAttachment[], name: string, inputs: CreationInput[], withDatasets: (html: string) => string, signal: AbortSignal) => {
+    const runs = variantSpecs.map((spec, idx) => createVariantRun(spec, idx + 1, findMode(modes, spec.modeId)));
+    setVariantBatch({ runs, name, prompt: promptText, inputs });
+
+    const updateRun = (id: string, patch: Partial<VariantRun>) =>
+      setVariantBatch(prev => prev && { ...prev, runs: prev.runs.map(run => run.id === id ? { ...run, ...patch } : run) });
+
+    const failures = await Promise.all(runs.map(async run => {
+      const controller = new AbortController();
+      const stop = () => controller.abort();
+      variantControllers.current.set(run.id, controller);
+      signal.addEventListener('abort', stop, { once: true });
+      try {
+        const result = await bringToLife(promptText, attachments, lang, run.mode, progress => updateRun(run.id, { progress }), controller.signal);
+        updateRun(run.id, { status: 'done', html: withDatasets(result.html), validation: result.validation });
+        return null;
+      } catch (error) {
+        const failure = toProviderError(error);
+        updateRun(run.id, { status: failure.kind === 'cancelled' ? 'cancelled' : 'failed', error: failure.kind });
+        return failure;
+      } finally {
+        signal.removeEventListener('abort', stop);
+        variantControllers.current.delete(run.id);
+      }
+    }));
+
+    // Nothing left to choose from
+    if (failures.every(failure => failure !== null)) {
+      setVariantBatch(null);
+      const failure = failures.find(f => f?.kind !== 'cancelled');
+      if (failure) reportFailure(failure, 'app.generateFailed');
+    }
+  };
+
+  const handleCancelVariant = (id: string) => {
+    variantControllers.current.get(id)?.abort();
+  };
+
+  // Promotes the chosen variants to the archive and opens the first one
+  const handleKeepVariants = async (ids: string[]) => {
+    if (!variantBatch) return;
+    const { runs, name, prompt, inputs } = variantBatch;
+    const kept = runs
+      .filter(run => ids.includes(run.id) && run.status === 'done' && run.html)
+      .map(run => createGeneratedCreation(run.html!, run.validation, t('variants.name', { name, index: run.index }), prompt, inputs, run.mode.id));
+    if (kept.length === 0) return;
+
+    // Variants still streaming are dropped
+    abortRef.current?.abort();
+    setVariantBatch(null);
+    setActiveCreation(ensureRevisions(kept[0]));
+    // Oldest first so the opened variant ends up at the front of the history
+    for (const creation of [...kept].reverse()) {
+      await persistCreation(creation);
+    }
+  };
+
+  const handleRefine = async (instruction: string) => {
+    if (!activeCreation || isRefining) return;
+    const target = activeCreation;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRefining(true);
+    setProgress(null);
+
+    try {
+      // Only turns on the checked-out branch are replayed to the model
+      const { html, validation } = await refineCreation(target.html, conversationForRevision(target), instruction, lang, findMode(modes, target.mode), setProgress, controller.signal);
+      const { creation: revised, revision } = addRevision(target, html, 'refine', instruction, validation);
+      const turns: ChatTurn[] = [
+        { role: 'user', text: instruction, timestamp: new Date() },
+        { role: 'model', text: REFINE_REPLY, timestamp: new Date(), revisionId: revision.id },
+      ];
+      const refined: Creation = {
+        ...revised,
+        conversation: [...(target.conversation || []), ...turns],
+      };
+
+      setActiveCreation(current => current?.id === refined.id ? refined : current);
+      await persistCreation(refined);
+    } catch (error) {
+      console.error("Failed to refine:", error);
+      reportFailure(error, 'app.refineFailed');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsRefining(false);
+      setProgress(null);
+    }
+  };
+
+  const handleCheckoutRevision = (revisionId: string) => {
+    if (!activeCreation || isRefining) return;
+    const checkedOut = checkoutRevision(activeCreation, revisionId);
+    setActiveCreation(checkedOut);
+    persistCreation(checkedOut);
+  };
+
+  const handleSaveEdit = (html: string) => {
+    if (!activeCreation) return;
+    const { creation: edited } = addRevision(activeCreation, html, 'edit', t('app.manualEdit'));
+    setActiveCreation(edited);
+    persistCreation(edited);
+  };
+
+  const handleUpdateSandbox = (permissions: SandboxPermissions) => {
+    if (!activeCreation) return;
+    const updated: Creation = { ...activeCreation, sandbox: permissions };
+    setActiveCreation(updated);
+    persistCreation(updated);
+  };
+
+  // The preview size is remembered per creation; shared ones are not archived yet, so it stays in memory
+  const handleUpdateViewport = (viewport: Viewport) => {
+    if (!activeCreation) return;
+    if (activeCreation.id === sharedId) {
+      setActiveCreation({ ...activeCreation, viewport });
+      return;
     }
+    applyMeta(activeCreation.id, { viewport }).catch(e => console.warn("Failed to save viewport", e));
   };
 
   const handleReset = () => {
+    abortRef.current?.abort();
+    setSharedId(null);
+    clearShareFragment();
+    setVariantBatch(null);
     setActiveCreation(null);
     setIsGenerating(false);
   };
 
-  const handleSelectCreation = (creation: Creation) => {
+  // Leaves the preview and reopens a saved sketch on the input sketch pad
+  const handleEditSketch = (sketch: Sketch) => {
+    handleReset();
+    setSketchToEdit(sketch);
+  };
+
+  const handleSelectCreation = async (summary: CreationSummary) => {
+    try {
+      const creation = await loadCreation(summary.id);
+      if (creation) {
+        setActiveCreation(ensureRevisions(creation));
+      } else {
+        alert(t('app.creationNotFound'));
+      }
+    } catch (e) {
+      console.error("Failed to load creation", e);
+    }
+  };
+
+  const handleAddShared = async () => {
+    if (!activeCreation) return;
+    await persistCreation(activeCreation);
+    setSharedId(null);
+    clearShareFragment();
+  };
+
+  const handleOpenFromArchive = (summary: CreationSummary) => {
+    setShowArchive(false);
+    handleSelectCreation(summary);
+  };
+
+  // Opens the archived copy of an example, adding it first if it is not there yet
+  const handleTryExample = async (example: Example) => {
+    setShowExamples(false);
+    const saved = history.find(c => c.id === exampleCreationId(example));
+    if (saved) {
+      await handleSelectCreation(saved);
+      return;
+    }
+    const creation = exampleToCreation(example);
+    setActiveCreation(creation);
+    await persistCreation(creation);
+  };
+
+  // Starts a separate copy to refine or edit, leaving the example itself untouched
+  const handleRemixExample = async (example: Example) => {
+    setShowExamples(false);
+    const creation: Creation = {
+      ...exampleToCreation(example),
+      id: crypto.randomUUID(),
+      name: t('examples.remixName', { name: example.name }),
+      tags: undefined,
+    };
     setActiveCreation(creation);
+    await persistCreation(creation);
+  };
+
+  const handleAddExamples = async (examples: Example[]): Promise<number> => {
+    const now = Date.now();
+    const saved: CreationSummary[] = [];
+    for (const [i, example] of missingExamples(examples, history.map(c => c.id)).entries()) {
+      try {
+        saved.push(await saveCreation(exampleToCreation(example, new Date(now - i * 1000))));
+      } catch (e) {
+        console.error("Failed to add example", e);
+      }
+    }
+    setHistory(prev => [...saved, ...prev.filter(c => !saved.some(s => s.id === c.id))]
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+    refreshStorageUsage();
+    return saved.length;
+  };
+
+  const applyMeta = async (id: string, patch: CreationMeta) => {
+    const summary = await updateCreationMeta(id, patch);
+    setHistory(prev => prev.map(c => c.id === id ? summary : c));
+    setActiveCreation(prev => prev?.id === id ? { ...prev, ...patch } : prev);
+  };
+
+  const handleUpdateMeta = async (id: string, patch: CreationMeta) => {
+    try {
+      await applyMeta(id, patch);
+    } catch (e) {
+      console.error("Failed to update creation", e);
+      alert(t('app.saveFailed'));
+    }
+  };
+
+  // Deletes right away but keeps the full record in memory so the toast can restore it
+  const handleDeleteCreation = async (id: string) => {
+    try {
+      const creation = await loadCreation(id);
+      await deleteCreation(id);
+      setHistory(prev => prev.filter(c => c.id !== id));
+      if (creation) setDeletedCreation(creation);
+    } catch (e) {
+      console.error("Failed to delete creation", e);
+      alert(t('archive.deleteFailed'));
+    } finally {
+      refreshStorageUsage();
+    }
+  };
+
+  const handleUndoDelete = async () => {
+    if (!deletedCreation) return;
+    setDeletedCreation(null);
+    await persistCreation(deletedCreation);
   };
 
+  // Capture missing or outdated thumbnails in the background, one creation at a time
+  useEffect(() => {
+    if (capturingId) return;
+    const next = history.find(item => needsThumbnail(item) && !failedThumbnailsRef.current.has(item.id));
+    if (!next) return;
+    setCapturingId(next.id);
+    (async () => {
+      try {
+        const creation = await loadCreation(next.id);
+        if (!creation) throw new Error(`Creation ${next.id} not found`);
+        await applyMeta(next.id, await createThumbnails(creation));
+      } catch (e) {
+        console.warn("Thumbnail capture failed", e);
+        failedThumbnailsRef.current.add(next.id);
+      } finally {
+        setCapturingId(null);
+      }
+    })();
+  }, [history, capturingId]);
+
   const handleImportClick = () => {
     importInputRef.current?.click();
   };
 
-  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Reset input so the same file can be picked again
+    if (importInputRef.current) importInputRef.current.value = '';
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-        try {
-            const json = event.target?.result as string;
-            const parsed = JSON.parse(json);
-            
-            // Basic validation
-            if (parsed.html && parsed.name) {
-                const importedCreation: Creation = {
-                    ...parsed,
-                    timestamp: new Date(parsed.timestamp || Date.now()),
-                    id: parsed.id || crypto.randomUUID()
-                };
-                
-                // Add to history if not already there (by ID check)
-                setHistory(prev => {
-                    const exists = prev.some(c => c.id === importedCreation.id);
-                    return exists ? prev : [importedCreation, ...prev];
-                });
-
-                // Set as active immediately
-                setActiveCreation(importedCreation);
-            } else {
-                alert(lang === 'ar' ? "صيغة الملف غير صحيحة." : "Invalid creation file format.");
-            }
-        } catch (err) {
-            console.error("Import error", err);
-            alert(lang === 'ar' ? "فشل استيراد الملف." : "Failed to import creation.");
-        }
-        // Reset input
-        if (importInputRef.current) importInputRef.current.value = '';
-    };
-    reader.readAsText(file);
+    try {
+      const archive = readArchive(await file.text());
+      const [single] = archive.entries;
+      // A single clean artifact opens straight away, as before archive files existed
+      if (archive.entries.length === 1 && archive.rejected.length === 0 && !history.some(c => c.id === single.creation.id)) {
+        await persistCreation(single.creation);
+        setShowArchive(false);
+        setActiveCreation(single.creation);
+      } else {
+        setPendingImport({ fileName: file.name, archive });
+      }
+    } catch (err) {
+      console.error("Import error", err);
+      alert(t(err instanceof ArchiveFileError ? ARCHIVE_FILE_ERRORS[err.kind] : 'app.importFailed'));
+    }
+  };
+
+  const handleConfirmImport = async (policy: CollisionPolicy): Promise<ImportReport> => {
+    const { archive } = pendingImport!;
+    const { save, skipped } = planImport(archive.entries, history.map(c => c.id), policy);
+    const report: ImportReport = { added: 0, overwritten: 0, duplicated: 0, skipped, rejected: [...archive.rejected] };
+    const saved: CreationSummary[] = [];
+
+    for (const { index, creation, outcome } of save) {
+      try {
+        saved.push(await saveCreation(creation));
+        report[outcome]++;
+      } catch (e) {
+        console.error("Failed to save imported creation", e);
+        report.rejected.push({ index, name: creation.name, reason: 'saveFailed' });
+      }
+    }
+    report.rejected.sort((a, b) => a.index - b.index);
+
+    setHistory(prev => [...saved, ...prev.filter(c => !saved.some(s => s.id === c.id))]
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+    refreshStorageUsage();
+    return report;
   };
 
-  const isFocused = !!activeCreation || isGenerating;
-  const isAr = lang === 'ar';
+  const handleExportArchive = async (ids: string[]) => {
+    try {
+      const creations = (await Promise.all(ids.map(loadCreation))).filter((c): c is Creation => c !== null);
+      downloadBlob(new Blob([exportArchive(creations)], { type: 'application/json' }), `creations-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (e) {
+      console.error("Archive export failed", e);
+      alert(t('backup.exportFailed'));
+    }
+  };
+
+  const isFocused = !!activeCreation || isGenerating || !!variantBatch;
 
   return (
     <div className={`h-[100dvh] bg-zinc-50 dark:bg-zinc-950 bg-dot-grid text-zinc-900 dark:text-zinc-50 selection:bg-blue-500/30 overflow-y-auto overflow-x-hidden relative flex flex-col transition-colors duration-300`}>
       
-      {/* Top Right Controls: Theme, Lang, Download */}
+      {/* Top Right Controls: Provider, Lang, Theme */}
       <div className={`fixed top-4 right-4 left-4 sm:left-auto z-50 flex justify-end transition-all duration-700 ${isFocused ? 'opacity-0 -translate-y-4 pointer-events-none' : 'opacity-100 translate-y-0'}`}>
         <div className="flex items-center space-x-2 rtl:space-x-reverse bg-white/80 dark:bg-zinc-900/80 p-1.5 rounded-full border border-zinc-200 dark:border-zinc-800 shadow-sm backdrop-blur-sm">
-            {/* Download APK Button */}
+            {/* Examples */}
             <button
-                onClick={handleDownloadApk}
-                className="p-2 rounded-full text-zinc-600 dark:text-zinc-400 hover:text-green-600 dark:hover:text-green-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
-                title={isAr ? "تحميل التطبيق (APK)" : "Download APK"}
+                onClick={() => setShowExamples(true)}
+                className="p-2 rounded-full text-zinc-600 dark:text-zinc-400 hover:text-blue-500 dark:hover:text-blue-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                title={t('examples.title')}
             >
-                <DevicePhoneMobileIcon className="w-5 h-5" />
+                <LightBulbIcon className="w-5 h-5" />
             </button>
 
             <div className="w-px h-4 bg-zinc-300 dark:bg-zinc-700"></div>
 
-            {/* Language Toggle */}
+            {/* Model Provider */}
             <button
-                onClick={toggleLang}
-                className="p-2 px-3 rounded-full text-xs font-bold font-mono text-zinc-600 dark:text-zinc-400 hover:text-blue-500 dark:hover:text-blue-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
-                title={isAr ? "Switch to English" : "تغيير اللغة للعربية"}
+                onClick={() => setShowProviderSettings(true)}
+                className="p-2 rounded-full text-zinc-600 dark:text-zinc-400 hover:text-purple-500 dark:hover:text-purple-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                title={t('app.modelProvider')}
             >
-                {lang === 'en' ? 'AR' : 'EN'}
+                <CpuChipIcon className="w-5 h-5" />
             </button>
 
             <div className="w-px h-4 bg-zinc-300 dark:bg-zinc-700"></div>
 
+            {/* Language */}
+            <LanguagePicker lang={lang} onChange={setLang} />
+
+            <div className="w-px h-4 bg-zinc-300 dark:bg-zinc-700"></div>
+
             {/* Theme Toggle */}
             <button
                 onClick={toggleTheme}
                 className="p-2 rounded-full text-zinc-600 dark:text-zinc-400 hover:text-yellow-500 dark:hover:text-yellow-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
-                title={isDarkMode ? (isAr ? "الوضع النهاري" : "Light Mode") : (isAr ? "الوضع الليلي" : "Dark Mode")}
+                title={isDarkMode ? t('app.lightMode') : t('app.darkMode')}
             >
                 {isDarkMode ? (
                     <SunIcon className="w-5 h-5" />
@@ -331,7 +722,20 @@ const App: React.FC = () => {
 
           {/* 2. Input Section */}
           <div className="w-full flex justify-center mb-8">
-              <InputArea onGenerate={handleGenerate} isGenerating={isGenerating} disabled={isFocused} lang={lang} />
+              <InputArea
+                onGenerate={handleGenerate}
+                isGenerating={isGenerating}
+                disabled={isFocused}
+                lang={lang}
+                initialSketch={sketchToEdit}
+                onSketchOpened={() => setSketchToEdit(null)}
+                modes={modes}
+                modeId={findMode(modes, modeId).id}
+                onModeChange={handleModeChange}
+                onManageModes={() => setShowModeEditor(true)}
+                variantSpecs={variantSpecs}
+                onVariantSpecsChange={setVariantSpecs}
+              />
           </div>
 
         </div>
@@ -339,7 +743,7 @@ const App: React.FC = () => {
         {/* 3. History Section & Footer - Stays at bottom */}
         <div className="flex-shrink-0 pb-6 w-full mt-auto flex flex-col items-center gap-6">
             <div className="w-full px-2 md:px-0">
-                <CreationHistory history={history} onSelect={handleSelectCreation} lang={lang} />
+                <CreationHistory history={history} onSelect={handleSelectCreation} onViewAll={() => setShowArchive(true)} storageUsage={storageUsage} lang={lang} />
             </div>
             
             <a 
@@ -358,17 +762,96 @@ const App: React.FC = () => {
         creation={activeCreation}
         isLoading={isGenerating}
         isFocused={isFocused}
+        isRefining={isRefining}
+        progress={progress}
         onReset={handleReset}
+        onCancel={handleCancel}
+        variants={variantBatch?.runs ?? null}
+        onKeepVariants={handleKeepVariants}
+        onCancelVariant={handleCancelVariant}
+        onRefine={handleRefine}
+        onCheckoutRevision={handleCheckoutRevision}
+        onSaveEdit={handleSaveEdit}
+        onUpdateSandbox={handleUpdateSandbox}
+        onEditSketch={handleEditSketch}
+        onUpdateViewport={handleUpdateViewport}
+        readOnly={!!activeCreation && activeCreation.id === sharedId}
+        onAddToArchive={handleAddShared}
+        lang={lang}
       />
 
+      {showProviderSettings && (
+        <ProviderSettingsDialog
+          settings={providerSettings}
+          onSave={handleSaveProviderSettings}
+          onClose={() => setShowProviderSettings(false)}
+          lang={lang}
+        />
+      )}
+
+      {showModeEditor && (
+        <ModeEditorDialog
+          customModes={customModes}
+          initialModeId={modeId}
+          onChange={handleCustomModesChange}
+          onClose={() => setShowModeEditor(false)}
+          lang={lang}
+        />
+      )}
+
+      {showArchive && (
+        <ArchiveDialog
+          history={history}
+          onOpen={handleOpenFromArchive}
+          onUpdate={handleUpdateMeta}
+          onDelete={handleDeleteCreation}
+          onExport={handleExportArchive}
+          onImport={handleImportClick}
+          onClose={() => setShowArchive(false)}
+          lang={lang}
+        />
+      )}
+
+      {showExamples && (
+        <ExamplesDialog
+          existingIds={history.map(c => c.id)}
+          onTry={handleTryExample}
+          onRemix={handleRemixExample}
+          onAddAll={handleAddExamples}
+          onClose={() => setShowExamples(false)}
+          lang={lang}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          archive={pendingImport.archive}
+          existingIds={history.map(c => c.id)}
+          onImport={handleConfirmImport}
+          onClose={() => setPendingImport(null)}
+          lang={lang}
+        />
+      )}
+
+      {deletedCreation && (
+        <UndoToast
+          key={deletedCreation.id}
+          message={t('archive.deleted', { name: deletedCreation.name })}
+          onUndo={handleUndoDelete}
+          onDismiss={() => setDeletedCreation(null)}
+          lang={lang}
+        />
+      )}
+
       {/* Subtle Import Button (Bottom Right) */}
       <div className="fixed bottom-4 right-4 rtl:right-auto rtl:left-4 z-50">
         <button 
             onClick={handleImportClick}
             className="flex items-center space-x-2 rtl:space-x-reverse p-2 text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-300 transition-colors opacity-60 hover:opacity-100"
-            title={isAr ? "استيراد ملف" : "Import Artifact"}
+            title={t('app.importArtifact')}
         >
-            <span className="text-xs font-medium uppercase tracking-wider hidden sm:inline">{isAr ? "رفع ملف سابق" : "Upload previous artifact"}</span>
+            <span className="text-xs font-medium uppercase tracking-wider hidden sm:inline">{t('app.uploadPreviousArtifact')}</span>
             <ArrowUpTrayIcon className="w-5 h-5" />
         </button>
         <input 
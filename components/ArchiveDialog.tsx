@@ -0,0 +1,366 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowTopRightOnSquareIcon, ArrowUpTrayIcon, DocumentIcon, DocumentTextIcon, MagnifyingGlassIcon, PencilSquareIcon, PhotoIcon, PlusIcon, StarIcon, TableCellsIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CreationSummary } from './CreationHistory';
+import { CreationMeta } from '../services/creationStore';
+import { addTag, allTags, ArchiveFilters, ArchiveSort, DateRange, DEFAULT_FILTERS, filterCreations, inputKind, InputKind } from '../services/archive';
+import { Locale, MessageKey, Translate, formatDateTime, formatNumber, translator } from '../services/i18n';
+
+interface ArchiveDialogProps {
+  history: CreationSummary[];
+  onOpen: (creation: CreationSummary) => void;
+  onUpdate: (id: string, patch: CreationMeta) => void;
+  onDelete: (id: string) => void; // App keeps the deleted creation around for undo
+  onExport: (ids: string[]) => void;
+  onImport: () => void;
+  onClose: () => void;
+  lang: Locale;
+}
+
+const KIND_LABELS: Record<InputKind | 'any', MessageKey> = {
+  any: 'archive.kindAny',
+  image: 'archive.kindImage',
+  pdf: 'archive.kindPdf',
+  document: 'archive.kindDocument',
+  text: 'archive.kindText',
+};
+
+const DATE_LABELS: Record<DateRange, MessageKey> = {
+  any: 'archive.dateAny',
+  today: 'archive.dateToday',
+  week: 'archive.dateWeek',
+  month: 'archive.dateMonth',
+};
+
+const SORT_LABELS: Record<ArchiveSort, MessageKey> = {
+  newest: 'archive.sortNewest',
+  oldest: 'archive.sortOldest',
+  nameAsc: 'archive.sortNameAsc',
+  nameDesc: 'archive.sortNameDesc',
+};
+
+const KIND_ICONS: Record<InputKind, React.ComponentType<{ className?: string }>> = {
+  image: PhotoIcon,
+  pdf: DocumentIcon,
+  document: TableCellsIcon,
+  text: DocumentTextIcon,
+};
+
+const selectClass = "bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-2 py-1.5 text-xs text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors";
+
+const toolButtonClass = "flex items-center space-x-1 rtl:space-x-reverse px-2 py-1 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors";
+
+const iconButtonClass = "p-1 rounded text-zinc-400 hover:text-zinc-800 dark:hover:text-zinc-100 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors";
+
+interface ArchiveCardProps {
+  item: CreationSummary;
+  selected: boolean;
+  onToggleSelect: () => void;
+  onOpen: () => void;
+  onUpdate: (patch: CreationMeta) => void;
+  onDelete: () => void;
+  onTagClick: (tag: string) => void;
+  lang: Locale;
+  t: Translate;
+}
+
+const ArchiveCard = ({ item, selected, onToggleSelect, onOpen, onUpdate, onDelete, onTagClick, lang, t }: ArchiveCardProps) => {
+  const [renaming, setRenaming] = useState(false);
+  const [name, setName] = useState(item.name);
+  const [tagDraft, setTagDraft] = useState<string | null>(null);
+  const closedRef = useRef(false); // Closing an inline editor unmounts its input, which may still fire blur
+  const KindIcon = KIND_ICONS[inputKind(item)];
+
+  const startRename = () => {
+    closedRef.current = false;
+    setRenaming(true);
+  };
+
+  const startTag = () => {
+    closedRef.current = false;
+    setTagDraft('');
+  };
+
+  const commitRename = () => {
+    if (closedRef.current) return;
+    const clean = name.trim();
+    if (clean && clean !== item.name) onUpdate({ name: clean });
+    else setName(item.name);
+    closedRef.current = true;
+    setRenaming(false);
+  };
+
+  const commitTag = () => {
+    if (tagDraft !== null && !closedRef.current) {
+      const tags = addTag(item.tags, tagDraft);
+      if (tags.length !== (item.tags?.length ?? 0)) onUpdate({ tags });
+    }
+    closedRef.current = true;
+    setTagDraft(null);
+  };
+
+  return (
+    <div className={`group flex flex-col p-3 rounded-lg bg-white dark:bg-zinc-900/50 border transition-colors ${selected ? 'border-blue-500 ring-2 ring-blue-500/30' : 'border-zinc-200 dark:border-zinc-800 hover:border-zinc-300 dark:hover:border-zinc-600'}`}>
+      {item.thumbnail && (
+        <button onClick={onOpen} title={t('archive.open')} className="-mx-3 -mt-3 mb-3 block aspect-[16/10] overflow-hidden rounded-t-lg border-b border-zinc-200 dark:border-zinc-800 bg-zinc-100 dark:bg-zinc-900">
+          <img src={item.thumbnail} alt="" loading="lazy" className="w-full h-full object-cover object-top" />
+        </button>
+      )}
+      <div className="flex items-start space-x-2 rtl:space-x-reverse">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={onToggleSelect}
+          aria-label={t('archive.select')}
+          className="mt-2 shrink-0 accent-blue-500"
+        />
+        <div className="p-1.5 shrink-0 bg-zinc-100 dark:bg-zinc-800 rounded border border-zinc-200 dark:border-zinc-700/50">
+          <KindIcon className="w-4 h-4 text-zinc-400" />
+        </div>
+        <div className="flex-1 min-w-0">
+          {renaming ? (
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') {
+                  closedRef.current = true;
+                  setName(item.name);
+                  setRenaming(false);
+                }
+              }}
+              aria-label={t('archive.rename')}
+              className="w-full bg-zinc-50 dark:bg-zinc-900 border border-blue-500 rounded px-1.5 py-0.5 text-sm text-zinc-900 dark:text-zinc-100 focus:outline-none"
+            />
+          ) : (
+            <h3
+              onDoubleClick={startRename}
+              title={item.name}
+              className="text-sm font-medium text-zinc-800 dark:text-zinc-200 truncate"
+            >
+              {item.name}
+            </h3>
+          )}
+          <span className="text-[10px] font-mono text-zinc-500">
+            {formatDateTime(lang, item.timestamp, { dateStyle: 'medium', timeStyle: 'short' })}
+          </span>
+        </div>
+        <button
+          onClick={() => onUpdate({ pinned: !item.pinned })}
+          title={item.pinned ? t('archive.unpin') : t('archive.pin')}
+          aria-pressed={!!item.pinned}
+          className={`${iconButtonClass} ${item.pinned ? 'text-amber-500 dark:text-amber-400' : ''}`}
+        >
+          <StarIcon className={`w-4 h-4 ${item.pinned ? 'fill-current' : ''}`} />
+        </button>
+      </div>
+
+      {item.prompt && (
+        <p className="mt-2 text-xs text-zinc-500 line-clamp-2" title={item.prompt}>{item.prompt}</p>
+      )}
+
+      <div className="mt-2 flex flex-wrap items-center gap-1">
+        {item.tags?.map(tag => (
+          <span key={tag} className="flex items-center rounded-full bg-zinc-100 dark:bg-zinc-800 text-[10px] text-zinc-600 dark:text-zinc-300">
+            <button onClick={() => onTagClick(tag)} className="ps-2 pe-1 py-0.5 hover:text-blue-500">#{tag}</button>
+            <button
+              onClick={() => onUpdate({ tags: item.tags!.filter(other => other !== tag) })}
+              title={t('archive.removeTag', { tag })}
+              className="pe-1.5 text-zinc-400 hover:text-red-500"
+            >
+              <XMarkIcon className="w-2.5 h-2.5" />
+            </button>
+          </span>
+        ))}
+        {tagDraft !== null ? (
+          <input
+            autoFocus
+            value={tagDraft}
+            onChange={(e) => setTagDraft(e.target.value)}
+            onBlur={commitTag}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitTag();
+              if (e.key === 'Escape') {
+                closedRef.current = true;
+                setTagDraft(null);
+              }
+            }}
+            placeholder={t('archive.tagPlaceholder')}
+            className="w-24 bg-zinc-50 dark:bg-zinc-900 border border-blue-500 rounded-full px-2 py-0.5 text-[10px] text-zinc-900 dark:text-zinc-100 focus:outline-none"
+          />
+        ) : (
+          <button
+            onClick={startTag}
+            className="flex items-center space-x-0.5 rtl:space-x-reverse px-1.5 py-0.5 rounded-full text-[10px] text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200 border border-dashed border-zinc-300 dark:border-zinc-700"
+          >
+            <PlusIcon className="w-2.5 h-2.5" />
+            <span>{t('archive.addTag')}</span>
+          </button>
+        )}
+      </div>
+
+      <div className="mt-auto pt-3 flex items-center justify-end space-x-1 rtl:space-x-reverse">
+        <button onClick={startRename} title={t('archive.rename')} className={iconButtonClass}>
+          <PencilSquareIcon className="w-4 h-4" />
+        </button>
+        <button onClick={onDelete} title={t('archive.delete')} className={`${iconButtonClass} hover:text-red-500 dark:hover:text-red-400`}>
+          <TrashIcon className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onOpen}
+          className="flex items-center space-x-1 rtl:space-x-reverse px-2 py-1 rounded-md text-xs font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
+        >
+          <ArrowTopRightOnSquareIcon className="w-3.5 h-3.5" />
+          <span>{t('archive.open')}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const ArchiveDialog: React.FC<ArchiveDialogProps> = ({ history, onOpen, onUpdate, onDelete, onExport, onImport, onClose, lang }) => {
+  const t = translator(lang);
+  const [filters, setFilters] = useState<ArchiveFilters>(DEFAULT_FILTERS);
+  const [selected, setSelected] = useState<string[]>([]);
+  const tags = useMemo(() => allTags(history), [history]);
+  const results = useMemo(() => filterCreations(history, filters, lang), [history, filters, lang]);
+  const isFiltered = JSON.stringify({ ...filters, sort: DEFAULT_FILTERS.sort }) !== JSON.stringify(DEFAULT_FILTERS);
+
+  const update = (patch: Partial<ArchiveFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-5xl h-[90vh] flex flex-col bg-white dark:bg-[#0E0E10] border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+      >
+        <div className="px-5 py-4 flex items-center justify-between border-b border-zinc-200 dark:border-zinc-800">
+          <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-100">
+            {t('history.title')}
+            <span className="ms-2 text-xs font-mono font-normal text-zinc-500">{formatNumber(lang, history.length)}</span>
+          </h2>
+          <div className="flex items-center space-x-1 rtl:space-x-reverse">
+            <button onClick={onImport} className={toolButtonClass}>
+              <ArrowUpTrayIcon className="w-3.5 h-3.5" />
+              <span>{t('backup.import')}</span>
+            </button>
+            <button
+              onClick={() => onExport(selected.length > 0 ? selected : history.map(item => item.id))}
+              disabled={history.length === 0}
+              className={`${toolButtonClass} disabled:opacity-40 disabled:cursor-not-allowed`}
+            >
+              <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+              <span>{selected.length > 0 ? t('backup.exportSelected', { count: selected.length }) : t('backup.exportAll')}</span>
+            </button>
+            <button onClick={onClose} title={t('common.close')} className="p-1 rounded-md text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-5 py-3 space-y-2 border-b border-zinc-200 dark:border-zinc-800">
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-[12rem]">
+              <MagnifyingGlassIcon className="absolute top-1/2 -translate-y-1/2 start-2.5 w-4 h-4 text-zinc-400 pointer-events-none" />
+              <input
+                type="search"
+                autoFocus
+                value={filters.query}
+                onChange={(e) => update({ query: e.target.value })}
+                placeholder={t('archive.search')}
+                className="w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md ps-8 pe-3 py-1.5 text-sm text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors"
+              />
+            </div>
+            <select value={filters.kind} onChange={(e) => update({ kind: e.target.value as ArchiveFilters['kind'] })} title={t('archive.kind')} className={selectClass}>
+              {(Object.keys(KIND_LABELS) as (keyof typeof KIND_LABELS)[]).map(kind => (
+                <option key={kind} value={kind}>{t(KIND_LABELS[kind])}</option>
+              ))}
+            </select>
+            <select value={filters.date} onChange={(e) => update({ date: e.target.value as DateRange })} title={t('archive.date')} className={selectClass}>
+              {(Object.keys(DATE_LABELS) as DateRange[]).map(range => (
+                <option key={range} value={range}>{t(DATE_LABELS[range])}</option>
+              ))}
+            </select>
+            <select value={filters.sort} onChange={(e) => update({ sort: e.target.value as ArchiveSort })} title={t('archive.sort')} className={selectClass}>
+              {(Object.keys(SORT_LABELS) as ArchiveSort[]).map(sort => (
+                <option key={sort} value={sort}>{t(SORT_LABELS[sort])}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => update({ pinnedOnly: !filters.pinnedOnly })}
+              aria-pressed={filters.pinnedOnly}
+              className={`flex items-center space-x-1 rtl:space-x-reverse px-2 py-1.5 rounded-md text-xs font-medium border transition-colors ${filters.pinnedOnly ? 'border-amber-500/50 bg-amber-500/10 text-amber-600 dark:text-amber-400' : 'border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+            >
+              <StarIcon className={`w-3.5 h-3.5 ${filters.pinnedOnly ? 'fill-current' : ''}`} />
+              <span>{t('archive.pinnedOnly')}</span>
+            </button>
+          </div>
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              {tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => update({ tag: filters.tag === tag ? null : tag })}
+                  aria-pressed={filters.tag === tag}
+                  className={`px-2 py-0.5 rounded-full text-[10px] transition-colors ${filters.tag === tag ? 'bg-blue-500 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:text-blue-500'}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-5">
+          {results.length > 0 ? (
+            <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+              {results.map(item => (
+                <ArchiveCard
+                  key={item.id}
+                  item={item}
+                  selected={selected.includes(item.id)}
+                  onToggleSelect={() => toggleSelected(item.id)}
+                  onOpen={() => onOpen(item)}
+                  onUpdate={(patch) => onUpdate(item.id, patch)}
+                  onDelete={() => onDelete(item.id)}
+                  onTagClick={(tag) => update({ tag })}
+                  lang={lang}
+                  t={t}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="h-full flex flex-col items-center justify-center space-y-3 text-center">
+              <p className="text-sm text-zinc-500">{history.length === 0 ? t('archive.empty') : t('archive.noMatches')}</p>
+              {isFiltered && (
+                <button
+                  onClick={() => setFilters({ ...DEFAULT_FILTERS, sort: filters.sort })}
+                  className="px-3 py-1.5 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                >
+                  {t('archive.clearFilters')}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-2 border-t border-zinc-200 dark:border-zinc-800 text-[11px] font-mono text-zinc-500">
+          {t('archive.showing', { count: results.length, total: history.length })}
+        </div>
+      </div>
+    </div>
+  );
+};
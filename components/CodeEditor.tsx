@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useRef } from 'react';
+import { highlightHtml } from '../services/highlight';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSave?: () => void;
+}
+
+const INDENT = '  ';
+
+// Shared metrics so the transparent textarea lines up exactly with the highlighted layer
+const layerClass = "absolute inset-0 m-0 p-4 font-mono text-[12px] leading-5 whitespace-pre overflow-auto tab-size-2";
+
+export const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, onSave }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  // Trailing newline keeps the last line visible when the textarea ends with one
+  const highlighted = useMemo(() => highlightHtml(value) + '\n', [value]);
+  const lineCount = useMemo(() => value.split('\n').length, [value]);
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop;
+      highlightRef.current.scrollLeft = textarea.scrollLeft;
+    }
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = textarea.scrollTop;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      onSave?.();
+      return;
+    }
+
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const { selectionStart, selectionEnd } = textarea;
+      const next = value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd);
+      onChange(next);
+      // Restore the caret after React re-renders the controlled value
+      requestAnimationFrame(() => {
+        textarea.selectionStart = textarea.selectionEnd = selectionStart + INDENT.length;
+      });
+    }
+  };
+
+  return (
+    <div className="relative w-full h-full flex bg-zinc-50 dark:bg-[#0c0c0e] code-editor" dir="ltr">
+      <div
+        ref={gutterRef}
+        className="shrink-0 overflow-hidden py-4 pl-3 pr-2 text-right font-mono text-[12px] leading-5 text-zinc-400 dark:text-zinc-600 select-none border-r border-zinc-200 dark:border-zinc-800"
+      >
+        {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+      </div>
+      <div className="relative flex-1 min-w-0">
+        <pre
+          ref={highlightRef}
+          aria-hidden="true"
+          className={`${layerClass} pointer-events-none text-zinc-800 dark:text-zinc-300`}
+          dangerouslySetInnerHTML={{ __html: highlighted }}
+        />
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoComplete="off"
+          className={`${layerClass} w-full h-full resize-none bg-transparent text-transparent caret-zinc-900 dark:caret-white focus:outline-none selection:bg-blue-500/30`}
+        />
+      </div>
+      <style>{`
+        .code-editor .tab-size-2 { tab-size: 2; }
+        .code-editor .hl-tag { color: #2563eb; }
+        .code-editor .hl-attr { color: #9333ea; }
+        .code-editor .hl-string { color: #16a34a; }
+        .code-editor .hl-comment { color: #a1a1aa; font-style: italic; }
+        .code-editor .hl-keyword { color: #db2777; }
+        .code-editor .hl-number { color: #ea580c; }
+        .code-editor .hl-punct { color: #71717a; }
+        .dark .code-editor .hl-tag { color: #60a5fa; }
+        .dark .code-editor .hl-attr { color: #c084fc; }
+        .dark .code-editor .hl-string { color: #4ade80; }
+        .dark .code-editor .hl-comment { color: #52525b; }
+        .dark .code-editor .hl-keyword { color: #f472b6; }
+        .dark .code-editor .hl-number { color: #fb923c; }
+        .dark .code-editor .hl-punct { color: #71717a; }
+      `}</style>
+    </div>
+  );
+};
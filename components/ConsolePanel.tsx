@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronUpIcon, ChevronDownIcon, CommandLineIcon, TrashIcon, WrenchScrewdriverIcon } from '@heroicons/react/24/outline';
+import { ConsoleEntry, ConsoleLevel } from '../services/consoleBridge';
+import { Locale, formatDateTime, translator } from '../services/i18n';
+
+interface ConsolePanelProps {
+  entries: ConsoleEntry[];
+  isFixing: boolean;
+  onClear: () => void;
+  onFixErrors?: () => void; // Omitted where the creation cannot be refined
+  lang: Locale;
+}
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+  log: 'text-zinc-700 dark:text-zinc-300',
+  info: 'text-blue-600 dark:text-blue-400',
+  debug: 'text-zinc-400 dark:text-zinc-500',
+  warn: 'text-amber-700 dark:text-amber-400 bg-amber-500/5',
+  error: 'text-red-600 dark:text-red-400 bg-red-500/5',
+};
+
+export const ConsolePanel: React.FC<ConsolePanelProps> = ({ entries, isFixing, onClear, onFixErrors, lang }) => {
+  const t = translator(lang);
+  const [expanded, setExpanded] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+  const errors = entries.filter(entry => entry.level === 'error').length;
+  const warnings = entries.filter(entry => entry.level === 'warn').length;
+
+  // Open automatically the first time something goes wrong
+  useEffect(() => {
+    if (errors > 0) setExpanded(true);
+  }, [errors > 0]);
+
+  useEffect(() => {
+    if (expanded && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [entries.length, expanded]);
+
+  return (
+    <div className="shrink-0 border-t border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-[#0c0c0e] text-zinc-600 dark:text-zinc-400">
+      <div className="flex items-center justify-between px-3 py-1.5">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center space-x-2 text-[10px] font-mono uppercase tracking-wider hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+        >
+          <CommandLineIcon className="w-3.5 h-3.5" />
+          <span>{t('console.title')}</span>
+          {errors > 0 && <span className="px-1.5 rounded bg-red-500/10 text-red-500 tabular-nums">{errors}</span>}
+          {warnings > 0 && <span className="px-1.5 rounded bg-amber-500/10 text-amber-500 tabular-nums">{warnings}</span>}
+          {expanded ? <ChevronDownIcon className="w-3 h-3" /> : <ChevronUpIcon className="w-3 h-3" />}
+        </button>
+
+        <div className="flex items-center space-x-1">
+          {errors > 0 && onFixErrors && (
+            <button
+              onClick={onFixErrors}
+              disabled={isFixing}
+              title={t('console.fixTitle')}
+              className="flex items-center space-x-1 px-2 py-0.5 rounded text-[10px] font-bold bg-red-500 hover:bg-red-600 text-white disabled:opacity-50 transition-colors"
+            >
+              <WrenchScrewdriverIcon className="w-3 h-3" />
+              <span>{isFixing ? t('console.fixing') : t('console.fix')}</span>
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            disabled={entries.length === 0}
+            title={t('console.clear')}
+            className="p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-800 disabled:opacity-30 transition-colors"
+          >
+            <TrashIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div ref={listRef} className="max-h-48 overflow-y-auto border-t border-zinc-200 dark:border-zinc-800 font-mono text-[11px]">
+          {entries.length === 0 ? (
+            <p className="px-3 py-2 text-zinc-400">{t('console.empty')}</p>
+          ) : entries.map(entry => (
+            <div key={entry.id} className={`px-3 py-1 border-b border-zinc-100 dark:border-zinc-900 ${LEVEL_STYLES[entry.level]}`}>
+              <div className="flex items-start space-x-2">
+                <span className="text-zinc-400 shrink-0 tabular-nums">{formatDateTime(lang, entry.timestamp, { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false })}</span>
+                <span className="whitespace-pre-wrap break-all">{entry.message}</span>
+              </div>
+              {entry.stack && !entry.message.includes(entry.stack) && (
+                <pre className="ml-16 mt-0.5 text-[10px] opacity-70 whitespace-pre-wrap break-all">{entry.stack}</pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,57 +3,159 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { ClockIcon, ArrowRightIcon, ArrowLeftIcon, DocumentIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import { ClockIcon, ArrowRightIcon, ArrowLeftIcon, DocumentIcon, PhotoIcon, CircleStackIcon, Squares2X2Icon, StarIcon } from '@heroicons/react/24/outline';
+import { StorageUsage } from '../services/creationStore';
+import { ValidationReport } from '../services/validation';
+import { SandboxPermissions } from '../services/sandbox';
+import { Sketch } from '../services/sketch';
+import { Viewport } from '../services/viewport';
+import { formatBytes } from './GenerationMonitor';
+import { Locale, formatDateTime, localeInfo, translator } from '../services/i18n';
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: Date;
+  revisionId?: string; // Revision produced by this turn (model turns only)
+}
+
+export type RevisionSource = 'generate' | 'refine' | 'edit';
+
+export interface Revision {
+  id: string;
+  parentId?: string; // Absent on the root revision
+  html: string;
+  source: RevisionSource;
+  note?: string; // e.g. the refinement instruction
+  timestamp: Date;
+  validation?: ValidationReport; // Output checks run when the revision was generated
+}
+
+export interface CreationInput {
+  name: string;
+  mimeType: string;
+  dataUrl: string; // Base64 data URL
+  pages?: number[]; // PDF pages sent to the model; all when absent
+  sketch?: Sketch; // Editable vector source of a drawn input
+}
 
 export interface Creation {
   id: string;
   name: string;
   html: string;
-  originalImage?: string; // Base64 data URL
+  inputs?: CreationInput[]; // Files the creation was generated from, in upload order
   timestamp: Date;
+  conversation?: ChatTurn[]; // Follow-up refinement turns, oldest first
+  revisions?: Revision[]; // Tree of versions; `html` mirrors the current one
+  currentRevisionId?: string;
+  sandbox?: SandboxPermissions; // What the running app may do; defaults when absent
+  mode?: string; // Generation mode id; refinements reuse its instructions
+  prompt?: string; // Text prompt the creation was generated from, for search
+  pinned?: boolean;
+  tags?: string[];
+  thumbnail?: string; // Small JPEG data URL of the rendered app, shown on history cards
+  thumbnailRevisionId?: string; // Revision the thumbnail was captured from
+  inputPreview?: string; // Downscaled first input image, shown when hovering a card
+  viewport?: Viewport; // Last preview size used; fills the panel when absent
 }
 
+// Metadata kept in memory for the archive; HTML, revisions and input are loaded on selection
+export type CreationSummary = Omit<Creation, 'html' | 'inputs' | 'revisions'> & {
+  inputMimeTypes?: string[];
+};
+
 interface CreationHistoryProps {
-  history: Creation[];
-  onSelect: (creation: Creation) => void;
-  lang?: 'en' | 'ar';
+  history: CreationSummary[];
+  onSelect: (creation: CreationSummary) => void;
+  onViewAll?: () => void; // Opens the full archive with search and filters
+  storageUsage?: StorageUsage | null;
+  lang?: Locale;
 }
 
-export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect, lang = 'en' }) => {
+export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect, onViewAll, storageUsage, lang = 'en' }) => {
   if (history.length === 0) return null;
-  const isAr = lang === 'ar';
+  const t = translator(lang);
+  const isRtl = localeInfo(lang).dir === 'rtl';
+  // Pinned creations lead the strip; the rest keep their newest-first order
+  const ordered = [...history].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned));
 
   return (
     <div className="w-full animate-in fade-in slide-in-from-bottom-8 duration-700">
       <div className="flex items-center space-x-3 mb-3 px-2 rtl:space-x-reverse">
         <ClockIcon className="w-4 h-4 text-zinc-500" />
-        <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-500">{isAr ? "الأرشيف" : "Archive"}</h2>
+        <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-500">{t('history.title')}</h2>
         <div className="h-px flex-1 bg-zinc-200 dark:bg-zinc-800 transition-colors"></div>
+        {storageUsage && storageUsage.quota > 0 && (
+          <div
+            className="flex items-center space-x-2 rtl:space-x-reverse"
+            title={t('history.storageUsed')}
+          >
+            <CircleStackIcon className="w-3.5 h-3.5 text-zinc-500" />
+            <div className="w-16 h-1 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${storageUsage.usage / storageUsage.quota > 0.8 ? 'bg-red-500' : 'bg-zinc-400 dark:bg-zinc-600'}`}
+                style={{ width: `${Math.max(2, Math.min(100, (storageUsage.usage / storageUsage.quota) * 100))}%` }}
+              ></div>
+            </div>
+            <span className="text-[10px] font-mono text-zinc-500 tabular-nums">
+              {formatBytes(storageUsage.usage, lang)} / {formatBytes(storageUsage.quota, lang)}
+            </span>
+          </div>
+        )}
+        {onViewAll && (
+          <button
+            onClick={onViewAll}
+            className="flex items-center space-x-1 rtl:space-x-reverse text-[10px] font-bold uppercase tracking-wider text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 transition-colors"
+          >
+            <Squares2X2Icon className="w-3.5 h-3.5" />
+            <span>{t('history.viewAll', { count: history.length })}</span>
+          </button>
+        )}
       </div>
       
       {/* Horizontal Scroll Container for Compact Layout */}
       <div className="flex overflow-x-auto space-x-4 pb-2 px-2 scrollbar-hide rtl:space-x-reverse">
-        {history.map((item) => {
-          const isPdf = item.originalImage?.startsWith('data:application/pdf');
+        {ordered.map((item) => {
+          const firstInput = item.inputMimeTypes?.[0];
+          const isPdf = firstInput === 'application/pdf';
           return (
             <button
               key={item.id}
               onClick={() => onSelect(item)}
               className="group flex-shrink-0 relative flex flex-col text-left rtl:text-right w-44 h-28 bg-white/60 dark:bg-zinc-900/50 hover:bg-white dark:hover:bg-zinc-800 border border-zinc-200 dark:border-zinc-800 hover:border-zinc-300 dark:hover:border-zinc-600 rounded-lg transition-all duration-200 overflow-hidden"
             >
-              <div className="p-4 flex flex-col h-full">
+              {item.thumbnail && (
+                <>
+                  <img src={item.thumbnail} alt="" loading="lazy" className="absolute inset-0 w-full h-full object-cover object-top" />
+                  <div className="absolute inset-0 bg-gradient-to-t from-white via-white/80 to-white/0 dark:from-zinc-900 dark:via-zinc-900/80 dark:to-zinc-900/0"></div>
+                </>
+              )}
+              <div className="relative p-4 flex flex-col h-full">
                 <div className="flex items-start justify-between mb-2 rtl:flex-row-reverse">
-                  <div className="p-1.5 bg-zinc-100 dark:bg-zinc-800 rounded group-hover:bg-zinc-200 dark:group-hover:bg-zinc-700 transition-colors border border-zinc-200 dark:border-zinc-700/50">
+                  <div className="relative p-1.5 bg-zinc-100 dark:bg-zinc-800 rounded group-hover:bg-zinc-200 dark:group-hover:bg-zinc-700 transition-colors border border-zinc-200 dark:border-zinc-700/50">
                       {isPdf ? (
                           <DocumentIcon className="w-4 h-4 text-zinc-400" />
-                      ) : item.originalImage ? (
+                      ) : firstInput ? (
                           <PhotoIcon className="w-4 h-4 text-zinc-400" />
                       ) : (
                           <DocumentIcon className="w-4 h-4 text-zinc-400" />
                       )}
+                      {(item.inputMimeTypes?.length ?? 0) > 1 && (
+                          <span className="absolute -top-1.5 -right-1.5 min-w-[1rem] h-4 px-1 rounded-full bg-blue-500 text-white text-[9px] font-bold flex items-center justify-center tabular-nums">
+                              {item.inputMimeTypes!.length}
+                          </span>
+                      )}
+                      {item.inputPreview && (
+                          <img
+                            src={item.inputPreview}
+                            alt=""
+                            className="absolute top-0 left-0 rtl:left-auto rtl:right-0 max-w-[5rem] max-h-16 rounded border border-zinc-200 dark:border-zinc-700 shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none"
+                          />
+                      )}
                   </div>
-                  <span className="text-[10px] font-mono text-zinc-500 dark:text-zinc-600 group-hover:text-zinc-400">
-                    {item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  <span className={`flex items-center space-x-1 rtl:space-x-reverse text-[10px] font-mono text-zinc-500 dark:text-zinc-600 group-hover:text-zinc-400 ${item.thumbnail ? 'px-1 rounded bg-white/80 dark:bg-zinc-900/80' : ''}`}>
+                    {item.pinned && <StarIcon className="w-3 h-3 text-amber-500 dark:text-amber-400 fill-current" />}
+                    <span>{formatDateTime(lang, item.timestamp, { hour: '2-digit', minute: '2-digit' })}</span>
                   </span>
                 </div>
                 
@@ -62,8 +164,8 @@ export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSel
                     {item.name}
                   </h3>
                   <div className="flex items-center space-x-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity rtl:space-x-reverse">
-                    <span className="text-[10px] text-blue-500 dark:text-blue-400">{isAr ? "استعادة" : "Restore"}</span>
-                    {isAr ? (
+                    <span className="text-[10px] text-blue-500 dark:text-blue-400">{t('history.restore')}</span>
+                    {isRtl ? (
                        <ArrowLeftIcon className="w-3 h-3 text-blue-500 dark:text-blue-400" />
                     ) : (
                        <ArrowRightIcon className="w-3 h-3 text-blue-500 dark:text-blue-400" />
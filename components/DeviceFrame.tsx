@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { BEZEL_PADDING, BezelKind, bezelKind, fitScale, Viewport } from '../services/viewport';
+import { Locale, translator } from '../services/i18n';
+
+interface DeviceFrameProps {
+  viewport: Viewport;
+  children: React.ReactNode; // The preview iframe
+  lang: Locale;
+}
+
+const BEZEL_CLASSES: Record<BezelKind, { frame: string; screen: string }> = {
+  phone: { frame: 'bg-zinc-900 rounded-[3rem] shadow-2xl ring-1 ring-zinc-700', screen: 'rounded-[2.25rem]' },
+  tablet: { frame: 'bg-zinc-900 rounded-[2rem] shadow-2xl ring-1 ring-zinc-700', screen: 'rounded-xl' },
+  screen: { frame: 'bg-zinc-800 rounded-xl shadow-2xl ring-1 ring-zinc-700', screen: 'rounded-sm' },
+};
+
+// Room left around the device inside the stage, in CSS pixels
+const STAGE_PADDING = 24;
+
+/**
+ * Lays the preview out at a fixed viewport size, scaled down to fit when
+ * asked. The element tree is the same in every mode so switching presets
+ * never remounts the iframe and the running app keeps its state.
+ */
+export const DeviceFrame: React.FC<DeviceFrameProps> = ({ viewport, children, lang }) => {
+  const t = translator(lang);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [available, setAvailable] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setAvailable({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, []);
+
+  const fill = viewport.preset === 'fill';
+  const kind = bezelKind(viewport);
+  const padding = viewport.bezel ? BEZEL_PADDING[kind] : 0;
+  const scale = fill ? 1 : fitScale(viewport, available);
+  const outerWidth = viewport.width + padding * 2;
+  const outerHeight = viewport.height + padding * 2;
+
+  return (
+    <div className="relative flex-1 min-h-0 flex flex-col">
+      <div
+        ref={stageRef}
+        className={fill ? 'flex-1 min-h-0 flex flex-col' : 'flex-1 min-h-0 flex overflow-auto bg-zinc-100 dark:bg-[#09090b] transition-colors'}
+        style={fill ? undefined : { padding: STAGE_PADDING }}
+      >
+        <div
+          className={fill ? 'flex-1 min-h-0 flex flex-col' : 'relative shrink-0 m-auto'}
+          style={fill ? undefined : { width: outerWidth * scale, height: outerHeight * scale }}
+        >
+          <div
+            className={fill ? 'flex-1 min-h-0 flex flex-col' : `absolute top-0 left-0 ${viewport.bezel ? BEZEL_CLASSES[kind].frame : 'shadow-xl ring-1 ring-zinc-200 dark:ring-zinc-800'}`}
+            style={fill ? undefined : { width: outerWidth, height: outerHeight, padding, transform: `scale(${scale})`, transformOrigin: 'top left' }}
+          >
+            <div className={`flex flex-col bg-white overflow-hidden ${fill ? 'flex-1 min-h-0' : `w-full h-full ${viewport.bezel ? BEZEL_CLASSES[kind].screen : ''}`}`}>
+              {children}
+            </div>
+          </div>
+        </div>
+      </div>
+      {!fill && (
+        <span className="absolute bottom-1.5 left-1/2 -translate-x-1/2 px-1.5 py-0.5 rounded bg-white/80 dark:bg-black/60 backdrop-blur text-[10px] font-mono tabular-nums text-zinc-500 pointer-events-none" dir="ltr">
+          {t('viewport.size', { width: viewport.width, height: viewport.height, percent: Math.round(scale * 100) })}
+        </span>
+      )}
+    </div>
+  );
+};
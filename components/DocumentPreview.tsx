@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { DocumentIcon } from '@heroicons/react/24/outline';
+import { CreationInput } from './CreationHistory';
+import { parseDocument, ParsedDocument } from '../services/documents';
+import { Locale, formatNumber, translator } from '../services/i18n';
+
+interface DocumentPreviewProps {
+  input: CreationInput;
+  lang: Locale;
+}
+
+// Rendering thousands of table rows makes the split view sluggish
+const MAX_PREVIEW_ROWS = 500;
+
+const formatCell = (value: unknown): string =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+export const DocumentPreview: React.FC<DocumentPreviewProps> = ({ input, lang }) => {
+  const t = translator(lang);
+  const [doc, setDoc] = useState<ParsedDocument | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDoc(null);
+    setError(false);
+    fetch(input.dataUrl)
+      .then(res => res.blob())
+      .then(blob => parseDocument(blob, input.name, input.mimeType))
+      .then(parsed => { if (!cancelled) setDoc(parsed); })
+      .catch(err => {
+        console.error("Error parsing document:", err);
+        if (!cancelled) setError(true);
+      });
+    return () => { cancelled = true; };
+  }, [input.dataUrl, input.name, input.mimeType]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
+        <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
+        <p className="text-sm mb-2 text-red-400/80">{t('document.failed')}</p>
+      </div>
+    );
+  }
+
+  if (!doc) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (doc.kind === 'table') {
+    const rows = doc.records.slice(0, MAX_PREVIEW_ROWS);
+    return (
+      <div className="w-full h-full flex flex-col border border-zinc-200 dark:border-zinc-800 rounded shadow-xl bg-white dark:bg-zinc-950 overflow-hidden">
+        <div className="flex-1 overflow-auto">
+          <table className="min-w-full text-xs font-mono border-collapse">
+            <thead className="sticky top-0 bg-zinc-100 dark:bg-zinc-900">
+              <tr>
+                {doc.columns.map(column => (
+                  <th key={column.name} className="px-3 py-2 text-left font-medium text-zinc-700 dark:text-zinc-300 border-b border-zinc-200 dark:border-zinc-800 whitespace-nowrap">
+                    {column.name}
+                    <span className="ml-1.5 text-[9px] uppercase text-zinc-400">{column.type}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((record, idx) => (
+                <tr key={idx} className="odd:bg-white even:bg-zinc-50 dark:odd:bg-zinc-950 dark:even:bg-zinc-900/50">
+                  {doc.columns.map(column => (
+                    <td
+                      key={column.name}
+                      className={`px-3 py-1.5 border-b border-zinc-100 dark:border-zinc-900 whitespace-nowrap max-w-[16rem] truncate text-zinc-700 dark:text-zinc-300 ${column.type === 'number' ? 'text-right tabular-nums' : ''}`}
+                    >
+                      {formatCell(record[column.name])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="px-3 py-1.5 text-[10px] font-mono text-zinc-500 border-t border-zinc-200 dark:border-zinc-800 shrink-0">
+          {t('document.summary', { rows: doc.records.length, columns: doc.columns.length })}
+          {doc.records.length > MAX_PREVIEW_ROWS && ` · ${t('document.truncated', { count: MAX_PREVIEW_ROWS })}`}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <pre className="w-full h-full overflow-auto p-4 text-xs font-mono whitespace-pre-wrap break-words text-zinc-700 dark:text-zinc-300 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded shadow-xl">
+      {doc.kind === 'json' ? JSON.stringify(doc.value, null, 2) : doc.text}
+    </pre>
+  );
+};
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState } from 'react';
+import { AcademicCapIcon, ArrowPathIcon, ChartBarIcon, CheckIcon, ExclamationTriangleIcon, PlayIcon, PuzzlePieceIcon, SparklesIcon, WrenchScrewdriverIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Example, ExampleCategory, ExamplePackErrorKind, exampleCreationId, loadExamplePacks, loadExampleSources, mergeExamples, parseExampleSources, PackResult, saveExampleSources } from '../services/examples';
+import { Locale, MessageKey, Translate, formatNumber, translator } from '../services/i18n';
+
+interface ExamplesDialogProps {
+  existingIds: string[];
+  onTry: (example: Example) => void;
+  onRemix: (example: Example) => void;
+  onAddAll: (examples: Example[]) => Promise<number>; // Resolves to how many were added
+  onClose: () => void;
+  lang: Locale;
+}
+
+const CATEGORY_LABELS: Record<ExampleCategory | 'all', MessageKey> = {
+  all: 'examples.all',
+  games: 'examples.categoryGames',
+  tools: 'examples.categoryTools',
+  dashboards: 'examples.categoryDashboards',
+  learning: 'examples.categoryLearning',
+  other: 'examples.categoryOther',
+};
+
+const CATEGORY_ICONS: Record<ExampleCategory, React.ComponentType<{ className?: string }>> = {
+  games: PuzzlePieceIcon,
+  tools: WrenchScrewdriverIcon,
+  dashboards: ChartBarIcon,
+  learning: AcademicCapIcon,
+  other: SparklesIcon,
+};
+
+const PACK_ERRORS: Record<ExamplePackErrorKind, MessageKey> = {
+  unreachable: 'examples.packUnreachable',
+  timeout: 'examples.packTimeout',
+  invalid: 'examples.packInvalid',
+};
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+const ExampleCard = ({ example, inArchive, onTry, onRemix, t }: { example: Example, inArchive: boolean, onTry: () => void, onRemix: () => void, t: Translate }) => {
+  const CategoryIcon = CATEGORY_ICONS[example.category];
+  return (
+    <div className="flex flex-col p-3 rounded-lg bg-white dark:bg-zinc-900/50 border border-zinc-200 dark:border-zinc-800 hover:border-zinc-300 dark:hover:border-zinc-600 transition-colors">
+      <div className="flex items-start space-x-2 rtl:space-x-reverse">
+        <div className="p-1.5 shrink-0 bg-zinc-100 dark:bg-zinc-800 rounded border border-zinc-200 dark:border-zinc-700/50">
+          <CategoryIcon className="w-4 h-4 text-zinc-400" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100 truncate">{example.name}</h3>
+          <span className="text-[10px] font-mono text-zinc-500 truncate block">
+            {t(CATEGORY_LABELS[example.category])}
+            {example.source && ` · ${hostOf(example.source)}`}
+          </span>
+        </div>
+        {inArchive && (
+          <span title={t('examples.inArchive')} className="shrink-0 flex items-center space-x-1 rtl:space-x-reverse text-[10px] text-green-600 dark:text-green-400">
+            <CheckIcon className="w-3 h-3" />
+            <span>{t('examples.inArchive')}</span>
+          </span>
+        )}
+      </div>
+      <p className="flex-1 mt-2 text-xs text-zinc-600 dark:text-zinc-400 line-clamp-3">{example.description}</p>
+      <div className="mt-3 flex items-center justify-end space-x-1 rtl:space-x-reverse">
+        <button
+          onClick={onRemix}
+          title={t('examples.remixHint')}
+          className="flex items-center space-x-1 rtl:space-x-reverse px-2 py-1 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+        >
+          <ArrowPathIcon className="w-3.5 h-3.5" />
+          <span>{t('examples.remix')}</span>
+        </button>
+        <button
+          onClick={onTry}
+          className="flex items-center space-x-1 rtl:space-x-reverse px-2 py-1 text-xs font-bold rounded-md bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
+        >
+          <PlayIcon className="w-3.5 h-3.5" />
+          <span>{t('examples.tryThis')}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const ExamplesDialog: React.FC<ExamplesDialogProps> = ({ existingIds, onTry, onRemix, onAddAll, onClose, lang }) => {
+  const t = translator(lang);
+  const [category, setCategory] = useState<ExampleCategory | 'all'>('all');
+  const [sources, setSources] = useState<string[]>(loadExampleSources);
+  const [packs, setPacks] = useState<PackResult[] | null>(null); // null while loading
+  const [sourcesDraft, setSourcesDraft] = useState<string | null>(null); // Open while editing
+  const [added, setAdded] = useState<number | null>(null);
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPacks(null);
+    setAdded(null);
+    loadExamplePacks(sources).then(results => {
+      if (!cancelled) setPacks(results);
+    });
+    return () => { cancelled = true; };
+  }, [sources]);
+
+  const examples = useMemo(() => mergeExamples(packs ?? []), [packs]);
+  const categories = (Object.keys(CATEGORY_LABELS) as (ExampleCategory | 'all')[])
+    .filter(c => c === 'all' || examples.some(e => e.category === c));
+  const visible = category === 'all' ? examples : examples.filter(e => e.category === category);
+  const existing = new Set(existingIds);
+  const missing = examples.filter(e => !existing.has(exampleCreationId(e)));
+
+  const handleSaveSources = () => {
+    const urls = parseExampleSources(sourcesDraft ?? '');
+    saveExampleSources(urls);
+    setSources(urls);
+    setSourcesDraft(null);
+  };
+
+  const handleAddAll = async () => {
+    setAdding(true);
+    try {
+      setAdded(await onAddAll(missing));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-4xl h-[85vh] flex flex-col bg-white dark:bg-[#0E0E10] border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+      >
+        <div className="px-5 py-4 flex items-center justify-between border-b border-zinc-200 dark:border-zinc-800">
+          <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-100">
+            {t('examples.title')}
+            <span className="ms-2 text-xs font-mono font-normal text-zinc-500">{formatNumber(lang, examples.length)}</span>
+          </h2>
+          <div className="flex items-center space-x-2 rtl:space-x-reverse">
+            {added !== null ? (
+              <span className="text-xs text-zinc-500">{added > 0 ? t('examples.added', { count: added }) : t('examples.allAdded')}</span>
+            ) : (
+              <button
+                onClick={handleAddAll}
+                disabled={adding || missing.length === 0}
+                className="px-2 py-1 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {missing.length > 0 ? t('examples.addAll', { count: missing.length }) : t('examples.allAdded')}
+              </button>
+            )}
+            <button onClick={onClose} title={t('common.close')} className="p-1 rounded-md text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-5 py-3 flex flex-wrap items-center gap-1 border-b border-zinc-200 dark:border-zinc-800">
+          {categories.map(c => (
+            <button
+              key={c}
+              onClick={() => setCategory(c)}
+              aria-pressed={category === c}
+              className={`px-2.5 py-1 rounded-full text-xs transition-colors ${category === c ? 'bg-blue-500 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:text-blue-500'}`}
+            >
+              {t(CATEGORY_LABELS[c])}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-5">
+          <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+            {visible.map(example => (
+              <ExampleCard
+                key={example.id}
+                example={example}
+                inArchive={existing.has(exampleCreationId(example))}
+                onTry={() => onTry(example)}
+                onRemix={() => onRemix(example)}
+                t={t}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="px-5 py-3 space-y-2 border-t border-zinc-200 dark:border-zinc-800">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">{t('examples.packs')}</span>
+            {sourcesDraft === null && (
+              <button
+                onClick={() => setSourcesDraft(sources.join('\n'))}
+                className="px-2 py-0.5 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+              >
+                {t('examples.editPacks')}
+              </button>
+            )}
+          </div>
+
+          {sourcesDraft !== null ? (
+            <div className="space-y-2">
+              <textarea
+                autoFocus
+                rows={3}
+                value={sourcesDraft}
+                onChange={(e) => setSourcesDraft(e.target.value)}
+                placeholder="https://example.com/pack.json"
+                dir="ltr"
+                className="w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-2 py-1.5 text-xs font-mono text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors"
+              />
+              <p className="text-[11px] text-zinc-500">{t('examples.packsHint')}</p>
+              <div className="flex justify-end space-x-2 rtl:space-x-reverse">
+                <button
+                  onClick={() => setSourcesDraft(null)}
+                  className="px-3 py-1.5 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  onClick={handleSaveSources}
+                  className="px-3 py-1.5 text-xs font-bold rounded-md bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
+                >
+                  {t('common.save')}
+                </button>
+              </div>
+            </div>
+          ) : sources.length === 0 ? (
+            <p className="text-[11px] text-zinc-500">{t('examples.noPacks')}</p>
+          ) : (
+            <ul className="space-y-1">
+              {sources.map(url => {
+                const result = packs?.find(p => p.url === url);
+                return (
+                  <li key={url} className="flex items-center justify-between space-x-2 rtl:space-x-reverse text-[11px]">
+                    <span dir="ltr" className="font-mono text-zinc-600 dark:text-zinc-400 truncate">{result?.name ?? url}</span>
+                    {!result ? (
+                      <span className="shrink-0 text-zinc-500">{t('examples.loadingPack')}</span>
+                    ) : result.error ? (
+                      <span className="shrink-0 flex items-center space-x-1 rtl:space-x-reverse text-amber-600 dark:text-amber-400">
+                        <ExclamationTriangleIcon className="w-3.5 h-3.5" />
+                        <span>{t(PACK_ERRORS[result.error])}</span>
+                      </span>
+                    ) : (
+                      <span className="shrink-0 text-zinc-500">{t('examples.packLoaded', { count: result.examples.length })}</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
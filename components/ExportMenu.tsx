@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowDownTrayIcon, CodeBracketSquareIcon, ArchiveBoxIcon, CameraIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { exportArtifactJson, exportStandaloneHtml, exportZipBundle, exportScreenshot } from '../services/exporters';
+import { Locale, MessageKey, translator } from '../services/i18n';
+
+interface ExportMenuProps {
+  creation: Creation;
+  lang: Locale;
+}
+
+type ExportFormat = 'html' | 'zip' | 'png' | 'json';
+
+const FORMATS: { id: ExportFormat; label: MessageKey; hint: MessageKey; icon: React.ElementType }[] = [
+  { id: 'html', label: 'export.html', hint: 'export.htmlHint', icon: CodeBracketSquareIcon },
+  { id: 'zip', label: 'export.zip', hint: 'export.zipHint', icon: ArchiveBoxIcon },
+  { id: 'png', label: 'export.png', hint: 'export.pngHint', icon: CameraIcon },
+  { id: 'json', label: 'export.json', hint: 'export.jsonHint', icon: DocumentTextIcon },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ creation, lang }) => {
+  const t = translator(lang);
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(format);
+    try {
+      switch (format) {
+        case 'html':
+          exportStandaloneHtml(creation);
+          break;
+        case 'zip':
+          await exportZipBundle(creation);
+          break;
+        case 'png':
+          await exportScreenshot(creation);
+          break;
+        case 'json':
+          exportArtifactJson(creation);
+          break;
+      }
+      setOpen(false);
+    } catch (e) {
+      console.error(`Export as ${format} failed`, e);
+      alert(t('export.failed', { message: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title={t('export.title')}
+        className={`p-1.5 rounded-md transition-all ${open ? 'bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
+      >
+        <ArrowDownTrayIcon className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 rtl:right-auto rtl:left-0 mt-2 w-64 z-50 bg-white dark:bg-[#121214] border border-zinc-200 dark:border-zinc-800 rounded-lg shadow-xl py-1">
+          {FORMATS.map(({ id, label, hint, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => handleExport(id)}
+              disabled={busy !== null}
+              className="w-full flex items-start space-x-3 px-3 py-2 text-start hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50 transition-colors"
+            >
+              {busy === id ? (
+                <div className="w-4 h-4 mt-0.5 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin shrink-0"></div>
+              ) : (
+                <Icon className="w-4 h-4 mt-0.5 text-zinc-500 shrink-0" />
+              )}
+              <span>
+                <span className="block text-xs font-medium text-zinc-800 dark:text-zinc-200">{t(label)}</span>
+                <span className="block text-[10px] text-zinc-500">{t(hint)}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowPathIcon, CodeBracketIcon, EyeIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { GenerationProgress, RetryStatus } from '../services/generation';
+import { ProviderErrorKind } from '../services/providers';
+import { Locale, MessageKey, Translate, formatNumber, translator } from '../services/i18n';
+
+interface GenerationMonitorProps {
+  progress: GenerationProgress | null;
+  onCancel: () => void;
+  lang: Locale;
+}
+
+// Failures the user can act on; anything else gets a generic message
+export const ERROR_MESSAGES: Partial<Record<ProviderErrorKind, MessageKey>> = {
+  timeout: 'error.timeout',
+  quota: 'error.quota',
+  safety: 'error.safety',
+  auth: 'error.auth',
+  network: 'error.network',
+  server: 'error.server',
+  invalidRequest: 'error.invalidRequest',
+  empty: 'error.empty',
+};
+
+// Only transient failures are retried, so only these can show up here
+const RETRY_REASONS: Partial<Record<ProviderErrorKind, MessageKey>> = {
+  timeout: 'monitor.reasonTimeout',
+  quota: 'monitor.reasonQuota',
+  network: 'monitor.reasonNetwork',
+  server: 'monitor.reasonServer',
+};
+
+/** One-line retry notice, shared with the refinement overlay. */
+export const retryMessage = (retry: RetryStatus, now: number, t: Translate): string =>
+  t('monitor.retrying', {
+    reason: t(RETRY_REASONS[retry.reason] || 'monitor.reasonServer'),
+    seconds: Math.max(0, Math.ceil((retry.resumesAt - now) / 1000)),
+    attempt: retry.attempt,
+    max: retry.maxAttempts,
+  });
+
+// How often the partial render is refreshed while chunks keep arriving
+const RENDER_THROTTLE_MS = 1200;
+
+const Milestone = ({ text, active, completed }: { text: string, active: boolean, completed: boolean }) => (
+    <div className={`flex items-center space-x-3 transition-all duration-500 ${active || completed ? 'opacity-100 translate-x-0' : 'opacity-30 translate-x-4'}`}>
+        <div className={`w-4 h-4 flex items-center justify-center ${completed ? 'text-green-500 dark:text-green-400' : active ? 'text-blue-500 dark:text-blue-400' : 'text-zinc-400 dark:text-zinc-700'}`}>
+            {completed ? (
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+            ) : active ? (
+                <div className="w-1.5 h-1.5 bg-blue-500 dark:bg-blue-400 rounded-full animate-pulse"></div>
+            ) : (
+                <div className="w-1.5 h-1.5 bg-zinc-300 dark:bg-zinc-700 rounded-full"></div>
+            )}
+        </div>
+        <span className={`font-mono text-xs tracking-wide uppercase ${active ? 'text-zinc-800 dark:text-zinc-200' : completed ? 'text-zinc-400 dark:text-zinc-400 line-through' : 'text-zinc-400 dark:text-zinc-600'}`}>{text}</span>
+    </div>
+);
+
+const Stat = ({ label, value }: { label: string, value: string }) => (
+    <div className="flex flex-col">
+        <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-400 dark:text-zinc-600">{label}</span>
+        <span className="text-sm font-mono text-zinc-800 dark:text-zinc-200 tabular-nums">{value}</span>
+    </div>
+);
+
+export const formatBytes = (bytes: number, locale: Locale = 'en'): string =>
+    bytes < 1024 ? formatNumber(locale, bytes, { style: 'unit', unit: 'byte' })
+    : bytes < 1024 * 1024 ? formatNumber(locale, bytes / 1024, { style: 'unit', unit: 'kilobyte', minimumFractionDigits: 1, maximumFractionDigits: 1 })
+    : formatNumber(locale, bytes / 1024 / 1024, { style: 'unit', unit: 'megabyte', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const GenerationMonitor: React.FC<GenerationMonitorProps> = ({ progress, onCancel, lang }) => {
+    const t = translator(lang);
+    const [mountedAt] = useState(() => Date.now());
+    const [now, setNow] = useState(() => Date.now());
+    const [view, setView] = useState<'render' | 'source'>('render');
+    const [renderedHtml, setRenderedHtml] = useState("");
+    const lastRenderRef = useRef(0);
+    const sourceRef = useRef<HTMLPreElement>(null);
+
+    const html = progress?.html || "";
+    const hasOutput = !!progress && progress.chunks > 0;
+
+    // Tick the elapsed clock independently of chunk arrival
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Throttle partial renders so the iframe isn't rebuilt on every chunk
+    useEffect(() => {
+        const elapsed = Date.now() - lastRenderRef.current;
+        if (progress?.complete || elapsed >= RENDER_THROTTLE_MS) {
+            lastRenderRef.current = Date.now();
+            setRenderedHtml(html);
+            return;
+        }
+        const timeout = setTimeout(() => {
+            lastRenderRef.current = Date.now();
+            setRenderedHtml(html);
+        }, RENDER_THROTTLE_MS - elapsed);
+        return () => clearTimeout(timeout);
+    }, [html, progress?.complete]);
+
+    // Follow the tail of the source view
+    useEffect(() => {
+        if (view === 'source' && sourceRef.current) {
+            sourceRef.current.scrollTop = sourceRef.current.scrollHeight;
+        }
+    }, [html, view]);
+
+    const reachedHead = /<style[\s>]|<\/head>/i.test(html);
+    const closed = /<\/html>/i.test(html);
+    const milestones = [
+        { text: t('monitor.requestSent'), done: !!progress },
+        { text: t('monitor.receiving'), done: hasOutput },
+        { text: t('monitor.head'), done: reachedHead },
+        { text: t('monitor.body'), done: !!progress?.reachedBody },
+        { text: t('monitor.script'), done: !!progress?.reachedScript },
+        { text: t('monitor.closed'), done: closed },
+    ];
+    const activeIndex = milestones.findIndex(m => !m.done);
+    const completedCount = activeIndex === -1 ? milestones.length : activeIndex;
+    const elapsedSeconds = (now - (progress?.startedAt ?? mountedAt)) / 1000;
+
+    return (
+        <div className="absolute inset-0 flex flex-col md:flex-row w-full">
+            {/* Progress Panel */}
+            <div className={`flex flex-col justify-center p-8 shrink-0 transition-all duration-500 ${hasOutput ? 'w-full md:w-96 border-b md:border-b-0 md:border-r border-zinc-200 dark:border-zinc-800' : 'w-full items-center'}`}>
+                <div className="w-full max-w-md space-y-8">
+                    <div className="flex flex-col items-center">
+                        <div className="w-12 h-12 mb-6 text-blue-500 animate-spin-slow">
+                            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                               <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                        </div>
+                        <h3 className="text-zinc-900 dark:text-zinc-100 font-mono text-lg tracking-tight">{t('monitor.title')}</h3>
+                        <p className="text-zinc-500 text-sm mt-2">{progress?.phase === 'repairing' ? t('monitor.repairing') : hasOutput ? t('monitor.streaming') : t('monitor.waiting')}</p>
+                        {progress?.retry ? (
+                            <p className="flex items-center space-x-2 rtl:space-x-reverse mt-3 px-3 py-1.5 rounded-md text-xs font-mono text-amber-700 dark:text-amber-400 bg-amber-500/10 border border-amber-500/20">
+                                <ArrowPathIcon className="w-3.5 h-3.5 shrink-0 animate-spin-slow" />
+                                <span>{retryMessage(progress.retry, now, t)}</span>
+                            </p>
+                        ) : progress && progress.attempt > 1 && (
+                            <p className="mt-3 text-xs font-mono text-zinc-400">{t('monitor.attempt', { attempt: progress.attempt, max: progress.maxAttempts })}</p>
+                        )}
+                    </div>
+
+                    {/* Live Stats */}
+                    <div className="grid grid-cols-3 gap-4 border border-zinc-200 dark:border-zinc-800 bg-white/50 dark:bg-black/50 rounded-lg p-4 backdrop-blur-sm">
+                        <Stat label={t('monitor.elapsed')} value={formatNumber(lang, elapsedSeconds, { style: 'unit', unit: 'second', unitDisplay: 'narrow', minimumFractionDigits: 1, maximumFractionDigits: 1 })} />
+                        <Stat label={t('monitor.received')} value={formatBytes(progress?.bytes ?? 0, lang)} />
+                        <Stat label={t('monitor.tokens')} value={progress?.tokens !== undefined ? formatNumber(lang, progress.tokens) : t('monitor.chunks', { count: progress?.chunks ?? 0 })} />
+                    </div>
+
+                    {/* Progress Bar */}
+                    <div className="w-full h-1 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden">
+                        <div
+                            className="h-full bg-blue-500 transition-all duration-300 ease-out"
+                            style={{ width: `${(completedCount / milestones.length) * 100}%` }}
+                        ></div>
+                    </div>
+
+                    {/* Document Milestones */}
+                    <div className="border border-zinc-200 dark:border-zinc-800 bg-white/50 dark:bg-black/50 rounded-lg p-4 space-y-3 font-mono text-sm backdrop-blur-sm">
+                        {milestones.map((milestone, idx) => (
+                            <Milestone
+                                key={milestone.text}
+                                text={milestone.text}
+                                active={activeIndex === idx}
+                                completed={milestone.done}
+                            />
+                        ))}
+                    </div>
+
+                    <div className="flex justify-center">
+                        <button
+                            onClick={onCancel}
+                            className="flex items-center space-x-1.5 rtl:space-x-reverse px-4 py-1.5 rounded-full text-xs font-medium text-zinc-600 dark:text-zinc-400 border border-zinc-200 dark:border-zinc-800 hover:text-red-600 dark:hover:text-red-400 hover:border-red-500/40 hover:bg-red-500/5 transition-colors"
+                        >
+                            <XMarkIcon className="w-3.5 h-3.5" />
+                            <span>{t('monitor.cancel')}</span>
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {/* Partial Output */}
+            {hasOutput && (
+                <div className="relative flex-1 min-h-0 flex flex-col">
+                    <div className="absolute top-4 right-4 z-10 flex items-center bg-white/90 dark:bg-black/80 backdrop-blur rounded border border-zinc-200 dark:border-zinc-800 p-0.5">
+                        <button
+                            onClick={() => setView('render')}
+                            title={t('monitor.partialRender')}
+                            className={`p-1 rounded transition-colors ${view === 'render' ? 'bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+                        >
+                            <EyeIcon className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                            onClick={() => setView('source')}
+                            title={t('monitor.liveSource')}
+                            className={`p-1 rounded transition-colors ${view === 'source' ? 'bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+                        >
+                            <CodeBracketIcon className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                    {view === 'render' ? (
+                        // Scripts stay disabled until the document is complete
+                        <iframe
+                            title={t('monitor.frameTitle')}
+                            srcDoc={renderedHtml}
+                            className="w-full h-full bg-white"
+                            sandbox=""
+                        />
+                    ) : (
+                        <pre
+                            ref={sourceRef}
+                            className="w-full h-full overflow-auto p-6 text-[11px] leading-relaxed font-mono text-zinc-600 dark:text-zinc-400 whitespace-pre-wrap break-all"
+                        >
+                            {html}
+                            <span className="inline-block w-1.5 h-3 bg-blue-500 animate-pulse align-middle ml-0.5"></span>
+                        </pre>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
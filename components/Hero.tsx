@@ -5,6 +5,7 @@
 import React, { useEffect, useState } from 'react';
 import { DocumentTextIcon, CalculatorIcon, PuzzlePieceIcon, ClipboardDocumentCheckIcon, NewspaperIcon } from '@heroicons/react/24/outline';
 import { CursorArrowRaysIcon, ChartBarIcon, SparklesIcon } from '@heroicons/react/24/solid';
+import { Locale, translator } from '../services/i18n';
 
 // Component that simulates drawing a wireframe then filling it with life
 const DrawingTransformation = ({ 
@@ -88,8 +89,8 @@ const DrawingTransformation = ({
   );
 };
 
-export const Hero: React.FC<{ lang: 'en' | 'ar' }> = ({ lang }) => {
-  const isAr = lang === 'ar';
+export const Hero: React.FC<{ lang: Locale }> = ({ lang }) => {
+  const t = translator(lang);
 
   return (
     <>
@@ -100,7 +101,7 @@ export const Hero: React.FC<{ lang: 'en' | 'ar' }> = ({ lang }) => {
             <DrawingTransformation 
             initialIcon={ClipboardDocumentCheckIcon} 
             finalIcon={SparklesIcon} 
-            label={isAr ? "براءة اختراع" : "PATENT"}
+            label={t('hero.labelPatent')}
             delay={0} 
             x="4%" 
             y="8%"
@@ -113,7 +114,7 @@ export const Hero: React.FC<{ lang: 'en' | 'ar' }> = ({ lang }) => {
             <DrawingTransformation 
             initialIcon={PuzzlePieceIcon} 
             finalIcon={CursorArrowRaysIcon} 
-            label={isAr ? "لعبة" : "GAME"}
+            label={t('hero.labelGame')}
             delay={3000} 
             x="88%" 
             y="75%"
@@ -126,7 +127,7 @@ export const Hero: React.FC<{ lang: 'en' | 'ar' }> = ({ lang }) => {
             <DrawingTransformation 
             initialIcon={NewspaperIcon} 
             finalIcon={ChartBarIcon} 
-            label={isAr ? "بيانات" : "DATA"}
+            label={t('hero.labelData')}
             delay={6000} 
             x="88%" 
             y="12%"
@@ -139,7 +140,7 @@ export const Hero: React.FC<{ lang: 'en' | 'ar' }> = ({ lang }) => {
             <DrawingTransformation 
             initialIcon={DocumentTextIcon} 
             finalIcon={CalculatorIcon} 
-            label={isAr ? "تطبيق" : "APP"}
+            label={t('hero.labelApp')}
             delay={4500} 
             x="5%" 
             y="72%"
@@ -151,24 +152,11 @@ export const Hero: React.FC<{ lang: 'en' | 'ar' }> = ({ lang }) => {
       {/* Hero Text Content */}
       <div className="text-center relative z-10 max-w-6xl mx-auto px-4 pt-8">
         <h1 className="text-4xl sm:text-6xl md:text-7xl lg:text-8xl font-bold tracking-tighter text-zinc-900 dark:text-white mb-6 leading-[1.1] transition-colors duration-300">
-          {isAr ? (
-            <>
-              اعمل الي في خيالك <br/>
-              <span className="underline decoration-4 decoration-blue-500 underline-offset-4 md:underline-offset-8 text-zinc-900 dark:text-white">باي ملف</span>.
-            </>
-          ) : (
-            <>
-              Bring anything <br/>
-              to <span className="underline decoration-4 decoration-blue-500 underline-offset-4 md:underline-offset-8 text-zinc-900 dark:text-white">life</span>.
-            </>
-          )}
+          {t('hero.titleStart')} <br/>
+          {t('hero.titleMiddle')}<span className="underline decoration-4 decoration-blue-500 underline-offset-4 md:underline-offset-8 text-zinc-900 dark:text-white">{t('hero.titleHighlight')}</span>{t('hero.titleEnd')}
         </h1>
         <p className="text-base sm:text-xl text-zinc-600 dark:text-zinc-400 max-w-2xl mx-auto leading-relaxed font-light transition-colors duration-300">
-          {isAr ? 
-            "جيمناي يرى الكود في كل شيء. ضع خريطة قديمة، مخطط طابق، رسم بياني، أو خربشة، وشاهدها تتحول إلى تجربة تفاعلية تعمل فوراً." 
-            : 
-            "Gemini sees the code in everything. Drop in an old map, a floor plan, a diagram, or a doodle, and watch it turn into a working interactive experience instantly."
-          }
+          {t('hero.subtitle')}
         </p>
       </div>
     </>
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { CheckCircleIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ARCHIVE_VERSION, ArchiveFileErrorKind, CollisionPolicy, countCollisions, ImportReport, ParsedArchive, RejectedEntry, RejectReason } from '../services/backup';
+import { Locale, MessageKey, Translate, formatNumber, translator } from '../services/i18n';
+
+interface ImportDialogProps {
+  fileName: string;
+  archive: ParsedArchive;
+  existingIds: string[];
+  onImport: (policy: CollisionPolicy) => Promise<ImportReport>;
+  onClose: () => void;
+  lang: Locale;
+}
+
+export const ARCHIVE_FILE_ERRORS: Record<ArchiveFileErrorKind, MessageKey> = {
+  invalidJson: 'backup.errorInvalidJson',
+  unrecognized: 'backup.errorUnrecognized',
+  newerVersion: 'backup.errorNewerVersion',
+};
+
+const REJECT_MESSAGES: Record<RejectReason, MessageKey> = {
+  notAnObject: 'backup.rejectNotObject',
+  missingField: 'backup.rejectMissing',
+  invalidField: 'backup.rejectInvalid',
+  saveFailed: 'backup.rejectSaveFailed',
+};
+
+const POLICIES: { id: CollisionPolicy; label: MessageKey; hint: MessageKey }[] = [
+  { id: 'skip', label: 'backup.policySkip', hint: 'backup.policySkipHint' },
+  { id: 'overwrite', label: 'backup.policyOverwrite', hint: 'backup.policyOverwriteHint' },
+  { id: 'duplicate', label: 'backup.policyDuplicate', hint: 'backup.policyDuplicateHint' },
+];
+
+const RejectedList = ({ rejected, lang, t }: { rejected: RejectedEntry[], lang: Locale, t: Translate }) => (
+  <div className="space-y-1.5">
+    <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">{t('backup.rejected', { count: rejected.length })}</span>
+    <ul className="max-h-40 overflow-y-auto divide-y divide-zinc-100 dark:divide-zinc-800 border border-zinc-200 dark:border-zinc-800 rounded-md">
+      {rejected.map(entry => (
+        <li key={entry.index} className="px-3 py-1.5 flex items-start space-x-2 rtl:space-x-reverse text-xs">
+          <span className="font-mono text-zinc-400 tabular-nums shrink-0">#{formatNumber(lang, entry.index + 1)}</span>
+          <span className="min-w-0">
+            {entry.name && <span className="font-medium text-zinc-800 dark:text-zinc-200">{entry.name}: </span>}
+            <span className="text-zinc-500">{t(REJECT_MESSAGES[entry.reason], { field: entry.field ?? '' })}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const Stat = ({ label, value, lang }: { label: string, value: number, lang: Locale }) => (
+  <div className="flex items-center justify-between text-sm">
+    <span className="text-zinc-600 dark:text-zinc-400">{label}</span>
+    <span className="font-mono tabular-nums text-zinc-900 dark:text-zinc-100">{formatNumber(lang, value)}</span>
+  </div>
+);
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ fileName, archive, existingIds, onImport, onClose, lang }) => {
+  const t = translator(lang);
+  const [policy, setPolicy] = useState<CollisionPolicy>('skip');
+  const [importing, setImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const collisions = countCollisions(archive.entries, existingIds);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setImporting(true);
+    try {
+      setReport(await onImport(policy));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={importing ? undefined : onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md max-h-[90vh] flex flex-col bg-white dark:bg-[#0E0E10] border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+      >
+        <div className="px-5 py-4 flex items-center justify-between border-b border-zinc-200 dark:border-zinc-800">
+          <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-100">{report ? t('backup.doneTitle') : t('backup.importTitle')}</h2>
+          <button type="button" onClick={onClose} disabled={importing} title={t('common.close')} className="p-1 rounded-md text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        {report ? (
+          <div className="flex-1 min-h-0 overflow-y-auto p-5 space-y-4">
+            <div className="flex items-center space-x-2 rtl:space-x-reverse">
+              {report.rejected.length > 0 ? (
+                <ExclamationTriangleIcon className="w-5 h-5 text-amber-500" />
+              ) : (
+                <CheckCircleIcon className="w-5 h-5 text-green-500" />
+              )}
+              <span className="text-sm text-zinc-800 dark:text-zinc-200">
+                {t('backup.imported', { count: report.added + report.overwritten + report.duplicated })}
+              </span>
+            </div>
+            <div className="space-y-1.5">
+              <Stat label={t('backup.added')} value={report.added} lang={lang} />
+              <Stat label={t('backup.overwritten')} value={report.overwritten} lang={lang} />
+              <Stat label={t('backup.duplicated')} value={report.duplicated} lang={lang} />
+              <Stat label={t('backup.skipped')} value={report.skipped} lang={lang} />
+            </div>
+            {report.rejected.length > 0 && <RejectedList rejected={report.rejected} lang={lang} t={t} />}
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-y-auto p-5 space-y-4">
+            <div className="space-y-1">
+              <p className="text-sm text-zinc-800 dark:text-zinc-200">
+                {t('backup.found', { count: archive.entries.length, file: fileName })}
+              </p>
+              <p className="text-[11px] font-mono text-zinc-500">
+                {archive.version < ARCHIVE_VERSION
+                  ? t('backup.migrated', { from: archive.version, to: ARCHIVE_VERSION })
+                  : t('backup.version', { version: archive.version })}
+              </p>
+            </div>
+
+            {collisions > 0 && (
+              <fieldset className="space-y-2">
+                <legend className="text-xs text-zinc-600 dark:text-zinc-400 mb-2">{t('backup.collisions', { count: collisions })}</legend>
+                {POLICIES.map(option => (
+                  <label
+                    key={option.id}
+                    className={`flex items-start space-x-3 rtl:space-x-reverse p-3 rounded-lg border cursor-pointer transition-colors ${policy === option.id ? 'border-blue-500 bg-blue-50/50 dark:bg-blue-500/10' : 'border-zinc-200 dark:border-zinc-800 hover:border-zinc-300 dark:hover:border-zinc-700'}`}
+                  >
+                    <input
+                      type="radio"
+                      name="policy"
+                      value={option.id}
+                      checked={policy === option.id}
+                      onChange={() => setPolicy(option.id)}
+                      className="mt-0.5 accent-blue-500"
+                    />
+                    <span className="space-y-0.5">
+                      <span className="block text-sm font-medium text-zinc-900 dark:text-zinc-100">{t(option.label)}</span>
+                      <span className="block text-xs text-zinc-500">{t(option.hint)}</span>
+                    </span>
+                  </label>
+                ))}
+              </fieldset>
+            )}
+
+            {archive.rejected.length > 0 && <RejectedList rejected={archive.rejected} lang={lang} t={t} />}
+          </div>
+        )}
+
+        <div className="px-5 py-4 flex justify-end space-x-2 rtl:space-x-reverse border-t border-zinc-200 dark:border-zinc-800">
+          {report ? (
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-3 py-1.5 text-xs font-bold rounded-md bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
+            >
+              {t('common.close')}
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={importing}
+                className="px-3 py-1.5 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={importing || archive.entries.length === 0}
+                className="px-3 py-1.5 text-xs font-bold rounded-md bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {importing ? t('backup.importing') : t('backup.import')}
+              </button>
+            </>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
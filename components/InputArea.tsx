@@ -3,36 +3,44 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useCallback, useState, useEffect } from 'react';
-import { ArrowUpTrayIcon, SparklesIcon, CpuChipIcon, PaperAirplaneIcon } from '@heroicons/react/24/outline';
+import { ArrowUpTrayIcon, SparklesIcon, CpuChipIcon, PaperAirplaneIcon, DocumentIcon, DocumentTextIcon, TableCellsIcon, XMarkIcon, PencilSquareIcon } from '@heroicons/react/24/outline';
+import { PdfPagePicker } from './PdfPagePicker';
+import { SketchPad } from './SketchPad';
+import { ModePicker } from './ModePicker';
+import { VariantPicker } from './VariantPicker';
+import { DOCUMENT_ACCEPT, documentFormat, isTabularFormat } from '../services/documents';
+import { formatPageRanges } from '../services/pdf';
+import { renderSketchToPng, Sketch } from '../services/sketch';
+import { GenerationMode } from '../services/modes';
+import { VariantSpec } from '../services/variants';
+import { Locale, MessageKey, localeInfo, translator } from '../services/i18n';
+
+export interface Attachment {
+  file: File;
+  pages?: number[]; // PDF pages to send; all when absent
+  sketch?: Sketch; // Vector source when the file was drawn on the sketch pad
+}
 
 interface InputAreaProps {
-  onGenerate: (prompt: string, file?: File) => void;
+  onGenerate: (prompt: string, attachments: Attachment[]) => void;
   isGenerating: boolean;
   disabled?: boolean;
-  lang: 'en' | 'ar';
+  lang: Locale;
+  initialSketch?: Sketch | null; // Opens the sketch pad with a saved sketch
+  onSketchOpened?: () => void;
+  modes: GenerationMode[];
+  modeId: string;
+  onModeChange: (id: string) => void;
+  onManageModes: () => void;
+  variantSpecs: VariantSpec[];
+  onVariantSpecsChange: (specs: VariantSpec[]) => void;
 }
 
-const CyclingText = ({ lang }: { lang: 'en' | 'ar' }) => {
-    const wordsEn = [
-        "a napkin sketch",
-        "a chaotic whiteboard",
-        "a network scanner",
-        "a game level design",
-        "a sci-fi interface",
-        "a diagram of a machine",
-        "an ancient scroll"
-    ];
-    const wordsAr = [
-        "رسمة على منديل",
-        "سبورة فوضوية",
-        "ماسح شبكات",
-        "تصميم مرحلة لعبة",
-        "واجهة خيال علمي",
-        "مخطط آلة",
-        "مخطوطة قديمة"
-    ];
-
-    const words = lang === 'ar' ? wordsAr : wordsEn;
+const CYCLING_WORDS: MessageKey[] = ['input.cycle1', 'input.cycle2', 'input.cycle3', 'input.cycle4', 'input.cycle5', 'input.cycle6', 'input.cycle7'];
+
+const CyclingText = ({ lang }: { lang: Locale }) => {
+    const t = translator(lang);
+    const words = CYCLING_WORDS.map(key => t(key));
 
     const [index, setIndex] = useState(0);
     const [fade, setFade] = useState(true);
@@ -55,33 +63,144 @@ const CyclingText = ({ lang }: { lang: 'en' | 'ar' }) => {
     );
 };
 
-export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating, disabled = false, lang }) => {
+// Keeps the request within typical model payload limits
+const MAX_ATTACHMENTS = 10;
+
+const isSupportedFile = (file: File) =>
+    file.type.startsWith('image/') || file.type === 'application/pdf' || documentFormat(file.name, file.type) !== null;
+
+interface AttachmentChipProps {
+    attachment: Attachment;
+    onRemove: () => void;
+    onChoosePages: () => void;
+    onEditSketch: () => void;
+    lang: Locale;
+}
+
+const AttachmentChip = ({ attachment, onRemove, onChoosePages, onEditSketch, lang }: AttachmentChipProps) => {
+    const { file, pages, sketch } = attachment;
+    const t = translator(lang);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const format = documentFormat(file.name, file.type);
+    const FileIcon = isTabularFormat(format) ? TableCellsIcon : format ? DocumentTextIcon : DocumentIcon;
+
+    useEffect(() => {
+        if (!file.type.startsWith('image/')) return;
+        const url = URL.createObjectURL(file);
+        setPreviewUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [file]);
+
+    return (
+        <div className="flex items-center space-x-2 rtl:space-x-reverse pl-1 pr-1.5 py-1 rounded-lg bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 shadow-sm max-w-[14rem]">
+            {previewUrl ? (
+                <img src={previewUrl} alt="" className="w-7 h-7 rounded object-cover shrink-0" />
+            ) : (
+                <div className="w-7 h-7 rounded bg-zinc-100 dark:bg-zinc-900 flex items-center justify-center shrink-0">
+                    <FileIcon className="w-4 h-4 text-zinc-400" />
+                </div>
+            )}
+            <span className="text-xs text-zinc-700 dark:text-zinc-300 truncate" title={file.name}>{file.name}</span>
+            {sketch && (
+                <button
+                    type="button"
+                    onClick={onEditSketch}
+                    title={t('input.editSketch')}
+                    className="p-0.5 rounded text-zinc-400 hover:text-zinc-800 dark:hover:text-zinc-100 hover:bg-zinc-100 dark:hover:bg-zinc-700 transition-colors shrink-0"
+                >
+                    <PencilSquareIcon className="w-3.5 h-3.5" />
+                </button>
+            )}
+            {file.type === 'application/pdf' && (
+                <button
+                    type="button"
+                    onClick={onChoosePages}
+                    title={t('input.choosePages')}
+                    className="px-1.5 py-0.5 rounded text-[10px] font-mono whitespace-nowrap text-zinc-500 bg-zinc-100 dark:bg-zinc-900 hover:text-zinc-800 dark:hover:text-zinc-100 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors shrink-0"
+                    dir="ltr"
+                >
+                    {pages ? `p. ${formatPageRanges(pages)}` : t('input.allPages')}
+                </button>
+            )}
+            <button
+                type="button"
+                onClick={onRemove}
+                title={t('input.remove')}
+                className="p-0.5 rounded text-zinc-400 hover:text-zinc-800 dark:hover:text-zinc-100 hover:bg-zinc-100 dark:hover:bg-zinc-700 transition-colors shrink-0"
+            >
+                <XMarkIcon className="w-3.5 h-3.5" />
+            </button>
+        </div>
+    );
+};
+
+export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating, disabled = false, lang, initialSketch, onSketchOpened, modes, modeId, onModeChange, onManageModes, variantSpecs, onVariantSpecsChange }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [prompt, setPrompt] = useState("");
-  const isAr = lang === 'ar';
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [pickingIndex, setPickingIndex] = useState<number | null>(null);
+  // Sketch pad session; `index` is the attachment being edited, null for a new sketch
+  const [sketching, setSketching] = useState<{ index: number | null; sketch?: Sketch } | null>(null);
+  const t = translator(lang);
+  const isRtl = localeInfo(lang).dir === 'rtl';
+
+  useEffect(() => {
+    if (!initialSketch) return;
+    setSketching({ index: null, sketch: initialSketch });
+    onSketchOpened?.();
+  }, [initialSketch]);
 
-  const handleFile = (file: File) => {
-    if (file.type.startsWith('image/') || file.type === 'application/pdf') {
-      onGenerate("", file);
-    } else {
-      alert(isAr ? "يرجى تحميل صورة أو ملف PDF." : "Please upload an image or PDF.");
+  const handleSketchDone = async (sketch: Sketch) => {
+    if (!sketching) return;
+    const { index } = sketching;
+    try {
+      const blob = await renderSketchToPng(sketch);
+      const existing = attachments.filter(a => a.sketch).length;
+      const name = index !== null ? attachments[index].file.name : existing > 0 ? `sketch-${existing + 1}.png` : 'sketch.png';
+      const attachment: Attachment = { file: new File([blob], name, { type: 'image/png' }), sketch };
+      if (index !== null) {
+        setAttachments(prev => prev.map((a, i) => i === index ? attachment : a));
+      } else if (attachments.length >= MAX_ATTACHMENTS) {
+        alert(t('input.tooMany', { max: MAX_ATTACHMENTS }));
+        return;
+      } else {
+        setAttachments(prev => [...prev, attachment]);
+      }
+      setSketching(null);
+    } catch (err) {
+      console.error("Failed to export sketch", err);
+      alert(t('input.sketchFailed'));
     }
   };
 
+  const addFiles = (files: File[]) => {
+    const supported = files.filter(isSupportedFile);
+    if (supported.length < files.length) {
+      alert(t('input.unsupported'));
+    }
+    const next = [...attachments, ...supported.map(file => ({ file }))];
+    if (next.length > MAX_ATTACHMENTS) {
+      alert(t('input.tooMany', { max: MAX_ATTACHMENTS }));
+    }
+    setAttachments(next.slice(0, MAX_ATTACHMENTS));
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-        handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+        addFiles(Array.from(e.target.files));
     }
+    // Allow picking the same file again after removing it
+    e.target.value = '';
   };
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
     setIsDragging(false);
     if (disabled || isGenerating) return;
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      addFiles(Array.from(e.dataTransfer.files));
     }
-  }, [disabled, isGenerating]);
+  }, [disabled, isGenerating, lang, attachments]);
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
@@ -97,13 +216,24 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
 
   const handleTextSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!prompt.trim() || isGenerating || disabled) return;
-    onGenerate(prompt.trim(), undefined);
+    if ((!prompt.trim() && attachments.length === 0) || isGenerating || disabled) return;
+    onGenerate(prompt.trim(), attachments);
     setPrompt("");
+    setAttachments([]);
   };
 
   return (
     <div className="w-full max-w-4xl mx-auto perspective-1000">
+      {sketching ? (
+        <SketchPad
+          // Remount so an edited attachment doesn't inherit the previous drawing
+          key={sketching.index ?? 'new'}
+          initialSketch={sketching.sketch}
+          onDone={handleSketchDone}
+          onCancel={() => setSketching(null)}
+          lang={lang}
+        />
+      ) : (
       <div 
         className={`relative group transition-all duration-300 ${isDragging ? 'scale-[1.01]' : ''}`}
       >
@@ -150,32 +280,48 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
 
                 <div className="space-y-2 md:space-y-4 w-full max-w-3xl">
                     <h3 className="flex flex-col items-center justify-center text-xl sm:text-2xl md:text-4xl text-zinc-900 dark:text-zinc-100 leading-none font-bold tracking-tighter gap-3 transition-colors">
-                        <span>{isAr ? "حول" : "Bring"}</span>
+                        <span>{t('input.bring')}</span>
                         {/* Fixed height container to prevent layout shifts */}
                         <div className="h-8 sm:h-10 md:h-14 flex items-center justify-center w-full">
                            <CyclingText lang={lang} />
                         </div>
-                        <span>{isAr ? "إلى واقع" : "to life"}</span>
+                        <span>{t('input.toLife')}</span>
                     </h3>
                     <p className="text-zinc-500 dark:text-zinc-500 text-xs sm:text-base md:text-lg font-light tracking-wide transition-colors">
-                        <span className="hidden md:inline">{isAr ? "سحب وإفلات" : "Drag & Drop"}</span>
-                        <span className="md:hidden">{isAr ? "اضغط" : "Tap"}</span> {isAr ? "لتحميل أي ملف" : "to upload any file"}
+                        <span className="hidden md:inline">{t('input.dragDrop')}</span>
+                        <span className="md:hidden">{t('input.tap')}</span> {t('input.attachHint')}
                     </p>
                 </div>
             </div>
 
             <input
                 type="file"
-                accept="image/*,application/pdf"
+                accept={`image/*,application/pdf,${DOCUMENT_ACCEPT}`}
+                multiple
                 className="hidden"
                 onChange={handleFileChange}
                 disabled={isGenerating || disabled}
             />
         </label>
       </div>
+      )}
 
       {/* Manual Prompt Input Area */}
       <form onSubmit={handleTextSubmit} className="mt-6 relative group z-20">
+          {attachments.length > 0 && (
+              <div className="relative z-10 flex flex-wrap gap-2 mb-3">
+                  {attachments.map((attachment, idx) => (
+                      <AttachmentChip
+                          key={`${attachment.file.name}-${attachment.file.lastModified}-${idx}`}
+                          attachment={attachment}
+                          lang={lang}
+                          onRemove={() => setAttachments(prev => prev.filter((_, i) => i !== idx))}
+                          onChoosePages={() => setPickingIndex(idx)}
+                          onEditSketch={() => setSketching({ index: idx, sketch: attachment.sketch })}
+                      />
+                  ))}
+              </div>
+          )}
           <div className="absolute -inset-0.5 bg-gradient-to-r from-blue-500/20 to-purple-600/20 rounded-xl opacity-50 group-hover:opacity-100 transition duration-500 blur-sm"></div>
           <div className="relative flex items-center bg-white/90 dark:bg-zinc-900/90 backdrop-blur-xl rounded-xl border border-zinc-200 dark:border-zinc-700/50 p-1.5 shadow-lg transition-colors">
               <SparklesIcon className="w-5 h-5 text-zinc-400 dark:text-zinc-500 ml-3 shrink-0" />
@@ -183,23 +329,60 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                   type="text"
                   value={prompt}
                   onChange={(e) => setPrompt(e.target.value)}
-                  placeholder={isAr ? "أو صف فكرتك (مثال: 'لوحة تحكم لفحص الشبكات اللاسلكية المخفية')..." : "Or describe an idea (e.g. 'A Wi-Fi scanner dashboard that finds hidden networks')..."}
+                  placeholder={attachments.length > 0
+                      ? t('input.placeholderWithFiles')
+                      : t('input.placeholder')}
                   className="flex-1 bg-transparent border-0 focus:ring-0 text-zinc-900 dark:text-white placeholder-zinc-400 dark:placeholder-zinc-500 px-3 py-2 text-sm sm:text-base transition-colors"
                   disabled={isGenerating || disabled}
               />
+              <ModePicker
+                  modes={modes}
+                  modeId={modeId}
+                  onChange={onModeChange}
+                  onManage={onManageModes}
+                  disabled={isGenerating || disabled}
+                  lang={lang}
+              />
+              <VariantPicker
+                  modes={modes}
+                  modeId={modeId}
+                  specs={variantSpecs}
+                  onChange={onVariantSpecsChange}
+                  disabled={isGenerating || disabled}
+                  lang={lang}
+              />
+              <button
+                  type="button"
+                  onClick={() => setSketching({ index: null })}
+                  disabled={isGenerating || disabled || !!sketching}
+                  title={t('input.drawSketch')}
+                  className="p-2 mr-1.5 rtl:mr-0 rtl:ml-1.5 rounded-lg text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                  <PencilSquareIcon className="w-5 h-5" />
+              </button>
               <button 
                   type="submit"
-                  disabled={!prompt.trim() || isGenerating || disabled}
+                  disabled={(!prompt.trim() && attachments.length === 0) || isGenerating || disabled}
                   className="bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-900 dark:text-white p-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed border border-zinc-200 dark:border-zinc-700"
               >
                   {isGenerating ? (
                       <div className="w-5 h-5 border-2 border-zinc-400 border-t-zinc-600 dark:border-t-white rounded-full animate-spin"></div>
                   ) : (
-                      <PaperAirplaneIcon className={`w-5 h-5 ${isAr ? 'rotate-180 -translate-x-0.5' : '-rotate-45 translate-x-0.5 -translate-y-0.5'}`} />
+                      <PaperAirplaneIcon className={`w-5 h-5 ${isRtl ? 'rotate-180 -translate-x-0.5' : '-rotate-45 translate-x-0.5 -translate-y-0.5'}`} />
                   )}
               </button>
           </div>
       </form>
+
+      {pickingIndex !== null && attachments[pickingIndex] && (
+          <PdfPagePicker
+              file={attachments[pickingIndex].file}
+              pages={attachments[pickingIndex].pages}
+              onApply={(pages) => setAttachments(prev => prev.map((a, i) => i === pickingIndex ? { ...a, pages } : a))}
+              onClose={() => setPickingIndex(null)}
+              lang={lang}
+          />
+      )}
     </div>
   );
 };
\ No newline at end of file
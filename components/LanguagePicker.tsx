@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckIcon, LanguageIcon } from '@heroicons/react/24/outline';
+import { Locale, LOCALES, translator } from '../services/i18n';
+
+interface LanguagePickerProps {
+  lang: Locale;
+  onChange: (lang: Locale) => void;
+}
+
+export const LanguagePicker: React.FC<LanguagePickerProps> = ({ lang, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const t = translator(lang);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleSelect = (locale: Locale) => {
+    onChange(locale);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center space-x-1 rtl:space-x-reverse p-2 px-3 rounded-full text-xs font-bold font-mono text-zinc-600 dark:text-zinc-400 hover:text-blue-500 dark:hover:text-blue-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+        title={t('app.language')}
+        aria-haspopup="listbox"
+        aria-expanded={open}
+      >
+        <LanguageIcon className="w-4 h-4" />
+        <span>{lang.toUpperCase()}</span>
+      </button>
+
+      {open && (
+        <div role="listbox" className="absolute top-full right-0 rtl:right-auto rtl:left-0 mt-2 w-44 z-50 bg-white dark:bg-[#121214] border border-zinc-200 dark:border-zinc-800 rounded-lg shadow-xl py-1">
+          {LOCALES.map(({ id, nativeName, englishName, dir }) => (
+            <button
+              key={id}
+              role="option"
+              aria-selected={id === lang}
+              onClick={() => handleSelect(id)}
+              lang={id}
+              dir={dir}
+              title={englishName}
+              className="w-full flex items-center justify-between px-3 py-2 text-start text-sm text-zinc-800 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+            >
+              <span>{nativeName}</span>
+              {id === lang && <CheckIcon className="w-4 h-4 text-blue-500" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,164 +2,163 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useEffect, useState, useRef } from 'react';
-import { ArrowDownTrayIcon, PlusIcon, ViewColumnsIcon, DocumentIcon, CodeBracketIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { PlusIcon, ViewColumnsIcon, DocumentIcon, CodeBracketIcon, XMarkIcon, ChatBubbleLeftRightIcon, DevicePhoneMobileIcon, PencilSquareIcon, ArchiveBoxArrowDownIcon } from '@heroicons/react/24/outline';
 import { Creation } from './CreationHistory';
+import { RefinePanel } from './RefinePanel';
+import { GenerationMonitor, formatBytes, retryMessage } from './GenerationMonitor';
+import { VariantGrid } from './VariantGrid';
+import { RevisionNavigator } from './RevisionNavigator';
+import { RevisionDiff } from './RevisionDiff';
+import { CodeEditor } from './CodeEditor';
+import { ExportMenu } from './ExportMenu';
+import { ShareButton } from './ShareButton';
+import { ValidationBadge } from './ValidationBadge';
+import { SandboxIndicator } from './SandboxIndicator';
+import { ConsolePanel } from './ConsolePanel';
+import { DeviceFrame } from './DeviceFrame';
+import { ViewportToolbar } from './ViewportToolbar';
+import { DocumentPreview } from './DocumentPreview';
+import { PackageDialog } from './PackageDialog';
+import { PdfRenderer } from './PdfRenderer';
+import { GenerationProgress, fixErrorsInstruction } from '../services/generation';
+import { currentRevision } from '../services/revisions';
+import { hardenHtml, sandboxAttribute, sandboxPermissions, SandboxPermissions } from '../services/sandbox';
+import { ConsoleEntry, injectConsoleBridge, parseConsoleMessage } from '../services/consoleBridge';
+import { Sketch } from '../services/sketch';
+import { VariantRun } from '../services/variants';
+import { DEFAULT_VIEWPORT, Viewport } from '../services/viewport';
+import { Locale, translator } from '../services/i18n';
 
 interface LivePreviewProps {
   creation: Creation | null;
   isLoading: boolean;
   isFocused: boolean;
+  isRefining: boolean;
+  progress: GenerationProgress | null;
   onReset: () => void;
+  onCancel: () => void; // Aborts the running generation or refinement
+  variants: VariantRun[] | null; // Shown as a grid instead of a single creation
+  onKeepVariants: (ids: string[]) => void;
+  onCancelVariant: (id: string) => void;
+  onRefine: (instruction: string) => void;
+  onCheckoutRevision: (revisionId: string) => void;
+  onSaveEdit: (html: string) => void;
+  onUpdateSandbox: (permissions: SandboxPermissions) => void;
+  onEditSketch: (sketch: Sketch) => void;
+  onUpdateViewport: (viewport: Viewport) => void;
+  readOnly?: boolean; // Opened from a share link and not in the archive yet
+  onAddToArchive?: () => void;
+  lang: Locale;
 }
 
-// Add type definition for the global pdfjsLib
-declare global {
-  interface Window {
-    pdfjsLib: any;
-  }
-}
-
-const LoadingStep = ({ text, active, completed }: { text: string, active: boolean, completed: boolean }) => (
-    <div className={`flex items-center space-x-3 transition-all duration-500 ${active || completed ? 'opacity-100 translate-x-0' : 'opacity-30 translate-x-4'}`}>
-        <div className={`w-4 h-4 flex items-center justify-center ${completed ? 'text-green-500 dark:text-green-400' : active ? 'text-blue-500 dark:text-blue-400' : 'text-zinc-400 dark:text-zinc-700'}`}>
-            {completed ? (
-                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-            ) : active ? (
-                <div className="w-1.5 h-1.5 bg-blue-500 dark:bg-blue-400 rounded-full animate-pulse"></div>
-            ) : (
-                <div className="w-1.5 h-1.5 bg-zinc-300 dark:bg-zinc-700 rounded-full"></div>
-            )}
-        </div>
-        <span className={`font-mono text-xs tracking-wide uppercase ${active ? 'text-zinc-800 dark:text-zinc-200' : completed ? 'text-zinc-400 dark:text-zinc-400 line-through' : 'text-zinc-400 dark:text-zinc-600'}`}>{text}</span>
-    </div>
-);
-
-const PdfRenderer = ({ dataUrl }: { dataUrl: string }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const renderPdf = async () => {
-      if (!window.pdfjsLib) {
-        setError("PDF library not initialized");
-        setLoading(false);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        // Load the document
-        const loadingTask = window.pdfjsLib.getDocument(dataUrl);
-        const pdf = await loadingTask.promise;
-        
-        // Get the first page
-        const page = await pdf.getPage(1);
-        
-        const canvas = canvasRef.current;
-        if (!canvas) return;
+// Delay between the last keystroke in the code editor and the iframe re-render
+const EDIT_DEBOUNCE_MS = 500;
 
-        const context = canvas.getContext('2d');
-        
-        // Calculate scale to make it look good (High DPI)
-        const viewport = page.getViewport({ scale: 2.0 });
-
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-
-        const renderContext = {
-          canvasContext: context,
-          viewport: viewport,
-        };
-
-        await page.render(renderContext).promise;
-        setLoading(false);
-      } catch (err) {
-        console.error("Error rendering PDF:", err);
-        setError("Could not render PDF preview.");
-        setLoading(false);
-      }
-    };
+// Oldest console entries are dropped beyond this
+const MAX_CONSOLE_ENTRIES = 500;
 
-    renderPdf();
-  }, [dataUrl]);
+export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, isFocused, isRefining, progress, onReset, onCancel, variants, onKeepVariants, onCancelVariant, onRefine, onCheckoutRevision, onSaveEdit, onUpdateSandbox, onEditSketch, onUpdateViewport, readOnly = false, onAddToArchive, lang }) => {
+    const t = translator(lang);
+    const [showSplitView, setShowSplitView] = useState(false);
+    const [activeInput, setActiveInput] = useState(0);
+    const [showRefinePanel, setShowRefinePanel] = useState(false);
+    const [showDiff, setShowDiff] = useState(false);
+    const [showPackageDialog, setShowPackageDialog] = useState(false);
+    const [view, setView] = useState<'preview' | 'code'>('preview');
+    const [draft, setDraft] = useState<string | null>(null); // Unsaved hand edits
+    const [renderedHtml, setRenderedHtml] = useState("");
+    const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    const bridgeToken = useMemo(() => crypto.randomUUID(), []);
 
-  if (error) {
-    return (
-        <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
-            <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
-            <p className="text-sm mb-2 text-red-400/80">{error}</p>
-        </div>
+    const isDirty = draft !== null && draft !== creation?.html;
+    const permissions = sandboxPermissions(creation || {});
+    const sandbox = sandboxAttribute(permissions);
+    const frameHtml = useMemo(
+        () => hardenHtml(injectConsoleBridge(renderedHtml, bridgeToken), permissions),
+        [renderedHtml, sandbox, permissions.network, bridgeToken]
     );
-  }
 
-  return (
-    <div className="relative w-full h-full flex items-center justify-center">
-        {loading && (
-            <div className="absolute inset-0 flex items-center justify-center z-10">
-                <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
-            </div>
-        )}
-        <canvas 
-            ref={canvasRef} 
-            className={`max-w-full max-h-full object-contain shadow-xl border border-zinc-200 dark:border-zinc-800/50 rounded transition-opacity duration-500 ${loading ? 'opacity-0' : 'opacity-100'}`}
-        />
-    </div>
-  );
-};
-
-export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, isFocused, onReset }) => {
-    const [loadingStep, setLoadingStep] = useState(0);
-    const [showSplitView, setShowSplitView] = useState(false);
-
-    const LOADING_STEPS = [
-        "Initializing virtual environment",
-        "Analyzing visual inputs",
-        "Identifying UI patterns",
-        "Generating functional logic",
-        "Constructing DOM structure",
-        "Injecting styles & animations",
-        "Fetching data components",
-        "Binding interactive events",
-        "Optimizing output performance",
-        "Finalizing render"
-    ];
-
-    // Handle loading animation steps
-    useEffect(() => {
-        if (isLoading) {
-            setLoadingStep(0);
-            const interval = setInterval(() => {
-                setLoadingStep(prev => (prev < LOADING_STEPS.length - 1 ? prev + 1 : prev));
-            }, 600); 
-            return () => clearInterval(interval);
-        } else {
-            setLoadingStep(0);
-        }
-    }, [isLoading]);
+    const viewport = creation?.viewport ?? DEFAULT_VIEWPORT;
+    const inputs = creation?.inputs || [];
+    const selectedInput = inputs[Math.min(activeInput, inputs.length - 1)];
 
     // Default to Split View when a new creation with an image is loaded
     useEffect(() => {
-        if (creation?.originalImage) {
+        if (creation?.inputs?.length) {
             setShowSplitView(true);
         } else {
             setShowSplitView(false);
         }
-    }, [creation]);
-
-    const handleExport = () => {
-        if (!creation) return;
-        const dataStr = JSON.stringify(creation, null, 2);
-        const blob = new Blob([dataStr], { type: "application/json" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${creation.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_artifact.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        setActiveInput(0);
+    }, [creation?.id]);
+
+    // Reopen the refine panel for creations that already have a conversation
+    useEffect(() => {
+        setShowRefinePanel(!!creation?.conversation?.length);
+        setShowDiff(false);
+        setShowPackageDialog(false);
+        if (readOnly) setView('preview');
+    }, [creation?.id]);
+
+    // Drop unsaved edits whenever another creation or revision is shown
+    useEffect(() => {
+        setDraft(null);
+    }, [creation?.id, creation?.currentRevisionId]);
+
+    // Re-render the iframe shortly after typing pauses
+    useEffect(() => {
+        const html = draft ?? creation?.html ?? "";
+        if (draft === null) {
+            setRenderedHtml(html);
+            return;
+        }
+        const timeout = setTimeout(() => setRenderedHtml(html), EDIT_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [draft, creation?.html]);
+
+    // Collect console output and runtime errors forwarded by the preview frame
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== iframeRef.current?.contentWindow) return;
+            const entry = parseConsoleMessage(event.data, bridgeToken);
+            if (entry) setConsoleEntries(prev => [...prev, entry].slice(-MAX_CONSOLE_ENTRIES));
+        };
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [bridgeToken]);
+
+    // Every reload of the frame starts with an empty console
+    useEffect(() => {
+        setConsoleEntries([]);
+    }, [frameHtml]);
+
+    const confirmDiscard = () =>
+        !isDirty || window.confirm(t('preview.confirmDiscard'));
+
+    const handleSaveEdit = () => {
+        if (draft === null || !isDirty) return;
+        onSaveEdit(draft);
+    };
+
+    const handleCheckout = (revisionId: string) => {
+        if (confirmDiscard()) onCheckoutRevision(revisionId);
+    };
+
+    const handleClose = () => {
+        if (confirmDiscard()) onReset();
+    };
+
+    const handleRefine = (instruction: string) => {
+        if (confirmDiscard()) onRefine(instruction);
+    };
+
+    const handleFixErrors = () => {
+        const errors = consoleEntries.filter(entry => entry.level === 'error');
+        if (errors.length === 0 || !confirmDiscard()) return;
+        setShowRefinePanel(true);
+        onRefine(fixErrorsInstruction(errors));
     };
 
   return (
@@ -180,9 +179,9 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
         <div className="flex items-center space-x-3 w-32">
            <div className="flex space-x-2 group/controls">
                 <button 
-                  onClick={onReset}
+                  onClick={handleClose}
                   className="w-3 h-3 rounded-full bg-zinc-300 dark:bg-zinc-700 group-hover/controls:bg-red-500 hover:!bg-red-600 transition-colors flex items-center justify-center focus:outline-none"
-                  title="Close Preview"
+                  title={t('preview.close')}
                 >
                   <XMarkIcon className="w-2 h-2 text-black opacity-0 group-hover/controls:opacity-100" />
                 </button>
@@ -191,22 +190,87 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
            </div>
         </div>
         
-        {/* Center: Title */}
-        <div className="flex items-center space-x-2 text-zinc-500">
-            <CodeBracketIcon className="w-3 h-3" />
-            <span className="text-[11px] font-mono uppercase tracking-wider">
-                {isLoading ? 'System Processing...' : creation ? creation.name : 'Preview Mode'}
-            </span>
+        {/* Center: Title & View Tabs */}
+        <div className="flex items-center space-x-3 text-zinc-500 min-w-0">
+            <div className="flex items-center space-x-2 min-w-0">
+                <CodeBracketIcon className="w-3 h-3 shrink-0" />
+                <span className="text-[11px] font-mono uppercase tracking-wider truncate">
+                    {variants ? t('variants.heading', { count: variants.length }) : isLoading ? t('preview.processing') : creation ? creation.name : t('preview.mode')}
+                </span>
+            </div>
+            {!isLoading && creation && readOnly && (
+                <span className="px-1.5 py-0.5 rounded text-[10px] font-mono uppercase tracking-wider bg-zinc-200 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 shrink-0">
+                    {t('share.readOnly')}
+                </span>
+            )}
+            {!isLoading && creation && !readOnly && (
+                <div className="flex items-center bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md p-0.5 shrink-0">
+                    {(['preview', 'code'] as const).map(tab => (
+                        <button
+                            key={tab}
+                            onClick={() => setView(tab)}
+                            className={`px-2 py-0.5 rounded text-[10px] font-mono uppercase tracking-wider transition-colors ${view === tab ? 'bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 shadow-sm' : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+                        >
+                            {tab === 'preview' ? t('preview.tabPreview') : t('preview.tabCode')}
+                            {tab === 'code' && isDirty && <span className="ml-1 text-blue-500">●</span>}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {!isLoading && isDirty && (
+                <div className="flex items-center space-x-1 shrink-0">
+                    <button
+                        onClick={handleSaveEdit}
+                        title={t('preview.saveTitle')}
+                        className="px-2 py-0.5 rounded text-[10px] font-bold bg-blue-500 hover:bg-blue-600 text-white transition-colors"
+                    >
+                        {t('common.save')}
+                    </button>
+                    <button
+                        onClick={() => setDraft(null)}
+                        title={t('preview.discardTitle')}
+                        className="px-2 py-0.5 rounded text-[10px] text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 hover:bg-zinc-200 dark:hover:bg-zinc-800 transition-colors"
+                    >
+                        {t('preview.discard')}
+                    </button>
+                </div>
+            )}
         </div>
 
         {/* Right: Actions */}
-        <div className="flex items-center justify-end space-x-1 w-32">
-            {!isLoading && creation && (
+        <div className="flex items-center justify-end space-x-1 min-w-[8rem]">
+            {!isLoading && creation && readOnly && (
+                <>
+                    <ShareButton creation={creation} lang={lang} />
+
+                    <ExportMenu creation={creation} lang={lang} />
+
+                    <button
+                        onClick={onAddToArchive}
+                        className="ml-2 flex items-center space-x-1 text-xs font-bold bg-blue-500 hover:bg-blue-600 text-white px-3 py-1.5 rounded-md transition-colors"
+                    >
+                        <ArchiveBoxArrowDownIcon className="w-3.5 h-3.5" />
+                        <span className="hidden sm:inline">{t('share.addToArchive')}</span>
+                    </button>
+                </>
+            )}
+            {!isLoading && creation && !readOnly && (
                 <>
-                    {creation.originalImage && (
+                    <RevisionNavigator
+                        creation={creation}
+                        onCheckout={handleCheckout}
+                        onCompare={() => setShowDiff(true)}
+                        lang={lang}
+                    />
+
+                    <SandboxIndicator permissions={permissions} onChange={onUpdateSandbox} lang={lang} />
+
+                    <ValidationBadge report={currentRevision(creation)?.validation} lang={lang} />
+
+                    {selectedInput && view === 'preview' && (
                          <button 
                             onClick={() => setShowSplitView(!showSplitView)}
-                            title={showSplitView ? "Show App Only" : "Compare with Original"}
+                            title={showSplitView ? t('preview.appOnly') : t('preview.compareOriginal')}
                             className={`p-1.5 rounded-md transition-all ${showSplitView ? 'bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
                         >
                             <ViewColumnsIcon className="w-4 h-4" />
@@ -214,94 +278,176 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                     )}
 
                     <button 
-                        onClick={handleExport}
-                        title="Export Artifact (JSON)"
-                        className="text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300 transition-colors p-1.5 rounded-md hover:bg-zinc-200 dark:hover:bg-zinc-800"
+                        onClick={() => setShowRefinePanel(!showRefinePanel)}
+                        title={showRefinePanel ? t('preview.hideRefine') : t('preview.showRefine')}
+                        className={`p-1.5 rounded-md transition-all ${showRefinePanel ? 'bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
                     >
-                        <ArrowDownTrayIcon className="w-4 h-4" />
+                        <ChatBubbleLeftRightIcon className="w-4 h-4" />
                     </button>
 
                     <button 
-                        onClick={onReset}
-                        title="New Upload"
-                        className="ml-2 flex items-center space-x-1 text-xs font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 px-3 py-1.5 rounded-md transition-colors"
+                        onClick={() => setShowPackageDialog(true)}
+                        title={t('preview.package')}
+                        className="text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300 transition-colors p-1.5 rounded-md hover:bg-zinc-200 dark:hover:bg-zinc-800"
                     >
-                        <PlusIcon className="w-3 h-3" />
-                        <span className="hidden sm:inline">New</span>
+                        <DevicePhoneMobileIcon className="w-4 h-4" />
                     </button>
+
+                    <ShareButton creation={draft !== null && isDirty ? { ...creation, html: draft } : creation} lang={lang} />
+
+                    <ExportMenu creation={draft !== null && isDirty ? { ...creation, html: draft } : creation} lang={lang} />
                 </>
             )}
+            {!isLoading && creation && (
+                <button 
+                    onClick={handleClose}
+                    title={t('preview.newUpload')}
+                    className="ml-2 flex items-center space-x-1 text-xs font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 px-3 py-1.5 rounded-md transition-colors"
+                >
+                    <PlusIcon className="w-3 h-3" />
+                    <span className="hidden sm:inline">{t('preview.new')}</span>
+                </button>
+            )}
         </div>
       </div>
 
       {/* Main Content Area */}
       <div className="relative w-full flex-1 bg-zinc-100 dark:bg-[#09090b] flex overflow-hidden transition-colors">
-        {isLoading ? (
-          <div className="absolute inset-0 flex flex-col items-center justify-center p-8 w-full">
-             {/* Technical Loading State */}
-             <div className="w-full max-w-md space-y-8">
-                <div className="flex flex-col items-center">
-                    <div className="w-12 h-12 mb-6 text-blue-500 animate-spin-slow">
-                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
-                           <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                    </div>
-                    <h3 className="text-zinc-900 dark:text-zinc-100 font-mono text-lg tracking-tight">Constructing Environment</h3>
-                    <p className="text-zinc-500 text-sm mt-2">Interpreting visual data...</p>
-                </div>
-
-                {/* Progress Bar */}
-                <div className="w-full h-1 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden">
-                    <div 
-                        className="h-full bg-blue-500 transition-all duration-300 ease-out" 
-                        style={{ width: `${((loadingStep + 1) / LOADING_STEPS.length) * 100}%` }}
-                    ></div>
-                </div>
-
-                 {/* Terminal Steps */}
-                 <div className="border border-zinc-200 dark:border-zinc-800 bg-white/50 dark:bg-black/50 rounded-lg p-4 space-y-3 font-mono text-sm max-h-[300px] overflow-y-auto backdrop-blur-sm">
-                     {LOADING_STEPS.map((step, idx) => (
-                        <LoadingStep 
-                            key={idx}
-                            text={step} 
-                            active={loadingStep === idx} 
-                            completed={loadingStep > idx} 
-                        />
-                     ))}
-                 </div>
-             </div>
-          </div>
+        {variants ? (
+          <VariantGrid
+            runs={variants}
+            onKeep={onKeepVariants}
+            onCancelRun={onCancelVariant}
+            onDiscard={onReset}
+            lang={lang}
+          />
+        ) : isLoading ? (
+          <GenerationMonitor progress={progress} onCancel={onCancel} lang={lang} />
         ) : creation?.html ? (
           <>
-            {/* Split View: Left Panel (Original Image) */}
-            {showSplitView && creation.originalImage && (
+            {/* Code View: Editor Panel */}
+            {view === 'code' && (
+                <div className="w-full md:w-1/2 h-full border-r border-zinc-200 dark:border-zinc-800 shrink-0">
+                    <CodeEditor
+                        value={draft ?? creation.html}
+                        onChange={setDraft}
+                        onSave={handleSaveEdit}
+                    />
+                </div>
+            )}
+
+            {/* Split View: Left Panel (Original Inputs) */}
+            {view === 'preview' && showSplitView && selectedInput && (
                 <div className="w-full md:w-1/2 h-1/2 md:h-full border-b md:border-b-0 md:border-r border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#0c0c0e] relative flex flex-col shrink-0 transition-colors">
                     <div className="absolute top-4 left-4 z-10 bg-white/90 dark:bg-black/80 backdrop-blur text-zinc-600 dark:text-zinc-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-200 dark:border-zinc-800">
-                        Input Source
+                        {t('preview.inputSource')}{inputs.length > 1 ? ` ${inputs.indexOf(selectedInput) + 1}/${inputs.length}` : ''}
                     </div>
-                    <div className="w-full h-full p-6 flex items-center justify-center overflow-hidden">
-                        {creation.originalImage.startsWith('data:application/pdf') ? (
-                            <PdfRenderer dataUrl={creation.originalImage} />
+                    {selectedInput.sketch && (
+                        <button
+                            onClick={() => onEditSketch(selectedInput.sketch!)}
+                            title={t('preview.editSketchTitle')}
+                            className="absolute top-4 right-4 z-10 flex items-center space-x-1.5 bg-white/90 dark:bg-black/80 backdrop-blur text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-200 dark:border-zinc-800 transition-colors"
+                        >
+                            <PencilSquareIcon className="w-3 h-3" />
+                            <span>{t('preview.editSketch')}</span>
+                        </button>
+                    )}
+                    <div className="w-full flex-1 min-h-0 p-6 flex items-center justify-center overflow-hidden">
+                        {selectedInput.mimeType === 'application/pdf' ? (
+                            <PdfRenderer dataUrl={selectedInput.dataUrl} selectedPages={selectedInput.pages} lang={lang} />
+                        ) : !selectedInput.mimeType.startsWith('image/') ? (
+                            <DocumentPreview input={selectedInput} lang={lang} />
                         ) : (
                             <img 
-                                src={creation.originalImage} 
-                                alt="Original Input" 
+                                src={selectedInput.dataUrl} 
+                                alt={selectedInput.name} 
                                 className="max-w-full max-h-full object-contain shadow-xl border border-zinc-200 dark:border-zinc-800/50 rounded"
                             />
                         )}
                     </div>
+                    {inputs.length > 1 && (
+                        <div className="flex space-x-2 px-4 py-3 overflow-x-auto border-t border-zinc-200 dark:border-zinc-800 shrink-0">
+                            {inputs.map((input, idx) => (
+                                <button
+                                    key={idx}
+                                    onClick={() => setActiveInput(idx)}
+                                    title={input.name}
+                                    className={`w-12 h-12 rounded border overflow-hidden shrink-0 flex items-center justify-center bg-zinc-50 dark:bg-zinc-900 transition-all ${input === selectedInput ? 'border-blue-500 ring-2 ring-blue-500/30' : 'border-zinc-200 dark:border-zinc-800 opacity-60 hover:opacity-100'}`}
+                                >
+                                    {input.mimeType.startsWith('image/') ? (
+                                        <img src={input.dataUrl} alt={input.name} className="w-full h-full object-cover" />
+                                    ) : (
+                                        <DocumentIcon className="w-5 h-5 text-zinc-400" />
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </div>
             )}
 
             {/* App Preview Panel */}
-            <div className={`relative h-full bg-white transition-all duration-500 ${showSplitView && creation.originalImage ? 'w-full md:w-1/2 h-1/2 md:h-full' : 'w-full'}`}>
-                 <iframe
-                    title="Gemini Live Preview"
-                    srcDoc={creation.html}
-                    className="w-full h-full"
-                    sandbox="allow-scripts allow-forms allow-popups allow-modals allow-same-origin"
+            <div className={`relative h-full flex flex-col bg-white transition-all duration-500 ${view === 'code' ? 'hidden md:flex flex-1' : showSplitView && selectedInput ? 'w-full md:w-1/2 h-1/2 md:h-full' : 'flex-1'}`}>
+                <ViewportToolbar viewport={viewport} onChange={onUpdateViewport} lang={lang} />
+                <DeviceFrame viewport={viewport} lang={lang}>
+                    {/* Sandbox flags only apply on navigation, so permission changes remount the frame */}
+                    <iframe
+                        key={sandbox}
+                        ref={iframeRef}
+                        title={t('preview.frameTitle')}
+                        srcDoc={frameHtml}
+                        className="w-full flex-1 min-h-0"
+                        sandbox={sandbox}
+                        referrerPolicy="no-referrer"
+                    />
+                </DeviceFrame>
+                <ConsolePanel
+                    entries={consoleEntries}
+                    isFixing={isRefining}
+                    onClear={() => setConsoleEntries([])}
+                    onFixErrors={readOnly ? undefined : handleFixErrors}
+                    lang={lang}
                 />
+                {isRefining && (
+                    <div className="absolute inset-0 bg-white/40 dark:bg-black/40 backdrop-blur-[2px] flex flex-col items-center justify-center space-y-3 pointer-events-none">
+                        <div className="w-8 h-8 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                        {progress?.retry ? (
+                            <span className="text-[11px] font-mono text-amber-700 dark:text-amber-400">
+                                {retryMessage(progress.retry, Date.now(), t)}
+                            </span>
+                        ) : progress && progress.bytes > 0 && (
+                            <span className="text-[11px] font-mono text-zinc-600 dark:text-zinc-300 tabular-nums">
+                                {t('preview.received', { size: formatBytes(progress.bytes, lang) })}
+                            </span>
+                        )}
+                        <button
+                            onClick={onCancel}
+                            className="pointer-events-auto px-3 py-1 rounded-full text-[11px] font-medium bg-white/80 dark:bg-zinc-900/80 text-zinc-600 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        >
+                            {t('monitor.cancel')}
+                        </button>
+                    </div>
+                )}
             </div>
+
+            {showPackageDialog && (
+                <PackageDialog creation={creation} onClose={() => setShowPackageDialog(false)} lang={lang} />
+            )}
+
+            {showDiff && (
+                <RevisionDiff creation={creation} onClose={() => setShowDiff(false)} lang={lang} />
+            )}
+
+            {/* Follow-up Refinement Panel */}
+            {showRefinePanel && !readOnly && (
+                <RefinePanel
+                    conversation={creation.conversation || []}
+                    isRefining={isRefining}
+                    onRefine={handleRefine}
+                    onClose={() => setShowRefinePanel(false)}
+                    lang={lang}
+                />
+            )}
           </>
         ) : null}
       </div>
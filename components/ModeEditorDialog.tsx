@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, DocumentDuplicateIcon, PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { modeDescription, modeName } from './ModePicker';
+import { allModes, createCustomMode, exportModes, findMode, GenerationMode, MAX_TEMPERATURE, mergeModes, MIN_TEMPERATURE, parseModes, reviseMode } from '../services/modes';
+import { downloadBlob, slugify } from '../services/exporters';
+import { Locale, formatDateTime, formatNumber, translator } from '../services/i18n';
+
+interface ModeEditorDialogProps {
+  customModes: GenerationMode[];
+  initialModeId: string;
+  onChange: (customModes: GenerationMode[]) => void;
+  onClose: () => void;
+  lang: Locale;
+}
+
+type ModeDraft = Pick<GenerationMode, 'name' | 'description' | 'instructions' | 'temperature'>;
+
+const toDraft = ({ name, description, instructions, temperature }: GenerationMode): ModeDraft =>
+  ({ name, description, instructions, temperature });
+
+const Field = ({ label, children }: { label: string, children: React.ReactNode }) => (
+  <label className="block space-y-1.5">
+    <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">{label}</span>
+    {children}
+  </label>
+);
+
+const inputClass = "w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-3 py-2 text-sm text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors disabled:opacity-60";
+
+const toolButtonClass = "flex items-center space-x-1 rtl:space-x-reverse px-2 py-1 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const downloadModes = (modes: GenerationMode[], filename: string) =>
+  downloadBlob(new Blob([exportModes(modes)], { type: 'application/json' }), filename);
+
+export const ModeEditorDialog: React.FC<ModeEditorDialogProps> = ({ customModes, initialModeId, onChange, onClose, lang }) => {
+  const t = translator(lang);
+  const modes = allModes(customModes);
+  const [selectedId, setSelectedId] = useState(findMode(modes, initialModeId).id);
+  const selected = findMode(modes, selectedId);
+  const [draft, setDraft] = useState<ModeDraft>(toDraft(selected));
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const readOnly = !!selected.builtIn;
+  const isDirty = !readOnly && JSON.stringify(draft) !== JSON.stringify(toDraft(selected));
+
+  const confirmDiscard = () => !isDirty || window.confirm(t('modes.discardConfirm'));
+
+  const select = (mode: GenerationMode) => {
+    setSelectedId(mode.id);
+    setDraft(toDraft(mode));
+  };
+
+  const handleSelect = (mode: GenerationMode) => {
+    if (mode.id === selectedId || !confirmDiscard()) return;
+    select(mode);
+  };
+
+  const handleNew = () => {
+    if (!confirmDiscard()) return;
+    const mode = createCustomMode(t('modes.untitled'));
+    onChange([...customModes, mode]);
+    select(mode);
+  };
+
+  const handleDuplicate = () => {
+    if (!confirmDiscard()) return;
+    const source = readOnly ? { ...selected, description: modeDescription(selected, t) } : { ...selected, ...draft };
+    const mode = createCustomMode(t('modes.copyName', { name: modeName(selected, t) }), source);
+    onChange([...customModes, mode]);
+    select(mode);
+  };
+
+  const handleDelete = () => {
+    if (readOnly || !window.confirm(t('modes.deleteConfirm', { name: selected.name }))) return;
+    onChange(customModes.filter(mode => mode.id !== selected.id));
+    select(modes[0]);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isDirty || !draft.name.trim()) return;
+    const revised = reviseMode(selected, { ...draft, name: draft.name.trim() });
+    onChange(customModes.map(mode => mode.id === revised.id ? revised : mode));
+    setDraft(toDraft(revised));
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { modes: merged, added, updated, skipped } = mergeModes(customModes, parseModes(await file.text()));
+      onChange(merged);
+      alert(t('modes.importDone', { added, updated, skipped }));
+    } catch (err) {
+      console.error("Mode import error", err);
+      alert(t('modes.importFailed'));
+    }
+  };
+
+  const handleClose = () => {
+    if (confirmDiscard()) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={handleClose}>
+      <form
+        onSubmit={handleSave}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-[#0E0E10] border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+      >
+        <div className="px-5 py-4 flex items-center justify-between border-b border-zinc-200 dark:border-zinc-800">
+          <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-100">{t('modes.editorTitle')}</h2>
+          <div className="flex items-center space-x-1 rtl:space-x-reverse">
+            <button type="button" onClick={() => importInputRef.current?.click()} className={toolButtonClass}>
+              <ArrowUpTrayIcon className="w-3.5 h-3.5" />
+              <span>{t('modes.import')}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => downloadModes(customModes, 'generation-modes.json')}
+              disabled={customModes.length === 0}
+              className={toolButtonClass}
+            >
+              <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+              <span>{t('modes.exportAll')}</span>
+            </button>
+            <button type="button" onClick={handleClose} className="p-1 rounded-md text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImportFile} className="hidden" />
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col sm:flex-row">
+          {/* Mode list */}
+          <div className="sm:w-56 shrink-0 border-b sm:border-b-0 sm:border-r rtl:sm:border-r-0 rtl:sm:border-l border-zinc-200 dark:border-zinc-800 flex flex-col max-h-40 sm:max-h-none">
+            <div className="flex-1 overflow-y-auto py-1">
+              {modes.map(mode => (
+                <button
+                  key={mode.id}
+                  type="button"
+                  onClick={() => handleSelect(mode)}
+                  className={`w-full flex items-center justify-between px-4 py-2 text-start text-sm transition-colors ${mode.id === selectedId ? 'bg-blue-50 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400' : 'text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+                >
+                  <span className="truncate">{modeName(mode, t)}</span>
+                  <span className="text-[10px] font-mono text-zinc-400 shrink-0">
+                    {mode.builtIn ? t('modes.builtIn') : t('modes.version', { version: mode.version })}
+                  </span>
+                </button>
+              ))}
+            </div>
+            <button type="button" onClick={handleNew} className={`${toolButtonClass} m-2 justify-center`}>
+              <PlusIcon className="w-3.5 h-3.5" />
+              <span>{t('modes.new')}</span>
+            </button>
+          </div>
+
+          {/* Selected mode */}
+          <div className="flex-1 min-w-0 overflow-y-auto p-5 space-y-4">
+            {readOnly && (
+              <p className="text-xs text-zinc-500 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-3 py-2">
+                {t('modes.readOnly')}
+              </p>
+            )}
+
+            <Field label={t('modes.name')}>
+              <input
+                className={inputClass}
+                value={readOnly ? modeName(selected, t) : draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                disabled={readOnly}
+                required
+              />
+            </Field>
+
+            <Field label={t('modes.description')}>
+              <input
+                className={inputClass}
+                value={readOnly ? modeDescription(selected, t) : draft.description}
+                onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                disabled={readOnly}
+              />
+            </Field>
+
+            <Field label={`${t('modes.temperature')} · ${formatNumber(lang, draft.temperature, { minimumFractionDigits: 1 })}`}>
+              <input
+                type="range"
+                min={MIN_TEMPERATURE}
+                max={MAX_TEMPERATURE}
+                step={0.05}
+                value={draft.temperature}
+                onChange={(e) => setDraft(prev => ({ ...prev, temperature: Number(e.target.value) }))}
+                disabled={readOnly}
+                className="w-full accent-blue-500 disabled:opacity-60"
+              />
+              <span className="block text-[11px] text-zinc-500">{t('modes.temperatureHint')}</span>
+            </Field>
+
+            <Field label={t('modes.instructions')}>
+              <textarea
+                className={`${inputClass} h-56 font-mono text-xs leading-relaxed resize-y`}
+                dir="ltr"
+                value={draft.instructions}
+                onChange={(e) => setDraft(prev => ({ ...prev, instructions: e.target.value }))}
+                readOnly={readOnly}
+                spellCheck={false}
+              />
+            </Field>
+
+            {!readOnly && selected.updatedAt && (
+              <p className="text-[11px] font-mono text-zinc-400">
+                {t('modes.version', { version: selected.version })} · {formatDateTime(lang, new Date(selected.updatedAt), { dateStyle: 'medium', timeStyle: 'short' })}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="px-5 py-4 flex items-center justify-between border-t border-zinc-200 dark:border-zinc-800">
+          <div className="flex items-center space-x-1 rtl:space-x-reverse">
+            <button type="button" onClick={handleDuplicate} className={toolButtonClass}>
+              <DocumentDuplicateIcon className="w-3.5 h-3.5" />
+              <span>{t('modes.duplicate')}</span>
+            </button>
+            <button type="button" onClick={() => downloadModes([selected], `${slugify(selected.name)}.mode.json`)} className={toolButtonClass}>
+              <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+              <span>{t('modes.export')}</span>
+            </button>
+            {!readOnly && (
+              <button type="button" onClick={handleDelete} className={`${toolButtonClass} hover:text-red-500`}>
+                <TrashIcon className="w-3.5 h-3.5" />
+                <span>{t('modes.delete')}</span>
+              </button>
+            )}
+          </div>
+          <div className="flex space-x-2 rtl:space-x-reverse">
+            <button type="button" onClick={handleClose} className="px-3 py-1.5 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+              {t('common.close')}
+            </button>
+            <button
+              type="submit"
+              disabled={!isDirty || !draft.name.trim()}
+              className="px-3 py-1.5 text-xs font-bold rounded-md bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {t('common.save')}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { AdjustmentsHorizontalIcon, CheckIcon, ChevronDownIcon, Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { GenerationMode } from '../services/modes';
+import { Locale, MessageKey, Translate, translator } from '../services/i18n';
+
+interface ModePickerProps {
+  modes: GenerationMode[];
+  modeId: string;
+  onChange: (id: string) => void;
+  onManage: () => void;
+  disabled?: boolean;
+  lang: Locale;
+}
+
+const BUILT_IN_LABELS: Record<string, { name: MessageKey; description: MessageKey }> = {
+  auto: { name: 'modes.auto', description: 'modes.autoDescription' },
+  game: { name: 'modes.game', description: 'modes.gameDescription' },
+  dashboard: { name: 'modes.dashboard', description: 'modes.dashboardDescription' },
+  crud: { name: 'modes.crud', description: 'modes.crudDescription' },
+  landing: { name: 'modes.landing', description: 'modes.landingDescription' },
+  simulation: { name: 'modes.simulation', description: 'modes.simulationDescription' },
+  educational: { name: 'modes.educational', description: 'modes.educationalDescription' },
+};
+
+// Built-in modes are shown in the interface language; custom ones as written
+export const modeName = (mode: GenerationMode, t: Translate): string =>
+  mode.builtIn && BUILT_IN_LABELS[mode.id] ? t(BUILT_IN_LABELS[mode.id].name) : mode.name;
+
+export const modeDescription = (mode: GenerationMode, t: Translate): string =>
+  mode.builtIn && BUILT_IN_LABELS[mode.id] ? t(BUILT_IN_LABELS[mode.id].description) : mode.description;
+
+export const ModePicker: React.FC<ModePickerProps> = ({ modes, modeId, onChange, onManage, disabled = false, lang }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const t = translator(lang);
+  const current = modes.find(mode => mode.id === modeId) || modes[0];
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleSelect = (id: string) => {
+    onChange(id);
+    setOpen(false);
+  };
+
+  const handleManage = () => {
+    onManage();
+    setOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative shrink-0">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        title={t('modes.label')}
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        className="flex items-center space-x-1 rtl:space-x-reverse px-2 py-1.5 mr-1.5 rtl:mr-0 rtl:ml-1.5 rounded-lg text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <AdjustmentsHorizontalIcon className="w-4 h-4" />
+        <span className="hidden sm:inline max-w-[8rem] truncate">{modeName(current, t)}</span>
+        <ChevronDownIcon className="w-3 h-3" />
+      </button>
+
+      {open && (
+        <div role="listbox" className="absolute top-full right-0 rtl:right-auto rtl:left-0 mt-2 w-72 z-50 bg-white dark:bg-[#121214] border border-zinc-200 dark:border-zinc-800 rounded-lg shadow-xl py-1">
+          <div className="max-h-80 overflow-y-auto">
+            {modes.map(mode => (
+              <button
+                key={mode.id}
+                type="button"
+                role="option"
+                aria-selected={mode.id === current.id}
+                onClick={() => handleSelect(mode.id)}
+                className="w-full flex items-start justify-between px-3 py-2 text-start hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm text-zinc-800 dark:text-zinc-200 truncate">{modeName(mode, t)}</div>
+                  {modeDescription(mode, t) && (
+                    <div className="text-[11px] text-zinc-500 line-clamp-2">{modeDescription(mode, t)}</div>
+                  )}
+                </div>
+                {mode.id === current.id && <CheckIcon className="w-4 h-4 mt-0.5 shrink-0 text-blue-500" />}
+              </button>
+            ))}
+          </div>
+          <div className="my-1 border-t border-zinc-200 dark:border-zinc-800"></div>
+          <button
+            type="button"
+            onClick={handleManage}
+            className="w-full flex items-center space-x-2 rtl:space-x-reverse px-3 py-2 text-start text-sm text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+          >
+            <Cog6ToothIcon className="w-4 h-4" />
+            <span>{t('modes.manage')}</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
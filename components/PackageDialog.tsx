@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, DevicePhoneMobileIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { defaultPackageOptions, packagePwa, renderAppIcon, PackageOptions } from '../services/pwaPackager';
+import { Locale, translator } from '../services/i18n';
+
+interface PackageDialogProps {
+  creation: Creation;
+  onClose: () => void;
+  lang: Locale;
+}
+
+const inputClass = "w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-3 py-2 text-sm text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors";
+
+const Field = ({ label, children }: { label: string, children: React.ReactNode }) => (
+  <label className="block space-y-1.5">
+    <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">{label}</span>
+    {children}
+  </label>
+);
+
+export const PackageDialog: React.FC<PackageDialogProps> = ({ creation, onClose, lang }) => {
+  const t = translator(lang);
+  const [options, setOptions] = useState<PackageOptions>(() => defaultPackageOptions(creation));
+  const [iconUrl, setIconUrl] = useState<string | null>(null);
+  const [isPackaging, setIsPackaging] = useState(false);
+
+  const update = (patch: Partial<PackageOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  // Live icon preview
+  useEffect(() => {
+    let url: string | null = null;
+    renderAppIcon(options.appName, options.themeColor, 128)
+      .then(blob => {
+        url = URL.createObjectURL(blob);
+        setIconUrl(url);
+      })
+      .catch(e => console.warn("Icon preview failed", e));
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [options.appName, options.themeColor]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPackaging(true);
+    try {
+      await packagePwa(creation, options);
+      onClose();
+    } catch (err) {
+      console.error("Packaging failed", err);
+      alert(t('package.failed', { message: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      setIsPackaging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white dark:bg-[#0E0E10] border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+      >
+        <div className="px-5 py-4 flex items-center justify-between border-b border-zinc-200 dark:border-zinc-800">
+          <div className="flex items-center space-x-2">
+            <DevicePhoneMobileIcon className="w-4 h-4 text-zinc-500" />
+            <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-100">{t('package.title')}</h2>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 rounded-md text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="flex items-center space-x-4">
+            {iconUrl ? (
+              <img src={iconUrl} alt={t('package.iconAlt')} className="w-16 h-16 rounded-2xl shadow-md shrink-0" />
+            ) : (
+              <div className="w-16 h-16 rounded-2xl bg-zinc-100 dark:bg-zinc-800 shrink-0"></div>
+            )}
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              {t('package.description')}
+            </p>
+          </div>
+
+          <Field label={t('package.appName')}>
+            <input className={inputClass} value={options.appName} onChange={(e) => update({ appName: e.target.value })} required />
+          </Field>
+          <div className="grid grid-cols-2 gap-3">
+            <Field label={t('package.shortName')}>
+              <input className={inputClass} value={options.shortName} maxLength={12} onChange={(e) => update({ shortName: e.target.value })} required />
+            </Field>
+            <Field label={t('package.themeColor')}>
+              <input className={`${inputClass} h-[38px] p-1`} type="color" value={options.themeColor} onChange={(e) => update({ themeColor: e.target.value })} />
+            </Field>
+          </div>
+
+          <label className="flex items-start space-x-3 p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 cursor-pointer">
+            <input type="checkbox" className="mt-0.5" checked={options.includeCapacitor} onChange={(e) => update({ includeCapacitor: e.target.checked })} />
+            <span>
+              <span className="block text-sm font-medium text-zinc-900 dark:text-zinc-100">{t('package.includeCapacitor')}</span>
+              <span className="block text-xs text-zinc-500">{t('package.capacitorHint')}</span>
+            </span>
+          </label>
+
+          {options.includeCapacitor && (
+            <Field label={t('package.appId')}>
+              <input
+                className={`${inputClass} font-mono`}
+                dir="ltr"
+                value={options.appId}
+                onChange={(e) => update({ appId: e.target.value })}
+                pattern="[a-zA-Z][a-zA-Z0-9_]*(\.[a-zA-Z][a-zA-Z0-9_]*)+"
+                title={t('package.appIdHint')}
+                required
+              />
+            </Field>
+          )}
+        </div>
+
+        <div className="px-5 py-4 flex justify-end space-x-2 border-t border-zinc-200 dark:border-zinc-800">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+            {t('common.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={isPackaging}
+            className="px-3 py-1.5 text-xs font-bold rounded-md bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 disabled:opacity-50 transition-colors"
+          >
+            {isPackaging ? t('package.packaging') : t('package.download')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
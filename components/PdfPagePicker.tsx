@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import { PdfThumbnail } from './PdfRenderer';
+import { formatPageRanges, loadPdf, parsePageRanges, PdfDocumentProxy } from '../services/pdf';
+import { Locale, translator } from '../services/i18n';
+
+interface PdfPagePickerProps {
+  file: File;
+  pages?: number[];
+  onApply: (pages: number[] | undefined) => void; // undefined means every page
+  onClose: () => void;
+  lang: Locale;
+}
+
+const inputClass = "w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-3 py-2 text-sm font-mono text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors";
+
+export const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ file, pages, onApply, onClose, lang }) => {
+  const [pdf, setPdf] = useState<PdfDocumentProxy | null>(null);
+  const [error, setError] = useState(false);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [rangeText, setRangeText] = useState("");
+  const t = translator(lang);
+
+  useEffect(() => {
+    let loaded: PdfDocumentProxy | null = null;
+    let cancelled = false;
+    loadPdf(file)
+      .then(doc => {
+        loaded = doc;
+        if (cancelled) return;
+        const initial = pages ?? Array.from({ length: doc.numPages }, (_, i) => i + 1);
+        setPdf(doc);
+        setSelected(initial);
+        setRangeText(formatPageRanges(initial));
+      })
+      .catch(err => {
+        console.error("Error loading PDF:", err);
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file]);
+
+  const pageCount = pdf?.numPages ?? 0;
+  const rangeValid = !pdf || parsePageRanges(rangeText, pageCount) !== null;
+
+  const select = (next: number[]) => {
+    const sorted = [...next].sort((a, b) => a - b);
+    setSelected(sorted);
+    setRangeText(formatPageRanges(sorted));
+  };
+
+  const togglePage = (page: number) =>
+    select(selected.includes(page) ? selected.filter(p => p !== page) : [...selected, page]);
+
+  const handleRangeChange = (text: string) => {
+    setRangeText(text);
+    const parsed = parsePageRanges(text, pageCount);
+    if (parsed) setSelected(parsed);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pdf || selected.length === 0 || !rangeValid) return;
+    onApply(selected.length === pageCount ? undefined : selected);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-2xl max-h-full flex flex-col bg-white dark:bg-[#0E0E10] border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+      >
+        <div className="px-5 py-4 flex items-center justify-between border-b border-zinc-200 dark:border-zinc-800 shrink-0">
+          <div className="flex items-center space-x-2 rtl:space-x-reverse min-w-0">
+            <DocumentDuplicateIcon className="w-4 h-4 text-zinc-500 shrink-0" />
+            <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-100 truncate">
+              {t('picker.title')} <span className="font-normal text-zinc-500">· {file.name}</span>
+            </h2>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 rounded-md text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 flex-1 min-h-0 flex flex-col">
+          <p className="text-xs text-zinc-500 leading-relaxed">
+            {t('picker.hint')}
+          </p>
+
+          <div className="flex items-center space-x-2 rtl:space-x-reverse">
+            <input
+              className={`${inputClass} ${rangeValid ? '' : 'border-red-400 focus:border-red-500'}`}
+              dir="ltr"
+              value={rangeText}
+              onChange={(e) => handleRangeChange(e.target.value)}
+              placeholder="1-3, 5"
+              disabled={!pdf}
+            />
+            <button
+              type="button"
+              onClick={() => select(Array.from({ length: pageCount }, (_, i) => i + 1))}
+              disabled={!pdf || selected.length === pageCount}
+              className="px-3 py-2 text-xs font-medium rounded-md whitespace-nowrap border border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50 transition-colors"
+            >
+              {t('input.allPages')}
+            </button>
+          </div>
+
+          <div className="flex-1 min-h-[10rem] overflow-y-auto">
+            {error ? (
+              <p className="text-sm text-red-400/80 text-center py-8">{t('picker.openFailed')}</p>
+            ) : !pdf ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-[repeat(auto-fill,minmax(96px,1fr))] gap-3">
+                {Array.from({ length: pageCount }, (_, i) => i + 1).map(page => (
+                  <PdfThumbnail
+                    key={page}
+                    pdf={pdf}
+                    pageNumber={page}
+                    width={96}
+                    active={selected.includes(page)}
+                    dimmed={!selected.includes(page)}
+                    onClick={() => togglePage(page)}
+                    lang={lang}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="px-5 py-4 flex items-center justify-between border-t border-zinc-200 dark:border-zinc-800 shrink-0">
+          <span className="text-[11px] font-mono text-zinc-500">
+            {pdf && t('picker.count', { selected: selected.length, total: pageCount })}
+          </span>
+          <div className="flex space-x-2 rtl:space-x-reverse">
+            <button type="button" onClick={onClose} className="px-3 py-1.5 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={!pdf || selected.length === 0 || !rangeValid}
+              className="px-3 py-1.5 text-xs font-bold rounded-md bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 disabled:opacity-50 transition-colors"
+            >
+              {t('common.apply')}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { DocumentIcon, ChevronLeftIcon, ChevronRightIcon, MagnifyingGlassPlusIcon, MagnifyingGlassMinusIcon, ArrowsPointingInIcon } from '@heroicons/react/24/outline';
+import { loadPdf, pageSize, renderPage, PdfDocumentProxy } from '../services/pdf';
+import { Locale, MessageKey, formatNumber, translator } from '../services/i18n';
+
+interface PdfThumbnailProps {
+  pdf: PdfDocumentProxy;
+  pageNumber: number;
+  width: number;
+  active?: boolean;
+  dimmed?: boolean;
+  onClick: () => void;
+  lang: Locale;
+}
+
+/** Renders once it scrolls into view so long documents don't render every page up front. */
+export const PdfThumbnail: React.FC<PdfThumbnailProps> = ({ pdf, pageNumber, width, active = false, dimmed = false, onClick, lang }) => {
+  const t = translator(lang);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [rendered, setRendered] = useState(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let cancelled = false;
+    const observer = new IntersectionObserver(async ([entry]) => {
+      if (!entry.isIntersecting) return;
+      observer.disconnect();
+      try {
+        const size = await pageSize(pdf, pageNumber);
+        if (cancelled) return;
+        const css = await renderPage(pdf, pageNumber, canvas, width / size.width);
+        if (cancelled) return;
+        canvas.style.width = `${css.width}px`;
+        canvas.style.height = `${css.height}px`;
+        setRendered(true);
+      } catch (err) {
+        console.warn(`Thumbnail for page ${pageNumber} failed`, err);
+      }
+    });
+    observer.observe(canvas);
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [pdf, pageNumber, width]);
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={t('pdf.page', { page: pageNumber })}
+      className={`relative shrink-0 rounded border bg-white overflow-hidden transition-all ${active ? 'border-blue-500 ring-2 ring-blue-500/30' : 'border-zinc-200 dark:border-zinc-700'} ${dimmed ? 'opacity-40 hover:opacity-80' : ''}`}
+      style={{ width }}
+    >
+      <canvas ref={canvasRef} className={`block ${rendered ? '' : 'aspect-[3/4] w-full'}`} />
+      <span className="absolute bottom-0.5 right-0.5 px-1 rounded bg-black/60 text-white text-[9px] font-mono tabular-nums">{pageNumber}</span>
+    </button>
+  );
+};
+
+interface PdfRendererProps {
+  dataUrl: string;
+  selectedPages?: number[]; // Pages that were sent to the model; all when absent
+  lang: Locale;
+}
+
+const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+const FIT_PADDING = 32;
+
+export const PdfRenderer: React.FC<PdfRendererProps> = ({ dataUrl, selectedPages, lang }) => {
+  const t = translator(lang);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; left: number; top: number } | null>(null);
+  const [pdf, setPdf] = useState<PdfDocumentProxy | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [zoom, setZoom] = useState<number | 'fit'>('fit');
+  const [scale, setScale] = useState(1); // Effective scale of the rendered page
+  const [loading, setLoading] = useState(true);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+
+  // Load the document
+  useEffect(() => {
+    let loaded: PdfDocumentProxy | null = null;
+    let cancelled = false;
+    setPdf(null);
+    setError(null);
+    setLoading(true);
+    setZoom('fit');
+    setPageNumber(selectedPages?.[0] ?? 1);
+
+    loadPdf(dataUrl)
+      .then(doc => {
+        loaded = doc;
+        if (!cancelled) setPdf(doc);
+      })
+      .catch(err => {
+        console.error("Error rendering PDF:", err);
+        if (!cancelled) {
+          setError(err instanceof Error && err.message === "PDF library not initialized" ? 'pdf.notInitialized' : 'pdf.failed');
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [dataUrl]);
+
+  // Track the available space so "fit" follows layout changes
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Render the current page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!pdf || !canvas || viewport.width === 0) return;
+    let cancelled = false;
+
+    const draw = async () => {
+      try {
+        setLoading(true);
+        const size = await pageSize(pdf, pageNumber);
+        const fitScale = Math.max(0.1, Math.min((viewport.width - FIT_PADDING) / size.width, (viewport.height - FIT_PADDING) / size.height));
+        const nextScale = zoom === 'fit' ? fitScale : zoom;
+        const css = await renderPage(pdf, pageNumber, canvas, nextScale);
+        if (cancelled) return;
+        canvas.style.width = `${css.width}px`;
+        canvas.style.height = `${css.height}px`;
+        setScale(nextScale);
+        setLoading(false);
+      } catch (err) {
+        console.error("Error rendering PDF page:", err);
+        if (!cancelled) setError('pdf.failed');
+      }
+    };
+    draw();
+
+    return () => { cancelled = true; };
+  }, [pdf, pageNumber, zoom, viewport.width, viewport.height]);
+
+  const pageCount = pdf?.numPages ?? 0;
+  const goTo = (page: number) => setPageNumber(Math.min(Math.max(1, page), pageCount));
+  const zoomIn = () => setZoom(ZOOM_STEPS.find(step => step > scale + 0.01) ?? ZOOM_STEPS[ZOOM_STEPS.length - 1]);
+  const zoomOut = () => setZoom([...ZOOM_STEPS].reverse().find(step => step < scale - 0.01) ?? ZOOM_STEPS[0]);
+
+  // Drag to pan when the page is larger than the panel
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const container = containerRef.current;
+    if (!container || e.button !== 0) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, left: container.scrollLeft, top: container.scrollTop };
+  };
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const container = containerRef.current;
+    const drag = dragRef.current;
+    if (!container || !drag) return;
+    container.scrollLeft = drag.left - (e.clientX - drag.x);
+    container.scrollTop = drag.top - (e.clientY - drag.y);
+  };
+  const endDrag = () => { dragRef.current = null; };
+
+  if (error) {
+    return (
+        <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
+            <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
+            <p className="text-sm mb-2 text-red-400/80">{t(error)}</p>
+        </div>
+    );
+  }
+
+  const controlClass = "p-1 rounded text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 hover:bg-zinc-200 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors";
+
+  return (
+    <div className="w-full h-full flex flex-col min-h-0">
+        {/* Toolbar */}
+        <div className="flex items-center justify-between pb-3 shrink-0">
+            <div className="flex items-center space-x-1">
+                <button type="button" onClick={() => goTo(pageNumber - 1)} disabled={pageNumber <= 1} title={t('pdf.previous')} className={controlClass}>
+                    <ChevronLeftIcon className="w-4 h-4 rtl:rotate-180" />
+                </button>
+                <span className="text-[11px] font-mono text-zinc-600 dark:text-zinc-400 tabular-nums">
+                    {pageCount ? `${formatNumber(lang, pageNumber)} / ${formatNumber(lang, pageCount)}` : '–'}
+                </span>
+                <button type="button" onClick={() => goTo(pageNumber + 1)} disabled={pageNumber >= pageCount} title={t('pdf.next')} className={controlClass}>
+                    <ChevronRightIcon className="w-4 h-4 rtl:rotate-180" />
+                </button>
+            </div>
+            <div className="flex items-center space-x-1">
+                <button type="button" onClick={zoomOut} disabled={!pdf || scale <= ZOOM_STEPS[0]} title={t('pdf.zoomOut')} className={controlClass}>
+                    <MagnifyingGlassMinusIcon className="w-4 h-4" />
+                </button>
+                <span className="w-10 text-center text-[11px] font-mono text-zinc-600 dark:text-zinc-400 tabular-nums">{formatNumber(lang, scale, { style: 'percent' })}</span>
+                <button type="button" onClick={zoomIn} disabled={!pdf || scale >= ZOOM_STEPS[ZOOM_STEPS.length - 1]} title={t('pdf.zoomIn')} className={controlClass}>
+                    <MagnifyingGlassPlusIcon className="w-4 h-4" />
+                </button>
+                <button type="button" onClick={() => setZoom('fit')} disabled={zoom === 'fit'} title={t('pdf.fit')} className={controlClass}>
+                    <ArrowsPointingInIcon className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+
+        {/* Page */}
+        <div
+            ref={containerRef}
+            className={`relative flex-1 min-h-0 overflow-auto ${zoom === 'fit' ? '' : 'cursor-grab active:cursor-grabbing'}`}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={endDrag}
+            onMouseLeave={endDrag}
+        >
+            {loading && (
+                <div className="absolute inset-0 flex items-center justify-center z-10">
+                    <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                </div>
+            )}
+            <div className="min-w-full min-h-full w-max h-max flex items-center justify-center p-4">
+                <canvas
+                    ref={canvasRef}
+                    className={`shadow-xl border border-zinc-200 dark:border-zinc-800/50 rounded transition-opacity duration-300 select-none ${loading ? 'opacity-50' : 'opacity-100'}`}
+                />
+            </div>
+        </div>
+
+        {/* Thumbnails */}
+        {pdf && pageCount > 1 && (
+            <div className="flex space-x-2 pt-3 overflow-x-auto shrink-0">
+                {Array.from({ length: pageCount }, (_, i) => i + 1).map(page => (
+                    <PdfThumbnail
+                        key={page}
+                        pdf={pdf}
+                        pageNumber={page}
+                        width={56}
+                        active={page === pageNumber}
+                        dimmed={!!selectedPages && !selectedPages.includes(page)}
+                        onClick={() => goTo(page)}
+                        lang={lang}
+                    />
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { PROVIDER_OPTIONS, ProviderId, ProviderSettings } from '../services/providers';
+import { Locale, MessageKey, translator } from '../services/i18n';
+
+interface ProviderSettingsDialogProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+  lang: Locale;
+}
+
+const DESCRIPTIONS: Record<ProviderId, MessageKey> = {
+  gemini: 'provider.geminiDescription',
+  http: 'provider.httpDescription',
+  mock: 'provider.mockDescription',
+};
+
+const Field = ({ label, children }: { label: string, children: React.ReactNode }) => (
+  <label className="block space-y-1.5">
+    <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">{label}</span>
+    {children}
+  </label>
+);
+
+const inputClass = "w-full bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-3 py-2 text-sm text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors";
+
+export const ProviderSettingsDialog: React.FC<ProviderSettingsDialogProps> = ({ settings, onSave, onClose, lang }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const t = translator(lang);
+
+  const update = <K extends 'gemini' | 'http' | 'mock' | 'requests'>(section: K, patch: Partial<ProviderSettings[K]>) => {
+    setDraft(prev => ({ ...prev, [section]: { ...prev[section], ...patch } }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white dark:bg-[#0E0E10] border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+      >
+        <div className="px-5 py-4 flex items-center justify-between border-b border-zinc-200 dark:border-zinc-800">
+          <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-100">{t('app.modelProvider')}</h2>
+          <button type="button" onClick={onClose} className="p-1 rounded-md text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          <div className="space-y-2">
+            {PROVIDER_OPTIONS.map(option => (
+              <label
+                key={option.id}
+                className={`flex items-start space-x-3 rtl:space-x-reverse p-3 rounded-lg border cursor-pointer transition-colors ${draft.provider === option.id ? 'border-blue-500 bg-blue-50/50 dark:bg-blue-500/10' : 'border-zinc-200 dark:border-zinc-800 hover:border-zinc-300 dark:hover:border-zinc-700'}`}
+              >
+                <input
+                  type="radio"
+                  name="provider"
+                  checked={draft.provider === option.id}
+                  onChange={() => setDraft(prev => ({ ...prev, provider: option.id }))}
+                  className="mt-1"
+                />
+                <div>
+                  <div className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{option.label}</div>
+                  <div className="text-xs text-zinc-500">{t(DESCRIPTIONS[option.id])}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {draft.provider === 'gemini' && (
+            <Field label={t('provider.model')}>
+              <input className={inputClass} value={draft.gemini.model} onChange={(e) => update('gemini', { model: e.target.value })} />
+            </Field>
+          )}
+
+          {draft.provider === 'http' && (
+            <>
+              <Field label={t('provider.baseUrl')}>
+                <input className={inputClass} dir="ltr" value={draft.http.baseUrl} onChange={(e) => update('http', { baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" />
+              </Field>
+              <Field label={t('provider.model')}>
+                <input className={inputClass} dir="ltr" value={draft.http.model} onChange={(e) => update('http', { model: e.target.value })} />
+              </Field>
+              <Field label={t('provider.apiKey')}>
+                <input className={inputClass} dir="ltr" type="password" value={draft.http.apiKey || ""} onChange={(e) => update('http', { apiKey: e.target.value || undefined })} />
+              </Field>
+            </>
+          )}
+
+          {draft.provider === 'mock' && (
+            <Field label={t('provider.chunkDelay')}>
+              <input className={inputClass} type="number" min={0} value={draft.mock.chunkDelayMs} onChange={(e) => update('mock', { chunkDelayMs: Math.max(0, Number(e.target.value) || 0) })} />
+            </Field>
+          )}
+
+          <div className="grid grid-cols-2 gap-3 pt-4 border-t border-zinc-200 dark:border-zinc-800">
+            <Field label={t('provider.timeout')}>
+              <input className={inputClass} type="number" min={0} value={draft.requests.timeoutSeconds} onChange={(e) => update('requests', { timeoutSeconds: Math.max(0, Number(e.target.value) || 0) })} />
+            </Field>
+            <Field label={t('provider.maxRetries')}>
+              <input className={inputClass} type="number" min={0} max={10} value={draft.requests.maxRetries} onChange={(e) => update('requests', { maxRetries: Math.min(10, Math.max(0, Math.round(Number(e.target.value)) || 0)) })} />
+            </Field>
+            <p className="col-span-2 text-[11px] text-zinc-500">{t('provider.requestsHint')}</p>
+          </div>
+        </div>
+
+        <div className="px-5 py-4 flex justify-end space-x-2 rtl:space-x-reverse border-t border-zinc-200 dark:border-zinc-800">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+            {t('common.cancel')}
+          </button>
+          <button type="submit" className="px-3 py-1.5 text-xs font-bold rounded-md bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors">
+            {t('common.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { PaperAirplaneIcon, SparklesIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ChatTurn } from './CreationHistory';
+import { Locale, MessageKey, translator } from '../services/i18n';
+import { REFINE_REPLY } from '../services/generation';
+
+interface RefinePanelProps {
+  conversation: ChatTurn[];
+  isRefining: boolean;
+  onRefine: (instruction: string) => void;
+  onClose: () => void;
+  lang: Locale;
+}
+
+const SUGGESTIONS: MessageKey[] = ['refine.suggestion1', 'refine.suggestion2', 'refine.suggestion3'];
+
+export const RefinePanel: React.FC<RefinePanelProps> = ({ conversation, isRefining, onRefine, onClose, lang }) => {
+  const t = translator(lang);
+  const [instruction, setInstruction] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest turn in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [conversation.length, isRefining]);
+
+  const submit = (text: string) => {
+    if (!text.trim() || isRefining) return;
+    onRefine(text.trim());
+    setInstruction("");
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(instruction);
+  };
+
+  return (
+    <div className="w-full md:w-80 h-full flex flex-col shrink-0 border-l border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#0c0c0e] transition-colors">
+      <div className="px-4 py-2.5 flex items-center justify-between border-b border-zinc-200 dark:border-zinc-800">
+        <div className="flex items-center space-x-2 text-zinc-500">
+          <SparklesIcon className="w-3 h-3" />
+          <span className="text-[10px] font-mono uppercase tracking-wider">{t('refine.title')}</span>
+        </div>
+        <button
+          onClick={onClose}
+          title={t('refine.close')}
+          className="p-1 rounded-md text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-800 transition-colors"
+        >
+          <XMarkIcon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {/* Conversation */}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+        {conversation.length === 0 && !isRefining && (
+          <div className="space-y-3">
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              {t('refine.intro')}
+            </p>
+            <div className="flex flex-col items-start gap-2">
+              {SUGGESTIONS.map(key => (
+                <button
+                  key={key}
+                  onClick={() => submit(t(key))}
+                  className="text-[11px] font-mono text-zinc-600 dark:text-zinc-400 border border-zinc-200 dark:border-zinc-800 hover:border-blue-500/50 hover:text-blue-500 rounded-md px-2 py-1 transition-colors"
+                >
+                  {t(key)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {conversation.map((turn, idx) => (
+          <div key={idx} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-[85%] px-3 py-2 rounded-lg text-xs leading-relaxed ${
+                turn.role === 'user'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-zinc-100 dark:bg-zinc-800/70 text-zinc-600 dark:text-zinc-400 font-mono'
+              }`}
+            >
+              {turn.role === 'model' && turn.text === REFINE_REPLY ? t('app.refineDone') : turn.text}
+            </div>
+          </div>
+        ))}
+
+        {isRefining && (
+          <div className="flex items-center space-x-2 text-xs font-mono text-zinc-500">
+            <div className="w-3 h-3 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+            <span>{t('refine.applying')}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Instruction Input */}
+      <form onSubmit={handleSubmit} className="p-3 border-t border-zinc-200 dark:border-zinc-800">
+        <div className="flex items-center bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-1">
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder={t('refine.placeholder')}
+            className="flex-1 bg-transparent border-0 focus:ring-0 focus:outline-none text-zinc-900 dark:text-white placeholder-zinc-400 dark:placeholder-zinc-600 px-2 py-1.5 text-xs"
+            disabled={isRefining}
+          />
+          <button
+            type="submit"
+            disabled={!instruction.trim() || isRefining}
+            className="p-1.5 rounded-md text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <PaperAirplaneIcon className="w-4 h-4 -rotate-45 rtl:rotate-[225deg]" />
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { revisionLabel, SOURCE_LABELS } from './RevisionNavigator';
+import { diffLines, DiffRow, flattenTree } from '../services/revisions';
+import { Locale, translator } from '../services/i18n';
+
+interface RevisionDiffProps {
+  creation: Creation;
+  onClose: () => void;
+  lang: Locale;
+}
+
+// Unchanged lines kept around each change when collapsing
+const CONTEXT_LINES = 3;
+
+type DisplayRow = DiffRow | { type: 'gap'; count: number };
+
+const collapse = (rows: DiffRow[]): DisplayRow[] => {
+  const keep = rows.map(() => false);
+  rows.forEach((row, idx) => {
+    if (row.type === 'same') return;
+    for (let k = Math.max(0, idx - CONTEXT_LINES); k <= Math.min(rows.length - 1, idx + CONTEXT_LINES); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const result: DisplayRow[] = [];
+  let hidden = 0;
+  rows.forEach((row, idx) => {
+    if (keep[idx]) {
+      if (hidden) result.push({ type: 'gap', count: hidden });
+      hidden = 0;
+      result.push(row);
+    } else {
+      hidden++;
+    }
+  });
+  if (hidden) result.push({ type: 'gap', count: hidden });
+  return result;
+};
+
+const sideClass = (type: DiffRow['type'], side: 'left' | 'right'): string => {
+  if (type === 'removed' || (type === 'changed' && side === 'left')) return 'bg-red-50 dark:bg-red-500/10 text-red-800 dark:text-red-300';
+  if (type === 'added' || (type === 'changed' && side === 'right')) return 'bg-green-50 dark:bg-green-500/10 text-green-800 dark:text-green-300';
+  return 'text-zinc-600 dark:text-zinc-400';
+};
+
+const Cell = ({ line, type, side }: { line?: { line: number; text: string }, type: DiffRow['type'], side: 'left' | 'right' }) => (
+  <div className={`flex min-w-0 ${line ? sideClass(type, side) : 'bg-zinc-50 dark:bg-zinc-900/50'}`}>
+    <span className="w-10 shrink-0 text-right pr-2 select-none text-zinc-400 dark:text-zinc-600">{line?.line ?? ''}</span>
+    <span className="flex-1 whitespace-pre-wrap break-all pr-2">{line?.text ?? ''}</span>
+  </div>
+);
+
+export const RevisionDiff: React.FC<RevisionDiffProps> = ({ creation, onClose, lang }) => {
+  const t = translator(lang);
+  const revisions = creation.revisions || [];
+  const current = revisions.find(r => r.id === creation.currentRevisionId) || revisions[revisions.length - 1];
+  const [leftId, setLeftId] = useState(current?.parentId || revisions[0]?.id);
+  const [rightId, setRightId] = useState(current?.id);
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  const left = revisions.find(r => r.id === leftId);
+  const right = revisions.find(r => r.id === rightId);
+  const rows = useMemo(() => left && right ? diffLines(left.html, right.html) : [], [left, right]);
+  const displayRows = changesOnly ? collapse(rows) : rows;
+  const stats = rows.reduce((acc, row) => {
+    if (row.left && row.type !== 'same') acc.removed++;
+    if (row.right && row.type !== 'same') acc.added++;
+    return acc;
+  }, { added: 0, removed: 0 });
+
+  const options = flattenTree(revisions).map(({ revision, depth }) => (
+    <option key={revision.id} value={revision.id}>
+      {' '.repeat(depth * 2)}{revisionLabel(revisions, revision.id)} · {revision.note || t(SOURCE_LABELS[revision.source])}
+    </option>
+  ));
+
+  const selectClass = "flex-1 min-w-0 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-2 py-1 text-xs font-mono text-zinc-700 dark:text-zinc-300 focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-6xl h-[85vh] flex flex-col bg-white dark:bg-[#0E0E10] border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+      >
+        <div className="px-5 py-3 flex items-center justify-between border-b border-zinc-200 dark:border-zinc-800">
+          <div className="flex items-center space-x-3">
+            <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-100">{t('diff.title')}</h2>
+            <span className="text-[11px] font-mono text-red-500">-{stats.removed}</span>
+            <span className="text-[11px] font-mono text-green-500">+{stats.added}</span>
+          </div>
+          <div className="flex items-center space-x-3">
+            <label className="flex items-center space-x-1.5 text-xs text-zinc-500 cursor-pointer">
+              <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} />
+              <span>{t('diff.changesOnly')}</span>
+            </label>
+            <button onClick={onClose} className="p-1 rounded-md text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 px-5 py-2 border-b border-zinc-200 dark:border-zinc-800">
+          <select className={selectClass} value={leftId} onChange={(e) => setLeftId(e.target.value)}>{options}</select>
+          <select className={selectClass} value={rightId} onChange={(e) => setRightId(e.target.value)}>{options}</select>
+        </div>
+
+        <div className="flex-1 overflow-auto font-mono text-[11px] leading-5" dir="ltr">
+          {displayRows.length === 0 || (stats.added === 0 && stats.removed === 0) ? (
+            <div className="p-8 text-center text-xs text-zinc-500">{t('diff.identical')}</div>
+          ) : displayRows.map((row, idx) => row.type === 'gap' ? (
+            <div key={idx} className="px-4 py-1 text-center text-[10px] text-zinc-400 bg-zinc-50 dark:bg-zinc-900/60 border-y border-zinc-100 dark:border-zinc-800/50">
+              ⋯ {t(row.count === 1 ? 'diff.unchangedOne' : 'diff.unchanged', { count: row.count })}
+            </div>
+          ) : (
+            <div key={idx} className="grid grid-cols-2 divide-x divide-zinc-200 dark:divide-zinc-800">
+              <Cell line={row.left} type={row.type} side="left" />
+              <Cell line={row.right} type={row.type} side="right" />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
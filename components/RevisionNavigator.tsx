@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, ChevronDownIcon, ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import { Creation, Revision, RevisionSource } from './CreationHistory';
+import { childrenOf, flattenTree } from '../services/revisions';
+import { Locale, MessageKey, formatDateTime, translator } from '../services/i18n';
+
+interface RevisionNavigatorProps {
+  creation: Creation;
+  onCheckout: (revisionId: string) => void;
+  onCompare: () => void;
+  lang: Locale;
+}
+
+// Revisions are numbered in creation order, regardless of branch
+export const revisionLabel = (revisions: Revision[], id?: string): string =>
+  `r${revisions.findIndex(r => r.id === id) + 1}`;
+
+export const SOURCE_LABELS: Record<RevisionSource, MessageKey> = {
+  generate: 'revisions.sourceGenerate',
+  refine: 'revisions.sourceRefine',
+  edit: 'revisions.sourceEdit',
+};
+
+export const RevisionNavigator: React.FC<RevisionNavigatorProps> = ({ creation, onCheckout, onCompare, lang }) => {
+  const t = translator(lang);
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const revisions = creation.revisions || [];
+  const current = revisions.find(r => r.id === creation.currentRevisionId);
+
+  // Close the tree menu on outside clicks
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  if (!current || revisions.length < 2) return null;
+
+  // Back walks to the parent; forward follows the newest child
+  const parent = current.parentId;
+  const children = childrenOf(revisions, current.id);
+  const next = children[children.length - 1]?.id;
+
+  return (
+    <div ref={menuRef} className="relative flex items-center bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md">
+      <button
+        onClick={() => parent && onCheckout(parent)}
+        disabled={!parent}
+        title={t('revisions.previous')}
+        className="p-1 text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+      >
+        <ChevronLeftIcon className="w-3.5 h-3.5 rtl:rotate-180" />
+      </button>
+      <button
+        onClick={() => setOpen(!open)}
+        title={t('revisions.tree')}
+        className="flex items-center space-x-1 px-1 text-[10px] font-mono text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 tabular-nums transition-colors"
+      >
+        <span>{revisionLabel(revisions, current.id)}/{revisions.length}</span>
+        <ChevronDownIcon className="w-3 h-3" />
+      </button>
+      <button
+        onClick={() => next && onCheckout(next)}
+        disabled={!next}
+        title={children.length > 1 ? t('revisions.nextBranches', { count: children.length }) : t('revisions.next')}
+        className="p-1 text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+      >
+        <ChevronRightIcon className="w-3.5 h-3.5 rtl:rotate-180" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 rtl:right-auto rtl:left-0 mt-2 w-72 max-h-80 overflow-y-auto z-50 bg-white dark:bg-[#121214] border border-zinc-200 dark:border-zinc-800 rounded-lg shadow-xl py-1">
+          {flattenTree(revisions).map(({ revision, depth }) => (
+            <button
+              key={revision.id}
+              onClick={() => { onCheckout(revision.id); setOpen(false); }}
+              className={`w-full flex items-start space-x-2 px-3 py-1.5 text-start hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors ${revision.id === current.id ? 'bg-blue-50 dark:bg-blue-500/10' : ''}`}
+              style={{ paddingInlineStart: `${12 + depth * 12}px` }}
+            >
+              <span className={`text-[10px] font-mono pt-0.5 shrink-0 ${revision.id === current.id ? 'text-blue-500' : 'text-zinc-400'}`}>
+                {depth > 0 ? '└ ' : ''}{revisionLabel(revisions, revision.id)}
+              </span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-xs text-zinc-700 dark:text-zinc-300 truncate">{revision.note || t(SOURCE_LABELS[revision.source])}</span>
+                <span className="block text-[10px] font-mono text-zinc-400 dark:text-zinc-600">
+                  {t(SOURCE_LABELS[revision.source])} · {formatDateTime(lang, revision.timestamp, { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </span>
+            </button>
+          ))}
+          <div className="border-t border-zinc-200 dark:border-zinc-800 mt-1 pt-1">
+            <button
+              onClick={() => { onCompare(); setOpen(false); }}
+              className="w-full flex items-center space-x-2 px-3 py-1.5 text-xs text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+            >
+              <ArrowsRightLeftIcon className="w-3.5 h-3.5" />
+              <span>{t('revisions.compare')}</span>
+            </button>
+          </div>
+          <p className="px-3 py-1.5 text-[10px] text-zinc-400 dark:text-zinc-600 leading-relaxed">
+            {t('revisions.branchNote')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
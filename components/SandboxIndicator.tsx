@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { LockClosedIcon, GlobeAltIcon, ArrowTopRightOnSquareIcon, ChatBubbleBottomCenterTextIcon } from '@heroicons/react/24/outline';
+import { CDN_ALLOWLIST, SandboxPermissions } from '../services/sandbox';
+import { Locale, MessageKey, translator } from '../services/i18n';
+
+interface SandboxIndicatorProps {
+  permissions: SandboxPermissions;
+  onChange: (permissions: SandboxPermissions) => void;
+  lang: Locale;
+}
+
+const TOGGLES: { id: keyof SandboxPermissions; label: MessageKey; hint: MessageKey; icon: React.ElementType }[] = [
+  { id: 'network', label: 'sandbox.network', hint: 'sandbox.networkHint', icon: GlobeAltIcon },
+  { id: 'popups', label: 'sandbox.popups', hint: 'sandbox.popupsHint', icon: ArrowTopRightOnSquareIcon },
+  { id: 'modals', label: 'sandbox.modals', hint: 'sandbox.modalsHint', icon: ChatBubbleBottomCenterTextIcon },
+];
+
+export const SandboxIndicator: React.FC<SandboxIndicatorProps> = ({ permissions, onChange, lang }) => {
+  const t = translator(lang);
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const granted = TOGGLES.filter(toggle => permissions[toggle.id]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title={t('sandbox.title')}
+        className={`flex items-center space-x-1 px-1.5 py-1 rounded-md border text-[10px] font-mono transition-colors ${permissions.network ? 'border-amber-500/40 text-amber-600 dark:text-amber-400 bg-amber-500/10' : 'border-zinc-200 dark:border-zinc-800 text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+      >
+        <LockClosedIcon className="w-3.5 h-3.5" />
+        {granted.map(({ id, icon: Icon }) => <Icon key={id} className="w-3 h-3" />)}
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 rtl:right-auto rtl:left-0 mt-2 w-72 z-50 bg-white dark:bg-[#121214] border border-zinc-200 dark:border-zinc-800 rounded-lg shadow-xl py-2">
+          <div className="px-3 pb-2 border-b border-zinc-200 dark:border-zinc-800">
+            <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">{t('sandbox.heading')}</span>
+            <p className="mt-1 text-[11px] text-zinc-500 leading-relaxed">
+              {t('sandbox.description')}
+            </p>
+          </div>
+
+          {TOGGLES.map(({ id, label, hint, icon: Icon }) => (
+            <label key={id} className="flex items-start space-x-3 px-3 py-2 cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+              <Icon className="w-4 h-4 mt-0.5 text-zinc-500 shrink-0" />
+              <span className="flex-1">
+                <span className="block text-xs font-medium text-zinc-800 dark:text-zinc-200">{t(label)}</span>
+                <span className="block text-[10px] text-zinc-500">{t(hint)}</span>
+              </span>
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={permissions[id]}
+                onChange={(e) => onChange({ ...permissions, [id]: e.target.checked })}
+              />
+            </label>
+          ))}
+
+          {!permissions.network && (
+            <p className="px-3 pt-2 border-t border-zinc-200 dark:border-zinc-800 text-[10px] text-zinc-500 leading-relaxed">
+              {t('sandbox.cdnNote', { hosts: CDN_ALLOWLIST.map(url => new URL(url).host).join(', ') })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
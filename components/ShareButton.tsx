@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckIcon, ExclamationTriangleIcon, LinkIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { formatBytes } from './GenerationMonitor';
+import { createShareLink, ShareLink } from '../services/share';
+import { Locale, translator } from '../services/i18n';
+
+interface ShareButtonProps {
+  creation: Creation;
+  lang: Locale;
+}
+
+export const ShareButton: React.FC<ShareButtonProps> = ({ creation, lang }) => {
+  const t = translator(lang);
+  const [open, setOpen] = useState(false);
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [copied, setCopied] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (e) {
+      // Clipboard access can be denied; the link stays selectable in the popover
+      console.warn("Clipboard unavailable", e);
+      setCopied(false);
+    }
+  };
+
+  const handleOpen = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+    setOpen(true);
+    setLink(null);
+    setCopied(false);
+    try {
+      const created = await createShareLink(creation);
+      setLink(created);
+      if (!created.tooLong) await copy(created.url);
+    } catch (e) {
+      console.error("Share link failed", e);
+      setOpen(false);
+      alert(t('share.failed'));
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={handleOpen}
+        title={t('share.title')}
+        className={`p-1.5 rounded-md transition-all ${open ? 'bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
+      >
+        <LinkIcon className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 rtl:right-auto rtl:left-0 mt-2 w-80 z-50 bg-white dark:bg-[#121214] border border-zinc-200 dark:border-zinc-800 rounded-lg shadow-xl p-3 space-y-2">
+          {!link ? (
+            <div className="flex items-center space-x-2 rtl:space-x-reverse text-xs text-zinc-500">
+              <div className="w-3.5 h-3.5 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+              <span>{t('share.creating')}</span>
+            </div>
+          ) : link.tooLong ? (
+            <div className="flex items-start space-x-2 rtl:space-x-reverse text-xs text-red-600 dark:text-red-400">
+              <ExclamationTriangleIcon className="w-4 h-4 shrink-0" />
+              <span>{t('share.tooLong', { size: formatBytes(link.length, lang) })}</span>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="flex items-center space-x-1 rtl:space-x-reverse text-xs font-medium text-zinc-800 dark:text-zinc-200">
+                  {copied && <CheckIcon className="w-3.5 h-3.5 text-green-500" />}
+                  <span>{copied ? t('share.copied') : t('share.copyManually')}</span>
+                </span>
+                <span className="text-[10px] font-mono text-zinc-500 tabular-nums">{formatBytes(link.length, lang)}</span>
+              </div>
+              <div className="flex items-center space-x-1 rtl:space-x-reverse">
+                <input
+                  readOnly
+                  value={link.url}
+                  onFocus={(e) => e.target.select()}
+                  dir="ltr"
+                  className="flex-1 min-w-0 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-2 py-1 text-[11px] font-mono text-zinc-700 dark:text-zinc-300 focus:outline-none focus:border-blue-500"
+                />
+                <button
+                  onClick={() => copy(link.url)}
+                  className="px-2 py-1 text-xs font-bold rounded-md bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
+                >
+                  {t('share.copy')}
+                </button>
+              </div>
+              {link.risky && (
+                <p className="flex items-start space-x-2 rtl:space-x-reverse text-[11px] text-amber-700 dark:text-amber-400">
+                  <ExclamationTriangleIcon className="w-3.5 h-3.5 shrink-0" />
+                  <span>{t('share.risky')}</span>
+                </p>
+              )}
+              <p className="text-[11px] text-zinc-500">{t('share.hint')}</p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { PencilIcon, MinusIcon, ArrowLongRightIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { drawSketch, emptySketch, Point, Sketch, SketchElement } from '../services/sketch';
+import { Locale, MessageKey, translator } from '../services/i18n';
+
+interface SketchPadProps {
+  initialSketch?: Sketch;
+  onDone: (sketch: Sketch) => void;
+  onCancel: () => void;
+  lang: Locale;
+}
+
+type Tool = 'pen' | 'eraser' | 'line' | 'arrow' | 'rect' | 'ellipse' | 'text';
+
+// Outline glyphs for tools heroicons doesn't cover, drawn in the same style
+const OutlineIcon = ({ d, className }: { d: string, className?: string }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d={d} />
+  </svg>
+);
+
+const TOOLS: { id: Tool; label: MessageKey; icon: (className: string) => React.ReactNode }[] = [
+  { id: 'pen', label: 'sketch.pen', icon: c => <PencilIcon className={c} /> },
+  { id: 'eraser', label: 'sketch.eraser', icon: c => <OutlineIcon className={c} d="M5.6 13.4l7.3-7.3a2 2 0 012.8 0l2.2 2.2a2 2 0 010 2.8L11 18H8.2l-2.6-2.6a1.4 1.4 0 010-2zM9 10l5 5M11 18h8" /> },
+  { id: 'line', label: 'sketch.line', icon: c => <MinusIcon className={c} /> },
+  { id: 'arrow', label: 'sketch.arrow', icon: c => <ArrowLongRightIcon className={c} /> },
+  { id: 'rect', label: 'sketch.rect', icon: c => <OutlineIcon className={c} d="M4.5 6.75h15v10.5h-15z" /> },
+  { id: 'ellipse', label: 'sketch.ellipse', icon: c => <OutlineIcon className={c} d="M21 12c0 3.3-4 6-9 6s-9-2.7-9-6 4-6 9-6 9 2.7 9 6z" /> },
+  { id: 'text', label: 'sketch.text', icon: c => <OutlineIcon className={c} d="M6 6h12M12 6v12M9.75 18h4.5" /> },
+];
+
+const COLORS = ['#18181b', '#2563eb', '#dc2626', '#16a34a', '#f59e0b'];
+const WIDTHS = [2, 4, 8];
+const ERASER_FACTOR = 6;
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+export const SketchPad: React.FC<SketchPadProps> = ({ initialSketch, onDone, onCancel, lang }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const draftRef = useRef<SketchElement | null>(null);
+  const [base] = useState<Sketch>(() => initialSketch ?? emptySketch());
+  const [elements, setElements] = useState<SketchElement[]>(base.elements);
+  const [undoStack, setUndoStack] = useState<SketchElement[][]>([]);
+  const [redoStack, setRedoStack] = useState<SketchElement[][]>([]);
+  const [tool, setTool] = useState<Tool>('pen');
+  const [color, setColor] = useState(COLORS[0]);
+  const [width, setWidth] = useState(WIDTHS[1]);
+  const t = translator(lang);
+
+  const redraw = useCallback(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const draft = draftRef.current;
+    drawSketch(ctx, { ...base, elements: draft ? [...elements, draft] : elements });
+  }, [base, elements]);
+
+  useEffect(() => { redraw(); }, [redraw]);
+
+  const commit = (next: SketchElement[]) => {
+    setUndoStack(prev => [...prev, elements]);
+    setRedoStack([]);
+    setElements(next);
+  };
+
+  const undo = useCallback(() => {
+    if (undoStack.length === 0) return;
+    setRedoStack(prev => [...prev, elements]);
+    setElements(undoStack[undoStack.length - 1]);
+    setUndoStack(prev => prev.slice(0, -1));
+  }, [undoStack, elements]);
+
+  const redo = useCallback(() => {
+    if (redoStack.length === 0) return;
+    setUndoStack(prev => [...prev, elements]);
+    setElements(redoStack[redoStack.length - 1]);
+    setRedoStack(prev => prev.slice(0, -1));
+  }, [redoStack, elements]);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement).closest('input, textarea')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Map from CSS pixels to the sketch's logical coordinates
+  const toPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [
+      round((e.clientX - rect.left) * base.width / rect.width),
+      round((e.clientY - rect.top) * base.height / rect.height),
+    ];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    const point = toPoint(e);
+
+    if (tool === 'text') {
+      const text = window.prompt(t('sketch.labelPrompt'));
+      if (text && text.trim()) {
+        commit([...elements, { type: 'text', at: point, text: text.trim(), color, size: 16 + width * 4 }]);
+      }
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draftRef.current =
+      tool === 'pen' ? { type: 'stroke', points: [point], color, width }
+      : tool === 'eraser' ? { type: 'erase', points: [point], width: width * ERASER_FACTOR }
+      : { type: tool, from: point, to: point, color, width };
+    redraw();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const draft = draftRef.current;
+    if (!draft) return;
+    const point = toPoint(e);
+    if (draft.type === 'stroke' || draft.type === 'erase') {
+      draft.points.push(point);
+    } else if (draft.type !== 'text') {
+      draft.to = point;
+    }
+    redraw();
+  };
+
+  const handlePointerUp = () => {
+    const draft = draftRef.current;
+    if (!draft) return;
+    draftRef.current = null;
+    commit([...elements, draft]);
+  };
+
+  const toolButtonClass = (active: boolean) =>
+    `p-1.5 rounded-md transition-colors ${active ? 'bg-zinc-900 text-white dark:bg-white dark:text-black' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`;
+  const actionButtonClass = "p-1.5 rounded-md text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors";
+
+  return (
+    <div className="flex flex-col h-80 md:h-[26rem] bg-white/60 dark:bg-zinc-900/30 backdrop-blur-sm rounded-xl border border-zinc-300 dark:border-zinc-700 overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-2 px-3 py-2 border-b border-zinc-200 dark:border-zinc-800 bg-white/80 dark:bg-zinc-900/80" dir="ltr">
+        <div className="flex items-center space-x-0.5">
+          {TOOLS.map(({ id, label, icon }) => (
+            <button key={id} type="button" onClick={() => setTool(id)} title={t(label)} className={toolButtonClass(tool === id)}>
+              {icon("w-4 h-4")}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-1">
+          {COLORS.map(c => (
+            <button
+              key={c}
+              type="button"
+              onClick={() => setColor(c)}
+              title={c}
+              className={`w-5 h-5 rounded-full border-2 transition-transform ${color === c ? 'border-blue-500 scale-110' : 'border-white dark:border-zinc-800'}`}
+              style={{ backgroundColor: c }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center space-x-0.5">
+          {WIDTHS.map(w => (
+            <button key={w} type="button" onClick={() => setWidth(w)} title={`${w}px`} className={`${toolButtonClass(width === w)} w-7 h-7 flex items-center justify-center`}>
+              <span className="rounded-full bg-current" style={{ width: w + 2, height: w + 2 }} />
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-0.5">
+          <button type="button" onClick={undo} disabled={undoStack.length === 0} title={t('sketch.undo')} className={actionButtonClass}>
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+          </button>
+          <button type="button" onClick={redo} disabled={redoStack.length === 0} title={t('sketch.redo')} className={actionButtonClass}>
+            <ArrowUturnRightIcon className="w-4 h-4" />
+          </button>
+          <button type="button" onClick={() => commit([])} disabled={elements.length === 0} title={t('sketch.clear')} className={actionButtonClass}>
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex items-center space-x-2 ml-auto">
+          <button type="button" onClick={onCancel} className="px-3 py-1.5 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={() => onDone({ ...base, elements })}
+            disabled={elements.length === 0}
+            className="px-3 py-1.5 text-xs font-bold rounded-md bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 disabled:opacity-50 transition-colors"
+          >
+            {t('sketch.attach')}
+          </button>
+        </div>
+      </div>
+
+      {/* Canvas keeps the sketch's aspect ratio like an image would */}
+      <div className="flex-1 min-h-0 p-3 flex items-center justify-center">
+        <canvas
+          ref={canvasRef}
+          width={base.width}
+          height={base.height}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`max-w-full max-h-full rounded shadow-md border border-zinc-200 dark:border-zinc-700 touch-none ${tool === 'text' ? 'cursor-text' : 'cursor-crosshair'}`}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import { ArrowUturnLeftIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Locale, translator } from '../services/i18n';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  lang: Locale;
+}
+
+// How long the undo offer stays up before the action becomes final
+const UNDO_TIMEOUT_MS = 8000;
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, lang }) => {
+  const t = translator(lang);
+  const dismissRef = useRef(onDismiss);
+  dismissRef.current = onDismiss;
+
+  // Runs once per mount; give the toast a new key to restart the countdown
+  useEffect(() => {
+    const timeout = setTimeout(() => dismissRef.current(), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, []);
+
+  return (
+    <div role="status" className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[70] flex items-center space-x-3 rtl:space-x-reverse ps-4 pe-2 py-2 rounded-lg bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 shadow-xl animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <span className="text-sm truncate max-w-[60vw]">{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center space-x-1 rtl:space-x-reverse px-2 py-1 rounded-md text-xs font-bold text-blue-400 dark:text-blue-600 hover:bg-white/10 dark:hover:bg-black/10 transition-colors"
+      >
+        <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+        <span>{t('archive.undo')}</span>
+      </button>
+      <button
+        onClick={onDismiss}
+        title={t('common.close')}
+        className="p-1 rounded-md text-zinc-400 dark:text-zinc-500 hover:bg-white/10 dark:hover:bg-black/10 transition-colors"
+      >
+        <XMarkIcon className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
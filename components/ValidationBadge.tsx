@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ShieldCheckIcon, ShieldExclamationIcon, WrenchScrewdriverIcon } from '@heroicons/react/24/outline';
+import { ValidationIssue, ValidationReport } from '../services/validation';
+import { Locale, translator } from '../services/i18n';
+
+interface ValidationBadgeProps {
+  report?: ValidationReport;
+  lang: Locale;
+}
+
+const IssueRow = ({ issue, fixed }: { issue: ValidationIssue, fixed: boolean }) => (
+  <li className="px-3 py-1.5">
+    <div className="flex items-start space-x-2">
+      <span className={`mt-1 w-1.5 h-1.5 rounded-full shrink-0 ${fixed ? 'bg-green-500' : issue.severity === 'error' ? 'bg-red-500' : 'bg-amber-500'}`}></span>
+      <span className={`text-xs ${fixed ? 'text-zinc-500 line-through' : 'text-zinc-800 dark:text-zinc-200'}`}>{issue.message}</span>
+    </div>
+    {issue.detail && (
+      <pre className="mt-1 ml-3.5 text-[10px] font-mono text-zinc-500 whitespace-pre-wrap break-all line-clamp-3">{issue.detail}</pre>
+    )}
+  </li>
+);
+
+export const ValidationBadge: React.FC<ValidationBadgeProps> = ({ report, lang }) => {
+  const t = translator(lang);
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  if (!report || (report.fixed.length === 0 && report.remaining.length === 0)) return null;
+
+  const errors = report.remaining.filter(issue => issue.severity === 'error').length;
+  const Icon = report.remaining.length > 0 ? ShieldExclamationIcon : ShieldCheckIcon;
+  const tone = errors > 0 ? 'text-red-500' : report.remaining.length > 0 ? 'text-amber-500' : 'text-green-500';
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title={t('validation.title')}
+        className={`p-1.5 rounded-md transition-all ${open ? 'bg-zinc-200 dark:bg-zinc-800' : 'hover:bg-zinc-200 dark:hover:bg-zinc-800'} ${tone}`}
+      >
+        <Icon className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 rtl:right-auto rtl:left-0 mt-2 w-80 max-h-96 overflow-y-auto z-50 bg-white dark:bg-[#121214] border border-zinc-200 dark:border-zinc-800 rounded-lg shadow-xl py-2">
+          <div className="px-3 pb-2 flex items-center justify-between border-b border-zinc-200 dark:border-zinc-800">
+            <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">{t('validation.title')}</span>
+            {report.repairAttempted && (
+              <span className="flex items-center space-x-1 text-[10px] text-zinc-500">
+                <WrenchScrewdriverIcon className="w-3 h-3" />
+                <span>{t('validation.repairRequested')}</span>
+              </span>
+            )}
+          </div>
+
+          {report.remaining.length > 0 && (
+            <>
+              <p className="px-3 pt-2 text-[10px] font-mono uppercase tracking-wider text-zinc-400">{t('validation.remaining')}</p>
+              <ul>{report.remaining.map((issue, idx) => <IssueRow key={`r${idx}`} issue={issue} fixed={false} />)}</ul>
+            </>
+          )}
+          {report.fixed.length > 0 && (
+            <>
+              <p className="px-3 pt-2 text-[10px] font-mono uppercase tracking-wider text-zinc-400">{t('validation.fixed')}</p>
+              <ul>{report.fixed.map((issue, idx) => <IssueRow key={`f${idx}`} issue={issue} fixed={true} />)}</ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowTopRightOnSquareIcon, CheckIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ERROR_MESSAGES, formatBytes } from './GenerationMonitor';
+import { modeName } from './ModePicker';
+import { VariantRun } from '../services/variants';
+import { hardenHtml, sandboxAttribute, sandboxPermissions } from '../services/sandbox';
+import { Locale, formatNumber, Translate, translator } from '../services/i18n';
+
+interface VariantGridProps {
+  runs: VariantRun[];
+  onKeep: (ids: string[]) => void; // Promotes the given variants to the archive
+  onCancelRun: (id: string) => void;
+  onDiscard: () => void;
+  lang: Locale;
+}
+
+// Several frames stream at once, so partial renders are refreshed less often than in the monitor
+const RENDER_THROTTLE_MS = 2000;
+
+const permissions = sandboxPermissions({});
+
+const VariantFrame = ({ run, t }: { run: VariantRun, t: Translate }) => {
+  const [partial, setPartial] = useState("");
+  const lastRenderRef = useRef(0);
+  const streamed = run.progress?.html || "";
+
+  useEffect(() => {
+    if (run.status !== 'running') return;
+    const elapsed = Date.now() - lastRenderRef.current;
+    const render = () => {
+      lastRenderRef.current = Date.now();
+      setPartial(streamed);
+    };
+    if (elapsed >= RENDER_THROTTLE_MS) {
+      render();
+      return;
+    }
+    const timeout = setTimeout(render, RENDER_THROTTLE_MS - elapsed);
+    return () => clearTimeout(timeout);
+  }, [streamed, run.status]);
+
+  const finished = useMemo(() => run.html ? hardenHtml(run.html, permissions) : null, [run.html]);
+
+  return finished ? (
+    <iframe
+      title={t('variants.frameTitle', { index: run.index })}
+      srcDoc={finished}
+      className="w-full h-full bg-white"
+      sandbox={sandboxAttribute(permissions)}
+      referrerPolicy="no-referrer"
+    />
+  ) : (
+    // Scripts stay disabled until the document is complete
+    <iframe title={t('variants.framePartialTitle', { index: run.index })} srcDoc={partial} className="w-full h-full bg-white" sandbox="" />
+  );
+};
+
+export const VariantGrid: React.FC<VariantGridProps> = ({ runs, onKeep, onCancelRun, onDiscard, lang }) => {
+  const t = translator(lang);
+  const [selected, setSelected] = useState<string[]>([]);
+  const running = runs.some(run => run.status === 'running');
+  const keepable = selected.filter(id => runs.some(run => run.id === id && run.status === 'done'));
+
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const handleDiscard = () => {
+    if (window.confirm(t('variants.confirmDiscard'))) onDiscard();
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col">
+      <div className={`flex-1 min-h-0 overflow-y-auto p-3 grid gap-3 grid-cols-1 md:grid-cols-2 ${runs.length > 2 ? 'md:grid-rows-2' : ''}`}>
+        {runs.map(run => {
+          const isSelected = selected.includes(run.id);
+          return (
+            <div
+              key={run.id}
+              className={`relative min-h-[18rem] flex flex-col rounded-lg overflow-hidden border transition-colors ${isSelected ? 'border-blue-500 ring-2 ring-blue-500/30' : 'border-zinc-200 dark:border-zinc-800'}`}
+            >
+              <div className="px-3 py-1.5 flex items-center justify-between bg-white dark:bg-[#121214] border-b border-zinc-200 dark:border-zinc-800">
+                <div className="flex items-center space-x-2 rtl:space-x-reverse min-w-0 text-[11px] font-mono text-zinc-500">
+                  <span className="font-bold text-zinc-800 dark:text-zinc-200">#{formatNumber(lang, run.index)}</span>
+                  <span className="truncate">{modeName(run.mode, t)}</span>
+                  <span className="tabular-nums">{formatNumber(lang, run.mode.temperature, { minimumFractionDigits: 1 })}</span>
+                </div>
+                <div className="flex items-center space-x-1 rtl:space-x-reverse shrink-0">
+                  {run.status === 'running' && (
+                    <>
+                      <span className="text-[10px] font-mono text-zinc-400 tabular-nums">
+                        {run.progress?.retry ? t('monitor.attempt', { attempt: run.progress.retry.attempt, max: run.progress.retry.maxAttempts }) : formatBytes(run.progress?.bytes ?? 0, lang)}
+                      </span>
+                      <button
+                        onClick={() => onCancelRun(run.id)}
+                        title={t('monitor.cancel')}
+                        className="p-1 rounded text-zinc-400 hover:text-red-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                      >
+                        <XMarkIcon className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                  {run.status === 'done' && (
+                    <>
+                      <button
+                        onClick={() => toggle(run.id)}
+                        aria-pressed={isSelected}
+                        className={`flex items-center space-x-1 rtl:space-x-reverse px-2 py-0.5 rounded text-[10px] font-bold transition-colors ${isSelected ? 'bg-blue-500 text-white' : 'text-zinc-600 dark:text-zinc-400 border border-zinc-200 dark:border-zinc-700 hover:border-blue-500/50'}`}
+                      >
+                        <CheckIcon className="w-3 h-3" />
+                        <span>{isSelected ? t('variants.selected') : t('variants.select')}</span>
+                      </button>
+                      <button
+                        onClick={() => onKeep([run.id])}
+                        title={t('variants.open')}
+                        className="p-1 rounded text-zinc-400 hover:text-zinc-800 dark:hover:text-zinc-100 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                      >
+                        <ArrowTopRightOnSquareIcon className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="relative flex-1 min-h-0 bg-zinc-100 dark:bg-[#09090b]">
+                {run.status === 'failed' || run.status === 'cancelled' ? (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center p-6 text-center space-y-2">
+                    <ExclamationTriangleIcon className="w-6 h-6 text-zinc-400" />
+                    <p className="text-xs text-zinc-500 max-w-xs">
+                      {run.status === 'cancelled' ? t('variants.cancelled') : t((run.error && ERROR_MESSAGES[run.error]) || 'variants.failed')}
+                    </p>
+                  </div>
+                ) : (
+                  <>
+                    <VariantFrame run={run} t={t} />
+                    {run.status === 'running' && !run.progress?.chunks && (
+                      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                        <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="px-4 py-3 flex items-center justify-between border-t border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#121214]">
+        <span className="text-[11px] font-mono text-zinc-500">
+          {running ? t('variants.generating') : t('variants.selectedCount', { count: keepable.length })}
+        </span>
+        <div className="flex items-center space-x-2 rtl:space-x-reverse">
+          <button
+            onClick={handleDiscard}
+            className="px-3 py-1.5 text-xs font-medium rounded-md text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+          >
+            {t('variants.discard')}
+          </button>
+          <button
+            onClick={() => onKeep(keepable)}
+            disabled={keepable.length === 0}
+            className="px-3 py-1.5 text-xs font-bold rounded-md bg-black dark:bg-white text-white dark:text-black hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {t('variants.keep')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { Square2StackIcon } from '@heroicons/react/24/outline';
+import { modeName } from './ModePicker';
+import { findMode, GenerationMode, MAX_TEMPERATURE, MIN_TEMPERATURE } from '../services/modes';
+import { MAX_VARIANTS, resizePlan, VariantSpec } from '../services/variants';
+import { Locale, formatNumber, translator } from '../services/i18n';
+
+interface VariantPickerProps {
+  modes: GenerationMode[];
+  modeId: string; // Mode new rows start from
+  specs: VariantSpec[]; // One entry means a single, regular generation
+  onChange: (specs: VariantSpec[]) => void;
+  disabled?: boolean;
+  lang: Locale;
+}
+
+const COUNTS = Array.from({ length: MAX_VARIANTS }, (_, idx) => idx + 1);
+
+export const VariantPicker: React.FC<VariantPickerProps> = ({ modes, modeId, specs, onChange, disabled = false, lang }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const t = translator(lang);
+  const count = specs.length;
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const updateRow = (idx: number, patch: Partial<VariantSpec>) => {
+    onChange(specs.map((spec, i) => i === idx ? { ...spec, ...patch } : spec));
+  };
+
+  return (
+    <div ref={menuRef} className="relative shrink-0">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        title={t('variants.title')}
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        className={`flex items-center space-x-1 rtl:space-x-reverse px-2 py-1.5 mr-1.5 rtl:mr-0 rtl:ml-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${count > 1 ? 'text-blue-600 dark:text-blue-400 bg-blue-500/10' : 'text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+      >
+        <Square2StackIcon className="w-4 h-4" />
+        {count > 1 && <span className="tabular-nums">×{formatNumber(lang, count)}</span>}
+      </button>
+
+      {open && (
+        <div role="dialog" className="absolute top-full right-0 rtl:right-auto rtl:left-0 mt-2 w-80 z-50 bg-white dark:bg-[#121214] border border-zinc-200 dark:border-zinc-800 rounded-lg shadow-xl p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">{t('variants.title')}</span>
+            <div className="flex items-center bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md p-0.5">
+              {COUNTS.map(n => (
+                <button
+                  key={n}
+                  type="button"
+                  onClick={() => onChange(resizePlan(specs, n, findMode(modes, modeId)))}
+                  className={`w-7 py-0.5 rounded text-xs font-mono tabular-nums transition-colors ${n === count ? 'bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 shadow-sm' : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+                >
+                  {formatNumber(lang, n)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {count > 1 ? (
+            <div className="space-y-2">
+              {specs.map((spec, idx) => (
+                <div key={idx} className="flex items-center space-x-2 rtl:space-x-reverse">
+                  <span className="w-5 text-[10px] font-mono text-zinc-400 tabular-nums">#{formatNumber(lang, idx + 1)}</span>
+                  <select
+                    value={findMode(modes, spec.modeId).id}
+                    onChange={(e) => updateRow(idx, { modeId: e.target.value, temperature: findMode(modes, e.target.value).temperature })}
+                    title={t('modes.label')}
+                    className="flex-1 min-w-0 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-2 py-1 text-xs text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-blue-500"
+                  >
+                    {modes.map(mode => (
+                      <option key={mode.id} value={mode.id}>{modeName(mode, t)}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={MIN_TEMPERATURE}
+                    max={MAX_TEMPERATURE}
+                    step={0.1}
+                    value={spec.temperature}
+                    onChange={(e) => updateRow(idx, { temperature: Math.min(MAX_TEMPERATURE, Math.max(MIN_TEMPERATURE, Number(e.target.value) || 0)) })}
+                    title={t('modes.temperature')}
+                    className="w-16 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-2 py-1 text-xs font-mono text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-blue-500"
+                  />
+                </div>
+              ))}
+              <p className="text-[11px] text-zinc-500">{t('variants.hint')}</p>
+            </div>
+          ) : (
+            <p className="text-[11px] text-zinc-500">{t('variants.single')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
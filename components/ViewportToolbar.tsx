@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { ArrowPathRoundedSquareIcon, ArrowsPointingInIcon, DevicePhoneMobileIcon } from '@heroicons/react/24/outline';
+import { MAX_VIEWPORT_SIZE, MIN_VIEWPORT_SIZE, resizeViewport, rotateViewport, selectPreset, Viewport, VIEWPORT_PRESETS, ViewportPreset } from '../services/viewport';
+import { Locale, MessageKey, Translate, translator } from '../services/i18n';
+
+interface ViewportToolbarProps {
+  viewport: Viewport;
+  onChange: (viewport: Viewport) => void;
+  lang: Locale;
+}
+
+const PRESET_LABELS: Record<ViewportPreset, MessageKey> = {
+  fill: 'viewport.fill',
+  phone: 'viewport.phone',
+  tablet: 'viewport.tablet',
+  laptop: 'viewport.laptop',
+  desktop: 'viewport.desktop',
+  custom: 'viewport.custom',
+};
+
+const toggleClass = (active: boolean) =>
+  `p-1 rounded-md transition-all ${active ? 'bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`;
+
+// Commits on Enter or blur so half-typed sizes are not clamped while typing
+const SizeInput = ({ value, label, onCommit }: { value: number, label: string, onCommit: (value: number) => void }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseInt(draft, 10);
+    if (Number.isFinite(parsed) && parsed !== value) onCommit(parsed);
+    else setDraft(String(value));
+  };
+
+  return (
+    <input
+      type="number"
+      min={MIN_VIEWPORT_SIZE}
+      max={MAX_VIEWPORT_SIZE}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      aria-label={label}
+      title={label}
+      dir="ltr"
+      className="w-16 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded px-1.5 py-0.5 text-[11px] font-mono tabular-nums text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors"
+    />
+  );
+};
+
+const PresetTabs = ({ viewport, onChange, t }: { viewport: Viewport, onChange: (viewport: Viewport) => void, t: Translate }) => (
+  <div className="flex items-center bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md p-0.5 shrink-0">
+    {VIEWPORT_PRESETS.map(preset => (
+      <button
+        key={preset}
+        onClick={() => onChange(selectPreset(viewport, preset))}
+        aria-pressed={viewport.preset === preset}
+        className={`px-2 py-0.5 rounded text-[10px] font-mono uppercase tracking-wider transition-colors ${viewport.preset === preset ? 'bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 shadow-sm' : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+      >
+        {t(PRESET_LABELS[preset])}
+      </button>
+    ))}
+  </div>
+);
+
+export const ViewportToolbar: React.FC<ViewportToolbarProps> = ({ viewport, onChange, lang }) => {
+  const t = translator(lang);
+
+  return (
+    <div role="toolbar" aria-label={t('viewport.label')} className="flex items-center gap-2 px-3 py-1.5 overflow-x-auto bg-zinc-50 dark:bg-[#121214] border-b border-zinc-200 dark:border-zinc-800 shrink-0 transition-colors">
+      <PresetTabs viewport={viewport} onChange={onChange} t={t} />
+
+      {viewport.preset !== 'fill' && (
+        <>
+          <div className="flex items-center space-x-1 rtl:space-x-reverse shrink-0 text-zinc-400 text-[11px]" dir="ltr">
+            <SizeInput value={viewport.width} label={t('viewport.width')} onCommit={(width) => onChange(resizeViewport(viewport, { width }))} />
+            <span>×</span>
+            <SizeInput value={viewport.height} label={t('viewport.height')} onCommit={(height) => onChange(resizeViewport(viewport, { height }))} />
+          </div>
+
+          <div className="flex items-center space-x-0.5 rtl:space-x-reverse shrink-0">
+            <button onClick={() => onChange(rotateViewport(viewport))} title={t('viewport.rotate')} className={toggleClass(false)}>
+              <ArrowPathRoundedSquareIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onChange({ ...viewport, fit: !viewport.fit })}
+              aria-pressed={viewport.fit}
+              title={t('viewport.fit')}
+              className={toggleClass(viewport.fit)}
+            >
+              <ArrowsPointingInIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onChange({ ...viewport, bezel: !viewport.bezel })}
+              aria-pressed={viewport.bezel}
+              title={t('viewport.bezel')}
+              className={toggleClass(viewport.bezel)}
+            >
+              <DevicePhoneMobileIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
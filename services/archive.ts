@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CreationSummary } from "../components/CreationHistory";
+
+export type InputKind = 'image' | 'pdf' | 'document' | 'text';
+
+export type DateRange = 'any' | 'today' | 'week' | 'month';
+
+export type ArchiveSort = 'newest' | 'oldest' | 'nameAsc' | 'nameDesc';
+
+export interface ArchiveFilters {
+  query: string;
+  kind: InputKind | 'any';
+  date: DateRange;
+  tag: string | null;
+  pinnedOnly: boolean;
+  sort: ArchiveSort;
+}
+
+export const DEFAULT_FILTERS: ArchiveFilters = {
+  query: '',
+  kind: 'any',
+  date: 'any',
+  tag: null,
+  pinnedOnly: false,
+  sort: 'newest',
+};
+
+const MAX_TAG_LENGTH = 32;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** What a creation was generated from, judged by its first input. */
+export function inputKind(summary: CreationSummary): InputKind {
+  const mimeType = summary.inputMimeTypes?.[0];
+  if (!mimeType) return 'text';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return 'document';
+}
+
+/** Trims and shortens a tag; empty input yields null. */
+export function normalizeTag(tag: string): string | null {
+  const clean = tag.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+  return clean || null;
+}
+
+/** Adds a tag unless an equal one (ignoring case) is already there. */
+export function addTag(tags: string[] | undefined, tag: string): string[] {
+  const clean = normalizeTag(tag);
+  const current = tags || [];
+  if (!clean || current.some(existing => existing.toLowerCase() === clean.toLowerCase())) return current;
+  return [...current, clean];
+}
+
+/** Every tag in use, most used first. */
+export function allTags(history: CreationSummary[]): string[] {
+  const counts = new Map<string, number>();
+  for (const item of history) {
+    for (const tag of item.tags || []) counts.set(tag, (counts.get(tag) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
+
+const startOfRange = (range: DateRange, now: Date): number => {
+  if (range === 'today') return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  if (range === 'week') return now.getTime() - 7 * DAY_MS;
+  if (range === 'month') return now.getTime() - 30 * DAY_MS;
+  return -Infinity;
+};
+
+const matchesQuery = (item: CreationSummary, terms: string[]): boolean => {
+  const haystack = [item.name, item.prompt || '', ...(item.tags || [])].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+/**
+ * Applies the archive filters and sort. Pinned creations always come first;
+ * `locale` decides how names are collated.
+ */
+export function filterCreations(history: CreationSummary[], filters: ArchiveFilters, locale: string, now = new Date()): CreationSummary[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const since = startOfRange(filters.date, now);
+  const collator = new Intl.Collator(locale, { sensitivity: 'base', numeric: true });
+
+  const compare = (a: CreationSummary, b: CreationSummary): number => {
+    switch (filters.sort) {
+      case 'oldest': return a.timestamp.getTime() - b.timestamp.getTime();
+      case 'nameAsc': return collator.compare(a.name, b.name);
+      case 'nameDesc': return collator.compare(b.name, a.name);
+      case 'newest':
+      default: return b.timestamp.getTime() - a.timestamp.getTime();
+    }
+  };
+
+  return history
+    .filter(item =>
+      (!filters.pinnedOnly || item.pinned) &&
+      (filters.kind === 'any' || inputKind(item) === filters.kind) &&
+      item.timestamp.getTime() >= since &&
+      (!filters.tag || (item.tags || []).includes(filters.tag)) &&
+      matchesQuery(item, terms)
+    )
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || compare(a, b));
+}
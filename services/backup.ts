@@ -0,0 +1,310 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatTurn, Creation, CreationInput, Revision, RevisionSource } from "../components/CreationHistory";
+import { upgradeLegacyInput } from "./creationStore";
+import { ensureRevisions } from "./revisions";
+import { MAX_VIEWPORT_SIZE, MIN_VIEWPORT_SIZE, Viewport, VIEWPORT_PRESETS } from "./viewport";
+
+// Whole-archive backups. Version 0 is everything written before archive files
+// existed: a single `exportArtifactJson` artifact or a bare array of
+// creations, possibly with the old `originalImage` field.
+export const ARCHIVE_FORMAT = 'creation-archive';
+export const ARCHIVE_VERSION = 1;
+
+export interface ArchiveFile {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  creations: unknown[]; // Creation records with dates as ISO strings
+}
+
+export type ArchiveFileErrorKind =
+  | 'invalidJson'
+  | 'unrecognized' // Neither an archive file nor a creation artifact
+  | 'newerVersion'; // Written by a newer version of the app
+
+export class ArchiveFileError extends Error {
+  readonly kind: ArchiveFileErrorKind;
+
+  constructor(kind: ArchiveFileErrorKind, message: string, options: { cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ArchiveFileError';
+    this.kind = kind;
+  }
+}
+
+export type RejectReason =
+  | 'notAnObject'
+  | 'missingField'
+  | 'invalidField'
+  | 'saveFailed';
+
+export interface RejectedEntry {
+  index: number; // Position in the file, 0-based
+  name?: string;
+  reason: RejectReason;
+  field?: string; // Offending field for missing/invalid values
+}
+
+export interface ArchiveEntry {
+  index: number; // Position in the file, 0-based
+  creation: Creation;
+}
+
+export interface ParsedArchive {
+  version: number; // Schema version of the file before migration
+  entries: ArchiveEntry[]; // Records that passed validation
+  rejected: RejectedEntry[];
+}
+
+export type CollisionPolicy = 'skip' | 'overwrite' | 'duplicate';
+
+export type ImportOutcome = 'added' | 'overwritten' | 'duplicated';
+
+export interface PlannedSave extends ArchiveEntry {
+  outcome: ImportOutcome;
+}
+
+export interface ImportPlan {
+  save: PlannedSave[];
+  skipped: number;
+}
+
+export interface ImportReport extends Record<ImportOutcome, number> {
+  skipped: number;
+  rejected: RejectedEntry[];
+}
+
+// Each step lifts a file from the keyed version to the next one
+const MIGRATIONS: Record<number, (file: ArchiveFile) => ArchiveFile> = {
+  0: (file) => ({
+    ...file,
+    version: 1,
+    creations: file.creations.map(record => isObject(record) ? upgradeLegacyInput(record) : record),
+  }),
+};
+
+const REVISION_SOURCES: RevisionSource[] = ['generate', 'refine', 'edit'];
+
+class RecordError extends Error {
+  readonly reason: RejectReason;
+  readonly field: string;
+
+  constructor(reason: RejectReason, field: string) {
+    super(`${reason}: ${field}`);
+    this.reason = reason;
+    this.field = field;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requiredString = (record: Record<string, any>, field: string, path = field): string => {
+  const value = record[field];
+  if (value === undefined || value === null || value === '') throw new RecordError('missingField', path);
+  if (typeof value !== 'string') throw new RecordError('invalidField', path);
+  return value;
+};
+
+const optional = <T>(record: Record<string, any>, field: string, check: (value: unknown) => value is T, path = field): T | undefined => {
+  const value = record[field];
+  if (value === undefined || value === null) return undefined;
+  if (!check(value)) throw new RecordError('invalidField', path);
+  return value;
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isArray = (value: unknown): value is unknown[] => Array.isArray(value);
+const isStringArray = (value: unknown): value is string[] => isArray(value) && value.every(isString);
+const isNumberArray = (value: unknown): value is number[] => isArray(value) && value.every(n => Number.isInteger(n) && (n as number) > 0);
+const isDataUrl = (value: unknown): value is string => isString(value) && value.startsWith('data:');
+
+const toDate = (value: unknown, path: string, fallback?: Date): Date => {
+  if (value === undefined || value === null) {
+    if (fallback) return fallback;
+    throw new RecordError('missingField', path);
+  }
+  const date = new Date(value as string | number);
+  if ((!isString(value) && typeof value !== 'number') || Number.isNaN(date.getTime())) throw new RecordError('invalidField', path);
+  return date;
+};
+
+const toInput = (value: unknown, idx: number): CreationInput => {
+  const path = `inputs[${idx}]`;
+  if (!isObject(value)) throw new RecordError('invalidField', path);
+  const dataUrl = requiredString(value, 'dataUrl', `${path}.dataUrl`);
+  if (!isDataUrl(dataUrl)) throw new RecordError('invalidField', `${path}.dataUrl`);
+  return {
+    name: requiredString(value, 'name', `${path}.name`),
+    mimeType: requiredString(value, 'mimeType', `${path}.mimeType`),
+    dataUrl,
+    pages: optional(value, 'pages', isNumberArray, `${path}.pages`),
+    sketch: optional(value, 'sketch', (v): v is CreationInput['sketch'] => isObject(v) && isArray(v.elements), `${path}.sketch`),
+  };
+};
+
+const toTurn = (value: unknown, idx: number, fallback: Date): ChatTurn => {
+  const path = `conversation[${idx}]`;
+  if (!isObject(value) || (value.role !== 'user' && value.role !== 'model')) throw new RecordError('invalidField', path);
+  return {
+    role: value.role,
+    text: requiredString(value, 'text', `${path}.text`),
+    timestamp: toDate(value.timestamp, `${path}.timestamp`, fallback),
+    revisionId: optional(value, 'revisionId', isString, `${path}.revisionId`),
+  };
+};
+
+const toRevision = (value: unknown, idx: number, fallback: Date): Revision => {
+  const path = `revisions[${idx}]`;
+  if (!isObject(value)) throw new RecordError('invalidField', path);
+  if (!REVISION_SOURCES.includes(value.source)) throw new RecordError('invalidField', `${path}.source`);
+  return {
+    id: requiredString(value, 'id', `${path}.id`),
+    parentId: optional(value, 'parentId', isString, `${path}.parentId`),
+    html: requiredString(value, 'html', `${path}.html`),
+    source: value.source,
+    note: optional(value, 'note', isString, `${path}.note`),
+    timestamp: toDate(value.timestamp, `${path}.timestamp`, fallback),
+    validation: optional(value, 'validation', (v): v is Revision['validation'] => isObject(v) && isArray(v.fixed) && isArray(v.remaining), `${path}.validation`),
+  };
+};
+
+const isViewportSize = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= MIN_VIEWPORT_SIZE && (value as number) <= MAX_VIEWPORT_SIZE;
+
+const isViewport = (value: unknown): value is Viewport =>
+  isObject(value) && VIEWPORT_PRESETS.includes(value.preset) && isViewportSize(value.width) && isViewportSize(value.height)
+    && isBoolean(value.fit) && isBoolean(value.bezel);
+
+/**
+ * Checks one record against the current creation schema and copies only the
+ * known fields. Throws a RecordError naming the first offending field.
+ * Sandbox permissions are never copied: like a share link, an archive must
+ * not be able to grant itself network access, so imports start from the
+ * defaults and the user opts in again per creation.
+ */
+function toCreation(record: unknown): Creation {
+  if (!isObject(record)) throw new RecordError('notAnObject', '');
+  const timestamp = toDate(record.timestamp, 'timestamp', new Date());
+  const revisions = optional(record, 'revisions', isArray)?.map((revision, idx) => toRevision(revision, idx, timestamp));
+  const currentRevisionId = optional(record, 'currentRevisionId', isString);
+  if (revisions?.length && currentRevisionId && !revisions.some(revision => revision.id === currentRevisionId)) {
+    throw new RecordError('invalidField', 'currentRevisionId');
+  }
+
+  return ensureRevisions({
+    id: optional(record, 'id', isString) || crypto.randomUUID(),
+    name: requiredString(record, 'name'),
+    html: requiredString(record, 'html'),
+    inputs: optional(record, 'inputs', isArray)?.map(toInput),
+    timestamp,
+    conversation: optional(record, 'conversation', isArray)?.map((turn, idx) => toTurn(turn, idx, timestamp)),
+    revisions,
+    // Without a checked-out revision ensureRevisions would replace the tree, so fall back to the latest
+    currentRevisionId: revisions?.length ? currentRevisionId ?? revisions[revisions.length - 1].id : undefined,
+    mode: optional(record, 'mode', isString),
+    prompt: optional(record, 'prompt', isString),
+    pinned: optional(record, 'pinned', isBoolean),
+    tags: optional(record, 'tags', isStringArray),
+    thumbnail: optional(record, 'thumbnail', isDataUrl),
+    thumbnailRevisionId: optional(record, 'thumbnailRevisionId', isString),
+    inputPreview: optional(record, 'inputPreview', isDataUrl),
+    viewport: optional(record, 'viewport', isViewport),
+  });
+}
+
+export function exportArchive(creations: Creation[]): string {
+  const file: ArchiveFile = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    creations,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Recognises an archive file or a version 0 artifact and brings it to the current version. */
+function migrateArchive(parsed: unknown): { version: number; file: ArchiveFile } {
+  let file: ArchiveFile;
+  if (isObject(parsed) && parsed.format === ARCHIVE_FORMAT) {
+    if (!Number.isInteger(parsed.version) || parsed.version < 1 || !isArray(parsed.creations)) {
+      throw new ArchiveFileError('unrecognized', "Malformed archive file");
+    }
+    if (parsed.version > ARCHIVE_VERSION) {
+      throw new ArchiveFileError('newerVersion', `Archive version ${parsed.version} is newer than ${ARCHIVE_VERSION}`);
+    }
+    file = parsed as ArchiveFile;
+  } else if (isArray(parsed) || (isObject(parsed) && 'html' in parsed)) {
+    file = { format: ARCHIVE_FORMAT, version: 0, exportedAt: '', creations: isArray(parsed) ? parsed : [parsed] };
+  } else {
+    throw new ArchiveFileError('unrecognized', "Not an archive or creation file");
+  }
+
+  const version = file.version;
+  while (file.version < ARCHIVE_VERSION) file = MIGRATIONS[file.version](file);
+  return { version, file };
+}
+
+/**
+ * Parses an archive file (or an older single-creation artifact), migrates it
+ * and validates every record. Invalid records are reported, not thrown;
+ * only an unreadable file throws an ArchiveFileError.
+ */
+export function readArchive(json: string): ParsedArchive {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new ArchiveFileError('invalidJson', "File is not valid JSON", { cause: e });
+  }
+
+  const { version, file } = migrateArchive(parsed);
+  const entries: ArchiveEntry[] = [];
+  const rejected: RejectedEntry[] = [];
+  file.creations.forEach((record, index) => {
+    try {
+      entries.push({ index, creation: toCreation(record) });
+    } catch (e) {
+      if (!(e instanceof RecordError)) throw e;
+      const name = isObject(record) && isString(record.name) ? record.name : undefined;
+      rejected.push({ index, name, reason: e.reason, field: e.field || undefined });
+    }
+  });
+  return { version, entries, rejected };
+}
+
+/**
+ * Decides what to write for each imported creation. Records whose id is
+ * already in the archive follow `policy`; duplicates get a fresh id and keep
+ * everything else. When an id repeats within the file, the last copy wins.
+ */
+export function planImport(entries: ArchiveEntry[], existingIds: Iterable<string>, policy: CollisionPolicy): ImportPlan {
+  const existing = new Set(existingIds);
+  const plan: ImportPlan = { save: [], skipped: 0 };
+
+  for (const { index, creation } of entries) {
+    const repeated = plan.save.findIndex(planned => planned.creation.id === creation.id);
+    if (!existing.has(creation.id)) {
+      if (repeated !== -1) plan.save.splice(repeated, 1);
+      plan.save.push({ index, creation, outcome: 'added' });
+    } else if (policy === 'overwrite') {
+      if (repeated !== -1) plan.save.splice(repeated, 1);
+      plan.save.push({ index, creation, outcome: 'overwritten' });
+    } else if (policy === 'duplicate') {
+      plan.save.push({ index, creation: { ...creation, id: crypto.randomUUID() }, outcome: 'duplicated' });
+    } else {
+      plan.skipped++;
+    }
+  }
+  return plan;
+}
+
+/** Number of creations in the file whose id is already taken. */
+export const countCollisions = (entries: ArchiveEntry[], existingIds: Iterable<string>): number => {
+  const ids = new Set(existingIds);
+  return entries.filter(({ creation }) => ids.has(creation.id)).length;
+};
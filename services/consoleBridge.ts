@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { injectIntoHead } from "./sandbox";
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+// Where an entry came from inside the preview
+export type ConsoleSource = 'console' | 'error' | 'rejection' | 'resource' | 'csp';
+
+export interface ConsoleEntry {
+  id: number;
+  level: ConsoleLevel;
+  source: ConsoleSource;
+  message: string;
+  stack?: string;
+  timestamp: Date;
+}
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+// Runs before the app's own scripts. Everything is forwarded with a per-frame
+// token so the host can ignore messages the app posts itself.
+const bridgeScript = (token: string): string => `<script>
+(function () {
+  var token = ${JSON.stringify(token)};
+  function format(value) {
+    if (value instanceof Error) return value.stack || (value.name + ': ' + value.message);
+    if (typeof value === 'string') return value;
+    try {
+      var seen = [];
+      var json = JSON.stringify(value, function (key, v) {
+        if (typeof v === 'function') return '[Function ' + (v.name || 'anonymous') + ']';
+        if (typeof v === 'object' && v !== null) {
+          if (seen.indexOf(v) !== -1) return '[Circular]';
+          seen.push(v);
+        }
+        return v;
+      });
+      return json === undefined ? String(value) : json;
+    } catch (e) {
+      return String(value);
+    }
+  }
+  function send(level, source, args, stack) {
+    try {
+      parent.postMessage({
+        __console: token,
+        level: level,
+        source: source,
+        message: args.map(format).join(' ').slice(0, ${MAX_MESSAGE_LENGTH}),
+        stack: typeof stack === 'string' ? stack.slice(0, ${MAX_MESSAGE_LENGTH}) : undefined
+      }, '*');
+    } catch (e) {}
+  }
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      send(level, 'console', Array.prototype.slice.call(arguments));
+      return original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (e) {
+    var target = e.target;
+    if (target && target !== window) {
+      send('error', 'resource', ['Failed to load ' + (target.src || target.href || '<' + String(target.tagName).toLowerCase() + '>')]);
+      return;
+    }
+    send('error', 'error', [e.message], e.error && e.error.stack);
+  }, true);
+  window.addEventListener('unhandledrejection', function (e) {
+    send('error', 'rejection', ['Unhandled promise rejection:', e.reason], e.reason && e.reason.stack);
+  });
+  document.addEventListener('securitypolicyviolation', function (e) {
+    send('warn', 'csp', ['Blocked by the sandbox: ' + e.effectiveDirective + ' ' + (e.blockedURI || 'inline')]);
+  });
+})();
+</script>`;
+
+/** Inserts the bridge at the top of <head> so it sees errors from every later script. */
+export const injectConsoleBridge = (html: string, token: string): string =>
+  injectIntoHead(html, `${bridgeScript(token)}\n`);
+
+const LEVELS: ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+const SOURCES: ConsoleSource[] = ['console', 'error', 'rejection', 'resource', 'csp'];
+
+let nextId = 1;
+
+/** Turns a bridge message into an entry, or null if it isn't one of ours. */
+export function parseConsoleMessage(data: unknown, token: string): ConsoleEntry | null {
+  if (!data || typeof data !== 'object') return null;
+  const message = data as Record<string, unknown>;
+  if (message.__console !== token || typeof message.message !== 'string') return null;
+  return {
+    id: nextId++,
+    level: LEVELS.includes(message.level as ConsoleLevel) ? message.level as ConsoleLevel : 'log',
+    source: SOURCES.includes(message.source as ConsoleSource) ? message.source as ConsoleSource : 'console',
+    message: message.message,
+    stack: typeof message.stack === 'string' ? message.stack : undefined,
+    timestamp: new Date(),
+  };
+}
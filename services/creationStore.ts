@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, CreationInput, CreationSummary, Revision } from "../components/CreationHistory";
+import { Sketch } from "./sketch";
+
+// IndexedDB-backed archive. Lightweight metadata lives in `creations` so the
+// history strip can render without touching the heavy `payloads` store, which
+// holds the generated HTML, its revision tree and the original inputs as Blobs.
+const DB_NAME = 'bring_to_life';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'creations';
+const PAYLOAD_STORE = 'payloads';
+
+const LEGACY_HISTORY_KEY = 'gemini_app_history';
+
+interface StoredInput {
+  name: string;
+  mimeType: string;
+  data: Blob;
+  pages?: number[];
+  sketch?: Sketch;
+}
+
+interface CreationPayload {
+  id: string;
+  html: string;
+  revisions?: Revision[];
+  inputs?: StoredInput[];
+  input?: Blob; // Single input written before multi-file support
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PAYLOAD_STORE)) {
+          db.createObjectStore(PAYLOAD_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Revive dates after structured clone / JSON round trips
+const reviveSummary = (record: any): CreationSummary => {
+  const { inputMimeType, ...rest } = record;
+  return {
+    ...rest,
+    timestamp: new Date(record.timestamp),
+    conversation: record.conversation?.map((turn: any) => ({ ...turn, timestamp: new Date(turn.timestamp) })),
+    inputMimeTypes: record.inputMimeTypes ?? (inputMimeType ? [inputMimeType] : undefined),
+  };
+};
+
+const mimeTypeOf = (dataUrl: string): string =>
+  dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+/**
+ * Moves the single `originalImage` data URL used by older archives, exports
+ * and the example files into `inputs`.
+ */
+export function upgradeLegacyInput<T extends { inputs?: CreationInput[] }>(record: T & { originalImage?: string }): T {
+  const { originalImage, ...rest } = record;
+  if (rest.inputs || typeof originalImage !== 'string') return rest as T;
+  return { ...rest, inputs: [{ name: 'input', mimeType: mimeTypeOf(originalImage), dataUrl: originalImage }] } as T;
+}
+
+export function toSummary(creation: Creation): CreationSummary {
+  const { html, inputs, revisions, ...summary } = creation;
+  return {
+    ...summary,
+    // Creations saved before prompts were stored keep theirs on the root revision
+    prompt: summary.prompt ?? revisions?.find(revision => !revision.parentId && revision.source === 'generate')?.note,
+    inputMimeTypes: inputs?.length ? inputs.map(input => input.mimeType) : undefined,
+  };
+}
+
+export async function listCreations(): Promise<CreationSummary[]> {
+  const db = await openDb();
+  const records = await promisify(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll());
+  return records
+    .map(reviveSummary)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+export async function loadCreation(id: string): Promise<Creation | null> {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, PAYLOAD_STORE]);
+  const [summary, payload] = await Promise.all([
+    promisify(tx.objectStore(SUMMARY_STORE).get(id)),
+    promisify<CreationPayload | undefined>(tx.objectStore(PAYLOAD_STORE).get(id)),
+  ]);
+  if (!summary || !payload) return null;
+
+  const { inputMimeTypes, ...rest } = reviveSummary(summary);
+  const stored = payload.inputs ?? (payload.input ? [{ name: 'input', mimeType: payload.input.type || 'application/octet-stream', data: payload.input }] : []);
+  return {
+    ...rest,
+    html: payload.html,
+    revisions: payload.revisions?.map(r => ({ ...r, timestamp: new Date(r.timestamp) })),
+    inputs: stored.length
+      ? await Promise.all(stored.map(async input => ({ name: input.name, mimeType: input.mimeType, dataUrl: await blobToDataUrl(input.data), pages: input.pages, sketch: input.sketch })))
+      : undefined,
+  };
+}
+
+export async function saveCreation(creation: Creation): Promise<CreationSummary> {
+  // Convert before opening the transaction; IDB transactions close on await of foreign promises
+  const inputs: StoredInput[] | undefined = creation.inputs && await Promise.all(
+    creation.inputs.map(async input => ({ name: input.name, mimeType: input.mimeType, data: await dataUrlToBlob(input.dataUrl), pages: input.pages, sketch: input.sketch }))
+  );
+  const summary = toSummary(creation);
+
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, PAYLOAD_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).put(summary);
+  tx.objectStore(PAYLOAD_STORE).put({ id: creation.id, html: creation.html, revisions: creation.revisions, inputs } as CreationPayload);
+  await transactionDone(tx);
+  return summary;
+}
+
+export type CreationMeta = Partial<Pick<Creation, 'name' | 'pinned' | 'tags' | 'thumbnail' | 'thumbnailRevisionId' | 'inputPreview' | 'viewport'>>;
+
+/** Updates archive metadata without touching the stored HTML or inputs. */
+export async function updateCreationMeta(id: string, patch: CreationMeta): Promise<CreationSummary> {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARY_STORE, 'readwrite');
+  const store = tx.objectStore(SUMMARY_STORE);
+  const record = await promisify(store.get(id));
+  if (!record) throw new Error(`Creation ${id} not found`);
+  const updated = { ...record, ...patch };
+  store.put(updated);
+  await transactionDone(tx);
+  return reviveSummary(updated);
+}
+
+export async function deleteCreation(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, PAYLOAD_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(PAYLOAD_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * One-time import of the old single-key localStorage archive. The legacy key
+ * is only removed after every record has been written successfully.
+ */
+export async function migrateFromLocalStorage(): Promise<number> {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return 0;
+
+  let legacy: any[];
+  try {
+    legacy = JSON.parse(saved);
+  } catch (e) {
+    console.error("Legacy history is unreadable, leaving it in place", e);
+    return 0;
+  }
+
+  for (const item of legacy) {
+    if (!item?.id || typeof item.html !== 'string') continue;
+    await saveCreation({
+      ...upgradeLegacyInput(item),
+      timestamp: new Date(item.timestamp || Date.now()),
+      conversation: item.conversation?.map((turn: any) => ({ ...turn, timestamp: new Date(turn.timestamp) })),
+    });
+  }
+
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return legacy.length;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
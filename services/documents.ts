@@ -0,0 +1,252 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { readZipEntry } from "./zip";
+import { injectIntoHead } from "./sandbox";
+
+// Data and document inputs are parsed in the browser. The model receives a
+// text description (schema plus sample rows for tables); data files are also
+// embedded in full into the generated page as `window.APP_DATA`.
+
+export type DocumentFormat = 'csv' | 'tsv' | 'json' | 'markdown' | 'text' | 'docx';
+
+const FORMATS: { format: DocumentFormat; mimeType: string; extensions: string[]; aliases: string[] }[] = [
+  { format: 'csv', mimeType: 'text/csv', extensions: ['csv'], aliases: ['application/csv', 'application/vnd.ms-excel'] },
+  { format: 'tsv', mimeType: 'text/tab-separated-values', extensions: ['tsv', 'tab'], aliases: [] },
+  { format: 'json', mimeType: 'application/json', extensions: ['json'], aliases: ['text/json'] },
+  { format: 'markdown', mimeType: 'text/markdown', extensions: ['md', 'markdown'], aliases: ['text/x-markdown'] },
+  { format: 'text', mimeType: 'text/plain', extensions: ['txt', 'text'], aliases: [] },
+  { format: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extensions: ['docx'], aliases: [] },
+];
+
+// Value for file input `accept` attributes
+export const DOCUMENT_ACCEPT = FORMATS.flatMap(f => f.extensions.map(ext => `.${ext}`)).join(',');
+
+/** Format of a data/document file, judged by extension first since browsers often report no MIME type. */
+export function documentFormat(name: string, mimeType: string): DocumentFormat | null {
+  const extension = name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  const byExtension = FORMATS.find(f => extension && f.extensions.includes(extension));
+  if (byExtension) return byExtension.format;
+  return FORMATS.find(f => f.mimeType === mimeType || f.aliases.includes(mimeType))?.format ?? null;
+}
+
+export const documentMimeType = (format: DocumentFormat): string =>
+  FORMATS.find(f => f.format === format)!.mimeType;
+
+export const isTabularFormat = (format: DocumentFormat | null): boolean =>
+  format === 'csv' || format === 'tsv' || format === 'json';
+
+export type ColumnType = 'number' | 'boolean' | 'date' | 'string';
+
+export interface ColumnInfo {
+  name: string;
+  type: ColumnType;
+}
+
+export type DataRecord = Record<string, string | number | boolean | null>;
+
+export type ParsedDocument =
+  | { kind: 'table'; format: DocumentFormat; columns: ColumnInfo[]; records: DataRecord[]; source?: unknown }
+  | { kind: 'json'; format: 'json'; value: unknown }
+  | { kind: 'text'; format: DocumentFormat; text: string };
+
+/** RFC 4180 style parsing: quoted fields, doubled quotes, CRLF and newlines inside quotes. */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+const NUMBER = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const inferType = (values: unknown[]): ColumnType => {
+  const present = values.filter(v => v !== null && v !== undefined && String(v).trim() !== '');
+  if (present.length === 0) return 'string';
+  if (present.every(v => typeof v === 'number' || NUMBER.test(String(v).trim()))) return 'number';
+  if (present.every(v => typeof v === 'boolean' || /^(true|false)$/i.test(String(v).trim()))) return 'boolean';
+  if (present.every(v => ISO_DATE.test(String(v).trim()))) return 'date';
+  return 'string';
+};
+
+const convert = (value: string, type: ColumnType): DataRecord[string] => {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  if (type === 'number') return Number(trimmed);
+  if (type === 'boolean') return trimmed.toLowerCase() === 'true';
+  return value;
+};
+
+function tableFromRows(rows: string[][], format: DocumentFormat): ParsedDocument {
+  const [header = [], ...body] = rows;
+  const seen = new Set<string>();
+  const names = header.map((raw, idx) => {
+    let name = raw.trim() || `column_${idx + 1}`;
+    while (seen.has(name)) name = `${name}_${idx + 1}`;
+    seen.add(name);
+    return name;
+  });
+  const columns: ColumnInfo[] = names.map((name, idx) => ({ name, type: inferType(body.map(row => row[idx])) }));
+  const records = body.map(row => Object.fromEntries(columns.map((column, idx) => [column.name, convert(row[idx] ?? '', column.type)])));
+  return { kind: 'table', format, columns, records };
+}
+
+function parseJson(text: string): ParsedDocument {
+  const value = JSON.parse(text);
+  // An array of flat objects is a table in all but name
+  const rows = Array.isArray(value) ? value : null;
+  if (rows && rows.length > 0 && rows.every(r => r && typeof r === 'object' && !Array.isArray(r))) {
+    const names = Array.from(new Set(rows.flatMap(r => Object.keys(r))));
+    const columns: ColumnInfo[] = names.map(name => ({ name, type: inferType(rows.map(r => r[name])) }));
+    const flat = rows.every(r => Object.values(r).every(v => v === null || typeof v !== 'object'));
+    if (flat) return { kind: 'table', format: 'json', columns, records: rows as DataRecord[], source: value };
+  }
+  return { kind: 'json', format: 'json', value };
+}
+
+/** Extracts paragraphs, headings, list items and tables from word/document.xml as Markdown-ish text. */
+async function parseDocx(blob: Blob): Promise<string> {
+  const xml = await readZipEntry(blob, 'word/document.xml');
+  if (!xml) throw new Error('Not a Word document');
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(xml), 'application/xml');
+  const body = doc.getElementsByTagName('w:body')[0];
+  if (!body) return '';
+
+  const paragraphText = (p: Element): string => {
+    let text = '';
+    for (const node of Array.from(p.getElementsByTagName('*'))) {
+      // Tab stops under <w:pPr> are also called w:tab; only runs produce text
+      const inRun = node.parentElement?.tagName === 'w:r';
+      if (node.tagName === 'w:t') text += node.textContent || '';
+      else if (node.tagName === 'w:tab' && inRun) text += '\t';
+      else if (node.tagName === 'w:br' && inRun) text += '\n';
+    }
+    return text;
+  };
+
+  const lines: string[] = [];
+  for (const block of Array.from(body.children)) {
+    if (block.tagName === 'w:p') {
+      const text = paragraphText(block);
+      const style = block.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val') || '';
+      const heading = style.match(/^(?:Heading|Title)(\d?)$/i);
+      if (heading) lines.push(`${'#'.repeat(Number(heading[1]) || 1)} ${text}`);
+      else if (block.getElementsByTagName('w:numPr').length > 0) lines.push(`- ${text}`);
+      else lines.push(text);
+    } else if (block.tagName === 'w:tbl') {
+      for (const row of Array.from(block.getElementsByTagName('w:tr'))) {
+        const cells = Array.from(row.getElementsByTagName('w:tc')).map(cell =>
+          Array.from(cell.getElementsByTagName('w:p')).map(paragraphText).join(' ').trim());
+        lines.push(`| ${cells.join(' | ')} |`);
+      }
+    }
+  }
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+export async function parseDocument(blob: Blob, name: string, mimeType: string): Promise<ParsedDocument> {
+  const format = documentFormat(name, mimeType);
+  switch (format) {
+    case 'csv':
+      return tableFromRows(parseDelimited(await blob.text(), ','), format);
+    case 'tsv':
+      return tableFromRows(parseDelimited(await blob.text(), '\t'), format);
+    case 'json':
+      return parseJson(await blob.text());
+    case 'docx':
+      return { kind: 'text', format, text: await parseDocx(blob) };
+    case 'markdown':
+    case 'text':
+      return { kind: 'text', format, text: (await blob.text()).replace(/^\uFEFF/, '') };
+    default:
+      throw new Error(`Unsupported document type: ${name}`);
+  }
+}
+
+/** Full data embedded into the generated app, or undefined for prose documents. */
+export function datasetOf(doc: ParsedDocument): unknown {
+  if (doc.kind === 'table') return doc.source ?? doc.records;
+  if (doc.kind === 'json') return doc.value;
+  return undefined;
+}
+
+const SAMPLE_ROWS = 20;
+const MAX_TEXT_CHARS = 30000;
+const MAX_JSON_CHARS = 8000;
+
+const truncate = (text: string, max: number): string =>
+  text.length > max ? `${text.slice(0, max)}\n[... truncated, ${text.length - max} more characters]` : text;
+
+/** Text part sent to the model in place of the raw file. */
+export function describeDocument(name: string, doc: ParsedDocument): string {
+  const runtime = `The complete data is injected at runtime as window.APP_DATA[${JSON.stringify(name)}]. Build the app around it and read it from there; do NOT hardcode, copy or truncate the data.`;
+
+  if (doc.kind === 'table') {
+    const columns = doc.columns.map(column => {
+      const samples = doc.records.map(r => r[column.name]).filter(v => v !== null && v !== '').slice(0, 3);
+      return `- ${column.name} (${column.type})${samples.length ? `, e.g. ${samples.map(v => JSON.stringify(v)).join(', ')}` : ''}`;
+    });
+    return `DATA FILE "${name}" (${doc.format.toUpperCase()}, ${doc.records.length} rows)\nCOLUMNS:\n${columns.join('\n')}\nSAMPLE ROWS (first ${Math.min(SAMPLE_ROWS, doc.records.length)}, JSON):\n${JSON.stringify(doc.records.slice(0, SAMPLE_ROWS))}\n${runtime} It is an array of objects keyed by column name.`;
+  }
+  if (doc.kind === 'json') {
+    return `DATA FILE "${name}" (JSON)\n${truncate(JSON.stringify(doc.value, null, 2), MAX_JSON_CHARS)}\n${runtime} It is the parsed JSON value shown above.`;
+  }
+  return `DOCUMENT "${name}" (${doc.format === 'docx' ? 'Word document' : doc.format})\n${truncate(doc.text, MAX_TEXT_CHARS)}`;
+}
+
+const DATA_BLOCK = /<script id="app-data">[\s\S]*?<\/script>\n?/;
+
+/** Injects datasets ahead of the app's own scripts. `<` is escaped so data can't close the tag. */
+export function embedDatasets(html: string, datasets: Record<string, unknown>): string {
+  const json = JSON.stringify(datasets).replace(/</g, '\\u003c').replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+  return injectIntoHead(html, `<script id="app-data">window.APP_DATA = ${json};</script>\n`);
+}
+
+/**
+ * Splits the embedded data block off so refinements don't resend the whole
+ * dataset; `restore` puts it back into the model's output.
+ */
+export function detachDatasets(html: string): { html: string; restore: (output: string) => string } {
+  const block = html.match(DATA_BLOCK)?.[0];
+  if (!block) return { html, restore: output => output };
+  return {
+    html: html.replace(DATA_BLOCK, ''),
+    restore: output => DATA_BLOCK.test(output) ? output : injectIntoHead(output, block),
+  };
+}
@@ -0,0 +1,486 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Example } from "./types";
+
+// Examples shipped with the app so the gallery and first run work offline.
+// Each one is a complete document that passes output validation.
+export const BUNDLED_EXAMPLES: Example[] = [
+  {
+    id: 'memory-match',
+    name: 'Memory Match',
+    description: 'Flip cards to find pairs, with a move counter and best score.',
+    category: 'games',
+    mode: 'game',
+    prompt: 'A memory card game with emoji pairs, a move counter and a best score',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Memory Match</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; flex-direction: column; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: #0f172a; color: #e2e8f0; }
+  h1 { font-size: 1.5rem; margin: 0 0 0.5rem; }
+  .stats { display: flex; gap: 1.5rem; font-size: 0.9rem; color: #94a3b8; margin-bottom: 1rem; }
+  .grid { display: grid; grid-template-columns: repeat(4, 4.5rem); gap: 0.6rem; }
+  .card { width: 4.5rem; height: 4.5rem; border: 0; border-radius: 0.75rem; font-size: 2rem; cursor: pointer; background: #334155; color: transparent; transition: transform 0.2s, background 0.2s; }
+  .card.open, .card.found { background: #f8fafc; color: inherit; transform: rotateY(180deg); }
+  .card.found { background: #bbf7d0; cursor: default; }
+  button.restart { margin-top: 1.25rem; padding: 0.6rem 1.2rem; border: 0; border-radius: 0.5rem; background: #3b82f6; color: white; font-size: 1rem; cursor: pointer; }
+  .win { height: 1.5rem; margin-top: 1rem; color: #4ade80; font-weight: 600; }
+</style>
+</head>
+<body>
+<h1>Memory Match</h1>
+<div class="stats"><span>Moves: <b id="moves">0</b></span><span>Best: <b id="best">-</b></span></div>
+<div class="grid" id="grid"></div>
+<div class="win" id="win"></div>
+<button class="restart" id="restart">Restart</button>
+<script>
+  const symbols = ['🍎', '🚀', '🎲', '🌵', '🐙', '🎧', '⚡', '🍩'];
+  const grid = document.getElementById('grid');
+  const movesEl = document.getElementById('moves');
+  const bestEl = document.getElementById('best');
+  const winEl = document.getElementById('win');
+  let open = [];
+  let moves = 0;
+  let found = 0;
+
+  const showBest = () => { bestEl.textContent = localStorage.getItem('memory-best') || '-'; };
+
+  const start = () => {
+    const deck = symbols.concat(symbols).sort(() => Math.random() - 0.5);
+    grid.innerHTML = '';
+    open = [];
+    moves = 0;
+    found = 0;
+    movesEl.textContent = '0';
+    winEl.textContent = '';
+    deck.forEach(symbol => {
+      const card = document.createElement('button');
+      card.className = 'card';
+      card.textContent = symbol;
+      card.addEventListener('click', () => flip(card));
+      grid.appendChild(card);
+    });
+    showBest();
+  };
+
+  const flip = (card) => {
+    if (open.length === 2 || card.classList.contains('open') || card.classList.contains('found')) return;
+    card.classList.add('open');
+    open.push(card);
+    if (open.length < 2) return;
+    moves++;
+    movesEl.textContent = moves;
+    const [a, b] = open;
+    if (a.textContent === b.textContent) {
+      a.classList.replace('open', 'found');
+      b.classList.replace('open', 'found');
+      open = [];
+      found += 2;
+      if (found === symbols.length * 2) finish();
+    } else {
+      setTimeout(() => { a.classList.remove('open'); b.classList.remove('open'); open = []; }, 700);
+    }
+  };
+
+  const finish = () => {
+    const best = Number(localStorage.getItem('memory-best')) || Infinity;
+    if (moves < best) localStorage.setItem('memory-best', moves);
+    winEl.textContent = 'Solved in ' + moves + ' moves!';
+    showBest();
+  };
+
+  document.getElementById('restart').addEventListener('click', start);
+  start();
+</script>
+</body>
+</html>`,
+  },
+  {
+    id: 'reaction-timer',
+    name: 'Reaction Timer',
+    description: 'Wait for green, then tap as fast as you can.',
+    category: 'games',
+    mode: 'game',
+    prompt: 'A reaction time test: the screen turns green after a random delay and you tap as fast as possible',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Reaction Timer</title>
+<style>
+  body { margin: 0; height: 100vh; display: flex; flex-direction: column; align-items: center; justify-content: center; font-family: system-ui, sans-serif; color: white; background: #1e3a8a; user-select: none; cursor: pointer; transition: background 0.15s; }
+  body.waiting { background: #b91c1c; }
+  body.go { background: #15803d; }
+  h1 { font-size: 2.5rem; margin: 0; }
+  p { font-size: 1.1rem; opacity: 0.85; }
+  .history { font-family: ui-monospace, monospace; font-size: 0.9rem; opacity: 0.75; }
+</style>
+</head>
+<body>
+<h1 id="title">Reaction Timer</h1>
+<p id="hint">Tap or press Space to start</p>
+<div class="history" id="history"></div>
+<script>
+  const title = document.getElementById('title');
+  const hint = document.getElementById('hint');
+  const history = document.getElementById('history');
+  const times = [];
+  let state = 'idle';
+  let timer = null;
+  let shownAt = 0;
+
+  const set = (next, heading, text) => {
+    state = next;
+    document.body.className = next === 'waiting' ? 'waiting' : next === 'go' ? 'go' : '';
+    title.textContent = heading;
+    hint.textContent = text;
+  };
+
+  const press = () => {
+    if (state === 'idle' || state === 'result') {
+      set('waiting', 'Wait for green…', 'Do not tap yet');
+      timer = setTimeout(() => { shownAt = performance.now(); set('go', 'Tap!', ''); }, 1000 + Math.random() * 3000);
+    } else if (state === 'waiting') {
+      clearTimeout(timer);
+      set('result', 'Too soon!', 'Tap to try again');
+    } else if (state === 'go') {
+      const ms = Math.round(performance.now() - shownAt);
+      times.unshift(ms);
+      const best = Math.min.apply(null, times);
+      set('result', ms + ' ms', 'Best ' + best + ' ms · tap to go again');
+      history.textContent = times.slice(0, 5).map(t => t + ' ms').join('  ·  ');
+    }
+  };
+
+  document.body.addEventListener('pointerdown', press);
+  document.addEventListener('keydown', e => { if (e.code === 'Space') { e.preventDefault(); press(); } });
+</script>
+</body>
+</html>`,
+  },
+  {
+    id: 'pomodoro',
+    name: 'Pomodoro Timer',
+    description: 'Focus and break intervals with a progress ring and session count.',
+    category: 'tools',
+    mode: 'crud',
+    prompt: 'A pomodoro timer with 25 minute focus and 5 minute break sessions, a progress ring and a session counter',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Pomodoro Timer</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: #fff7ed; color: #431407; }
+  main { text-align: center; }
+  .tabs { display: inline-flex; gap: 0.25rem; padding: 0.25rem; border-radius: 999px; background: #ffedd5; margin-bottom: 1.5rem; }
+  .tabs button { border: 0; padding: 0.4rem 1rem; border-radius: 999px; background: transparent; color: inherit; cursor: pointer; font-size: 0.9rem; }
+  .tabs button.active { background: #ea580c; color: white; }
+  svg { display: block; margin: 0 auto; }
+  .time { font-size: 3rem; font-weight: 700; font-variant-numeric: tabular-nums; }
+  .controls { margin-top: 1.5rem; display: flex; gap: 0.5rem; justify-content: center; }
+  .controls button { padding: 0.6rem 1.4rem; border: 0; border-radius: 0.5rem; font-size: 1rem; cursor: pointer; background: #431407; color: white; }
+  .controls button.secondary { background: #fed7aa; color: #431407; }
+  .sessions { margin-top: 1rem; font-size: 0.9rem; color: #9a3412; }
+</style>
+</head>
+<body>
+<main>
+  <div class="tabs"><button id="focus" class="active">Focus 25</button><button id="break">Break 5</button></div>
+  <svg width="220" height="220" viewBox="0 0 220 220">
+    <circle cx="110" cy="110" r="96" fill="none" stroke="#fed7aa" stroke-width="12"/>
+    <circle id="ring" cx="110" cy="110" r="96" fill="none" stroke="#ea580c" stroke-width="12" stroke-linecap="round" transform="rotate(-90 110 110)"/>
+    <foreignObject x="0" y="70" width="220" height="80"><div class="time" id="time">25:00</div></foreignObject>
+  </svg>
+  <div class="controls"><button id="toggle">Start</button><button id="reset" class="secondary">Reset</button></div>
+  <div class="sessions">Sessions completed: <b id="count">0</b></div>
+</main>
+<script>
+  const ring = document.getElementById('ring');
+  const timeEl = document.getElementById('time');
+  const toggle = document.getElementById('toggle');
+  const circumference = 2 * Math.PI * 96;
+  ring.style.strokeDasharray = circumference;
+  let length = 25 * 60;
+  let left = length;
+  let interval = null;
+  let sessions = Number(localStorage.getItem('pomodoro-sessions')) || 0;
+  document.getElementById('count').textContent = sessions;
+
+  const render = () => {
+    const m = String(Math.floor(left / 60)).padStart(2, '0');
+    const s = String(left % 60).padStart(2, '0');
+    timeEl.textContent = m + ':' + s;
+    ring.style.strokeDashoffset = circumference * (1 - left / length);
+  };
+
+  const stop = () => { clearInterval(interval); interval = null; toggle.textContent = 'Start'; };
+
+  const select = (minutes, id) => {
+    stop();
+    length = left = minutes * 60;
+    document.querySelectorAll('.tabs button').forEach(b => b.classList.toggle('active', b.id === id));
+    render();
+  };
+
+  toggle.addEventListener('click', () => {
+    if (interval) return stop();
+    toggle.textContent = 'Pause';
+    interval = setInterval(() => {
+      left--;
+      if (left <= 0) {
+        stop();
+        if (length === 25 * 60) {
+          sessions++;
+          localStorage.setItem('pomodoro-sessions', sessions);
+          document.getElementById('count').textContent = sessions;
+        }
+        left = length;
+      }
+      render();
+    }, 1000);
+  });
+  document.getElementById('reset').addEventListener('click', () => { stop(); left = length; render(); });
+  document.getElementById('focus').addEventListener('click', () => select(25, 'focus'));
+  document.getElementById('break').addEventListener('click', () => select(5, 'break'));
+  render();
+</script>
+</body>
+</html>`,
+  },
+  {
+    id: 'unit-converter',
+    name: 'Unit Converter',
+    description: 'Length, weight and temperature conversions that update as you type.',
+    category: 'tools',
+    mode: 'crud',
+    prompt: 'A unit converter for length, weight and temperature with live conversion in both directions',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Unit Converter</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: #f4f4f5; color: #18181b; }
+  main { width: 100%; max-width: 26rem; padding: 1.5rem; background: white; border-radius: 1rem; box-shadow: 0 10px 30px rgba(0,0,0,0.08); box-sizing: border-box; }
+  h1 { font-size: 1.25rem; margin: 0 0 1rem; }
+  select, input { width: 100%; box-sizing: border-box; padding: 0.6rem 0.75rem; border: 1px solid #d4d4d8; border-radius: 0.5rem; font-size: 1rem; background: white; }
+  .row { display: grid; grid-template-columns: 1fr 8rem; gap: 0.5rem; margin-top: 0.75rem; }
+  .swap { display: block; margin: 0.75rem auto 0; border: 0; background: #e4e4e7; border-radius: 999px; width: 2.25rem; height: 2.25rem; cursor: pointer; font-size: 1.1rem; }
+</style>
+</head>
+<body>
+<main>
+  <h1>Unit Converter</h1>
+  <select id="kind"><option value="length">Length</option><option value="weight">Weight</option><option value="temperature">Temperature</option></select>
+  <div class="row"><input id="a" type="number" value="1"><select id="ua"></select></div>
+  <button class="swap" id="swap" title="Swap">⇅</button>
+  <div class="row"><input id="b" type="number"><select id="ub"></select></div>
+</main>
+<script>
+  const units = {
+    length: { m: 1, km: 1000, cm: 0.01, mi: 1609.344, ft: 0.3048, in: 0.0254 },
+    weight: { kg: 1, g: 0.001, lb: 0.45359237, oz: 0.0283495 },
+    temperature: { C: null, F: null, K: null },
+  };
+  const toC = { C: v => v, F: v => (v - 32) * 5 / 9, K: v => v - 273.15 };
+  const fromC = { C: v => v, F: v => v * 9 / 5 + 32, K: v => v + 273.15 };
+  const $ = id => document.getElementById(id);
+
+  const convert = (value, from, to) => {
+    if ($('kind').value === 'temperature') return fromC[to](toC[from](value));
+    const table = units[$('kind').value];
+    return value * table[from] / table[to];
+  };
+  const round = v => Math.round(v * 10000) / 10000;
+  const update = (source, target, fromUnit, toUnit) => {
+    const value = parseFloat($(source).value);
+    $(target).value = Number.isFinite(value) ? round(convert(value, $(fromUnit).value, $(toUnit).value)) : '';
+  };
+  const forward = () => update('a', 'b', 'ua', 'ub');
+  const backward = () => update('b', 'a', 'ub', 'ua');
+
+  const fill = () => {
+    const names = Object.keys(units[$('kind').value]);
+    ['ua', 'ub'].forEach((id, i) => {
+      $(id).innerHTML = names.map(n => '<option>' + n + '</option>').join('');
+      $(id).selectedIndex = Math.min(i, names.length - 1);
+    });
+    forward();
+  };
+
+  $('kind').addEventListener('change', fill);
+  $('a').addEventListener('input', forward);
+  $('b').addEventListener('input', backward);
+  $('ua').addEventListener('change', forward);
+  $('ub').addEventListener('change', forward);
+  $('swap').addEventListener('click', () => {
+    const unit = $('ua').value;
+    $('ua').value = $('ub').value;
+    $('ub').value = unit;
+    forward();
+  });
+  fill();
+</script>
+</body>
+</html>`,
+  },
+  {
+    id: 'sales-dashboard',
+    name: 'Sales Dashboard',
+    description: 'KPI cards, a monthly revenue chart and a region filter.',
+    category: 'dashboards',
+    mode: 'dashboard',
+    prompt: 'A sales dashboard with KPI cards, a monthly revenue bar chart and a region filter',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Sales Dashboard</title>
+<style>
+  body { margin: 0; font-family: system-ui, sans-serif; background: #09090b; color: #fafafa; padding: 1.5rem; box-sizing: border-box; min-height: 100vh; }
+  header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 1.25rem; }
+  h1 { font-size: 1.25rem; margin: 0; }
+  select { background: #18181b; color: inherit; border: 1px solid #3f3f46; border-radius: 0.5rem; padding: 0.4rem 0.6rem; }
+  .kpis { display: grid; grid-template-columns: repeat(auto-fit, minmax(10rem, 1fr)); gap: 0.75rem; margin-bottom: 1.25rem; }
+  .kpi { background: #18181b; border: 1px solid #27272a; border-radius: 0.75rem; padding: 1rem; }
+  .kpi span { display: block; font-size: 0.75rem; color: #a1a1aa; text-transform: uppercase; letter-spacing: 0.05em; }
+  .kpi b { display: block; font-size: 1.5rem; margin-top: 0.25rem; font-variant-numeric: tabular-nums; }
+  .chart { background: #18181b; border: 1px solid #27272a; border-radius: 0.75rem; padding: 1rem; }
+  .chart h2 { font-size: 0.9rem; margin: 0 0 0.75rem; color: #d4d4d8; }
+  svg text { fill: #a1a1aa; font-size: 10px; }
+  rect.bar { fill: #6366f1; }
+  rect.bar:hover { fill: #a5b4fc; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Sales Dashboard</h1>
+  <select id="region"><option value="all">All regions</option><option value="north">North</option><option value="south">South</option><option value="west">West</option></select>
+</header>
+<div class="kpis">
+  <div class="kpi"><span>Revenue</span><b id="revenue"></b></div>
+  <div class="kpi"><span>Orders</span><b id="orders"></b></div>
+  <div class="kpi"><span>Avg. order</span><b id="average"></b></div>
+  <div class="kpi"><span>Best month</span><b id="bestMonth"></b></div>
+</div>
+<div class="chart"><h2>Monthly revenue</h2><svg id="chart" width="100%" height="220" viewBox="0 0 600 220" preserveAspectRatio="none"></svg></div>
+<script>
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const data = {
+    north: [42, 38, 51, 47, 60, 66, 58, 62, 70, 75, 81, 94],
+    south: [30, 34, 29, 41, 45, 43, 52, 57, 49, 55, 61, 68],
+    west: [25, 27, 33, 36, 31, 40, 44, 47, 53, 50, 58, 63],
+  };
+  const money = v => '$' + v.toLocaleString('en-US') + 'k';
+
+  const render = () => {
+    const region = document.getElementById('region').value;
+    const series = months.map((_, i) => region === 'all'
+      ? data.north[i] + data.south[i] + data.west[i]
+      : data[region][i]);
+    const total = series.reduce((a, b) => a + b, 0);
+    const orders = Math.round(total * 13.7);
+    const best = series.indexOf(Math.max.apply(null, series));
+    document.getElementById('revenue').textContent = money(total);
+    document.getElementById('orders').textContent = orders.toLocaleString('en-US');
+    document.getElementById('average').textContent = '$' + Math.round(total * 1000 / orders);
+    document.getElementById('bestMonth').textContent = months[best];
+
+    const max = Math.max.apply(null, series);
+    const width = 600 / series.length;
+    document.getElementById('chart').innerHTML = series.map((v, i) => {
+      const h = v / max * 180;
+      return '<rect class="bar" x="' + (i * width + 6) + '" y="' + (190 - h) + '" width="' + (width - 12) + '" height="' + h + '" rx="3"><title>' + months[i] + ': ' + money(v) + '</title></rect>'
+        + '<text x="' + (i * width + width / 2) + '" y="210" text-anchor="middle">' + months[i] + '</text>';
+    }).join('');
+  };
+
+  document.getElementById('region').addEventListener('change', render);
+  render();
+</script>
+</body>
+</html>`,
+  },
+  {
+    id: 'fraction-bars',
+    name: 'Fraction Explorer',
+    description: 'Compare two fractions with sliders and shaded bars.',
+    category: 'learning',
+    mode: 'educational',
+    prompt: 'An interactive widget that teaches comparing fractions with sliders and shaded bars',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Fraction Explorer</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: #ecfeff; color: #164e63; }
+  main { width: 100%; max-width: 34rem; padding: 1.5rem; box-sizing: border-box; }
+  h1 { font-size: 1.4rem; margin: 0 0 1rem; }
+  .fraction { background: white; border-radius: 0.75rem; padding: 1rem; margin-bottom: 0.75rem; box-shadow: 0 4px 14px rgba(8,145,178,0.12); }
+  .label { display: flex; justify-content: space-between; font-weight: 600; margin-bottom: 0.5rem; }
+  .bar { display: flex; height: 2.25rem; border: 2px solid #0e7490; border-radius: 0.4rem; overflow: hidden; }
+  .bar div { flex: 1; border-inline-end: 1px solid #0e7490; }
+  .bar div:last-child { border: 0; }
+  .bar div.on { background: #22d3ee; }
+  label { display: flex; align-items: center; gap: 0.5rem; font-size: 0.85rem; margin-top: 0.5rem; }
+  input[type=range] { flex: 1; }
+  .verdict { text-align: center; font-size: 1.3rem; font-weight: 700; padding: 0.75rem; }
+</style>
+</head>
+<body>
+<main>
+  <h1>Which fraction is bigger?</h1>
+  <div class="fraction" id="f1"></div>
+  <div class="fraction" id="f2"></div>
+  <div class="verdict" id="verdict"></div>
+</main>
+<script>
+  const state = [{ n: 2, d: 3 }, { n: 3, d: 5 }];
+
+  const build = (index) => {
+    const root = document.getElementById('f' + (index + 1));
+    root.innerHTML = '<div class="label"><span>Fraction ' + (index + 1) + '</span><span class="value"></span></div><div class="bar"></div>'
+      + '<label>Parts <input type="range" min="1" max="12" class="d"></label>'
+      + '<label>Shaded <input type="range" min="0" max="12" class="n"></label>';
+    const d = root.querySelector('.d');
+    const n = root.querySelector('.n');
+    d.value = state[index].d;
+    n.value = state[index].n;
+    d.addEventListener('input', () => { state[index].d = +d.value; state[index].n = Math.min(state[index].n, +d.value); n.value = state[index].n; render(); });
+    n.addEventListener('input', () => { state[index].n = Math.min(+n.value, state[index].d); n.value = state[index].n; render(); });
+  };
+
+  const render = () => {
+    state.forEach((f, i) => {
+      const root = document.getElementById('f' + (i + 1));
+      root.querySelector('.value').textContent = f.n + '/' + f.d;
+      root.querySelector('.bar').innerHTML = Array.from({ length: f.d }, (_, k) => '<div class="' + (k < f.n ? 'on' : '') + '"></div>').join('');
+    });
+    const [a, b] = state;
+    const left = a.n * b.d;
+    const right = b.n * a.d;
+    document.getElementById('verdict').textContent = left === right
+      ? a.n + '/' + a.d + ' = ' + b.n + '/' + b.d
+      : left > right ? a.n + '/' + a.d + ' > ' + b.n + '/' + b.d : a.n + '/' + a.d + ' < ' + b.n + '/' + b.d;
+  };
+
+  build(0);
+  build(1);
+  render();
+</script>
+</body>
+</html>`,
+  },
+];
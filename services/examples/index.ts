@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from "../../components/CreationHistory";
+import { ensureRevisions } from "../revisions";
+import { Example, ExampleCategory, ExamplePack, ExamplePackErrorKind, PackResult } from "./types";
+import { BUNDLED_EXAMPLES } from "./bundled";
+
+export * from "./types";
+export { BUNDLED_EXAMPLES } from "./bundled";
+
+const SOURCES_KEY = 'gemini_app_example_packs';
+const SEEDED_KEY = 'gemini_app_examples_seeded';
+
+// A slow pack must not hold up the gallery; bundled examples show regardless
+const PACK_TIMEOUT_MS = 8000;
+
+export const EXAMPLE_CATEGORIES: ExampleCategory[] = ['games', 'tools', 'dashboards', 'learning', 'other'];
+
+// Comma-separated pack URLs from `EXAMPLE_PACKS` in .env.local; none by default
+export const DEFAULT_EXAMPLE_SOURCES: string[] = (process.env.EXAMPLE_PACKS || '')
+  .split(',')
+  .map(url => url.trim())
+  .filter(Boolean);
+
+export class ExamplePackError extends Error {
+  readonly kind: ExamplePackErrorKind;
+
+  constructor(kind: ExamplePackErrorKind, message: string, options: { cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ExamplePackError';
+    this.kind = kind;
+  }
+}
+
+export function loadExampleSources(): string[] {
+  try {
+    const saved = localStorage.getItem(SOURCES_KEY);
+    return saved ? (JSON.parse(saved) as unknown[]).filter((url): url is string => typeof url === 'string') : DEFAULT_EXAMPLE_SOURCES;
+  } catch (e) {
+    console.error("Failed to load example sources", e);
+    return DEFAULT_EXAMPLE_SOURCES;
+  }
+}
+
+export function saveExampleSources(urls: string[]): void {
+  localStorage.setItem(SOURCES_KEY, JSON.stringify(urls));
+}
+
+/** Splits free text into unique http(s) URLs; anything else is dropped. */
+export function parseExampleSources(text: string): string[] {
+  const urls = text.split(/[\s,]+/).filter(url => {
+    try {
+      return ['http:', 'https:'].includes(new URL(url).protocol);
+    } catch {
+      return false;
+    }
+  });
+  return [...new Set(urls)];
+}
+
+/** Examples are only seeded once, so clearing the archive does not bring them back. */
+export const examplesSeeded = (): boolean => localStorage.getItem(SEEDED_KEY) === '1';
+
+export function markExamplesSeeded(): void {
+  localStorage.setItem(SEEDED_KEY, '1');
+}
+
+/** Archive id of an example's copy. Stable, so adding examples again never duplicates them. */
+export const exampleCreationId = (example: Example): string => `example-${example.id}`;
+
+export function exampleToCreation(example: Example, timestamp = new Date()): Creation {
+  return ensureRevisions({
+    id: exampleCreationId(example),
+    name: example.name,
+    html: example.html,
+    timestamp,
+    mode: example.mode,
+    prompt: example.prompt,
+    tags: ['example'],
+  });
+}
+
+/** Examples whose archive copy does not exist yet. */
+export const missingExamples = (examples: Example[], existingIds: Iterable<string>): Example[] => {
+  const existing = new Set(existingIds);
+  return examples.filter(example => !existing.has(exampleCreationId(example)));
+};
+
+const toExample = (record: unknown, source: string): Example | null => {
+  if (typeof record !== 'object' || record === null) return null;
+  const { id, name, description, category, prompt, mode, html } = record as Record<string, unknown>;
+  if (typeof id !== 'string' || !id || typeof name !== 'string' || !name || typeof html !== 'string' || !html) return null;
+  return {
+    id,
+    name,
+    description: typeof description === 'string' ? description : '',
+    category: EXAMPLE_CATEGORIES.includes(category as ExampleCategory) ? category as ExampleCategory : 'other',
+    prompt: typeof prompt === 'string' ? prompt : '',
+    mode: typeof mode === 'string' ? mode : 'auto',
+    html,
+    source,
+  };
+};
+
+/**
+ * Fetches one remote pack. Entries without an id, name or HTML are dropped;
+ * a response that is not a pack at all throws an ExamplePackError.
+ */
+export async function fetchExamplePack(url: string): Promise<PackResult> {
+  let data: unknown;
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(PACK_TIMEOUT_MS) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    data = await res.json();
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'TimeoutError') {
+      throw new ExamplePackError('timeout', `Example pack timed out: ${url}`, { cause: e });
+    }
+    if (e instanceof SyntaxError) throw new ExamplePackError('invalid', `Example pack is not JSON: ${url}`, { cause: e });
+    throw new ExamplePackError('unreachable', `Example pack unreachable: ${url}`, { cause: e });
+  }
+
+  const pack = data as Partial<ExamplePack> | null;
+  if (pack?.format !== 'example-pack' || !Array.isArray(pack.examples)) {
+    throw new ExamplePackError('invalid', `Not an example pack: ${url}`);
+  }
+  return {
+    url,
+    name: typeof pack.name === 'string' ? pack.name : undefined,
+    examples: pack.examples.map(record => toExample(record, url)).filter((e): e is Example => e !== null),
+  };
+}
+
+/** Loads every pack; failures are reported per pack instead of rejecting the whole batch. */
+export async function loadExamplePacks(urls: string[]): Promise<PackResult[]> {
+  return Promise.all(urls.map(async url => {
+    try {
+      return await fetchExamplePack(url);
+    } catch (e) {
+      console.warn("Example pack unavailable", e);
+      return { url, examples: [], error: e instanceof ExamplePackError ? e.kind : 'unreachable' };
+    }
+  }));
+}
+
+/** Bundled examples first; a pack entry reusing an id already listed is ignored. */
+export function mergeExamples(packs: PackResult[]): Example[] {
+  const merged = [...BUNDLED_EXAMPLES];
+  for (const example of packs.flatMap(pack => pack.examples)) {
+    if (!merged.some(e => e.id === example.id)) merged.push(example);
+  }
+  return merged;
+}
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ExampleCategory = 'games' | 'tools' | 'dashboards' | 'learning' | 'other';
+
+// A ready-made creation shown in the examples gallery. Bundled examples ship
+// with the app; more can come from remote packs.
+export interface Example {
+  id: string; // Stable across releases; the archived copy is keyed on it
+  name: string;
+  description: string;
+  category: ExampleCategory;
+  prompt: string; // The request the app answers, kept with the archived copy
+  mode: string; // Generation mode id used when the example is refined
+  html: string;
+  source?: string; // Pack URL; absent for bundled examples
+}
+
+// File format served by a remote example pack
+export interface ExamplePack {
+  format: 'example-pack';
+  version: 1;
+  name?: string;
+  examples: Partial<Example>[];
+}
+
+export type ExamplePackErrorKind = 'unreachable' | 'timeout' | 'invalid';
+
+export interface PackResult {
+  url: string;
+  name?: string;
+  examples: Example[];
+  error?: ExamplePackErrorKind; // Set when the pack could not be fetched or read
+}
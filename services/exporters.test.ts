@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { splitAssets } from './exporters';
+
+describe('splitAssets', () => {
+  it('keeps inline scripts in order with external ones', () => {
+    const { html, scripts } = splitAssets([
+      '<head><script>tailwind.config = {}</script><script src="https://cdn.tailwindcss.com"></script></head>',
+      '<body><script>start()</script></body>',
+    ].join(''));
+    expect(html).toBe([
+      '<head><script src="app-1.js"></script><script src="https://cdn.tailwindcss.com"></script></head>',
+      '<body><script src="app-2.js"></script></body>',
+    ].join(''));
+    expect(scripts).toEqual([
+      { path: 'app-1.js', code: 'tailwind.config = {}' },
+      { path: 'app-2.js', code: 'start()' },
+    ]);
+  });
+
+  it('is not confused by script tags written from a script', () => {
+    const { html, scripts } = splitAssets(`<body><script>document.write('<script>go()<\\/script>')</script></body>`);
+    expect(html).toBe('<body><script src="app.js"></script></body>');
+    expect(scripts).toEqual([{ path: 'app.js', code: `document.write('<script>go()<\\/script>')` }]);
+  });
+
+  it('leaves module and JSON scripts inline', () => {
+    const page = '<script type="module">import "x"</script><script type="application/json">{}</script>';
+    expect(splitAssets(page)).toEqual({ html: page, css: '', scripts: [] });
+  });
+});
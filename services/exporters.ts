@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from "../components/CreationHistory";
+import { createZip, ZipEntry } from "./zip";
+import { captureScreenshot } from "./screenshot";
+import { sandboxPermissions } from "./sandbox";
+
+export const slugify = (name: string): string =>
+  name.replace(/[^a-z0-9]/gi, '_').toLowerCase().replace(/_+/g, '_').replace(/^_|_$/g, '') || 'creation';
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'tsv',
+  'application/json': 'json',
+  'text/markdown': 'md',
+  'text/plain': 'txt',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+};
+
+export const extensionForMime = (mimeType: string): string =>
+  MIME_EXTENSIONS[mimeType] || mimeType.split('/')[1]?.replace(/[^a-z0-9]/gi, '') || 'bin';
+
+// Generated apps are prompted to start with a doctype, but don't rely on it
+const ensureDocument = (html: string): string =>
+  /^\s*<!doctype/i.test(html) ? html : `<!DOCTYPE html>\n${html}`;
+
+/**
+ * Moves inline <style> blocks into one stylesheet and each classic inline
+ * <script> into its own file, loaded from where the block was so it still
+ * runs in order with the page's <script src> tags. Module and JSON scripts
+ * stay inline since their semantics change when loaded from a file.
+ */
+export function splitAssets(html: string): { html: string; css: string; scripts: { path: string; code: string }[] } {
+  const styles: string[] = [];
+  const scripts: { path: string; code: string }[] = [];
+
+  let out = html.replace(/<style\b[^>]*>([\s\S]*?)<\/style>/gi, (_, css: string) => {
+    styles.push(css.trim());
+    return styles.length === 1 ? '<link rel="stylesheet" href="styles.css">' : '';
+  });
+
+  const isClassic = (attrs: string) =>
+    !/\bsrc\s*=/i.test(attrs) && (!/\btype\s*=/i.test(attrs) || /\btype\s*=\s*["']?(text|application)\/javascript/i.test(attrs));
+
+  const scriptBlock = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+  const inlineCount = [...out.matchAll(scriptBlock)].filter(([, attrs]) => isClassic(attrs)).length;
+  out = out.replace(scriptBlock, (match, attrs: string, js: string) => {
+    if (!isClassic(attrs)) return match;
+    const path = inlineCount === 1 ? 'app.js' : `app-${scripts.length + 1}.js`;
+    scripts.push({ path, code: js.trim() });
+    return `<script src="${path}"></script>`;
+  });
+
+  return { html: out, css: styles.join('\n\n'), scripts };
+}
+
+export function exportArtifactJson(creation: Creation): void {
+  const blob = new Blob([JSON.stringify(creation, null, 2)], { type: "application/json" });
+  downloadBlob(blob, `${slugify(creation.name)}_artifact.json`);
+}
+
+export function exportStandaloneHtml(creation: Creation): void {
+  const blob = new Blob([ensureDocument(creation.html)], { type: 'text/html' });
+  downloadBlob(blob, `${slugify(creation.name)}.html`);
+}
+
+const bundleReadme = (creation: Creation, scriptFiles: string[], inputFiles: string[]): string => `# ${creation.name}
+
+Generated on ${creation.timestamp.toLocaleString()} with Bring Anything to Life.
+
+## Files
+
+- \`index.html\` – the app. Open it in any modern browser.
+- \`styles.css\` – styles extracted from the generated page.
+${scriptFiles.map(file => `- \`${file}\` – ${scriptFiles.length > 1 ? 'a script' : 'the script'} extracted from the generated page.\n`).join('')}- \`standalone.html\` – the original single-file version.
+${inputFiles.map(file => `- \`${file}\` – ${inputFiles.length > 1 ? 'an input' : 'the input'} the app was generated from.\n`).join('')}
+Some apps load libraries (e.g. Tailwind) from a CDN and need an internet connection.
+`;
+
+export async function exportZipBundle(creation: Creation): Promise<void> {
+  const page = ensureDocument(creation.html);
+  const { html, css, scripts } = splitAssets(page);
+  const entries: ZipEntry[] = [
+    { path: 'index.html', data: html },
+    { path: 'styles.css', data: css },
+    ...scripts.map(({ path, code }) => ({ path, data: code })),
+    { path: 'standalone.html', data: page },
+  ];
+
+  const inputs = creation.inputs || [];
+  const inputFiles: string[] = [];
+  for (const [idx, input] of inputs.entries()) {
+    const data = await (await fetch(input.dataUrl)).blob();
+    const path = `${inputs.length > 1 ? `input-${idx + 1}` : 'input'}.${extensionForMime(input.mimeType)}`;
+    inputFiles.push(path);
+    entries.push({ path, data });
+  }
+  entries.push({ path: 'README.md', data: bundleReadme(creation, scripts.map(script => script.path), inputFiles) });
+
+  downloadBlob(await createZip(entries), `${slugify(creation.name)}.zip`);
+}
+
+// Rendered under the same hardening and permissions as the live preview
+export async function exportScreenshot(creation: Creation, size = { width: 1280, height: 800 }): Promise<void> {
+  const png = await captureScreenshot(creation.html, { ...size, scale: 2, permissions: sandboxPermissions(creation) });
+  downloadBlob(png, `${slugify(creation.name)}.png`);
+}
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// @vitest-environment happy-dom
+import { beforeAll, describe, expect, it } from 'vitest';
+import { bringToLife, configureProvider, GenerationProgress, refineCreation } from './generation';
+import { DEFAULT_PROVIDER_SETTINGS } from './providers';
+
+beforeAll(() => {
+  configureProvider({ ...DEFAULT_PROVIDER_SETTINGS, provider: 'mock', mock: { chunkDelayMs: 0 } });
+});
+
+describe('generation with the mock provider', () => {
+  it('streams a complete, valid app titled after the request', async () => {
+    const progress: GenerationProgress[] = [];
+    const result = await bringToLife('Budget $& $1 tracker', [], 'en', undefined, update => progress.push(update));
+
+    expect(result.html).toMatch(/^<!DOCTYPE html>/);
+    expect(result.html).toContain('<h1>Budget $&amp; $1 tracker</h1>');
+    expect(result.validation.remaining.filter(issue => issue.severity === 'error')).toEqual([]);
+    expect(progress.length).toBeGreaterThan(2);
+    expect(progress[progress.length - 1]).toMatchObject({ complete: true, reachedBody: true, html: result.html });
+  });
+
+  it('applies a refinement to the current document', async () => {
+    const { html } = await bringToLife('Timer', [], 'en');
+    const refined = await refineCreation(html, [], 'Use $& and $1 literally', 'en');
+
+    expect(refined.html).toContain('mock change: Use $&amp; and $1 literally');
+    expect(refined.html.match(/<\/body>/g)).toHaveLength(1);
+    expect(refined.html.replace(/<div data-mock-change[^>]*>.*<\/div>\n/, '')).toBe(html);
+  });
+});
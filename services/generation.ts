@@ -0,0 +1,399 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatTurn } from "../components/CreationHistory";
+import { createProvider, loadProviderSettings, ModelProvider, ProviderChunk, ProviderError, ProviderErrorKind, ProviderMessage, ProviderPart, ProviderRequest, ProviderSettings, toProviderError } from "./providers";
+import { ConsoleEntry } from "./consoleBridge";
+import { detachDatasets } from "./documents";
+import { autoFix, needsRepair, repairPrompt, validateHtml, ValidationIssue, ValidationReport } from "./validation";
+import { Locale, localeInfo } from "./i18n";
+import { DEFAULT_MODE, GenerationMode } from "./modes";
+
+const initialSettings = loadProviderSettings();
+let provider: ModelProvider = createProvider(initialSettings);
+let requestSettings: ProviderSettings['requests'] = initialSettings.requests;
+
+// Swap the backend used by all subsequent generations
+export function configureProvider(settings: ProviderSettings): void {
+  provider = createProvider(settings);
+  requestSettings = settings.requests;
+}
+
+// Shared by every generation mode; the mode's own instructions come first
+const systemInstruction = (mode: GenerationMode): string => `You are an expert AI Engineer and Product Designer specializing in "bringing artifacts to life".
+Your goal is to take a user uploaded file—which might be a polished UI design, a messy napkin sketch, or a text prompt—and instantly generate a fully functional, interactive, single-page HTML/JS/CSS application.
+
+GENERATION MODE: ${mode.name}
+${mode.instructions.trim()}
+
+CORE DIRECTIVES (apply in every mode):
+1. **NO EXTERNAL IMAGES**:
+    - **CRITICAL**: Do NOT use <img src="..."> with external URLs.
+    - **INSTEAD**: Use **CSS shapes**, **inline SVGs**, **Emojis**, or **CSS gradients**.
+
+2. **Make it Interactive**: The output MUST NOT be static. It needs buttons, sliders, drag-and-drop, or dynamic visualizations.
+3. **Self-Contained**: The output must be a single HTML file with embedded CSS (<style>) and JavaScript (<script>). No external dependencies unless absolutely necessary (Tailwind via CDN is allowed).
+4. **Language & Direction**:
+    - The user's current interface language is provided in the prompt.
+    - If the language is right-to-left (**Arabic (ar)**, **Urdu (ur)**, **Persian (fa)**), the generated app MUST use \`dir="rtl"\` on the body or main container and include text in that language where appropriate.
+    - For left-to-right languages (**English (en)**, **French (fr)**, **Spanish (es)**), use standard LTR and write the app's text in that language.
+    - If the user explicitly asks for a specific language in the prompt, prioritize that.
+
+RESPONSE FORMAT:
+Return ONLY the raw HTML code. Do not wrap it in markdown code blocks (\`\`\`html ... \`\`\`). Start immediately with <!DOCTYPE html>.`;
+
+const refineInstruction = (mode: GenerationMode): string => `${systemInstruction(mode)}
+
+REFINEMENT MODE:
+You are now iterating on an app you already generated. Each request contains the CURRENT HTML of the app followed by a CHANGE REQUEST from the user.
+- Apply ONLY the requested change. Preserve existing features, styling, data and behaviour unless the user asks otherwise.
+- Earlier turns in the conversation are previous change requests that are already reflected in the current HTML.
+- Always return the COMPLETE updated HTML document, never a diff or a fragment.`;
+
+// Stored as the model's side of every refine turn and replayed as history, so
+// it must not depend on the UI language; RefinePanel shows it localized
+export const REFINE_REPLY = "Updated the app.";
+
+// Refinements run a little cooler than the mode so untouched parts stay put
+const REFINE_TEMPERATURE_OFFSET = 0.1;
+
+const REPAIR_INSTRUCTION = `You repair single-file HTML/CSS/JS applications that failed automated validation.
+Fix exactly the listed problems and nothing else. Preserve all features, styling, text and behaviour.
+Never use external image URLs.
+Return ONLY the raw, complete HTML document, starting with <!DOCTYPE html> and ending with </html>. No markdown fences, no commentary.`;
+
+// Cleanup if the model still included markdown fences despite instructions
+const stripFences = (text: string): string =>
+  text.replace(/^```html\s*/, '').replace(/^```\s*/, '').replace(/```\s*$/, '');
+
+export interface RetryStatus {
+  attempt: number; // The attempt that will run next, starting from 2
+  maxAttempts: number;
+  reason: ProviderErrorKind; // Why the previous attempt failed
+  resumesAt: number; // Epoch ms when the next attempt starts
+}
+
+export interface GenerationProgress {
+  html: string; // Output received so far, fences stripped
+  chunks: number;
+  bytes: number;
+  tokens?: number; // Output tokens reported by the API, when available
+  startedAt: number;
+  reachedBody: boolean;
+  reachedScript: boolean;
+  complete: boolean;
+  phase: 'generating' | 'repairing';
+  attempt: number;
+  maxAttempts: number;
+  retry?: RetryStatus; // Set while waiting to retry after a transient failure
+}
+
+export type ProgressCallback = (progress: GenerationProgress) => void;
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+const cancelled = () => new ProviderError('cancelled', "Request cancelled");
+
+// Exponential backoff with jitter, unless the server said how long to wait
+const backoffDelay = (attempt: number, error: ProviderError): number =>
+  error.retryAfterMs ?? Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+
+// Resolves after `ms`, or rejects as soon as `signal` aborts
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelled());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * One streaming attempt. The attempt is abandoned when `signal` aborts or no
+ * chunk arrives within the configured timeout, even if the provider ignores
+ * its abort signal.
+ */
+async function streamAttempt(request: ProviderRequest, onChunk: (chunk: ProviderChunk) => void, signal?: AbortSignal): Promise<void> {
+  const controller = new AbortController();
+  const timeoutMs = requestSettings.timeoutSeconds * 1000;
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const stopError = () => timedOut
+    ? new ProviderError('timeout', `No output for ${requestSettings.timeoutSeconds}s`)
+    : cancelled();
+  const armTimeout = () => {
+    clearTimeout(timer);
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    }
+  };
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const stopped = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(stopError()), { once: true });
+  });
+  stopped.catch(() => {}); // Only observed through the race below
+
+  const iterator = provider.stream({ ...request, signal: controller.signal });
+  try {
+    if (signal?.aborted) throw cancelled();
+    armTimeout();
+    while (true) {
+      const next = iterator.next();
+      next.catch(() => {}); // Left pending when the race is lost
+      const { value, done } = await Promise.race([next, stopped]);
+      if (done) break;
+      armTimeout();
+      onChunk(value);
+    }
+  } catch (error) {
+    // The provider may report our own abort as a generic AbortError
+    throw controller.signal.aborted ? stopError() : toProviderError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+    iterator.return(undefined).catch(() => {});
+  }
+}
+
+/**
+ * Runs a streaming request, accumulating chunks and reporting real progress
+ * (bytes, tokens, and which parts of the document have arrived) as it goes.
+ * Transient failures are retried with exponential backoff; each retry starts
+ * the document over.
+ */
+async function streamHtml(request: ProviderRequest, onProgress?: ProgressCallback, phase: GenerationProgress['phase'] = 'generating', signal?: AbortSignal): Promise<string> {
+  const startedAt = Date.now();
+  const encoder = new TextEncoder();
+  const maxAttempts = Math.max(1, requestSettings.maxRetries + 1);
+
+  let raw = "";
+  let chunks = 0;
+  let bytes = 0;
+  let tokens: number | undefined;
+  let attempt = 1;
+  let retry: RetryStatus | undefined;
+
+  const report = (complete: boolean) => {
+    if (!onProgress) return;
+    const html = stripFences(raw);
+    onProgress({
+      html,
+      chunks,
+      bytes,
+      tokens,
+      startedAt,
+      reachedBody: /<body[\s>]/i.test(html),
+      reachedScript: /<script[\s>]/i.test(html),
+      complete,
+      phase,
+      attempt,
+      maxAttempts,
+      retry,
+    });
+  };
+
+  const handleChunk = (chunk: ProviderChunk) => {
+    const text = chunk.text || "";
+    raw += text;
+    chunks++;
+    bytes += encoder.encode(text).length;
+    tokens = chunk.tokens ?? tokens;
+    report(false);
+  };
+
+  for (; ; attempt++) {
+    raw = "";
+    chunks = 0;
+    bytes = 0;
+    tokens = undefined;
+    retry = undefined;
+    report(false);
+
+    try {
+      await streamAttempt(request, handleChunk, signal);
+      break;
+    } catch (error) {
+      const failure = toProviderError(error);
+      if (!failure.retryable || attempt >= maxAttempts || signal?.aborted) throw failure;
+
+      const delayMs = backoffDelay(attempt, failure);
+      console.warn(`${provider.label} attempt ${attempt} failed (${failure.kind}), retrying in ${Math.round(delayMs)}ms`, failure);
+      retry = { attempt: attempt + 1, maxAttempts, reason: failure.kind, resumesAt: Date.now() + delayMs };
+      report(false);
+      await wait(delayMs, signal);
+    }
+  }
+  report(true);
+
+  return stripFences(raw);
+}
+
+export interface GenerationResult {
+  html: string;
+  validation: ValidationReport;
+}
+
+const countErrors = (issues: ValidationIssue[]): number =>
+  issues.filter(issue => issue.severity === 'error').length;
+
+/**
+ * Post-generation stage: fixes what can be fixed locally, then sends one
+ * targeted repair request for structural problems (truncation, unbalanced
+ * tags). The repair is only kept if it leaves fewer errors than before.
+ */
+async function validateAndRepair(html: string, lang: string, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<GenerationResult> {
+  if (!html.trim()) {
+    throw new ProviderError('empty', "The model returned an empty response.");
+  }
+
+  const local = autoFix(html, lang);
+  let current = local.html;
+  let fixed = local.fixed;
+  let remaining = validateHtml(current, lang);
+  let repairAttempted = false;
+
+  if (needsRepair(remaining)) {
+    repairAttempted = true;
+    try {
+      const repaired = await streamHtml({
+        systemInstruction: REPAIR_INSTRUCTION,
+        messages: [{ role: 'user', parts: [{ text: repairPrompt(current, remaining) }] }],
+        temperature: 0.2,
+      }, onProgress, 'repairing', signal);
+
+      const second = autoFix(repaired, lang);
+      const after = validateHtml(second.html, lang);
+      if (countErrors(after) < countErrors(remaining)) {
+        current = second.html;
+        fixed = [...fixed, ...second.fixed];
+        remaining = after;
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn("Repair request failed, keeping the unrepaired output", error);
+    }
+  }
+
+  return { html: current, validation: { fixed, remaining, repairAttempted } };
+}
+
+const languageContext = (lang: Locale): string => {
+  const { englishName, dir } = localeInfo(lang);
+  return `CONTEXT: The user is currently browsing the interface in ${englishName} (${lang}, ${dir.toUpperCase()}). Adapt the generated application accordingly.`;
+};
+
+// Images and PDFs travel as inline data; parsed documents as text
+export type GenerationAttachment =
+  | { data: string; mimeType: string; page?: number } // Base64 without the data URL prefix; `page` marks a rasterised PDF page
+  | { name: string; text: string };
+
+export async function bringToLife(prompt: string, attachments: GenerationAttachment[] = [], lang: Locale = 'en', mode: GenerationMode = DEFAULT_MODE, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<GenerationResult> {
+  const parts: ProviderPart[] = [];
+  
+  // Strong directive for file inputs with emphasis on NO external images
+  let finalPrompt = prompt;
+  // Count the files the user attached; PDF pages belong to the text part announcing their PDF
+  const inputCount = attachments.filter(attachment => !('data' in attachment && attachment.page !== undefined)).length;
+  
+  if (inputCount === 1) {
+      finalPrompt = "Analyze this image/document. Detect what functionality is implied and build a fully interactive web app. IMPORTANT: Do NOT use external image URLs. Recreate the visuals using CSS, SVGs, or Emojis.";
+  } else if (inputCount > 1) {
+      finalPrompt = `Analyze these ${inputCount} images/documents together. They belong to the same idea (for example several screens of one flow, in order). Detect what functionality is implied and build ONE fully interactive web app that covers all of them, including navigation between the screens. IMPORTANT: Do NOT use external image URLs. Recreate the visuals using CSS, SVGs, or Emojis.`;
+  }
+  
+  // If user provided a specific text prompt, append it to give it priority
+  if (prompt && prompt.trim().length > 0) {
+      finalPrompt += `\n\nUSER REQUEST: ${prompt}`;
+  }
+
+  // Append language context
+  finalPrompt += `\n\n${languageContext(lang)}`;
+
+  parts.push({ text: finalPrompt });
+
+  for (const attachment of attachments) {
+    if ('text' in attachment) {
+      parts.push({ text: attachment.text });
+      continue;
+    }
+    parts.push({
+      inlineData: {
+        data: attachment.data,
+        mimeType: attachment.mimeType,
+      },
+    });
+  }
+
+  try {
+    const html = await streamHtml({
+      systemInstruction: systemInstruction(mode),
+      messages: [{ role: 'user', parts }],
+      temperature: mode.temperature,
+    }, onProgress, 'generating', signal);
+
+    return await validateAndRepair(html, lang, onProgress, signal);
+  } catch (error) {
+    console.error(`${provider.label} Generation Error:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Applies a follow-up change request to an existing creation.
+ * Prior turns are replayed as chat history so the model keeps the context of
+ * earlier requests; the current HTML always travels with the newest turn.
+ */
+export async function refineCreation(html: string, conversation: ChatTurn[], instruction: string, lang: Locale = 'en', mode: GenerationMode = DEFAULT_MODE, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<GenerationResult> {
+  // Embedded datasets stay out of the request and are put back afterwards
+  const { html: current, restore } = detachDatasets(html);
+  const messages: ProviderMessage[] = conversation.map(turn => ({
+    role: turn.role,
+    parts: [{ text: turn.text }],
+  }));
+
+  messages.push({
+    role: 'user',
+    parts: [{
+      text: `CURRENT HTML:\n${current}\n\nCHANGE REQUEST: ${instruction}\n\n${languageContext(lang)}`,
+    }],
+  });
+
+  try {
+    const refined = await streamHtml({
+      systemInstruction: refineInstruction(mode),
+      messages,
+      temperature: Math.max(0, mode.temperature - REFINE_TEMPERATURE_OFFSET),
+    }, onProgress, 'generating', signal);
+
+    const result = await validateAndRepair(refined, lang, onProgress, signal);
+    return { ...result, html: restore(result.html) };
+  } catch (error) {
+    console.error(`${provider.label} Refinement Error:`, error);
+    throw error;
+  }
+}
+
+const MAX_REPORTED_ERRORS = 10;
+
+/** Change request asking the model to fix errors captured from the running preview. */
+export function fixErrorsInstruction(errors: ConsoleEntry[]): string {
+  const unique = Array.from(new Set(errors.map(entry => entry.stack && !entry.stack.includes(entry.message) ? `${entry.message}\n${entry.stack}` : entry.stack || entry.message)));
+  const list = unique
+    .slice(0, MAX_REPORTED_ERRORS)
+    .map((text, idx) => `${idx + 1}. ${text.slice(0, 500)}`)
+    .join('\n');
+  return `Fix these runtime errors reported by the running app without changing anything else:\n${list}`;
+}
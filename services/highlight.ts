@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Minimal syntax highlighter for generated single-file apps: HTML markup with
+// embedded <style> and <script> blocks. Returns escaped HTML with token spans.
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const span = (className: string, text: string): string =>
+  `<span class="${className}">${escapeHtml(text)}</span>`;
+
+const JS_KEYWORDS = 'await|break|case|catch|class|const|continue|default|delete|do|else|export|extends|finally|for|function|if|import|in|instanceof|let|new|of|return|static|super|switch|this|throw|try|typeof|var|void|while|yield|async|true|false|null|undefined';
+
+const JS_TOKENS = new RegExp([
+  '(\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/)', // comments
+  '(`(?:\\\\[\\s\\S]|[^`\\\\])*`|"(?:\\\\.|[^"\\\\\\n])*"|\'(?:\\\\.|[^\'\\\\\\n])*\')', // strings
+  `\\b(${JS_KEYWORDS})\\b`,
+  '(\\b\\d+(?:\\.\\d+)?\\b)', // numbers
+].join('|'), 'g');
+
+const CSS_TOKENS = /(\/\*[\s\S]*?\*\/)|("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*')|([a-z-]+)(?=\s*:[^{};]*;)|(#[0-9a-f]{3,8}\b|\b\d+(?:\.\d+)?(?:px|rem|em|%|vh|vw|s|ms|deg)?\b)/gi;
+
+const highlightWith = (code: string, pattern: RegExp, classes: string[]): string => {
+  let out = '';
+  let last = 0;
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(code); match; match = pattern.exec(code)) {
+    out += escapeHtml(code.slice(last, match.index));
+    const group = match.slice(1).findIndex(g => g !== undefined);
+    out += group >= 0 ? span(classes[group], match[0]) : escapeHtml(match[0]);
+    last = match.index + match[0].length;
+  }
+  return out + escapeHtml(code.slice(last));
+};
+
+const highlightTag = (tag: string): string => {
+  const match = tag.match(/^(<\/?)([\w:-]*)([\s\S]*?)(\/?>)?$/);
+  if (!match) return escapeHtml(tag);
+  const [, open, name, attrs, close = ''] = match;
+  const attrHtml = attrs.replace(/[^=\s]+|=|"[^"]*"|'[^']*'|\s+/g, part => {
+    if (/^\s+$/.test(part) || part === '=') return escapeHtml(part);
+    if (/^["']/.test(part)) return span('hl-string', part);
+    return span('hl-attr', part);
+  });
+  return span('hl-punct', open) + span('hl-tag', name) + attrHtml + span('hl-punct', close);
+};
+
+const MARKUP = /(<!--[\s\S]*?-->)|(<!DOCTYPE[^>]*>)|(<script\b[^>]*>)([\s\S]*?)(?=<\/script>|$)|(<style\b[^>]*>)([\s\S]*?)(?=<\/style>|$)|(<\/?[\w:-]+(?:"[^"]*"|'[^']*'|[^'">])*>?)/gi;
+
+export function highlightHtml(code: string): string {
+  let out = '';
+  let last = 0;
+  MARKUP.lastIndex = 0;
+  for (let m = MARKUP.exec(code); m; m = MARKUP.exec(code)) {
+    if (m[0] === '') {
+      MARKUP.lastIndex++;
+      continue;
+    }
+    out += escapeHtml(code.slice(last, m.index));
+    if (m[1] || m[2]) {
+      out += span('hl-comment', m[0]);
+    } else if (m[3] !== undefined) {
+      out += highlightTag(m[3]) + highlightWith(m[4], JS_TOKENS, ['hl-comment', 'hl-string', 'hl-keyword', 'hl-number']);
+    } else if (m[5] !== undefined) {
+      out += highlightTag(m[5]) + highlightWith(m[6], CSS_TOKENS, ['hl-comment', 'hl-string', 'hl-attr', 'hl-number']);
+    } else {
+      out += highlightTag(m[0]);
+    }
+    last = m.index + m[0].length;
+  }
+  return out + escapeHtml(code.slice(last));
+}
@@ -0,0 +1,409 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from "./types";
+
+export const ar: Messages = {
+  'common.cancel': "إلغاء",
+  'common.save': "حفظ",
+  'common.apply': "تطبيق",
+  'common.close': "إغلاق",
+
+  'app.modelProvider': "مزود النموذج",
+  'app.language': "اللغة",
+  'app.lightMode': "الوضع النهاري",
+  'app.darkMode': "الوضع الليلي",
+  'app.importArtifact': "استيراد ملف",
+  'app.uploadPreviousArtifact': "رفع ملف سابق",
+  'app.newCreation': "مشروع جديد",
+  'app.manualEdit': "تعديل يدوي",
+  'app.refineDone': "تم تحديث التطبيق.",
+  'app.saveFailed': "تعذر حفظ المشروع في الأرشيف. قد تكون مساحة التخزين ممتلئة.",
+  'app.readFileFailed': "تعذرت قراءة الملف {name}.",
+  'app.generateFailed': "حدث خطأ ما أثناء توليد التطبيق. يرجى المحاولة مرة أخرى.",
+  'app.refineFailed': "تعذر تطبيق التعديل. يرجى المحاولة مرة أخرى.",
+  'app.creationNotFound': "لم يتم العثور على هذا المشروع.",
+  'app.importFailed': "فشل استيراد الملف.",
+
+  'hero.labelPatent': "براءة اختراع",
+  'hero.labelGame': "لعبة",
+  'hero.labelData': "بيانات",
+  'hero.labelApp': "تطبيق",
+  'hero.titleStart': "اعمل الي في خيالك",
+  'hero.titleMiddle': "",
+  'hero.titleHighlight': "باي ملف",
+  'hero.titleEnd': ".",
+  'hero.subtitle': "جيمناي يرى الكود في كل شيء. ضع خريطة قديمة، مخطط طابق، رسم بياني، أو خربشة، وشاهدها تتحول إلى تجربة تفاعلية تعمل فوراً.",
+
+  'input.cycle1': "رسمة على منديل",
+  'input.cycle2': "سبورة فوضوية",
+  'input.cycle3': "ماسح شبكات",
+  'input.cycle4': "تصميم مرحلة لعبة",
+  'input.cycle5': "واجهة خيال علمي",
+  'input.cycle6': "مخطط آلة",
+  'input.cycle7': "مخطوطة قديمة",
+  'input.bring': "حول",
+  'input.toLife': "إلى واقع",
+  'input.dragDrop': "سحب وإفلات",
+  'input.tap': "اضغط",
+  'input.attachHint': "لإرفاق صور أو PDF أو ملفات بيانات ومستندات",
+  'input.placeholder': "أو صف فكرتك (مثال: 'لوحة تحكم لفحص الشبكات اللاسلكية المخفية')...",
+  'input.placeholderWithFiles': "تعليمات إضافية اختيارية (مثال: 'بنمط لوحة كانبان')...",
+  'input.unsupported': "الصيغ المدعومة: الصور وPDF وCSV وTSV وJSON وMarkdown والنصوص وDOCX.",
+  'input.tooMany': "يمكن إرفاق {max} ملفات كحد أقصى.",
+  'input.remove': "إزالة",
+  'input.choosePages': "اختيار الصفحات",
+  'input.allPages': "كل الصفحات",
+  'input.editSketch': "تعديل الرسمة",
+  'input.drawSketch': "ارسم فكرتك",
+  'input.sketchFailed': "تعذر حفظ الرسمة.",
+
+  'picker.title': "اختيار الصفحات",
+  'picker.hint': "سيتم إرسال الصفحات المختارة فقط إلى النموذج. انقر على الصور المصغرة أو اكتب نطاقات مثل 3-5, 8.",
+  'picker.openFailed': "تعذر فتح ملف PDF.",
+  'picker.count': "{selected} من {total} صفحة",
+
+  'sketch.pen': "قلم",
+  'sketch.eraser': "ممحاة",
+  'sketch.line': "خط",
+  'sketch.arrow': "سهم",
+  'sketch.rect': "مستطيل",
+  'sketch.ellipse': "شكل بيضاوي",
+  'sketch.text': "نص",
+  'sketch.labelPrompt': "نص التسمية:",
+  'sketch.undo': "تراجع",
+  'sketch.redo': "إعادة",
+  'sketch.clear': "مسح الكل",
+  'sketch.attach': "إرفاق الرسمة",
+
+  'history.title': "الأرشيف",
+  'history.storageUsed': "مساحة التخزين المستخدمة",
+  'history.restore': "استعادة",
+  'history.viewAll': "عرض الكل ({count})",
+
+  'preview.close': "إغلاق المعاينة",
+  'preview.processing': "جارٍ المعالجة...",
+  'preview.mode': "وضع المعاينة",
+  'preview.tabPreview': "معاينة",
+  'preview.tabCode': "الكود",
+  'preview.saveTitle': "حفظ كنسخة جديدة (Ctrl+S)",
+  'preview.discard': "تجاهل",
+  'preview.discardTitle': "تجاهل التعديلات",
+  'preview.confirmDiscard': "هل تريد تجاهل تعديلات الكود غير المحفوظة؟",
+  'preview.appOnly': "عرض التطبيق فقط",
+  'preview.compareOriginal': "مقارنة مع الأصل",
+  'preview.hideRefine': "إخفاء لوحة التحسين",
+  'preview.showRefine': "تحسين بطلبات متابعة",
+  'preview.package': "تحزيم كتطبيق قابل للتثبيت",
+  'preview.newUpload': "رفع جديد",
+  'preview.new': "جديد",
+  'preview.inputSource': "المصدر",
+  'preview.editSketch': "تعديل الرسمة",
+  'preview.editSketchTitle': "فتح هذه الرسمة في لوحة الرسم",
+  'preview.received': "تم استلام {size}",
+  'preview.frameTitle': "معاينة مباشرة للتطبيق المُنشأ",
+
+  'monitor.title': "جارٍ بناء البيئة",
+  'monitor.repairing': "جارٍ إصلاح أخطاء التحقق...",
+  'monitor.streaming': "جارٍ بث الكود المولَّد...",
+  'monitor.waiting': "في انتظار أول الرموز...",
+  'monitor.elapsed': "المدة",
+  'monitor.received': "المستلم",
+  'monitor.tokens': "الرموز",
+  'monitor.chunks': "{count} جزء",
+  'monitor.requestSent': "تم إرسال الطلب",
+  'monitor.receiving': "استلام المخرجات",
+  'monitor.head': "الترويسة والأنماط",
+  'monitor.body': "الوصول إلى <body>",
+  'monitor.script': "الوصول إلى <script>",
+  'monitor.closed': "اكتمل المستند",
+  'monitor.partialRender': "عرض جزئي",
+  'monitor.liveSource': "المصدر المباشر",
+  'monitor.cancel': "إلغاء",
+  'monitor.retrying': "{reason}. إعادة المحاولة خلال {seconds} ث (المحاولة {attempt} من {max})",
+  'monitor.attempt': "المحاولة {attempt} من {max}",
+  'monitor.reasonTimeout': "انتهت المهلة",
+  'monitor.reasonQuota': "تم تقييد المعدل",
+  'monitor.reasonNetwork': "خطأ في الشبكة",
+  'monitor.reasonServer': "خطأ في الخادم",
+  'monitor.frameTitle': "معاينة جزئية",
+
+  'refine.title': "تحسين",
+  'refine.close': "إغلاق لوحة التحسين",
+  'refine.intro': "صف التغيير المطلوب وسيتم تحديث المعاينة مباشرة.",
+  'refine.suggestion1': "أضف زر إعادة ضبط",
+  'refine.suggestion2': "بدّل إلى سمة فاتحة",
+  'refine.suggestion3': "اجعله مناسباً للجوال",
+  'refine.applying': "جارٍ تطبيق التغييرات...",
+  'refine.placeholder': "مثال: اجعل المخطط مخططاً عمودياً",
+
+  'console.title': "وحدة التحكم",
+  'console.fixTitle': "إرسال الأخطاء الملتقطة إلى النموذج",
+  'console.fix': "إصلاح هذه الأخطاء",
+  'console.fixing': "جارٍ الإصلاح...",
+  'console.clear': "مسح وحدة التحكم",
+  'console.empty': "لا توجد مخرجات بعد.",
+
+  'export.title': "تصدير",
+  'export.failed': "فشل التصدير: {message}",
+  'export.html': "ملف HTML مستقل",
+  'export.htmlHint': "ملف واحد، انقر نقراً مزدوجاً لفتحه",
+  'export.zip': "حزمة Zip",
+  'export.zipHint': "index.html و styles.css و app.js والمدخلات و README",
+  'export.png': "لقطة شاشة PNG",
+  'export.pngHint': "بدقة 1280×800، مضاعفة",
+  'export.json': "ملف المشروع (JSON)",
+  'export.jsonHint': "لإعادة استيراده في هذا التطبيق",
+
+  'sandbox.title': "صلاحيات البيئة المعزولة",
+  'sandbox.heading': "البيئة المعزولة",
+  'sandbox.description': "يعمل في أصل معزول دون وصول إلى تخزين هذا التطبيق. يبقى تخزينه الخاص حتى إعادة تحميل المعاينة.",
+  'sandbox.network': "الشبكة",
+  'sandbox.networkHint': "fetch و XHR و WebSockets والموارد من أي خادم",
+  'sandbox.popups': "النوافذ المنبثقة",
+  'sandbox.popupsHint': "window.open والروابط التي تفتح علامات تبويب جديدة",
+  'sandbox.modals': "مربعات الحوار",
+  'sandbox.modalsHint': "alert و confirm و prompt",
+  'sandbox.cdnNote': "لا تزال السكربتات والأنماط والخطوط تُحمَّل من {hosts}.",
+
+  'validation.title': "التحقق من المخرجات",
+  'validation.repairRequested': "تم طلب الإصلاح",
+  'validation.remaining': "المتبقي",
+  'validation.fixed': "أُصلح تلقائياً",
+
+  'revisions.previous': "النسخة السابقة",
+  'revisions.tree': "شجرة النسخ",
+  'revisions.next': "النسخة التالية",
+  'revisions.nextBranches': "النسخة التالية ({count} فروع)",
+  'revisions.compare': "مقارنة النسخ...",
+  'revisions.branchNote': "تحسين نسخة أقدم أو تعديلها يبدأ فرعاً جديداً منها.",
+  'revisions.sourceGenerate': "توليد",
+  'revisions.sourceRefine': "تحسين",
+  'revisions.sourceEdit': "تعديل",
+  'diff.title': "مقارنة النسخ",
+  'diff.changesOnly': "التغييرات فقط",
+  'diff.identical': "هاتان النسختان متطابقتان.",
+  'diff.unchangedOne': "{count} سطر دون تغيير",
+  'diff.unchanged': "{count} سطر دون تغيير",
+
+  'package.title': "تحزيم كتطبيق",
+  'package.description': "ينشئ تطبيق PWA قابلاً للتثبيت مع ملف manifest وأيقونات مولَّدة وعامل خدمة يعمل دون اتصال.",
+  'package.iconAlt': "أيقونة التطبيق",
+  'package.appName': "اسم التطبيق",
+  'package.shortName': "الاسم المختصر",
+  'package.themeColor': "لون السمة",
+  'package.includeCapacitor': "تضمين مشروع Capacitor",
+  'package.capacitorHint': "يضيف مشروعاً يمكنك بناؤه كملف APK باستخدام Android Studio.",
+  'package.appId': "معرّف التطبيق",
+  'package.appIdHint': "نطاق معكوس، مثل com.example.myapp",
+  'package.packaging': "جارٍ التحزيم...",
+  'package.download': "تنزيل الحزمة",
+  'package.failed': "فشل التحزيم: {message}",
+
+  'pdf.previous': "الصفحة السابقة",
+  'pdf.next': "الصفحة التالية",
+  'pdf.zoomIn': "تكبير",
+  'pdf.zoomOut': "تصغير",
+  'pdf.fit': "ملاءمة للوحة",
+  'pdf.page': "صفحة {page}",
+  'pdf.failed': "تعذر عرض معاينة PDF.",
+  'pdf.notInitialized': "مكتبة PDF غير مهيأة",
+  'document.failed': "تعذرت قراءة هذا المستند.",
+  'document.summary': "{rows} صف × {columns} عمود",
+  'document.truncated': "عرض أول {count}",
+
+  'provider.model': "النموذج",
+  'provider.baseUrl': "عنوان الخادم",
+  'provider.apiKey': "مفتاح API (اختياري)",
+  'provider.chunkDelay': "تأخير كل جزء (مللي ثانية)",
+  'provider.geminiDescription': "Google Gemini عبر GenAI SDK.",
+  'provider.httpDescription': "أي نقطة /chat/completions: ‏Ollama و LM Studio و vLLM و OpenAI.",
+  'provider.mockDescription': "تطبيقات ثابتة محددة مسبقاً. دون شبكة، للعروض والاختبارات.",
+  'provider.timeout': "المهلة (بالثواني)",
+  'provider.maxRetries': "إعادة المحاولات",
+  'provider.requestsHint': "يتم التخلي عن الطلب بعد هذا العدد من الثواني دون مخرجات (0 يعطل المهلة). يُعاد تلقائيًا الطلب عند تقييد المعدل وأخطاء الخادم والشبكة مع تأخير متزايد.",
+
+  'modes.label': "وضع التوليد",
+  'modes.manage': "إدارة الأوضاع…",
+  'modes.auto': "تلقائي",
+  'modes.autoDescription': "يقرر ما يجب بناؤه من المدخلات.",
+  'modes.game': "لعبة",
+  'modes.gameDescription': "ألعاب قابلة للعب مع حلقة لعب ونقاط وإعادة تشغيل.",
+  'modes.dashboard': "لوحة معلومات",
+  'modes.dashboardDescription': "لوحات بيانات مع مؤشرات ورسوم بيانية وفلاتر.",
+  'modes.crud': "نموذج / أداة إدارة بيانات",
+  'modes.crudDescription': "نماذج ومديرو سجلات تحفظ البيانات.",
+  'modes.landing': "صفحة هبوط",
+  'modes.landingDescription': "صفحات تسويقية مع واجهة رئيسية وميزات ودعوة لاتخاذ إجراء.",
+  'modes.simulation': "محاكاة",
+  'modes.simulationDescription': "محاكاة مقنعة لأدوات لا يستطيع المتصفح تشغيلها.",
+  'modes.educational': "أداة تعليمية",
+  'modes.educationalDescription': "شروحات تفاعلية واختبارات قصيرة.",
+  'modes.editorTitle': "أوضاع التوليد",
+  'modes.builtIn': "مدمج",
+  'modes.version': "الإصدار {version}",
+  'modes.new': "وضع جديد",
+  'modes.untitled': "وضع بلا عنوان",
+  'modes.duplicate': "تكرار",
+  'modes.copyName': "{name} (نسخة)",
+  'modes.export': "تصدير",
+  'modes.exportAll': "تصدير الكل",
+  'modes.import': "استيراد",
+  'modes.importDone': "تم استيراد {added} وضع جديد وتحديث {updated}. تم تخطي {skipped} محدثة بالفعل.",
+  'modes.importFailed': "هذا الملف لا يحتوي على أوضاع توليد صالحة.",
+  'modes.delete': "حذف",
+  'modes.deleteConfirm': "حذف الوضع \"{name}\"؟",
+  'modes.discardConfirm': "تجاهل التغييرات غير المحفوظة على هذا الوضع؟",
+  'modes.readOnly': "الأوضاع المدمجة للقراءة فقط. كرر أحدها لتخصيصه.",
+  'modes.name': "الاسم",
+  'modes.description': "الوصف",
+  'modes.temperature': "درجة الحرارة",
+  'modes.temperatureHint': "القيم المنخفضة أكثر قابلية للتوقع، والمرتفعة أكثر ابتكارًا.",
+  'modes.instructions': "تعليمات النظام",
+
+  'error.timeout': "توقف النموذج عن الاستجابة وانتهت مهلة الطلب. حاول مرة أخرى أو زد المهلة في إعدادات مزود النموذج.",
+  'error.quota': "تم تجاوز الحصة. يقوم مزود النموذج بتقييد معدل استخدام مفتاح API هذا. انتظر قليلًا ثم حاول مرة أخرى.",
+  'error.safety': "تم حظر الطلب بواسطة فلاتر الأمان الخاصة بالنموذج. حاول إعادة صياغة الطلب أو استخدام مدخلات مختلفة.",
+  'error.auth': "مفتاح API مفقود أو مرفوض. تحقق من إعدادات مزود النموذج.",
+  'error.network': "تعذر الوصول إلى مزود النموذج. تحقق من اتصالك وحاول مرة أخرى.",
+  'error.server': "أعاد مزود النموذج خطأ في الخادم. يرجى المحاولة لاحقًا.",
+  'error.invalidRequest': "رفض مزود النموذج الطلب. قد تكون المدخلات كبيرة جدًا أو غير مدعومة من هذا النموذج.",
+  'error.empty': "أعاد النموذج استجابة فارغة. يرجى المحاولة مرة أخرى.",
+
+  'variants.title': "المتغيرات",
+  'variants.single': "توليد تطبيق واحد. اختر من 2 إلى 4 لمقارنة المتغيرات جنبًا إلى جنب.",
+  'variants.hint': "يعمل كل متغير بالتوازي بوضعه ودرجة حرارته الخاصة.",
+  'variants.heading': "المتغيرات ({count})",
+  'variants.name': "{name} #{index}",
+  'variants.select': "تحديد",
+  'variants.selected': "محدد",
+  'variants.open': "الاحتفاظ بهذا فقط وفتحه",
+  'variants.cancelled': "أُلغي",
+  'variants.failed': "فشل هذا المتغير. لم تتأثر المتغيرات الأخرى.",
+  'variants.generating': "جارٍ توليد المتغيرات…",
+  'variants.selectedCount': "{count} محدد",
+  'variants.discard': "تجاهل الكل",
+  'variants.confirmDiscard': "تجاهل كل المتغيرات التي لم يتم الاحتفاظ بها؟",
+  'variants.keep': "الاحتفاظ بالمحدد",
+  'variants.frameTitle': "المتغير {index}",
+  'variants.framePartialTitle': "المتغير {index} (قيد التحميل)",
+
+  'archive.search': "ابحث في الأسماء والأوصاف والوسوم…",
+  'archive.kind': "نوع المدخلات",
+  'archive.kindAny': "كل المدخلات",
+  'archive.kindImage': "صورة",
+  'archive.kindPdf': "PDF",
+  'archive.kindDocument': "مستند",
+  'archive.kindText': "نص فقط",
+  'archive.date': "التاريخ",
+  'archive.dateAny': "أي وقت",
+  'archive.dateToday': "اليوم",
+  'archive.dateWeek': "آخر 7 أيام",
+  'archive.dateMonth': "آخر 30 يومًا",
+  'archive.sort': "الترتيب",
+  'archive.sortNewest': "الأحدث أولًا",
+  'archive.sortOldest': "الأقدم أولًا",
+  'archive.sortNameAsc': "الاسم أ–ي",
+  'archive.sortNameDesc': "الاسم ي–أ",
+  'archive.pinnedOnly': "المثبتة",
+  'archive.pin': "تثبيت",
+  'archive.unpin': "إلغاء التثبيت",
+  'archive.rename': "إعادة التسمية",
+  'archive.delete': "حذف",
+  'archive.open': "فتح",
+  'archive.addTag': "وسم",
+  'archive.removeTag': "إزالة الوسم {tag}",
+  'archive.tagPlaceholder': "وسم جديد",
+  'archive.empty': "لا يوجد شيء في الأرشيف بعد.",
+  'archive.noMatches': "لا توجد إبداعات تطابق هذه المرشحات.",
+  'archive.clearFilters': "مسح المرشحات",
+  'archive.showing': "عرض {count} من {total}",
+  'archive.deleted': "تم حذف \"{name}\"",
+  'archive.undo': "تراجع",
+  'archive.deleteFailed': "تعذّر حذف الإبداع.",
+  'archive.select': "تحديد",
+
+  'backup.import': "استيراد",
+  'backup.importing': "جارٍ الاستيراد…",
+  'backup.importTitle': "استيراد إبداعات",
+  'backup.doneTitle': "اكتمل الاستيراد",
+  'backup.found': "تم العثور على {count} إبداع في {file}",
+  'backup.version': "إصدار مخطط الأرشيف {version}",
+  'backup.migrated': "إصدار مخطط أقدم {from}، تمت ترقيته إلى {to}",
+  'backup.collisions': "{count} موجودة بالفعل في أرشيفك. ماذا تريد أن تفعل بها؟",
+  'backup.policySkip': "تخطٍّ",
+  'backup.policySkipHint': "الإبقاء على النسخ الموجودة في أرشيفك.",
+  'backup.policyOverwrite': "استبدال",
+  'backup.policyOverwriteHint': "استبدالها بالنسخ المستوردة.",
+  'backup.policyDuplicate': "الاحتفاظ بالاثنين",
+  'backup.policyDuplicateHint': "استيرادها كإبداعات جديدة بجانب الموجودة.",
+  'backup.rejected': "مرفوضة ({count})",
+  'backup.rejectNotObject': "ليس سجل إبداع",
+  'backup.rejectMissing': "الحقل {field} مفقود",
+  'backup.rejectInvalid': "قيمة غير صالحة في {field}",
+  'backup.rejectSaveFailed': "تعذّر الحفظ",
+  'backup.imported': "تم استيراد {count} إبداع",
+  'backup.added': "مضافة",
+  'backup.overwritten': "مستبدلة",
+  'backup.duplicated': "مضافة كنسخ",
+  'backup.skipped': "متخطاة",
+  'backup.exportAll': "تصدير الكل",
+  'backup.exportSelected': "تصدير {count} محددة",
+  'backup.exportFailed': "تعذّر تصدير الأرشيف.",
+  'backup.errorInvalidJson': "هذا الملف ليس JSON صالحًا.",
+  'backup.errorUnrecognized': "هذا الملف ليس أرشيف إبداعات ولا ملفًا لإبداع.",
+  'backup.errorNewerVersion': "أُنشئ هذا الأرشيف بإصدار أحدث من التطبيق. حدّث التطبيق لاستيراده.",
+
+  'share.title': "نسخ رابط المشاركة",
+  'share.creating': "جارٍ إنشاء الرابط…",
+  'share.copied': "تم نسخ الرابط",
+  'share.copyManually': "انسخ هذا الرابط",
+  'share.copy': "نسخ",
+  'share.hint': "يمكن لأي شخص لديه الرابط فتح التطبيق. لا يتم رفع أي شيء؛ التطبيق محفوظ داخل الرابط.",
+  'share.risky': "هذا الرابط طويل. بعض تطبيقات الدردشة والبريد تقطع الروابط الطويلة؛ إن لم يفتح فأرسل الملف المُصدَّر بدلًا منه.",
+  'share.tooLong': "هذا التطبيق أكبر من أن يُوضع في رابط ({size}). صدّره كملف بدلًا من ذلك.",
+  'share.failed': "تعذّر إنشاء رابط المشاركة.",
+  'share.invalid': "رابط المشاركة تالف أو غير مكتمل. اطلب الرابط مرة أخرى.",
+  'share.readOnly': "مُشارَك · للقراءة فقط",
+  'share.addToArchive': "إضافة إلى أرشيفي",
+
+  'examples.title': "أمثلة",
+  'examples.all': "الكل",
+  'examples.categoryGames': "ألعاب",
+  'examples.categoryTools': "أدوات",
+  'examples.categoryDashboards': "لوحات معلومات",
+  'examples.categoryLearning': "تعليم",
+  'examples.categoryOther': "أخرى",
+  'examples.tryThis': "جرّب هذا",
+  'examples.remix': "إعادة مزج",
+  'examples.remixHint': "افتح نسختك الخاصة لتحسينها أو تعديلها",
+  'examples.remixName': "{name} (إعادة مزج)",
+  'examples.inArchive': "في الأرشيف",
+  'examples.addAll': "إضافة {count} إلى الأرشيف",
+  'examples.added': "تمت إضافة {count} من الأمثلة إلى أرشيفك",
+  'examples.allAdded': "كل الأمثلة موجودة في أرشيفك",
+  'examples.packs': "حزم الأمثلة",
+  'examples.editPacks': "تعديل",
+  'examples.packsHint': "رابط واحد في كل سطر. الحزم ملفات JSON بالتنسيق \"example-pack\". الأمثلة المضمّنة متاحة دائمًا، حتى دون اتصال.",
+  'examples.noPacks': "لا توجد حزم بعيدة. تُعرض الأمثلة المضمّنة فقط.",
+  'examples.loadingPack': "جارٍ التحميل…",
+  'examples.packLoaded': "{count} من الأمثلة",
+  'examples.packUnreachable': "يتعذّر الوصول",
+  'examples.packTimeout': "انتهت المهلة",
+  'examples.packInvalid': "ليست حزمة أمثلة",
+
+  'viewport.label': "منفذ العرض",
+  'viewport.fill': "ملء",
+  'viewport.phone': "هاتف",
+  'viewport.tablet': "جهاز لوحي",
+  'viewport.laptop': "حاسوب محمول",
+  'viewport.desktop': "حاسوب مكتبي",
+  'viewport.custom': "مخصّص",
+  'viewport.width': "العرض (بكسل)",
+  'viewport.height': "الارتفاع (بكسل)",
+  'viewport.rotate': "تدوير",
+  'viewport.fit': "تكبير/تصغير للملاءمة",
+  'viewport.bezel': "إطار الجهاز",
+  'viewport.size': "{width} × {height} · {percent}%",
+};
@@ -0,0 +1,428 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Source catalog: its keys define MessageKey, and every other locale must
+// translate all of them. Placeholders are written as {name}.
+export const en = {
+  // Shared
+  'common.cancel': "Cancel",
+  'common.save': "Save",
+  'common.apply': "Apply",
+  'common.close': "Close",
+
+  // App shell
+  'app.modelProvider': "Model Provider",
+  'app.language': "Language",
+  'app.lightMode': "Light Mode",
+  'app.darkMode': "Dark Mode",
+  'app.importArtifact': "Import Artifact",
+  'app.uploadPreviousArtifact': "Upload previous artifact",
+  'app.newCreation': "New Creation",
+  'app.manualEdit': "Manual edit",
+  'app.refineDone': "Updated the app.",
+  'app.saveFailed': "Could not save this creation to the archive. Browser storage may be full.",
+  'app.readFileFailed': "Could not read {name}. Please check the file and try again.",
+  'app.generateFailed': "Something went wrong while bringing your idea to life. Please try again.",
+  'app.refineFailed': "Could not apply that change. Please try again.",
+  'app.creationNotFound': "This creation could not be found in the archive.",
+  'app.importFailed': "Failed to import creation.",
+
+  // Hero
+  'hero.labelPatent': "PATENT",
+  'hero.labelGame': "GAME",
+  'hero.labelData': "DATA",
+  'hero.labelApp': "APP",
+  'hero.titleStart': "Bring anything",
+  'hero.titleMiddle': "to ",
+  'hero.titleHighlight': "life",
+  'hero.titleEnd': ".",
+  'hero.subtitle': "Gemini sees the code in everything. Drop in an old map, a floor plan, a diagram, or a doodle, and watch it turn into a working interactive experience instantly.",
+
+  // Input area
+  'input.cycle1': "a napkin sketch",
+  'input.cycle2': "a chaotic whiteboard",
+  'input.cycle3': "a network scanner",
+  'input.cycle4': "a game level design",
+  'input.cycle5': "a sci-fi interface",
+  'input.cycle6': "a diagram of a machine",
+  'input.cycle7': "an ancient scroll",
+  'input.bring': "Bring",
+  'input.toLife': "to life",
+  'input.dragDrop': "Drag & Drop",
+  'input.tap': "Tap",
+  'input.attachHint': "to attach images, PDFs, data or documents",
+  'input.placeholder': "Or describe an idea (e.g. 'A Wi-Fi scanner dashboard that finds hidden networks')...",
+  'input.placeholderWithFiles': "Optional instructions for these files (e.g. 'build it in a kanban style')...",
+  'input.unsupported': "Supported files: images, PDF, CSV, TSV, JSON, Markdown, plain text and DOCX.",
+  'input.tooMany': "You can attach up to {max} files.",
+  'input.remove': "Remove",
+  'input.choosePages': "Choose pages",
+  'input.allPages': "All pages",
+  'input.editSketch': "Edit sketch",
+  'input.drawSketch': "Draw a sketch",
+  'input.sketchFailed': "Could not export the sketch.",
+
+  // PDF page picker
+  'picker.title': "Choose Pages",
+  'picker.hint': "Only the selected pages are sent to the model. Click thumbnails or type ranges such as 3-5, 8.",
+  'picker.openFailed': "Could not open this PDF.",
+  'picker.count': "{selected} of {total} pages",
+
+  // Sketch pad
+  'sketch.pen': "Pen",
+  'sketch.eraser': "Eraser",
+  'sketch.line': "Line",
+  'sketch.arrow': "Arrow",
+  'sketch.rect': "Rectangle",
+  'sketch.ellipse': "Ellipse",
+  'sketch.text': "Text Label",
+  'sketch.labelPrompt': "Label text:",
+  'sketch.undo': "Undo",
+  'sketch.redo': "Redo",
+  'sketch.clear': "Clear",
+  'sketch.attach': "Attach Sketch",
+
+  // Archive
+  'history.title': "Archive",
+  'history.storageUsed': "Browser storage used",
+  'history.restore': "Restore",
+  'history.viewAll': "View all ({count})",
+
+  // Live preview
+  'preview.close': "Close Preview",
+  'preview.processing': "System Processing...",
+  'preview.mode': "Preview Mode",
+  'preview.tabPreview': "Preview",
+  'preview.tabCode': "Code",
+  'preview.saveTitle': "Save as New Revision (Ctrl+S)",
+  'preview.discard': "Discard",
+  'preview.discardTitle': "Discard Edits",
+  'preview.confirmDiscard': "Discard your unsaved code edits?",
+  'preview.appOnly': "Show App Only",
+  'preview.compareOriginal': "Compare with Original",
+  'preview.hideRefine': "Hide Refine Panel",
+  'preview.showRefine': "Refine with Follow-ups",
+  'preview.package': "Package as Installable App",
+  'preview.newUpload': "New Upload",
+  'preview.new': "New",
+  'preview.inputSource': "Input Source",
+  'preview.editSketch': "Edit Sketch",
+  'preview.editSketchTitle': "Open this sketch on the sketch pad",
+  'preview.received': "{size} received",
+  'preview.frameTitle': "Live preview of the generated app",
+
+  // Generation monitor
+  'monitor.title': "Constructing Environment",
+  'monitor.repairing': "Repairing validation errors...",
+  'monitor.streaming': "Streaming generated code...",
+  'monitor.waiting': "Waiting for the first tokens...",
+  'monitor.elapsed': "Elapsed",
+  'monitor.received': "Received",
+  'monitor.tokens': "Tokens",
+  'monitor.chunks': "{count} ch",
+  'monitor.requestSent': "Request sent",
+  'monitor.receiving': "Receiving output",
+  'monitor.head': "Head & styles",
+  'monitor.body': "<body> reached",
+  'monitor.script': "<script> reached",
+  'monitor.closed': "Document closed",
+  'monitor.partialRender': "Partial Render",
+  'monitor.liveSource': "Live Source",
+  'monitor.cancel': "Cancel",
+  'monitor.retrying': "{reason}. Retrying in {seconds}s (attempt {attempt} of {max})",
+  'monitor.attempt': "Attempt {attempt} of {max}",
+  'monitor.reasonTimeout': "Timed out",
+  'monitor.reasonQuota': "Rate limited",
+  'monitor.reasonNetwork': "Network error",
+  'monitor.reasonServer': "Server error",
+  'monitor.frameTitle': "Partial preview",
+
+  // Refine panel
+  'refine.title': "Refine",
+  'refine.close': "Close Refine Panel",
+  'refine.intro': "Describe a change and the preview will be updated in place.",
+  'refine.suggestion1': "Add a reset button",
+  'refine.suggestion2': "Switch to a light theme",
+  'refine.suggestion3': "Make it mobile friendly",
+  'refine.applying': "Applying changes...",
+  'refine.placeholder': "e.g. make the chart a bar chart",
+
+  // Console
+  'console.title': "Console",
+  'console.fixTitle': "Send the captured errors to the model",
+  'console.fix': "Fix these errors",
+  'console.fixing': "Fixing...",
+  'console.clear': "Clear Console",
+  'console.empty': "No output yet.",
+
+  // Export
+  'export.title': "Export",
+  'export.failed': "Export failed: {message}",
+  'export.html': "Standalone HTML",
+  'export.htmlHint': "Single file, double-click to open",
+  'export.zip': "Zip Bundle",
+  'export.zipHint': "index.html, styles.css, app.js, inputs, README",
+  'export.png': "PNG Screenshot",
+  'export.pngHint': "Rendered at 1280×800, 2x",
+  'export.json': "Artifact (JSON)",
+  'export.jsonHint': "Re-import into this app",
+
+  // Sandbox
+  'sandbox.title': "Sandbox Permissions",
+  'sandbox.heading': "Sandbox",
+  'sandbox.description': "Runs in an isolated origin with no access to this app's storage. Its own storage lasts until the preview reloads.",
+  'sandbox.network': "Network",
+  'sandbox.networkHint': "fetch, XHR, WebSockets and resources from any host",
+  'sandbox.popups': "Popups",
+  'sandbox.popupsHint': "window.open and links opening new tabs",
+  'sandbox.modals': "Dialogs",
+  'sandbox.modalsHint': "alert, confirm and prompt",
+  'sandbox.cdnNote': "Scripts, styles and fonts still load from {hosts}.",
+
+  // Validation
+  'validation.title': "Output Validation",
+  'validation.repairRequested': "Repair requested",
+  'validation.remaining': "Remaining",
+  'validation.fixed': "Fixed automatically",
+
+  // Revisions
+  'revisions.previous': "Previous Revision",
+  'revisions.tree': "Revision Tree",
+  'revisions.next': "Next Revision",
+  'revisions.nextBranches': "Next Revision ({count} branches)",
+  'revisions.compare': "Compare revisions...",
+  'revisions.branchNote': "Refining or editing an older revision starts a new branch from it.",
+  'revisions.sourceGenerate': "generate",
+  'revisions.sourceRefine': "refine",
+  'revisions.sourceEdit': "edit",
+  'diff.title': "Compare Revisions",
+  'diff.changesOnly': "Changes only",
+  'diff.identical': "These revisions are identical.",
+  'diff.unchangedOne': "{count} unchanged line",
+  'diff.unchanged': "{count} unchanged lines",
+
+  // Package dialog
+  'package.title': "Package as App",
+  'package.description': "Builds an installable PWA with a web manifest, generated icons and an offline service worker.",
+  'package.iconAlt': "App icon",
+  'package.appName': "App name",
+  'package.shortName': "Short name",
+  'package.themeColor': "Theme colour",
+  'package.includeCapacitor': "Include Capacitor project",
+  'package.capacitorHint': "Adds a project you can build into an APK with Android Studio.",
+  'package.appId': "App ID",
+  'package.appIdHint': "Reverse domain, e.g. com.example.myapp",
+  'package.packaging': "Packaging...",
+  'package.download': "Download Package",
+  'package.failed': "Packaging failed: {message}",
+
+  // PDF and document previews
+  'pdf.previous': "Previous Page",
+  'pdf.next': "Next Page",
+  'pdf.zoomIn': "Zoom In",
+  'pdf.zoomOut': "Zoom Out",
+  'pdf.fit': "Fit to Panel",
+  'pdf.page': "Page {page}",
+  'pdf.failed': "Could not render PDF preview.",
+  'pdf.notInitialized': "PDF library not initialized",
+  'document.failed': "Could not read this document.",
+  'document.summary': "{rows} rows × {columns} columns",
+  'document.truncated': "showing first {count}",
+
+  // Provider settings
+  'provider.model': "Model",
+  'provider.baseUrl': "Base URL",
+  'provider.apiKey': "API Key (optional)",
+  'provider.chunkDelay': "Chunk delay (ms)",
+  'provider.geminiDescription': "Google Gemini via the GenAI SDK.",
+  'provider.httpDescription': "Any /chat/completions endpoint: Ollama, LM Studio, vLLM, OpenAI.",
+  'provider.mockDescription': "Deterministic fixture apps. No network, for demos and tests.",
+  'provider.timeout': "Timeout (seconds)",
+  'provider.maxRetries': "Retries",
+  'provider.requestsHint': "A request is abandoned after this many seconds without output (0 disables the timeout). Rate limits, server errors and network failures are retried with exponential backoff.",
+
+  'modes.label': "Generation mode",
+  'modes.manage': "Manage modes…",
+  'modes.auto': "Auto",
+  'modes.autoDescription': "Decides what to build from the input.",
+  'modes.game': "Game",
+  'modes.gameDescription': "Playable games with a loop, score and restart.",
+  'modes.dashboard': "Dashboard",
+  'modes.dashboardDescription': "Data dashboards with KPIs, charts and filters.",
+  'modes.crud': "Form / CRUD tool",
+  'modes.crudDescription': "Forms and record managers that persist data.",
+  'modes.landing': "Landing page",
+  'modes.landingDescription': "Marketing pages with hero, features and a call to action.",
+  'modes.simulation': "Simulation",
+  'modes.simulationDescription': "Convincing simulations of tools the browser cannot run.",
+  'modes.educational': "Educational widget",
+  'modes.educationalDescription': "Explorable explanations and quizzes.",
+  'modes.editorTitle': "Generation Modes",
+  'modes.builtIn': "Built-in",
+  'modes.version': "v{version}",
+  'modes.new': "New mode",
+  'modes.untitled': "Untitled mode",
+  'modes.duplicate': "Duplicate",
+  'modes.copyName': "{name} (copy)",
+  'modes.export': "Export",
+  'modes.exportAll': "Export all",
+  'modes.import': "Import",
+  'modes.importDone': "Imported {added} new and {updated} updated modes. Skipped {skipped} already up to date.",
+  'modes.importFailed': "That file does not contain valid generation modes.",
+  'modes.delete': "Delete",
+  'modes.deleteConfirm': "Delete the mode \"{name}\"?",
+  'modes.discardConfirm': "Discard unsaved changes to this mode?",
+  'modes.readOnly': "Built-in modes are read-only. Duplicate one to customise it.",
+  'modes.name': "Name",
+  'modes.description': "Description",
+  'modes.temperature': "Temperature",
+  'modes.temperatureHint': "Lower is more predictable, higher is more inventive.",
+  'modes.instructions': "System instructions",
+
+  'error.timeout': "The model stopped responding and the request timed out. Try again, or raise the timeout in the model provider settings.",
+  'error.quota': "Quota exceeded. The model provider is rate-limiting this API key. Wait a moment and try again.",
+  'error.safety': "The request was blocked by the model's safety filters. Try rephrasing your prompt or using a different input.",
+  'error.auth': "The API key is missing or was rejected. Check the model provider settings.",
+  'error.network': "Could not reach the model provider. Check your connection and try again.",
+  'error.server': "The model provider returned a server error. Please try again later.",
+  'error.invalidRequest': "The model provider rejected the request. The input may be too large or not supported by this model.",
+  'error.empty': "The model returned an empty response. Please try again.",
+
+  'variants.title': "Variants",
+  'variants.single': "Generate one app. Pick 2–4 to compare variants side by side.",
+  'variants.hint': "Each variant runs in parallel with its own mode and temperature.",
+  'variants.heading': "Variants ({count})",
+  'variants.name': "{name} #{index}",
+  'variants.select': "Select",
+  'variants.selected': "Selected",
+  'variants.open': "Keep only this one and open it",
+  'variants.cancelled': "Cancelled",
+  'variants.failed': "This variant failed. The others are unaffected.",
+  'variants.generating': "Generating variants…",
+  'variants.selectedCount': "{count} selected",
+  'variants.discard': "Discard all",
+  'variants.confirmDiscard': "Discard all variants that have not been kept?",
+  'variants.keep': "Keep selected",
+  'variants.frameTitle': "Variant {index}",
+  'variants.framePartialTitle': "Variant {index} (loading)",
+
+  'archive.search': "Search names, prompts and tags…",
+  'archive.kind': "Input type",
+  'archive.kindAny': "All inputs",
+  'archive.kindImage': "Image",
+  'archive.kindPdf': "PDF",
+  'archive.kindDocument': "Document",
+  'archive.kindText': "Text only",
+  'archive.date': "Date",
+  'archive.dateAny': "Any time",
+  'archive.dateToday': "Today",
+  'archive.dateWeek': "Last 7 days",
+  'archive.dateMonth': "Last 30 days",
+  'archive.sort': "Sort",
+  'archive.sortNewest': "Newest first",
+  'archive.sortOldest': "Oldest first",
+  'archive.sortNameAsc': "Name A–Z",
+  'archive.sortNameDesc': "Name Z–A",
+  'archive.pinnedOnly': "Pinned",
+  'archive.pin': "Pin",
+  'archive.unpin': "Unpin",
+  'archive.rename': "Rename",
+  'archive.delete': "Delete",
+  'archive.open': "Open",
+  'archive.addTag': "Tag",
+  'archive.removeTag': "Remove tag {tag}",
+  'archive.tagPlaceholder': "New tag",
+  'archive.empty': "Nothing in the archive yet.",
+  'archive.noMatches': "No creations match these filters.",
+  'archive.clearFilters': "Clear filters",
+  'archive.showing': "Showing {count} of {total}",
+  'archive.deleted': "Deleted \"{name}\"",
+  'archive.undo': "Undo",
+  'archive.deleteFailed': "Could not delete the creation.",
+  'archive.select': "Select",
+
+  'backup.import': "Import",
+  'backup.importing': "Importing…",
+  'backup.importTitle': "Import creations",
+  'backup.doneTitle': "Import finished",
+  'backup.found': "{count} creations found in {file}",
+  'backup.version': "Archive schema version {version}",
+  'backup.migrated': "Older schema version {from}, upgraded to {to}",
+  'backup.collisions': "{count} already in your archive. What should happen to them?",
+  'backup.policySkip': "Skip",
+  'backup.policySkipHint': "Keep the copies already in your archive.",
+  'backup.policyOverwrite': "Overwrite",
+  'backup.policyOverwriteHint': "Replace them with the imported copies.",
+  'backup.policyDuplicate': "Keep both",
+  'backup.policyDuplicateHint': "Import them as new creations next to the existing ones.",
+  'backup.rejected': "Rejected ({count})",
+  'backup.rejectNotObject': "Not a creation record",
+  'backup.rejectMissing': "Missing field {field}",
+  'backup.rejectInvalid': "Invalid value in {field}",
+  'backup.rejectSaveFailed': "Could not be saved",
+  'backup.imported': "{count} creations imported",
+  'backup.added': "Added",
+  'backup.overwritten': "Overwritten",
+  'backup.duplicated': "Added as copies",
+  'backup.skipped': "Skipped",
+  'backup.exportAll': "Export all",
+  'backup.exportSelected': "Export {count} selected",
+  'backup.exportFailed': "Could not export the archive.",
+  'backup.errorInvalidJson': "This file is not valid JSON.",
+  'backup.errorUnrecognized': "This file is not a creation archive or artifact.",
+  'backup.errorNewerVersion': "This archive was made by a newer version of the app. Update the app to import it.",
+
+  'share.title': "Copy share link",
+  'share.creating': "Creating link…",
+  'share.copied': "Link copied",
+  'share.copyManually': "Copy this link",
+  'share.copy': "Copy",
+  'share.hint': "Anyone with the link can open the app. Nothing is uploaded; the app travels inside the link.",
+  'share.risky': "This link is long. Some chat and mail apps cut long links; if it does not open, send the exported file instead.",
+  'share.tooLong': "This app is too large for a link ({size}). Export it as a file instead.",
+  'share.failed': "Could not create a share link.",
+  'share.invalid': "This share link is damaged or incomplete. Ask for the link again.",
+  'share.readOnly': "Shared · read-only",
+  'share.addToArchive': "Add to my archive",
+
+  'examples.title': "Examples",
+  'examples.all': "All",
+  'examples.categoryGames': "Games",
+  'examples.categoryTools': "Tools",
+  'examples.categoryDashboards': "Dashboards",
+  'examples.categoryLearning': "Learning",
+  'examples.categoryOther': "Other",
+  'examples.tryThis': "Try this",
+  'examples.remix': "Remix",
+  'examples.remixHint': "Open your own copy to refine or edit",
+  'examples.remixName': "{name} (remix)",
+  'examples.inArchive': "In archive",
+  'examples.addAll': "Add {count} to archive",
+  'examples.added': "{count} examples added to your archive",
+  'examples.allAdded': "All examples are in your archive",
+  'examples.packs': "Example packs",
+  'examples.editPacks': "Edit",
+  'examples.packsHint': "One URL per line. Packs are JSON files with format \"example-pack\". Bundled examples are always available, even offline.",
+  'examples.noPacks': "No remote packs. Only the bundled examples are shown.",
+  'examples.loadingPack': "Loading…",
+  'examples.packLoaded': "{count} examples",
+  'examples.packUnreachable': "Unreachable",
+  'examples.packTimeout': "Timed out",
+  'examples.packInvalid': "Not an example pack",
+
+  'viewport.label': "Viewport",
+  'viewport.fill': "Fill",
+  'viewport.phone': "Phone",
+  'viewport.tablet': "Tablet",
+  'viewport.laptop': "Laptop",
+  'viewport.desktop': "Desktop",
+  'viewport.custom': "Custom",
+  'viewport.width': "Width (px)",
+  'viewport.height': "Height (px)",
+  'viewport.rotate': "Rotate",
+  'viewport.fit': "Zoom to fit",
+  'viewport.bezel': "Device frame",
+  'viewport.size': "{width} × {height} · {percent}%",
+};
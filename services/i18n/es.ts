@@ -0,0 +1,409 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from "./types";
+
+export const es: Messages = {
+  'common.cancel': "Cancelar",
+  'common.save': "Guardar",
+  'common.apply': "Aplicar",
+  'common.close': "Cerrar",
+
+  'app.modelProvider': "Proveedor del modelo",
+  'app.language': "Idioma",
+  'app.lightMode': "Modo claro",
+  'app.darkMode': "Modo oscuro",
+  'app.importArtifact': "Importar artefacto",
+  'app.uploadPreviousArtifact': "Subir un artefacto anterior",
+  'app.newCreation': "Nueva creación",
+  'app.manualEdit': "Edición manual",
+  'app.refineDone': "Aplicación actualizada.",
+  'app.saveFailed': "No se pudo guardar esta creación en el archivo. Puede que el almacenamiento del navegador esté lleno.",
+  'app.readFileFailed': "No se pudo leer {name}. Revisa el archivo e inténtalo de nuevo.",
+  'app.generateFailed': "Algo salió mal al dar vida a tu idea. Inténtalo de nuevo.",
+  'app.refineFailed': "No se pudo aplicar ese cambio. Inténtalo de nuevo.",
+  'app.creationNotFound': "No se encontró esta creación en el archivo.",
+  'app.importFailed': "No se pudo importar la creación.",
+
+  'hero.labelPatent': "PATENTE",
+  'hero.labelGame': "JUEGO",
+  'hero.labelData': "DATOS",
+  'hero.labelApp': "APP",
+  'hero.titleStart': "Da vida",
+  'hero.titleMiddle': "a ",
+  'hero.titleHighlight': "cualquier cosa",
+  'hero.titleEnd': ".",
+  'hero.subtitle': "Gemini ve código en todo. Suelta un mapa antiguo, un plano, un diagrama o un garabato y mira cómo se convierte al instante en una experiencia interactiva que funciona.",
+
+  'input.cycle1': "un boceto en una servilleta",
+  'input.cycle2': "una pizarra caótica",
+  'input.cycle3': "un escáner de red",
+  'input.cycle4': "el diseño de un nivel",
+  'input.cycle5': "una interfaz de ciencia ficción",
+  'input.cycle6': "el diagrama de una máquina",
+  'input.cycle7': "un pergamino antiguo",
+  'input.bring': "Da vida a",
+  'input.toLife': "al instante",
+  'input.dragDrop': "Arrastra y suelta",
+  'input.tap': "Toca",
+  'input.attachHint': "para adjuntar imágenes, PDF, datos o documentos",
+  'input.placeholder': "O describe una idea (p. ej. «Un panel de Wi-Fi que encuentra redes ocultas»)...",
+  'input.placeholderWithFiles': "Instrucciones opcionales para estos archivos (p. ej. «al estilo kanban»)...",
+  'input.unsupported': "Archivos admitidos: imágenes, PDF, CSV, TSV, JSON, Markdown, texto plano y DOCX.",
+  'input.tooMany': "Puedes adjuntar hasta {max} archivos.",
+  'input.remove': "Quitar",
+  'input.choosePages': "Elegir páginas",
+  'input.allPages': "Todas las páginas",
+  'input.editSketch': "Editar boceto",
+  'input.drawSketch': "Dibujar un boceto",
+  'input.sketchFailed': "No se pudo exportar el boceto.",
+
+  'picker.title': "Elegir páginas",
+  'picker.hint': "Solo se envían al modelo las páginas seleccionadas. Haz clic en las miniaturas o escribe rangos como 3-5, 8.",
+  'picker.openFailed': "No se pudo abrir este PDF.",
+  'picker.count': "{selected} de {total} páginas",
+
+  'sketch.pen': "Lápiz",
+  'sketch.eraser': "Borrador",
+  'sketch.line': "Línea",
+  'sketch.arrow': "Flecha",
+  'sketch.rect': "Rectángulo",
+  'sketch.ellipse': "Elipse",
+  'sketch.text': "Etiqueta de texto",
+  'sketch.labelPrompt': "Texto de la etiqueta:",
+  'sketch.undo': "Deshacer",
+  'sketch.redo': "Rehacer",
+  'sketch.clear': "Borrar todo",
+  'sketch.attach': "Adjuntar boceto",
+
+  'history.title': "Archivo",
+  'history.storageUsed': "Almacenamiento del navegador usado",
+  'history.restore': "Restaurar",
+  'history.viewAll': "Ver todo ({count})",
+
+  'preview.close': "Cerrar vista previa",
+  'preview.processing': "Procesando...",
+  'preview.mode': "Modo vista previa",
+  'preview.tabPreview': "Vista previa",
+  'preview.tabCode': "Código",
+  'preview.saveTitle': "Guardar como nueva revisión (Ctrl+S)",
+  'preview.discard': "Descartar",
+  'preview.discardTitle': "Descartar cambios",
+  'preview.confirmDiscard': "¿Descartar los cambios de código sin guardar?",
+  'preview.appOnly': "Mostrar solo la app",
+  'preview.compareOriginal': "Comparar con el original",
+  'preview.hideRefine': "Ocultar panel de refinado",
+  'preview.showRefine': "Refinar con peticiones de seguimiento",
+  'preview.package': "Empaquetar como app instalable",
+  'preview.newUpload': "Nueva subida",
+  'preview.new': "Nuevo",
+  'preview.inputSource': "Fuente",
+  'preview.editSketch': "Editar boceto",
+  'preview.editSketchTitle': "Abrir este boceto en el bloc de dibujo",
+  'preview.received': "{size} recibidos",
+  'preview.frameTitle': "Vista previa en vivo de la aplicación generada",
+
+  'monitor.title': "Construyendo el entorno",
+  'monitor.repairing': "Reparando errores de validación...",
+  'monitor.streaming': "Recibiendo el código generado...",
+  'monitor.waiting': "Esperando los primeros tokens...",
+  'monitor.elapsed': "Transcurrido",
+  'monitor.received': "Recibido",
+  'monitor.tokens': "Tokens",
+  'monitor.chunks': "{count} frag.",
+  'monitor.requestSent': "Petición enviada",
+  'monitor.receiving': "Recibiendo salida",
+  'monitor.head': "Cabecera y estilos",
+  'monitor.body': "<body> alcanzado",
+  'monitor.script': "<script> alcanzado",
+  'monitor.closed': "Documento cerrado",
+  'monitor.partialRender': "Render parcial",
+  'monitor.liveSource': "Código en vivo",
+  'monitor.cancel': "Cancelar",
+  'monitor.retrying': "{reason}. Reintentando en {seconds} s (intento {attempt} de {max})",
+  'monitor.attempt': "Intento {attempt} de {max}",
+  'monitor.reasonTimeout': "Tiempo agotado",
+  'monitor.reasonQuota': "Límite de frecuencia",
+  'monitor.reasonNetwork': "Error de red",
+  'monitor.reasonServer': "Error del servidor",
+  'monitor.frameTitle': "Vista previa parcial",
+
+  'refine.title': "Refinar",
+  'refine.close': "Cerrar panel de refinado",
+  'refine.intro': "Describe un cambio y la vista previa se actualizará en el sitio.",
+  'refine.suggestion1': "Añade un botón de reinicio",
+  'refine.suggestion2': "Cambia a un tema claro",
+  'refine.suggestion3': "Hazla apta para móviles",
+  'refine.applying': "Aplicando cambios...",
+  'refine.placeholder': "p. ej. convierte el gráfico en uno de barras",
+
+  'console.title': "Consola",
+  'console.fixTitle': "Enviar los errores capturados al modelo",
+  'console.fix': "Corregir estos errores",
+  'console.fixing': "Corrigiendo...",
+  'console.clear': "Limpiar consola",
+  'console.empty': "Aún no hay salida.",
+
+  'export.title': "Exportar",
+  'export.failed': "Error al exportar: {message}",
+  'export.html': "HTML independiente",
+  'export.htmlHint': "Un solo archivo, doble clic para abrir",
+  'export.zip': "Paquete Zip",
+  'export.zipHint': "index.html, styles.css, app.js, entradas, README",
+  'export.png': "Captura PNG",
+  'export.pngHint': "Renderizada a 1280×800, 2x",
+  'export.json': "Artefacto (JSON)",
+  'export.jsonHint': "Para volver a importarlo en esta app",
+
+  'sandbox.title': "Permisos del entorno aislado",
+  'sandbox.heading': "Entorno aislado",
+  'sandbox.description': "Se ejecuta en un origen aislado sin acceso al almacenamiento de esta app. Su propio almacenamiento dura hasta que se recarga la vista previa.",
+  'sandbox.network': "Red",
+  'sandbox.networkHint': "fetch, XHR, WebSockets y recursos de cualquier host",
+  'sandbox.popups': "Ventanas emergentes",
+  'sandbox.popupsHint': "window.open y enlaces que abren pestañas nuevas",
+  'sandbox.modals': "Diálogos",
+  'sandbox.modalsHint': "alert, confirm y prompt",
+  'sandbox.cdnNote': "Los scripts, estilos y fuentes se siguen cargando desde {hosts}.",
+
+  'validation.title': "Validación de la salida",
+  'validation.repairRequested': "Reparación solicitada",
+  'validation.remaining': "Pendientes",
+  'validation.fixed': "Corregido automáticamente",
+
+  'revisions.previous': "Revisión anterior",
+  'revisions.tree': "Árbol de revisiones",
+  'revisions.next': "Revisión siguiente",
+  'revisions.nextBranches': "Revisión siguiente ({count} ramas)",
+  'revisions.compare': "Comparar revisiones...",
+  'revisions.branchNote': "Refinar o editar una revisión anterior crea una rama nueva a partir de ella.",
+  'revisions.sourceGenerate': "generación",
+  'revisions.sourceRefine': "refinado",
+  'revisions.sourceEdit': "edición",
+  'diff.title': "Comparar revisiones",
+  'diff.changesOnly': "Solo cambios",
+  'diff.identical': "Estas revisiones son idénticas.",
+  'diff.unchangedOne': "{count} línea sin cambios",
+  'diff.unchanged': "{count} líneas sin cambios",
+
+  'package.title': "Empaquetar como app",
+  'package.description': "Crea una PWA instalable con manifiesto web, iconos generados y un service worker sin conexión.",
+  'package.iconAlt': "Icono de la app",
+  'package.appName': "Nombre de la app",
+  'package.shortName': "Nombre corto",
+  'package.themeColor': "Color del tema",
+  'package.includeCapacitor': "Incluir proyecto de Capacitor",
+  'package.capacitorHint': "Añade un proyecto que puedes compilar como APK con Android Studio.",
+  'package.appId': "ID de la app",
+  'package.appIdHint': "Dominio invertido, p. ej. com.example.myapp",
+  'package.packaging': "Empaquetando...",
+  'package.download': "Descargar paquete",
+  'package.failed': "Error al empaquetar: {message}",
+
+  'pdf.previous': "Página anterior",
+  'pdf.next': "Página siguiente",
+  'pdf.zoomIn': "Acercar",
+  'pdf.zoomOut': "Alejar",
+  'pdf.fit': "Ajustar al panel",
+  'pdf.page': "Página {page}",
+  'pdf.failed': "No se pudo mostrar la vista previa del PDF.",
+  'pdf.notInitialized': "La biblioteca PDF no está inicializada",
+  'document.failed': "No se pudo leer este documento.",
+  'document.summary': "{rows} filas × {columns} columnas",
+  'document.truncated': "mostrando las primeras {count}",
+
+  'provider.model': "Modelo",
+  'provider.baseUrl': "URL base",
+  'provider.apiKey': "Clave de API (opcional)",
+  'provider.chunkDelay': "Retardo por fragmento (ms)",
+  'provider.geminiDescription': "Google Gemini mediante el SDK de GenAI.",
+  'provider.httpDescription': "Cualquier endpoint /chat/completions: Ollama, LM Studio, vLLM, OpenAI.",
+  'provider.mockDescription': "Apps de ejemplo deterministas. Sin red, para demos y pruebas.",
+  'provider.timeout': "Tiempo de espera (segundos)",
+  'provider.maxRetries': "Reintentos",
+  'provider.requestsHint': "Una solicitud se abandona tras estos segundos sin respuesta (0 desactiva el límite). Los límites de frecuencia, errores del servidor y fallos de red se reintentan con espera exponencial.",
+
+  'modes.label': "Modo de generación",
+  'modes.manage': "Gestionar modos…",
+  'modes.auto': "Automático",
+  'modes.autoDescription': "Decide qué construir a partir de la entrada.",
+  'modes.game': "Juego",
+  'modes.gameDescription': "Juegos jugables con bucle, puntuación y reinicio.",
+  'modes.dashboard': "Panel",
+  'modes.dashboardDescription': "Paneles de datos con indicadores, gráficos y filtros.",
+  'modes.crud': "Formulario / herramienta CRUD",
+  'modes.crudDescription': "Formularios y gestores de registros que guardan los datos.",
+  'modes.landing': "Página de aterrizaje",
+  'modes.landingDescription': "Páginas de marketing con portada, funciones y llamada a la acción.",
+  'modes.simulation': "Simulación",
+  'modes.simulationDescription': "Simulaciones convincentes de herramientas que el navegador no puede ejecutar.",
+  'modes.educational': "Widget educativo",
+  'modes.educationalDescription': "Explicaciones interactivas y cuestionarios.",
+  'modes.editorTitle': "Modos de generación",
+  'modes.builtIn': "Integrado",
+  'modes.version': "v{version}",
+  'modes.new': "Nuevo modo",
+  'modes.untitled': "Modo sin título",
+  'modes.duplicate': "Duplicar",
+  'modes.copyName': "{name} (copia)",
+  'modes.export': "Exportar",
+  'modes.exportAll': "Exportar todo",
+  'modes.import': "Importar",
+  'modes.importDone': "Se importaron {added} modos nuevos y {updated} actualizados. Se omitieron {skipped} ya al día.",
+  'modes.importFailed': "Ese archivo no contiene modos de generación válidos.",
+  'modes.delete': "Eliminar",
+  'modes.deleteConfirm': "¿Eliminar el modo \"{name}\"?",
+  'modes.discardConfirm': "¿Descartar los cambios sin guardar de este modo?",
+  'modes.readOnly': "Los modos integrados son de solo lectura. Duplica uno para personalizarlo.",
+  'modes.name': "Nombre",
+  'modes.description': "Descripción",
+  'modes.temperature': "Temperatura",
+  'modes.temperatureHint': "Más bajo es más predecible, más alto es más creativo.",
+  'modes.instructions': "Instrucciones del sistema",
+
+  'error.timeout': "El modelo dejó de responder y la solicitud agotó el tiempo de espera. Inténtalo de nuevo o aumenta el límite en la configuración del proveedor.",
+  'error.quota': "Cuota superada. El proveedor está limitando la frecuencia de esta clave API. Espera un momento e inténtalo de nuevo.",
+  'error.safety': "Los filtros de seguridad del modelo bloquearon la solicitud. Reformula tu petición o usa otra entrada.",
+  'error.auth': "Falta la clave API o fue rechazada. Revisa la configuración del proveedor de modelos.",
+  'error.network': "No se pudo contactar con el proveedor de modelos. Comprueba tu conexión e inténtalo de nuevo.",
+  'error.server': "El proveedor de modelos devolvió un error del servidor. Inténtalo más tarde.",
+  'error.invalidRequest': "El proveedor de modelos rechazó la solicitud. La entrada puede ser demasiado grande o no compatible con este modelo.",
+  'error.empty': "El modelo devolvió una respuesta vacía. Inténtalo de nuevo.",
+
+  'variants.title': "Variantes",
+  'variants.single': "Genera una sola app. Elige de 2 a 4 para comparar variantes en paralelo.",
+  'variants.hint': "Cada variante se ejecuta en paralelo con su propio modo y temperatura.",
+  'variants.heading': "Variantes ({count})",
+  'variants.name': "{name} n.º {index}",
+  'variants.select': "Seleccionar",
+  'variants.selected': "Seleccionada",
+  'variants.open': "Quedarse solo con esta y abrirla",
+  'variants.cancelled': "Cancelada",
+  'variants.failed': "Esta variante falló. Las demás no se ven afectadas.",
+  'variants.generating': "Generando variantes…",
+  'variants.selectedCount': "{count} seleccionadas",
+  'variants.discard': "Descartar todo",
+  'variants.confirmDiscard': "¿Descartar todas las variantes que no se han conservado?",
+  'variants.keep': "Conservar selección",
+  'variants.frameTitle': "Variante {index}",
+  'variants.framePartialTitle': "Variante {index} (cargando)",
+
+  'archive.search': "Buscar nombres, prompts y etiquetas…",
+  'archive.kind': "Tipo de entrada",
+  'archive.kindAny': "Todas las entradas",
+  'archive.kindImage': "Imagen",
+  'archive.kindPdf': "PDF",
+  'archive.kindDocument': "Documento",
+  'archive.kindText': "Solo texto",
+  'archive.date': "Fecha",
+  'archive.dateAny': "Cualquier fecha",
+  'archive.dateToday': "Hoy",
+  'archive.dateWeek': "Últimos 7 días",
+  'archive.dateMonth': "Últimos 30 días",
+  'archive.sort': "Orden",
+  'archive.sortNewest': "Más recientes",
+  'archive.sortOldest': "Más antiguas",
+  'archive.sortNameAsc': "Nombre A–Z",
+  'archive.sortNameDesc': "Nombre Z–A",
+  'archive.pinnedOnly': "Fijadas",
+  'archive.pin': "Fijar",
+  'archive.unpin': "Desfijar",
+  'archive.rename': "Renombrar",
+  'archive.delete': "Eliminar",
+  'archive.open': "Abrir",
+  'archive.addTag': "Etiqueta",
+  'archive.removeTag': "Quitar etiqueta {tag}",
+  'archive.tagPlaceholder': "Nueva etiqueta",
+  'archive.empty': "Aún no hay nada en el archivo.",
+  'archive.noMatches': "Ninguna creación coincide con estos filtros.",
+  'archive.clearFilters': "Borrar filtros",
+  'archive.showing': "Mostrando {count} de {total}",
+  'archive.deleted': "Se eliminó «{name}»",
+  'archive.undo': "Deshacer",
+  'archive.deleteFailed': "No se pudo eliminar la creación.",
+  'archive.select': "Seleccionar",
+
+  'backup.import': "Importar",
+  'backup.importing': "Importando…",
+  'backup.importTitle': "Importar creaciones",
+  'backup.doneTitle': "Importación terminada",
+  'backup.found': "{count} creaciones encontradas en {file}",
+  'backup.version': "Versión del esquema de archivo: {version}",
+  'backup.migrated': "Versión de esquema anterior {from}, actualizada a {to}",
+  'backup.collisions': "{count} ya están en tu archivo. ¿Qué hacer con ellas?",
+  'backup.policySkip': "Omitir",
+  'backup.policySkipHint': "Conservar las copias que ya tienes.",
+  'backup.policyOverwrite': "Sobrescribir",
+  'backup.policyOverwriteHint': "Reemplazarlas por las copias importadas.",
+  'backup.policyDuplicate': "Conservar ambas",
+  'backup.policyDuplicateHint': "Importarlas como creaciones nuevas junto a las existentes.",
+  'backup.rejected': "Rechazadas ({count})",
+  'backup.rejectNotObject': "No es una creación",
+  'backup.rejectMissing': "Falta el campo {field}",
+  'backup.rejectInvalid': "Valor no válido en {field}",
+  'backup.rejectSaveFailed': "No se pudo guardar",
+  'backup.imported': "{count} creaciones importadas",
+  'backup.added': "Añadidas",
+  'backup.overwritten': "Sobrescritas",
+  'backup.duplicated': "Añadidas como copia",
+  'backup.skipped': "Omitidas",
+  'backup.exportAll': "Exportar todo",
+  'backup.exportSelected': "Exportar {count} seleccionadas",
+  'backup.exportFailed': "No se pudo exportar el archivo.",
+  'backup.errorInvalidJson': "Este fichero no es JSON válido.",
+  'backup.errorUnrecognized': "Este fichero no es un archivo ni un artefacto de creación.",
+  'backup.errorNewerVersion': "Este archivo se creó con una versión más reciente de la app. Actualízala para importarlo.",
+
+  'share.title': "Copiar enlace para compartir",
+  'share.creating': "Creando enlace…",
+  'share.copied': "Enlace copiado",
+  'share.copyManually': "Copia este enlace",
+  'share.copy': "Copiar",
+  'share.hint': "Cualquiera con el enlace puede abrir la app. No se sube nada: la app viaja dentro del enlace.",
+  'share.risky': "Este enlace es largo. Algunas apps de chat y correo cortan los enlaces largos; si no se abre, envía el archivo exportado.",
+  'share.tooLong': "Esta app es demasiado grande para un enlace ({size}). Expórtala como archivo.",
+  'share.failed': "No se pudo crear el enlace.",
+  'share.invalid': "Este enlace está dañado o incompleto. Pide el enlace de nuevo.",
+  'share.readOnly': "Compartida · solo lectura",
+  'share.addToArchive': "Añadir a mi archivo",
+
+  'examples.title': "Ejemplos",
+  'examples.all': "Todos",
+  'examples.categoryGames': "Juegos",
+  'examples.categoryTools': "Herramientas",
+  'examples.categoryDashboards': "Paneles",
+  'examples.categoryLearning': "Aprendizaje",
+  'examples.categoryOther': "Otros",
+  'examples.tryThis': "Probar",
+  'examples.remix': "Remezclar",
+  'examples.remixHint': "Abre tu propia copia para refinarla o editarla",
+  'examples.remixName': "{name} (remezcla)",
+  'examples.inArchive': "En el archivo",
+  'examples.addAll': "Añadir {count} al archivo",
+  'examples.added': "{count} ejemplos añadidos a tu archivo",
+  'examples.allAdded': "Todos los ejemplos están en tu archivo",
+  'examples.packs': "Paquetes de ejemplos",
+  'examples.editPacks': "Editar",
+  'examples.packsHint': "Una URL por línea. Los paquetes son archivos JSON con formato \"example-pack\". Los ejemplos incluidos siempre están disponibles, incluso sin conexión.",
+  'examples.noPacks': "No hay paquetes remotos. Solo se muestran los ejemplos incluidos.",
+  'examples.loadingPack': "Cargando…",
+  'examples.packLoaded': "{count} ejemplos",
+  'examples.packUnreachable': "Inaccesible",
+  'examples.packTimeout': "Tiempo agotado",
+  'examples.packInvalid': "No es un paquete de ejemplos",
+
+  'viewport.label': "Vista",
+  'viewport.fill': "Llenar",
+  'viewport.phone': "Teléfono",
+  'viewport.tablet': "Tableta",
+  'viewport.laptop': "Portátil",
+  'viewport.desktop': "Escritorio",
+  'viewport.custom': "Personalizado",
+  'viewport.width': "Ancho (px)",
+  'viewport.height': "Alto (px)",
+  'viewport.rotate': "Girar",
+  'viewport.fit': "Ajustar al espacio",
+  'viewport.bezel': "Marco del dispositivo",
+  'viewport.size': "{width} × {height} · {percent} %",
+};
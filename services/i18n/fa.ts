@@ -0,0 +1,409 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from "./types";
+
+export const fa: Messages = {
+  'common.cancel': "لغو",
+  'common.save': "ذخیره",
+  'common.apply': "اعمال",
+  'common.close': "بستن",
+
+  'app.modelProvider': "ارائه‌دهندهٔ مدل",
+  'app.language': "زبان",
+  'app.lightMode': "حالت روشن",
+  'app.darkMode': "حالت تیره",
+  'app.importArtifact': "وارد کردن فایل",
+  'app.uploadPreviousArtifact': "بارگذاری فایل قبلی",
+  'app.newCreation': "ساختهٔ جدید",
+  'app.manualEdit': "ویرایش دستی",
+  'app.refineDone': "برنامه به‌روز شد.",
+  'app.saveFailed': "ذخیرهٔ این ساخته در بایگانی ممکن نشد. شاید فضای ذخیره‌سازی مرورگر پر شده باشد.",
+  'app.readFileFailed': "خواندن {name} ممکن نشد. فایل را بررسی کنید و دوباره تلاش کنید.",
+  'app.generateFailed': "هنگام زنده کردن ایدهٔ شما مشکلی پیش آمد. لطفاً دوباره تلاش کنید.",
+  'app.refineFailed': "اعمال این تغییر ممکن نشد. لطفاً دوباره تلاش کنید.",
+  'app.creationNotFound': "این ساخته در بایگانی پیدا نشد.",
+  'app.importFailed': "وارد کردن ساخته ناموفق بود.",
+
+  'hero.labelPatent': "اختراع",
+  'hero.labelGame': "بازی",
+  'hero.labelData': "داده",
+  'hero.labelApp': "برنامه",
+  'hero.titleStart': "هر چیزی را",
+  'hero.titleMiddle': "",
+  'hero.titleHighlight': "زنده کنید",
+  'hero.titleEnd': ".",
+  'hero.subtitle': "Gemini در همه چیز کد می‌بیند. یک نقشهٔ قدیمی، نقشهٔ طبقه، نمودار یا خط‌خطی را رها کنید و ببینید چطور فوراً به یک تجربهٔ تعاملی کارا تبدیل می‌شود.",
+
+  'input.cycle1': "طرحی روی دستمال",
+  'input.cycle2': "یک وایت‌برد شلوغ",
+  'input.cycle3': "یک اسکنر شبکه",
+  'input.cycle4': "طراحی مرحلهٔ بازی",
+  'input.cycle5': "یک رابط علمی‌تخیلی",
+  'input.cycle6': "نمودار یک ماشین",
+  'input.cycle7': "یک طومار باستانی",
+  'input.bring': "تبدیل",
+  'input.toLife': "به واقعیت",
+  'input.dragDrop': "بکشید و رها کنید",
+  'input.tap': "لمس کنید",
+  'input.attachHint': "تا تصویر، PDF، داده یا سند پیوست کنید",
+  'input.placeholder': "یا ایده‌تان را توصیف کنید (مثلاً «داشبوردی که شبکه‌های وای‌فای پنهان را پیدا کند»)...",
+  'input.placeholderWithFiles': "دستورالعمل اختیاری برای این فایل‌ها (مثلاً «به سبک کانبان بساز»)...",
+  'input.unsupported': "فایل‌های پشتیبانی‌شده: تصویر، PDF، CSV، TSV، JSON، Markdown، متن ساده و DOCX.",
+  'input.tooMany': "حداکثر {max} فایل می‌توانید پیوست کنید.",
+  'input.remove': "حذف",
+  'input.choosePages': "انتخاب صفحه‌ها",
+  'input.allPages': "همهٔ صفحه‌ها",
+  'input.editSketch': "ویرایش طرح",
+  'input.drawSketch': "کشیدن طرح",
+  'input.sketchFailed': "خروجی گرفتن از طرح ممکن نشد.",
+
+  'picker.title': "انتخاب صفحه‌ها",
+  'picker.hint': "فقط صفحه‌های انتخاب‌شده برای مدل فرستاده می‌شوند. روی تصاویر کوچک کلیک کنید یا بازه‌هایی مثل 3-5, 8 بنویسید.",
+  'picker.openFailed': "باز کردن این PDF ممکن نشد.",
+  'picker.count': "{selected} از {total} صفحه",
+
+  'sketch.pen': "قلم",
+  'sketch.eraser': "پاک‌کن",
+  'sketch.line': "خط",
+  'sketch.arrow': "پیکان",
+  'sketch.rect': "مستطیل",
+  'sketch.ellipse': "بیضی",
+  'sketch.text': "برچسب متنی",
+  'sketch.labelPrompt': "متن برچسب:",
+  'sketch.undo': "واگرد",
+  'sketch.redo': "از نو",
+  'sketch.clear': "پاک کردن همه",
+  'sketch.attach': "پیوست طرح",
+
+  'history.title': "بایگانی",
+  'history.storageUsed': "فضای مصرف‌شدهٔ مرورگر",
+  'history.restore': "بازیابی",
+  'history.viewAll': "مشاهدهٔ همه ({count})",
+
+  'preview.close': "بستن پیش‌نمایش",
+  'preview.processing': "در حال پردازش...",
+  'preview.mode': "حالت پیش‌نمایش",
+  'preview.tabPreview': "پیش‌نمایش",
+  'preview.tabCode': "کد",
+  'preview.saveTitle': "ذخیره به‌عنوان نسخهٔ جدید (Ctrl+S)",
+  'preview.discard': "دور انداختن",
+  'preview.discardTitle': "دور انداختن ویرایش‌ها",
+  'preview.confirmDiscard': "ویرایش‌های ذخیره‌نشدهٔ کد دور انداخته شوند؟",
+  'preview.appOnly': "فقط نمایش برنامه",
+  'preview.compareOriginal': "مقایسه با نسخهٔ اصلی",
+  'preview.hideRefine': "پنهان کردن پنل بهبود",
+  'preview.showRefine': "بهبود با درخواست‌های بعدی",
+  'preview.package': "بسته‌بندی به‌عنوان برنامهٔ نصب‌شدنی",
+  'preview.newUpload': "بارگذاری جدید",
+  'preview.new': "جدید",
+  'preview.inputSource': "منبع",
+  'preview.editSketch': "ویرایش طرح",
+  'preview.editSketchTitle': "باز کردن این طرح در صفحهٔ طراحی",
+  'preview.received': "{size} دریافت شد",
+  'preview.frameTitle': "پیش‌نمایش زنده برنامه ساخته‌شده",
+
+  'monitor.title': "در حال ساخت محیط",
+  'monitor.repairing': "در حال رفع خطاهای اعتبارسنجی...",
+  'monitor.streaming': "در حال دریافت کد تولیدشده...",
+  'monitor.waiting': "در انتظار نخستین توکن‌ها...",
+  'monitor.elapsed': "زمان سپری‌شده",
+  'monitor.received': "دریافتی",
+  'monitor.tokens': "توکن‌ها",
+  'monitor.chunks': "{count} بخش",
+  'monitor.requestSent': "درخواست ارسال شد",
+  'monitor.receiving': "دریافت خروجی",
+  'monitor.head': "سربرگ و سبک‌ها",
+  'monitor.body': "رسیدن به <body>",
+  'monitor.script': "رسیدن به <script>",
+  'monitor.closed': "سند کامل شد",
+  'monitor.partialRender': "نمایش ناقص",
+  'monitor.liveSource': "کد زنده",
+  'monitor.cancel': "لغو",
+  'monitor.retrying': "{reason}. تلاش دوباره تا {seconds} ثانیه دیگر (تلاش {attempt} از {max})",
+  'monitor.attempt': "تلاش {attempt} از {max}",
+  'monitor.reasonTimeout': "مهلت تمام شد",
+  'monitor.reasonQuota': "محدودیت نرخ",
+  'monitor.reasonNetwork': "خطای شبکه",
+  'monitor.reasonServer': "خطای سرور",
+  'monitor.frameTitle': "پیش‌نمایش ناقص",
+
+  'refine.title': "بهبود",
+  'refine.close': "بستن پنل بهبود",
+  'refine.intro': "تغییری را توصیف کنید تا پیش‌نمایش در همان‌جا به‌روز شود.",
+  'refine.suggestion1': "یک دکمهٔ بازنشانی اضافه کن",
+  'refine.suggestion2': "به پوستهٔ روشن تغییر بده",
+  'refine.suggestion3': "آن را برای موبایل مناسب کن",
+  'refine.applying': "در حال اعمال تغییرات...",
+  'refine.placeholder': "مثلاً نمودار را میله‌ای کن",
+
+  'console.title': "کنسول",
+  'console.fixTitle': "ارسال خطاهای ثبت‌شده به مدل",
+  'console.fix': "رفع این خطاها",
+  'console.fixing': "در حال رفع...",
+  'console.clear': "پاک کردن کنسول",
+  'console.empty': "هنوز خروجی‌ای نیست.",
+
+  'export.title': "خروجی گرفتن",
+  'export.failed': "خروجی گرفتن ناموفق بود: {message}",
+  'export.html': "HTML مستقل",
+  'export.htmlHint': "یک فایل، برای باز کردن دوبار کلیک کنید",
+  'export.zip': "بستهٔ Zip",
+  'export.zipHint': "index.html، styles.css، app.js، ورودی‌ها، README",
+  'export.png': "تصویر PNG",
+  'export.pngHint': "در اندازهٔ 1280×800، 2x",
+  'export.json': "فایل ساخته (JSON)",
+  'export.jsonHint': "برای وارد کردن دوباره در همین برنامه",
+
+  'sandbox.title': "مجوزهای محیط ایزوله",
+  'sandbox.heading': "محیط ایزوله",
+  'sandbox.description': "در یک مبدأ جداگانه اجرا می‌شود و به فضای ذخیره‌سازی این برنامه دسترسی ندارد. فضای ذخیره‌سازی خودش تا بارگذاری دوبارهٔ پیش‌نمایش باقی می‌ماند.",
+  'sandbox.network': "شبکه",
+  'sandbox.networkHint': "fetch، XHR، WebSockets و منابع از هر میزبانی",
+  'sandbox.popups': "پنجره‌های بازشو",
+  'sandbox.popupsHint': "window.open و پیوندهایی که زبانهٔ تازه باز می‌کنند",
+  'sandbox.modals': "کادرهای گفتگو",
+  'sandbox.modalsHint': "alert، confirm و prompt",
+  'sandbox.cdnNote': "اسکریپت‌ها، سبک‌ها و قلم‌ها همچنان از {hosts} بارگذاری می‌شوند.",
+
+  'validation.title': "اعتبارسنجی خروجی",
+  'validation.repairRequested': "درخواست اصلاح شد",
+  'validation.remaining': "باقی‌مانده",
+  'validation.fixed': "به‌طور خودکار رفع شد",
+
+  'revisions.previous': "نسخهٔ قبلی",
+  'revisions.tree': "درخت نسخه‌ها",
+  'revisions.next': "نسخهٔ بعدی",
+  'revisions.nextBranches': "نسخهٔ بعدی ({count} شاخه)",
+  'revisions.compare': "مقایسهٔ نسخه‌ها...",
+  'revisions.branchNote': "بهبود یا ویرایش یک نسخهٔ قدیمی‌تر، شاخهٔ تازه‌ای از آن می‌سازد.",
+  'revisions.sourceGenerate': "تولید",
+  'revisions.sourceRefine': "بهبود",
+  'revisions.sourceEdit': "ویرایش",
+  'diff.title': "مقایسهٔ نسخه‌ها",
+  'diff.changesOnly': "فقط تغییرات",
+  'diff.identical': "این نسخه‌ها یکسان‌اند.",
+  'diff.unchangedOne': "{count} خط بدون تغییر",
+  'diff.unchanged': "{count} خط بدون تغییر",
+
+  'package.title': "بسته‌بندی به‌عنوان برنامه",
+  'package.description': "یک PWA نصب‌شدنی با مانیفست وب، آیکون‌های تولیدشده و سرویس‌ورکر آفلاین می‌سازد.",
+  'package.iconAlt': "آیکون برنامه",
+  'package.appName': "نام برنامه",
+  'package.shortName': "نام کوتاه",
+  'package.themeColor': "رنگ پوسته",
+  'package.includeCapacitor': "افزودن پروژهٔ Capacitor",
+  'package.capacitorHint': "پروژه‌ای اضافه می‌کند که می‌توانید با Android Studio آن را به APK تبدیل کنید.",
+  'package.appId': "شناسهٔ برنامه",
+  'package.appIdHint': "دامنهٔ معکوس، مثلاً com.example.myapp",
+  'package.packaging': "در حال بسته‌بندی...",
+  'package.download': "دانلود بسته",
+  'package.failed': "بسته‌بندی ناموفق بود: {message}",
+
+  'pdf.previous': "صفحهٔ قبل",
+  'pdf.next': "صفحهٔ بعد",
+  'pdf.zoomIn': "بزرگ‌نمایی",
+  'pdf.zoomOut': "کوچک‌نمایی",
+  'pdf.fit': "هم‌اندازه با پنل",
+  'pdf.page': "صفحهٔ {page}",
+  'pdf.failed': "نمایش پیش‌نمایش PDF ممکن نشد.",
+  'pdf.notInitialized': "کتابخانهٔ PDF آماده نیست",
+  'document.failed': "خواندن این سند ممکن نشد.",
+  'document.summary': "{rows} ردیف × {columns} ستون",
+  'document.truncated': "نمایش {count} ردیف نخست",
+
+  'provider.model': "مدل",
+  'provider.baseUrl': "نشانی پایه",
+  'provider.apiKey': "کلید API (اختیاری)",
+  'provider.chunkDelay': "تأخیر هر بخش (میلی‌ثانیه)",
+  'provider.geminiDescription': "Google Gemini از طریق GenAI SDK.",
+  'provider.httpDescription': "هر نقطهٔ پایانی /chat/completions: ‏Ollama، LM Studio، vLLM، OpenAI.",
+  'provider.mockDescription': "برنامه‌های نمونهٔ قطعی. بدون شبکه، برای نمایش و آزمایش.",
+  'provider.timeout': "مهلت (ثانیه)",
+  'provider.maxRetries': "تلاش‌های دوباره",
+  'provider.requestsHint': "درخواست پس از این تعداد ثانیه بدون خروجی رها می‌شود (۰ مهلت را غیرفعال می‌کند). محدودیت نرخ، خطاهای سرور و شبکه با تأخیر نمایی دوباره امتحان می‌شوند.",
+
+  'modes.label': "حالت تولید",
+  'modes.manage': "مدیریت حالت‌ها…",
+  'modes.auto': "خودکار",
+  'modes.autoDescription': "از روی ورودی تصمیم می‌گیرد چه چیزی ساخته شود.",
+  'modes.game': "بازی",
+  'modes.gameDescription': "بازی‌های قابل اجرا با حلقه، امتیاز و شروع دوباره.",
+  'modes.dashboard': "داشبورد",
+  'modes.dashboardDescription': "داشبوردهای داده با شاخص‌ها، نمودارها و فیلترها.",
+  'modes.crud': "فرم / ابزار CRUD",
+  'modes.crudDescription': "فرم‌ها و مدیران رکورد که داده‌ها را نگه می‌دارند.",
+  'modes.landing': "صفحه فرود",
+  'modes.landingDescription': "صفحات بازاریابی با بخش اصلی، ویژگی‌ها و دعوت به اقدام.",
+  'modes.simulation': "شبیه‌سازی",
+  'modes.simulationDescription': "شبیه‌سازی‌های باورپذیر از ابزارهایی که مرورگر نمی‌تواند اجرا کند.",
+  'modes.educational': "ابزارک آموزشی",
+  'modes.educationalDescription': "توضیحات تعاملی و آزمونک.",
+  'modes.editorTitle': "حالت‌های تولید",
+  'modes.builtIn': "داخلی",
+  'modes.version': "نسخه {version}",
+  'modes.new': "حالت جدید",
+  'modes.untitled': "حالت بی‌نام",
+  'modes.duplicate': "تکثیر",
+  'modes.copyName': "{name} (رونوشت)",
+  'modes.export': "خروجی گرفتن",
+  'modes.exportAll': "خروجی همه",
+  'modes.import': "وارد کردن",
+  'modes.importDone': "{added} حالت جدید وارد و {updated} حالت به‌روز شد. {skipped} حالت به‌روز نادیده گرفته شد.",
+  'modes.importFailed': "این فایل حالت تولید معتبری ندارد.",
+  'modes.delete': "حذف",
+  'modes.deleteConfirm': "حالت «{name}» حذف شود؟",
+  'modes.discardConfirm': "تغییرات ذخیره‌نشده این حالت کنار گذاشته شود؟",
+  'modes.readOnly': "حالت‌های داخلی فقط‌خواندنی هستند. برای سفارشی‌سازی یکی را تکثیر کنید.",
+  'modes.name': "نام",
+  'modes.description': "توضیحات",
+  'modes.temperature': "دما",
+  'modes.temperatureHint': "مقدار کمتر قابل پیش‌بینی‌تر و بیشتر خلاقانه‌تر است.",
+  'modes.instructions': "دستورالعمل‌های سیستم",
+
+  'error.timeout': "مدل دیگر پاسخ نداد و مهلت درخواست تمام شد. دوباره تلاش کنید یا مهلت را در تنظیمات ارائه‌دهنده مدل افزایش دهید.",
+  'error.quota': "سهمیه تمام شده است. ارائه‌دهنده مدل نرخ استفاده از این کلید API را محدود کرده است. کمی صبر کنید و دوباره تلاش کنید.",
+  'error.safety': "درخواست توسط فیلترهای ایمنی مدل مسدود شد. درخواست خود را بازنویسی کنید یا ورودی دیگری به کار ببرید.",
+  'error.auth': "کلید API وجود ندارد یا رد شده است. تنظیمات ارائه‌دهنده مدل را بررسی کنید.",
+  'error.network': "دسترسی به ارائه‌دهنده مدل ممکن نشد. اتصال خود را بررسی و دوباره تلاش کنید.",
+  'error.server': "ارائه‌دهنده مدل خطای سرور برگرداند. لطفاً بعداً دوباره تلاش کنید.",
+  'error.invalidRequest': "ارائه‌دهنده مدل درخواست را رد کرد. ممکن است ورودی بیش از حد بزرگ باشد یا این مدل از آن پشتیبانی نکند.",
+  'error.empty': "مدل پاسخ خالی برگرداند. لطفاً دوباره تلاش کنید.",
+
+  'variants.title': "نسخه‌ها",
+  'variants.single': "یک برنامه بساز. برای مقایسه کنار هم ۲ تا ۴ نسخه انتخاب کنید.",
+  'variants.hint': "هر نسخه به‌طور موازی با حالت و دمای خودش اجرا می‌شود.",
+  'variants.heading': "نسخه‌ها ({count})",
+  'variants.name': "{name} #{index}",
+  'variants.select': "انتخاب",
+  'variants.selected': "انتخاب‌شده",
+  'variants.open': "فقط همین را نگه دار و باز کن",
+  'variants.cancelled': "لغو شد",
+  'variants.failed': "این نسخه ناموفق بود. نسخه‌های دیگر تحت تأثیر قرار نگرفتند.",
+  'variants.generating': "در حال تولید نسخه‌ها…",
+  'variants.selectedCount': "{count} انتخاب‌شده",
+  'variants.discard': "کنار گذاشتن همه",
+  'variants.confirmDiscard': "همه نسخه‌هایی که نگه داشته نشده‌اند کنار گذاشته شوند؟",
+  'variants.keep': "نگه داشتن انتخاب‌شده‌ها",
+  'variants.frameTitle': "نسخه {index}",
+  'variants.framePartialTitle': "نسخه {index} (در حال بارگذاری)",
+
+  'archive.search': "جستجو در نام‌ها، پرامپت‌ها و برچسب‌ها…",
+  'archive.kind': "نوع ورودی",
+  'archive.kindAny': "همهٔ ورودی‌ها",
+  'archive.kindImage': "تصویر",
+  'archive.kindPdf': "PDF",
+  'archive.kindDocument': "سند",
+  'archive.kindText': "فقط متن",
+  'archive.date': "تاریخ",
+  'archive.dateAny': "هر زمان",
+  'archive.dateToday': "امروز",
+  'archive.dateWeek': "۷ روز اخیر",
+  'archive.dateMonth': "۳۰ روز اخیر",
+  'archive.sort': "مرتب‌سازی",
+  'archive.sortNewest': "جدیدترین",
+  'archive.sortOldest': "قدیمی‌ترین",
+  'archive.sortNameAsc': "نام الف–ی",
+  'archive.sortNameDesc': "نام ی–الف",
+  'archive.pinnedOnly': "سنجاق‌شده",
+  'archive.pin': "سنجاق کردن",
+  'archive.unpin': "برداشتن سنجاق",
+  'archive.rename': "تغییر نام",
+  'archive.delete': "حذف",
+  'archive.open': "باز کردن",
+  'archive.addTag': "برچسب",
+  'archive.removeTag': "حذف برچسب {tag}",
+  'archive.tagPlaceholder': "برچسب جدید",
+  'archive.empty': "هنوز چیزی در آرشیو نیست.",
+  'archive.noMatches': "هیچ ساخته‌ای با این فیلترها مطابقت ندارد.",
+  'archive.clearFilters': "پاک کردن فیلترها",
+  'archive.showing': "نمایش {count} از {total}",
+  'archive.deleted': "«{name}» حذف شد",
+  'archive.undo': "بازگردانی",
+  'archive.deleteFailed': "حذف ساخته ممکن نشد.",
+  'archive.select': "انتخاب",
+
+  'backup.import': "درون‌ریزی",
+  'backup.importing': "در حال درون‌ریزی…",
+  'backup.importTitle': "درون‌ریزی ساخته‌ها",
+  'backup.doneTitle': "درون‌ریزی انجام شد",
+  'backup.found': "{count} ساخته در {file} پیدا شد",
+  'backup.version': "نسخهٔ طرح آرشیو {version}",
+  'backup.migrated': "نسخهٔ طرح قدیمی‌تر {from}، به {to} ارتقا یافت",
+  'backup.collisions': "{count} مورد از قبل در آرشیو شما هست. با آن‌ها چه شود؟",
+  'backup.policySkip': "رد کردن",
+  'backup.policySkipHint': "نسخه‌های موجود در آرشیو حفظ شوند.",
+  'backup.policyOverwrite': "جایگزینی",
+  'backup.policyOverwriteHint': "با نسخه‌های درون‌ریزی‌شده جایگزین شوند.",
+  'backup.policyDuplicate': "نگه داشتن هر دو",
+  'backup.policyDuplicateHint': "به‌عنوان ساخته‌های جدید کنار موارد موجود درون‌ریزی شوند.",
+  'backup.rejected': "ردشده ({count})",
+  'backup.rejectNotObject': "رکورد ساخته نیست",
+  'backup.rejectMissing': "فیلد {field} وجود ندارد",
+  'backup.rejectInvalid': "مقدار نامعتبر در {field}",
+  'backup.rejectSaveFailed': "ذخیره نشد",
+  'backup.imported': "{count} ساخته درون‌ریزی شد",
+  'backup.added': "افزوده",
+  'backup.overwritten': "جایگزین‌شده",
+  'backup.duplicated': "افزوده به‌صورت رونوشت",
+  'backup.skipped': "ردشده",
+  'backup.exportAll': "برون‌بری همه",
+  'backup.exportSelected': "برون‌بری {count} مورد انتخاب‌شده",
+  'backup.exportFailed': "برون‌بری آرشیو ممکن نشد.",
+  'backup.errorInvalidJson': "این فایل JSON معتبر نیست.",
+  'backup.errorUnrecognized': "این فایل آرشیو یا فایل ساخته نیست.",
+  'backup.errorNewerVersion': "این آرشیو با نسخهٔ جدیدتری از برنامه ساخته شده است. برای درون‌ریزی، برنامه را به‌روز کنید.",
+
+  'share.title': "کپی پیوند اشتراک",
+  'share.creating': "در حال ساخت پیوند…",
+  'share.copied': "پیوند کپی شد",
+  'share.copyManually': "این پیوند را کپی کنید",
+  'share.copy': "کپی",
+  'share.hint': "هر کس پیوند را داشته باشد می‌تواند برنامه را باز کند. چیزی بارگذاری نمی‌شود؛ برنامه درون پیوند است.",
+  'share.risky': "این پیوند طولانی است. برخی برنامه‌های گفتگو و ایمیل پیوندهای طولانی را کوتاه می‌کنند؛ اگر باز نشد، فایل برون‌بری‌شده را بفرستید.",
+  'share.tooLong': "این برنامه برای پیوند بیش از حد بزرگ است ({size}). آن را به‌صورت فایل برون‌بری کنید.",
+  'share.failed': "ساخت پیوند اشتراک ممکن نشد.",
+  'share.invalid': "این پیوند اشتراک خراب یا ناقص است. دوباره پیوند را بخواهید.",
+  'share.readOnly': "اشتراکی · فقط خواندنی",
+  'share.addToArchive': "افزودن به آرشیو من",
+
+  'examples.title': "نمونه‌ها",
+  'examples.all': "همه",
+  'examples.categoryGames': "بازی‌ها",
+  'examples.categoryTools': "ابزارها",
+  'examples.categoryDashboards': "داشبوردها",
+  'examples.categoryLearning': "آموزشی",
+  'examples.categoryOther': "سایر",
+  'examples.tryThis': "امتحان کنید",
+  'examples.remix': "بازسازی",
+  'examples.remixHint': "نسخهٔ خودتان را برای بهبود یا ویرایش باز کنید",
+  'examples.remixName': "{name} (بازسازی)",
+  'examples.inArchive': "در آرشیو",
+  'examples.addAll': "افزودن {count} به آرشیو",
+  'examples.added': "{count} نمونه به آرشیو شما افزوده شد",
+  'examples.allAdded': "همهٔ نمونه‌ها در آرشیو شما هستند",
+  'examples.packs': "بسته‌های نمونه",
+  'examples.editPacks': "ویرایش",
+  'examples.packsHint': "هر خط یک نشانی. بسته‌ها فایل‌های JSON با قالب \"example-pack\" هستند. نمونه‌های همراه برنامه همیشه در دسترس‌اند، حتی بدون اینترنت.",
+  'examples.noPacks': "بستهٔ راه‌دوری وجود ندارد. فقط نمونه‌های همراه برنامه نمایش داده می‌شوند.",
+  'examples.loadingPack': "در حال بارگیری…",
+  'examples.packLoaded': "{count} نمونه",
+  'examples.packUnreachable': "در دسترس نیست",
+  'examples.packTimeout': "زمان تمام شد",
+  'examples.packInvalid': "بستهٔ نمونه نیست",
+
+  'viewport.label': "نمای دید",
+  'viewport.fill': "پر کردن",
+  'viewport.phone': "تلفن",
+  'viewport.tablet': "تبلت",
+  'viewport.laptop': "لپ‌تاپ",
+  'viewport.desktop': "رایانهٔ رومیزی",
+  'viewport.custom': "سفارشی",
+  'viewport.width': "عرض (px)",
+  'viewport.height': "ارتفاع (px)",
+  'viewport.rotate': "چرخش",
+  'viewport.fit': "بزرگ‌نمایی برای جا شدن",
+  'viewport.bezel': "قاب دستگاه",
+  'viewport.size': "{width} × {height} · {percent}٪",
+};
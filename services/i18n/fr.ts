@@ -0,0 +1,409 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from "./types";
+
+export const fr: Messages = {
+  'common.cancel': "Annuler",
+  'common.save': "Enregistrer",
+  'common.apply': "Appliquer",
+  'common.close': "Fermer",
+
+  'app.modelProvider': "Fournisseur de modèle",
+  'app.language': "Langue",
+  'app.lightMode': "Mode clair",
+  'app.darkMode': "Mode sombre",
+  'app.importArtifact': "Importer un artefact",
+  'app.uploadPreviousArtifact': "Importer un artefact précédent",
+  'app.newCreation': "Nouvelle création",
+  'app.manualEdit': "Modification manuelle",
+  'app.refineDone': "Application mise à jour.",
+  'app.saveFailed': "Impossible d'enregistrer cette création dans l'archive. Le stockage du navigateur est peut-être plein.",
+  'app.readFileFailed': "Impossible de lire {name}. Vérifiez le fichier et réessayez.",
+  'app.generateFailed': "Un problème est survenu lors de la génération de votre idée. Veuillez réessayer.",
+  'app.refineFailed': "Impossible d'appliquer cette modification. Veuillez réessayer.",
+  'app.creationNotFound': "Cette création est introuvable dans l'archive.",
+  'app.importFailed': "Échec de l'import de la création.",
+
+  'hero.labelPatent': "BREVET",
+  'hero.labelGame': "JEU",
+  'hero.labelData': "DONNÉES",
+  'hero.labelApp': "APPLI",
+  'hero.titleStart': "Donnez vie",
+  'hero.titleMiddle': "à ",
+  'hero.titleHighlight': "tout",
+  'hero.titleEnd': ".",
+  'hero.subtitle': "Gemini voit du code en toute chose. Déposez une vieille carte, un plan d'étage, un schéma ou un gribouillis, et regardez-le devenir instantanément une expérience interactive fonctionnelle.",
+
+  'input.cycle1': "un croquis sur une serviette",
+  'input.cycle2': "un tableau blanc chaotique",
+  'input.cycle3': "un scanner réseau",
+  'input.cycle4': "un niveau de jeu",
+  'input.cycle5': "une interface de science-fiction",
+  'input.cycle6': "le schéma d'une machine",
+  'input.cycle7': "un parchemin ancien",
+  'input.bring': "Donnez vie à",
+  'input.toLife': "en un instant",
+  'input.dragDrop': "Glissez-déposez",
+  'input.tap': "Touchez",
+  'input.attachHint': "pour joindre des images, des PDF, des données ou des documents",
+  'input.placeholder': "Ou décrivez une idée (ex. « Un tableau de bord Wi-Fi qui détecte les réseaux cachés »)...",
+  'input.placeholderWithFiles': "Instructions facultatives pour ces fichiers (ex. « en style kanban »)...",
+  'input.unsupported': "Fichiers pris en charge : images, PDF, CSV, TSV, JSON, Markdown, texte brut et DOCX.",
+  'input.tooMany': "Vous pouvez joindre jusqu'à {max} fichiers.",
+  'input.remove': "Retirer",
+  'input.choosePages': "Choisir les pages",
+  'input.allPages': "Toutes les pages",
+  'input.editSketch': "Modifier le croquis",
+  'input.drawSketch': "Dessiner un croquis",
+  'input.sketchFailed': "Impossible d'exporter le croquis.",
+
+  'picker.title': "Choisir les pages",
+  'picker.hint': "Seules les pages sélectionnées sont envoyées au modèle. Cliquez sur les miniatures ou saisissez des plages comme 3-5, 8.",
+  'picker.openFailed': "Impossible d'ouvrir ce PDF.",
+  'picker.count': "{selected} pages sur {total}",
+
+  'sketch.pen': "Stylo",
+  'sketch.eraser': "Gomme",
+  'sketch.line': "Ligne",
+  'sketch.arrow': "Flèche",
+  'sketch.rect': "Rectangle",
+  'sketch.ellipse': "Ellipse",
+  'sketch.text': "Étiquette",
+  'sketch.labelPrompt': "Texte de l'étiquette :",
+  'sketch.undo': "Annuler",
+  'sketch.redo': "Rétablir",
+  'sketch.clear': "Tout effacer",
+  'sketch.attach': "Joindre le croquis",
+
+  'history.title': "Archive",
+  'history.storageUsed': "Stockage du navigateur utilisé",
+  'history.restore': "Restaurer",
+  'history.viewAll': "Tout afficher ({count})",
+
+  'preview.close': "Fermer l'aperçu",
+  'preview.processing': "Traitement en cours...",
+  'preview.mode': "Mode aperçu",
+  'preview.tabPreview': "Aperçu",
+  'preview.tabCode': "Code",
+  'preview.saveTitle': "Enregistrer comme nouvelle révision (Ctrl+S)",
+  'preview.discard': "Abandonner",
+  'preview.discardTitle': "Abandonner les modifications",
+  'preview.confirmDiscard': "Abandonner vos modifications de code non enregistrées ?",
+  'preview.appOnly': "Afficher l'application seule",
+  'preview.compareOriginal': "Comparer avec l'original",
+  'preview.hideRefine': "Masquer le panneau d'affinage",
+  'preview.showRefine': "Affiner par des demandes de suivi",
+  'preview.package': "Empaqueter en application installable",
+  'preview.newUpload': "Nouvel import",
+  'preview.new': "Nouveau",
+  'preview.inputSource': "Source",
+  'preview.editSketch': "Modifier le croquis",
+  'preview.editSketchTitle': "Ouvrir ce croquis dans le bloc de dessin",
+  'preview.received': "{size} reçus",
+  'preview.frameTitle': "Aperçu en direct de l'application générée",
+
+  'monitor.title': "Construction de l'environnement",
+  'monitor.repairing': "Correction des erreurs de validation...",
+  'monitor.streaming': "Réception du code généré...",
+  'monitor.waiting': "En attente des premiers jetons...",
+  'monitor.elapsed': "Écoulé",
+  'monitor.received': "Reçu",
+  'monitor.tokens': "Jetons",
+  'monitor.chunks': "{count} fragm.",
+  'monitor.requestSent': "Requête envoyée",
+  'monitor.receiving': "Réception de la sortie",
+  'monitor.head': "En-tête et styles",
+  'monitor.body': "<body> atteint",
+  'monitor.script': "<script> atteint",
+  'monitor.closed': "Document terminé",
+  'monitor.partialRender': "Rendu partiel",
+  'monitor.liveSource': "Source en direct",
+  'monitor.cancel': "Annuler",
+  'monitor.retrying': "{reason}. Nouvel essai dans {seconds} s (tentative {attempt} sur {max})",
+  'monitor.attempt': "Tentative {attempt} sur {max}",
+  'monitor.reasonTimeout': "Délai dépassé",
+  'monitor.reasonQuota': "Limite de débit",
+  'monitor.reasonNetwork': "Erreur réseau",
+  'monitor.reasonServer': "Erreur serveur",
+  'monitor.frameTitle': "Aperçu partiel",
+
+  'refine.title': "Affiner",
+  'refine.close': "Fermer le panneau d'affinage",
+  'refine.intro': "Décrivez une modification et l'aperçu sera mis à jour sur place.",
+  'refine.suggestion1': "Ajoute un bouton de réinitialisation",
+  'refine.suggestion2': "Passe à un thème clair",
+  'refine.suggestion3': "Rends-la adaptée au mobile",
+  'refine.applying': "Application des modifications...",
+  'refine.placeholder': "ex. transforme le graphique en histogramme",
+
+  'console.title': "Console",
+  'console.fixTitle': "Envoyer les erreurs capturées au modèle",
+  'console.fix': "Corriger ces erreurs",
+  'console.fixing': "Correction...",
+  'console.clear': "Vider la console",
+  'console.empty': "Aucune sortie pour l'instant.",
+
+  'export.title': "Exporter",
+  'export.failed': "Échec de l'export : {message}",
+  'export.html': "HTML autonome",
+  'export.htmlHint': "Un seul fichier, double-cliquez pour l'ouvrir",
+  'export.zip': "Archive Zip",
+  'export.zipHint': "index.html, styles.css, app.js, entrées, README",
+  'export.png': "Capture PNG",
+  'export.pngHint': "Rendu en 1280×800, 2x",
+  'export.json': "Artefact (JSON)",
+  'export.jsonHint': "À réimporter dans cette application",
+
+  'sandbox.title': "Autorisations du bac à sable",
+  'sandbox.heading': "Bac à sable",
+  'sandbox.description': "S'exécute dans une origine isolée sans accès au stockage de cette application. Son propre stockage dure jusqu'au rechargement de l'aperçu.",
+  'sandbox.network': "Réseau",
+  'sandbox.networkHint': "fetch, XHR, WebSockets et ressources de n'importe quel hôte",
+  'sandbox.popups': "Fenêtres surgissantes",
+  'sandbox.popupsHint': "window.open et liens ouvrant de nouveaux onglets",
+  'sandbox.modals': "Boîtes de dialogue",
+  'sandbox.modalsHint': "alert, confirm et prompt",
+  'sandbox.cdnNote': "Les scripts, styles et polices se chargent toujours depuis {hosts}.",
+
+  'validation.title': "Validation de la sortie",
+  'validation.repairRequested': "Réparation demandée",
+  'validation.remaining': "Restant",
+  'validation.fixed': "Corrigé automatiquement",
+
+  'revisions.previous': "Révision précédente",
+  'revisions.tree': "Arbre des révisions",
+  'revisions.next': "Révision suivante",
+  'revisions.nextBranches': "Révision suivante ({count} branches)",
+  'revisions.compare': "Comparer les révisions...",
+  'revisions.branchNote': "Affiner ou modifier une révision plus ancienne crée une nouvelle branche à partir de celle-ci.",
+  'revisions.sourceGenerate': "génération",
+  'revisions.sourceRefine': "affinage",
+  'revisions.sourceEdit': "modification",
+  'diff.title': "Comparer les révisions",
+  'diff.changesOnly': "Modifications uniquement",
+  'diff.identical': "Ces révisions sont identiques.",
+  'diff.unchangedOne': "{count} ligne inchangée",
+  'diff.unchanged': "{count} lignes inchangées",
+
+  'package.title': "Empaqueter en application",
+  'package.description': "Crée une PWA installable avec un manifeste web, des icônes générées et un service worker hors ligne.",
+  'package.iconAlt': "Icône de l'application",
+  'package.appName': "Nom de l'application",
+  'package.shortName': "Nom court",
+  'package.themeColor': "Couleur du thème",
+  'package.includeCapacitor': "Inclure un projet Capacitor",
+  'package.capacitorHint': "Ajoute un projet que vous pouvez compiler en APK avec Android Studio.",
+  'package.appId': "ID de l'application",
+  'package.appIdHint': "Domaine inversé, ex. com.example.myapp",
+  'package.packaging': "Empaquetage...",
+  'package.download': "Télécharger le paquet",
+  'package.failed': "Échec de l'empaquetage : {message}",
+
+  'pdf.previous': "Page précédente",
+  'pdf.next': "Page suivante",
+  'pdf.zoomIn': "Zoom avant",
+  'pdf.zoomOut': "Zoom arrière",
+  'pdf.fit': "Ajuster au panneau",
+  'pdf.page': "Page {page}",
+  'pdf.failed': "Impossible d'afficher l'aperçu du PDF.",
+  'pdf.notInitialized': "Bibliothèque PDF non initialisée",
+  'document.failed': "Impossible de lire ce document.",
+  'document.summary': "{rows} lignes × {columns} colonnes",
+  'document.truncated': "affichage des {count} premières",
+
+  'provider.model': "Modèle",
+  'provider.baseUrl': "URL de base",
+  'provider.apiKey': "Clé API (facultative)",
+  'provider.chunkDelay': "Délai par fragment (ms)",
+  'provider.geminiDescription': "Google Gemini via le SDK GenAI.",
+  'provider.httpDescription': "Tout point d'accès /chat/completions : Ollama, LM Studio, vLLM, OpenAI.",
+  'provider.mockDescription': "Applications de démonstration déterministes. Sans réseau, pour les démos et les tests.",
+  'provider.timeout': "Délai (secondes)",
+  'provider.maxRetries': "Nouvelles tentatives",
+  'provider.requestsHint': "Une requête est abandonnée après ce nombre de secondes sans réponse (0 désactive le délai). Les limites de débit, erreurs serveur et pannes réseau sont réessayées avec un délai exponentiel.",
+
+  'modes.label': "Mode de génération",
+  'modes.manage': "Gérer les modes…",
+  'modes.auto': "Auto",
+  'modes.autoDescription': "Décide quoi construire à partir de l'entrée.",
+  'modes.game': "Jeu",
+  'modes.gameDescription': "Jeux jouables avec boucle, score et redémarrage.",
+  'modes.dashboard': "Tableau de bord",
+  'modes.dashboardDescription': "Tableaux de bord avec indicateurs, graphiques et filtres.",
+  'modes.crud': "Formulaire / outil CRUD",
+  'modes.crudDescription': "Formulaires et gestionnaires d'enregistrements qui conservent les données.",
+  'modes.landing': "Page d'atterrissage",
+  'modes.landingDescription': "Pages marketing avec accroche, fonctionnalités et appel à l'action.",
+  'modes.simulation': "Simulation",
+  'modes.simulationDescription': "Simulations convaincantes d'outils que le navigateur ne peut pas exécuter.",
+  'modes.educational': "Widget éducatif",
+  'modes.educationalDescription': "Explications interactives et quiz.",
+  'modes.editorTitle': "Modes de génération",
+  'modes.builtIn': "Intégré",
+  'modes.version': "v{version}",
+  'modes.new': "Nouveau mode",
+  'modes.untitled': "Mode sans titre",
+  'modes.duplicate': "Dupliquer",
+  'modes.copyName': "{name} (copie)",
+  'modes.export': "Exporter",
+  'modes.exportAll': "Tout exporter",
+  'modes.import': "Importer",
+  'modes.importDone': "{added} nouveaux modes importés et {updated} mis à jour. {skipped} déjà à jour ignorés.",
+  'modes.importFailed': "Ce fichier ne contient aucun mode de génération valide.",
+  'modes.delete': "Supprimer",
+  'modes.deleteConfirm': "Supprimer le mode « {name} » ?",
+  'modes.discardConfirm': "Abandonner les modifications non enregistrées de ce mode ?",
+  'modes.readOnly': "Les modes intégrés sont en lecture seule. Dupliquez-en un pour le personnaliser.",
+  'modes.name': "Nom",
+  'modes.description': "Description",
+  'modes.temperature': "Température",
+  'modes.temperatureHint': "Plus bas est plus prévisible, plus haut est plus inventif.",
+  'modes.instructions': "Instructions système",
+
+  'error.timeout': "Le modèle ne répond plus et la requête a expiré. Réessayez ou augmentez le délai dans les paramètres du fournisseur.",
+  'error.quota': "Quota dépassé. Le fournisseur limite le débit de cette clé API. Patientez un instant puis réessayez.",
+  'error.safety': "La requête a été bloquée par les filtres de sécurité du modèle. Reformulez votre demande ou utilisez une autre entrée.",
+  'error.auth': "La clé API est absente ou a été refusée. Vérifiez les paramètres du fournisseur de modèle.",
+  'error.network': "Impossible de joindre le fournisseur de modèle. Vérifiez votre connexion et réessayez.",
+  'error.server': "Le fournisseur de modèle a renvoyé une erreur serveur. Veuillez réessayer plus tard.",
+  'error.invalidRequest': "Le fournisseur de modèle a refusé la requête. L'entrée est peut-être trop volumineuse ou non prise en charge par ce modèle.",
+  'error.empty': "Le modèle a renvoyé une réponse vide. Veuillez réessayer.",
+
+  'variants.title': "Variantes",
+  'variants.single': "Générer une seule app. Choisissez 2 à 4 pour comparer des variantes côte à côte.",
+  'variants.hint': "Chaque variante s'exécute en parallèle avec son propre mode et sa température.",
+  'variants.heading': "Variantes ({count})",
+  'variants.name': "{name} n°{index}",
+  'variants.select': "Sélectionner",
+  'variants.selected': "Sélectionnée",
+  'variants.open': "Garder uniquement celle-ci et l'ouvrir",
+  'variants.cancelled': "Annulée",
+  'variants.failed': "Cette variante a échoué. Les autres ne sont pas affectées.",
+  'variants.generating': "Génération des variantes…",
+  'variants.selectedCount': "{count} sélectionnée(s)",
+  'variants.discard': "Tout abandonner",
+  'variants.confirmDiscard': "Abandonner toutes les variantes non conservées ?",
+  'variants.keep': "Garder la sélection",
+  'variants.frameTitle': "Variante {index}",
+  'variants.framePartialTitle': "Variante {index} (chargement)",
+
+  'archive.search': "Rechercher noms, prompts et tags…",
+  'archive.kind': "Type d'entrée",
+  'archive.kindAny': "Toutes les entrées",
+  'archive.kindImage': "Image",
+  'archive.kindPdf': "PDF",
+  'archive.kindDocument': "Document",
+  'archive.kindText': "Texte seul",
+  'archive.date': "Date",
+  'archive.dateAny': "Toutes dates",
+  'archive.dateToday': "Aujourd'hui",
+  'archive.dateWeek': "7 derniers jours",
+  'archive.dateMonth': "30 derniers jours",
+  'archive.sort': "Tri",
+  'archive.sortNewest': "Plus récentes",
+  'archive.sortOldest': "Plus anciennes",
+  'archive.sortNameAsc': "Nom A–Z",
+  'archive.sortNameDesc': "Nom Z–A",
+  'archive.pinnedOnly': "Épinglées",
+  'archive.pin': "Épingler",
+  'archive.unpin': "Désépingler",
+  'archive.rename': "Renommer",
+  'archive.delete': "Supprimer",
+  'archive.open': "Ouvrir",
+  'archive.addTag': "Tag",
+  'archive.removeTag': "Retirer le tag {tag}",
+  'archive.tagPlaceholder': "Nouveau tag",
+  'archive.empty': "L'archive est encore vide.",
+  'archive.noMatches': "Aucune création ne correspond à ces filtres.",
+  'archive.clearFilters': "Effacer les filtres",
+  'archive.showing': "{count} sur {total}",
+  'archive.deleted': "« {name} » supprimée",
+  'archive.undo': "Annuler",
+  'archive.deleteFailed': "Impossible de supprimer la création.",
+  'archive.select': "Sélectionner",
+
+  'backup.import': "Importer",
+  'backup.importing': "Importation…",
+  'backup.importTitle': "Importer des créations",
+  'backup.doneTitle': "Importation terminée",
+  'backup.found': "{count} créations trouvées dans {file}",
+  'backup.version': "Version du schéma d'archive : {version}",
+  'backup.migrated': "Ancienne version de schéma {from}, mise à niveau vers {to}",
+  'backup.collisions': "{count} déjà dans votre archive. Que faire ?",
+  'backup.policySkip': "Ignorer",
+  'backup.policySkipHint': "Conserver les copies déjà présentes.",
+  'backup.policyOverwrite': "Écraser",
+  'backup.policyOverwriteHint': "Les remplacer par les copies importées.",
+  'backup.policyDuplicate': "Garder les deux",
+  'backup.policyDuplicateHint': "Les importer comme nouvelles créations à côté des existantes.",
+  'backup.rejected': "Rejetées ({count})",
+  'backup.rejectNotObject': "Ce n'est pas une création",
+  'backup.rejectMissing': "Champ {field} manquant",
+  'backup.rejectInvalid': "Valeur invalide dans {field}",
+  'backup.rejectSaveFailed': "Enregistrement impossible",
+  'backup.imported': "{count} créations importées",
+  'backup.added': "Ajoutées",
+  'backup.overwritten': "Écrasées",
+  'backup.duplicated': "Ajoutées en copie",
+  'backup.skipped': "Ignorées",
+  'backup.exportAll': "Tout exporter",
+  'backup.exportSelected': "Exporter {count} sélectionnées",
+  'backup.exportFailed': "Impossible d'exporter l'archive.",
+  'backup.errorInvalidJson': "Ce fichier n'est pas un JSON valide.",
+  'backup.errorUnrecognized': "Ce fichier n'est ni une archive ni un artefact de création.",
+  'backup.errorNewerVersion': "Cette archive provient d'une version plus récente de l'application. Mettez-la à jour pour l'importer.",
+
+  'share.title': "Copier le lien de partage",
+  'share.creating': "Création du lien…",
+  'share.copied': "Lien copié",
+  'share.copyManually': "Copiez ce lien",
+  'share.copy': "Copier",
+  'share.hint': "Toute personne disposant du lien peut ouvrir l'app. Rien n'est envoyé en ligne : l'app voyage dans le lien.",
+  'share.risky': "Ce lien est long. Certaines messageries le tronquent ; s'il ne s'ouvre pas, envoyez plutôt le fichier exporté.",
+  'share.tooLong': "Cette app est trop volumineuse pour un lien ({size}). Exportez-la plutôt en fichier.",
+  'share.failed': "Impossible de créer le lien de partage.",
+  'share.invalid': "Ce lien de partage est endommagé ou incomplet. Redemandez le lien.",
+  'share.readOnly': "Partagé · lecture seule",
+  'share.addToArchive': "Ajouter à mon archive",
+
+  'examples.title': "Exemples",
+  'examples.all': "Tous",
+  'examples.categoryGames': "Jeux",
+  'examples.categoryTools': "Outils",
+  'examples.categoryDashboards': "Tableaux de bord",
+  'examples.categoryLearning': "Apprentissage",
+  'examples.categoryOther': "Autres",
+  'examples.tryThis': "Essayer",
+  'examples.remix': "Remixer",
+  'examples.remixHint': "Ouvrir votre propre copie pour l'affiner ou la modifier",
+  'examples.remixName': "{name} (remix)",
+  'examples.inArchive': "Dans l'archive",
+  'examples.addAll': "Ajouter {count} à l'archive",
+  'examples.added': "{count} exemples ajoutés à votre archive",
+  'examples.allAdded': "Tous les exemples sont dans votre archive",
+  'examples.packs': "Packs d'exemples",
+  'examples.editPacks': "Modifier",
+  'examples.packsHint': "Une URL par ligne. Les packs sont des fichiers JSON au format \"example-pack\". Les exemples intégrés restent disponibles, même hors ligne.",
+  'examples.noPacks': "Aucun pack distant. Seuls les exemples intégrés sont affichés.",
+  'examples.loadingPack': "Chargement…",
+  'examples.packLoaded': "{count} exemples",
+  'examples.packUnreachable': "Inaccessible",
+  'examples.packTimeout': "Délai dépassé",
+  'examples.packInvalid': "Pas un pack d'exemples",
+
+  'viewport.label': "Fenêtre d'affichage",
+  'viewport.fill': "Plein",
+  'viewport.phone': "Téléphone",
+  'viewport.tablet': "Tablette",
+  'viewport.laptop': "Portable",
+  'viewport.desktop': "Bureau",
+  'viewport.custom': "Personnalisé",
+  'viewport.width': "Largeur (px)",
+  'viewport.height': "Hauteur (px)",
+  'viewport.rotate': "Pivoter",
+  'viewport.fit': "Ajuster à la fenêtre",
+  'viewport.bezel': "Cadre d'appareil",
+  'viewport.size': "{width} × {height} · {percent} %",
+};
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Locale, LocaleInfo, MessageKey, MessageParams, Messages, Translate } from "./types";
+import { en } from "./en";
+import { ar } from "./ar";
+import { fr } from "./fr";
+import { es } from "./es";
+import { ur } from "./ur";
+import { fa } from "./fa";
+
+export * from "./types";
+
+const LANG_KEY = 'gemini_app_lang';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALES: LocaleInfo[] = [
+  { id: 'en', nativeName: 'English', englishName: 'English', dir: 'ltr', arabicScript: false },
+  { id: 'ar', nativeName: 'العربية', englishName: 'Arabic', dir: 'rtl', arabicScript: true },
+  { id: 'fr', nativeName: 'Français', englishName: 'French', dir: 'ltr', arabicScript: false },
+  { id: 'es', nativeName: 'Español', englishName: 'Spanish', dir: 'ltr', arabicScript: false },
+  { id: 'ur', nativeName: 'اردو', englishName: 'Urdu', dir: 'rtl', arabicScript: true },
+  { id: 'fa', nativeName: 'فارسی', englishName: 'Persian', dir: 'rtl', arabicScript: true },
+];
+
+const CATALOGS: Record<Locale, Messages> = { en, ar, fr, es, ur, fa };
+
+// Right-to-left languages beyond the UI locales, so generated apps in e.g. Hebrew are still checked
+const RTL_LANGUAGES = new Set([...LOCALES.filter(l => l.dir === 'rtl').map(l => l.id), 'he', 'yi', 'ps', 'sd', 'ug', 'ckb', 'dv']);
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some(l => l.id === value);
+
+export const localeInfo = (locale: Locale): LocaleInfo =>
+  LOCALES.find(l => l.id === locale) ?? LOCALES[0];
+
+/** True for right-to-left language tags such as "ar", "fa-IR" or "he". */
+export const isRtl = (language: string): boolean =>
+  RTL_LANGUAGES.has(language.toLowerCase().split('-')[0]);
+
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(locale, options).format(value);
+}
+
+export function formatDateTime(locale: Locale, date: Date, options?: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat(locale, options).format(date);
+}
+
+const translators = new Map<Locale, Translate>();
+
+/** Returns a cached `t(key, params)` for the locale; numeric params are formatted for it. */
+export function translator(locale: Locale): Translate {
+  let t = translators.get(locale);
+  if (!t) {
+    const catalog = CATALOGS[locale] ?? en;
+    t = (key: MessageKey, params?: MessageParams) => {
+      const message = catalog[key] ?? en[key] ?? key;
+      if (!params) return message;
+      return message.replace(/\{(\w+)\}/g, (match, name: string) => {
+        const value = params[name];
+        if (value === undefined) return match;
+        return typeof value === 'number' ? formatNumber(locale, value) : value;
+      });
+    };
+    translators.set(locale, t);
+  }
+  return t;
+}
+
+/** Saved choice first, then the browser's preferred languages. */
+export function loadLocale(): Locale {
+  const saved = localStorage.getItem(LANG_KEY);
+  if (isLocale(saved)) return saved;
+  for (const language of navigator.languages || [navigator.language]) {
+    const base = language?.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function saveLocale(locale: Locale): void {
+  localStorage.setItem(LANG_KEY, locale);
+}
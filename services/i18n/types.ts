@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { en } from "./en";
+
+export type Locale = 'en' | 'ar' | 'fr' | 'es' | 'ur' | 'fa';
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export interface LocaleInfo {
+  id: Locale;
+  nativeName: string; // Shown in the language picker
+  englishName: string; // Used when telling the model which language the user reads
+  dir: 'ltr' | 'rtl';
+  arabicScript: boolean; // Switches the UI to the Arabic-script font
+}
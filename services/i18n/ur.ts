@@ -0,0 +1,409 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from "./types";
+
+export const ur: Messages = {
+  'common.cancel': "منسوخ کریں",
+  'common.save': "محفوظ کریں",
+  'common.apply': "لاگو کریں",
+  'common.close': "بند کریں",
+
+  'app.modelProvider': "ماڈل فراہم کنندہ",
+  'app.language': "زبان",
+  'app.lightMode': "روشن موڈ",
+  'app.darkMode': "تاریک موڈ",
+  'app.importArtifact': "فائل درآمد کریں",
+  'app.uploadPreviousArtifact': "پچھلی فائل اپ لوڈ کریں",
+  'app.newCreation': "نئی تخلیق",
+  'app.manualEdit': "دستی ترمیم",
+  'app.refineDone': "ایپ اپ ڈیٹ ہو گئی۔",
+  'app.saveFailed': "یہ تخلیق آرکائیو میں محفوظ نہیں ہو سکی۔ ممکن ہے براؤزر کا اسٹوریج بھر گیا ہو۔",
+  'app.readFileFailed': "{name} نہیں پڑھی جا سکی۔ فائل چیک کر کے دوبارہ کوشش کریں۔",
+  'app.generateFailed': "آپ کے خیال کو حقیقت بنانے میں کچھ غلط ہو گیا۔ براہ کرم دوبارہ کوشش کریں۔",
+  'app.refineFailed': "یہ تبدیلی لاگو نہیں ہو سکی۔ براہ کرم دوبارہ کوشش کریں۔",
+  'app.creationNotFound': "یہ تخلیق آرکائیو میں نہیں ملی۔",
+  'app.importFailed': "تخلیق درآمد نہیں ہو سکی۔",
+
+  'hero.labelPatent': "پیٹنٹ",
+  'hero.labelGame': "گیم",
+  'hero.labelData': "ڈیٹا",
+  'hero.labelApp': "ایپ",
+  'hero.titleStart': "ہر چیز کو",
+  'hero.titleMiddle': "",
+  'hero.titleHighlight': "زندہ کریں",
+  'hero.titleEnd': "۔",
+  'hero.subtitle': "Gemini ہر چیز میں کوڈ دیکھتا ہے۔ کوئی پرانا نقشہ، فلور پلان، خاکہ یا آڑی ترچھی لکیریں ڈالیں اور اسے فوراً ایک کارآمد انٹرایکٹو تجربے میں بدلتے دیکھیں۔",
+
+  'input.cycle1': "رومال پر بنا خاکہ",
+  'input.cycle2': "بکھرا ہوا وائٹ بورڈ",
+  'input.cycle3': "نیٹ ورک اسکینر",
+  'input.cycle4': "گیم لیول کا ڈیزائن",
+  'input.cycle5': "سائنس فکشن انٹرفیس",
+  'input.cycle6': "کسی مشین کا خاکہ",
+  'input.cycle7': "قدیم طومار",
+  'input.bring': "بدلیں",
+  'input.toLife': "حقیقت میں",
+  'input.dragDrop': "گھسیٹ کر چھوڑیں",
+  'input.tap': "ٹیپ کریں",
+  'input.attachHint': "تصاویر، PDF، ڈیٹا یا دستاویزات منسلک کرنے کے لیے",
+  'input.placeholder': "یا اپنا خیال بیان کریں (مثلاً 'چھپے ہوئے وائی فائی نیٹ ورک ڈھونڈنے والا ڈیش بورڈ')...",
+  'input.placeholderWithFiles': "ان فائلوں کے لیے اختیاری ہدایات (مثلاً 'کانبان انداز میں بنائیں')...",
+  'input.unsupported': "معاون فائلیں: تصاویر، PDF، CSV، TSV، JSON، Markdown، سادہ متن اور DOCX۔",
+  'input.tooMany': "آپ زیادہ سے زیادہ {max} فائلیں منسلک کر سکتے ہیں۔",
+  'input.remove': "ہٹائیں",
+  'input.choosePages': "صفحات منتخب کریں",
+  'input.allPages': "تمام صفحات",
+  'input.editSketch': "خاکے میں ترمیم",
+  'input.drawSketch': "خاکہ بنائیں",
+  'input.sketchFailed': "خاکہ برآمد نہیں ہو سکا۔",
+
+  'picker.title': "صفحات منتخب کریں",
+  'picker.hint': "صرف منتخب صفحات ماڈل کو بھیجے جاتے ہیں۔ تھمب نیلز پر کلک کریں یا 3-5, 8 جیسی حدود لکھیں۔",
+  'picker.openFailed': "یہ PDF نہیں کھل سکی۔",
+  'picker.count': "{total} میں سے {selected} صفحات",
+
+  'sketch.pen': "قلم",
+  'sketch.eraser': "ربڑ",
+  'sketch.line': "لکیر",
+  'sketch.arrow': "تیر",
+  'sketch.rect': "مستطیل",
+  'sketch.ellipse': "بیضوی",
+  'sketch.text': "متن کا لیبل",
+  'sketch.labelPrompt': "لیبل کا متن:",
+  'sketch.undo': "واپس",
+  'sketch.redo': "دوبارہ",
+  'sketch.clear': "سب صاف کریں",
+  'sketch.attach': "خاکہ منسلک کریں",
+
+  'history.title': "آرکائیو",
+  'history.storageUsed': "استعمال شدہ براؤزر اسٹوریج",
+  'history.restore': "بحال کریں",
+  'history.viewAll': "سب دیکھیں ({count})",
+
+  'preview.close': "پیش منظر بند کریں",
+  'preview.processing': "کارروائی جاری ہے...",
+  'preview.mode': "پیش منظر موڈ",
+  'preview.tabPreview': "پیش منظر",
+  'preview.tabCode': "کوڈ",
+  'preview.saveTitle': "نئے ورژن کے طور پر محفوظ کریں (Ctrl+S)",
+  'preview.discard': "رد کریں",
+  'preview.discardTitle': "ترامیم رد کریں",
+  'preview.confirmDiscard': "کوڈ کی غیر محفوظ ترامیم رد کر دیں؟",
+  'preview.appOnly': "صرف ایپ دکھائیں",
+  'preview.compareOriginal': "اصل سے موازنہ کریں",
+  'preview.hideRefine': "بہتری کا پینل چھپائیں",
+  'preview.showRefine': "مزید ہدایات سے بہتر بنائیں",
+  'preview.package': "قابلِ تنصیب ایپ کے طور پر پیک کریں",
+  'preview.newUpload': "نیا اپ لوڈ",
+  'preview.new': "نیا",
+  'preview.inputSource': "ماخذ",
+  'preview.editSketch': "خاکے میں ترمیم",
+  'preview.editSketchTitle': "یہ خاکہ ڈرائنگ پیڈ پر کھولیں",
+  'preview.received': "{size} موصول",
+  'preview.frameTitle': "تیار کردہ ایپ کا لائیو پیش منظر",
+
+  'monitor.title': "ماحول تیار ہو رہا ہے",
+  'monitor.repairing': "توثیق کی غلطیاں درست کی جا رہی ہیں...",
+  'monitor.streaming': "تیار شدہ کوڈ موصول ہو رہا ہے...",
+  'monitor.waiting': "پہلے ٹوکنز کا انتظار...",
+  'monitor.elapsed': "گزرا وقت",
+  'monitor.received': "موصول",
+  'monitor.tokens': "ٹوکنز",
+  'monitor.chunks': "{count} حصے",
+  'monitor.requestSent': "درخواست بھیج دی گئی",
+  'monitor.receiving': "آؤٹ پٹ موصول ہو رہا ہے",
+  'monitor.head': "ہیڈ اور اسٹائلز",
+  'monitor.body': "<body> تک پہنچ گئے",
+  'monitor.script': "<script> تک پہنچ گئے",
+  'monitor.closed': "دستاویز مکمل",
+  'monitor.partialRender': "جزوی رینڈر",
+  'monitor.liveSource': "براہ راست سورس",
+  'monitor.cancel': "منسوخ کریں",
+  'monitor.retrying': "{reason}۔ {seconds} سیکنڈ میں دوبارہ کوشش (کوشش {attempt} از {max})",
+  'monitor.attempt': "کوشش {attempt} از {max}",
+  'monitor.reasonTimeout': "وقت ختم ہو گیا",
+  'monitor.reasonQuota': "شرح محدود",
+  'monitor.reasonNetwork': "نیٹ ورک کی خرابی",
+  'monitor.reasonServer': "سرور کی خرابی",
+  'monitor.frameTitle': "جزوی پیش منظر",
+
+  'refine.title': "بہتر بنائیں",
+  'refine.close': "بہتری کا پینل بند کریں",
+  'refine.intro': "کوئی تبدیلی بیان کریں اور پیش منظر وہیں اپ ڈیٹ ہو جائے گا۔",
+  'refine.suggestion1': "ری سیٹ بٹن شامل کریں",
+  'refine.suggestion2': "روشن تھیم پر منتقل کریں",
+  'refine.suggestion3': "اسے موبائل کے موافق بنائیں",
+  'refine.applying': "تبدیلیاں لاگو ہو رہی ہیں...",
+  'refine.placeholder': "مثلاً چارٹ کو بار چارٹ بنا دیں",
+
+  'console.title': "کنسول",
+  'console.fixTitle': "پکڑی گئی غلطیاں ماڈل کو بھیجیں",
+  'console.fix': "یہ غلطیاں درست کریں",
+  'console.fixing': "درست کیا جا رہا ہے...",
+  'console.clear': "کنسول صاف کریں",
+  'console.empty': "ابھی تک کوئی آؤٹ پٹ نہیں۔",
+
+  'export.title': "برآمد کریں",
+  'export.failed': "برآمد ناکام: {message}",
+  'export.html': "اسٹینڈ الون HTML",
+  'export.htmlHint': "ایک فائل، کھولنے کے لیے ڈبل کلک کریں",
+  'export.zip': "Zip بنڈل",
+  'export.zipHint': "index.html، styles.css، app.js، ان پٹس، README",
+  'export.png': "PNG اسکرین شاٹ",
+  'export.pngHint': "1280×800 پر رینڈر، 2x",
+  'export.json': "تخلیق کی فائل (JSON)",
+  'export.jsonHint': "اس ایپ میں دوبارہ درآمد کے لیے",
+
+  'sandbox.title': "سینڈ باکس کی اجازتیں",
+  'sandbox.heading': "سینڈ باکس",
+  'sandbox.description': "الگ تھلگ اوریجن میں چلتا ہے اور اس ایپ کے اسٹوریج تک رسائی نہیں رکھتا۔ اس کا اپنا اسٹوریج پیش منظر دوبارہ لوڈ ہونے تک رہتا ہے۔",
+  'sandbox.network': "نیٹ ورک",
+  'sandbox.networkHint': "fetch، XHR، WebSockets اور کسی بھی ہوسٹ سے وسائل",
+  'sandbox.popups': "پاپ اپس",
+  'sandbox.popupsHint': "window.open اور نئے ٹیب کھولنے والے لنکس",
+  'sandbox.modals': "ڈائیلاگ",
+  'sandbox.modalsHint': "alert، confirm اور prompt",
+  'sandbox.cdnNote': "اسکرپٹس، اسٹائلز اور فونٹس اب بھی {hosts} سے لوڈ ہوتے ہیں۔",
+
+  'validation.title': "آؤٹ پٹ کی توثیق",
+  'validation.repairRequested': "مرمت کی درخواست کی گئی",
+  'validation.remaining': "باقی",
+  'validation.fixed': "خودکار طور پر درست کیا گیا",
+
+  'revisions.previous': "پچھلا ورژن",
+  'revisions.tree': "ورژنز کا درخت",
+  'revisions.next': "اگلا ورژن",
+  'revisions.nextBranches': "اگلا ورژن ({count} شاخیں)",
+  'revisions.compare': "ورژنز کا موازنہ...",
+  'revisions.branchNote': "پرانے ورژن کو بہتر بنانے یا اس میں ترمیم سے اس سے ایک نئی شاخ شروع ہوتی ہے۔",
+  'revisions.sourceGenerate': "تخلیق",
+  'revisions.sourceRefine': "بہتری",
+  'revisions.sourceEdit': "ترمیم",
+  'diff.title': "ورژنز کا موازنہ",
+  'diff.changesOnly': "صرف تبدیلیاں",
+  'diff.identical': "یہ ورژنز یکساں ہیں۔",
+  'diff.unchangedOne': "{count} غیر تبدیل شدہ لائن",
+  'diff.unchanged': "{count} غیر تبدیل شدہ لائنیں",
+
+  'package.title': "ایپ کے طور پر پیک کریں",
+  'package.description': "ویب مینی فیسٹ، تیار شدہ آئیکنز اور آف لائن سروس ورکر کے ساتھ قابلِ تنصیب PWA بناتا ہے۔",
+  'package.iconAlt': "ایپ آئیکن",
+  'package.appName': "ایپ کا نام",
+  'package.shortName': "مختصر نام",
+  'package.themeColor': "تھیم کا رنگ",
+  'package.includeCapacitor': "Capacitor پروجیکٹ شامل کریں",
+  'package.capacitorHint': "ایسا پروجیکٹ شامل کرتا ہے جسے آپ Android Studio سے APK میں بنا سکتے ہیں۔",
+  'package.appId': "ایپ ID",
+  'package.appIdHint': "الٹا ڈومین، مثلاً com.example.myapp",
+  'package.packaging': "پیک ہو رہا ہے...",
+  'package.download': "پیکیج ڈاؤن لوڈ کریں",
+  'package.failed': "پیکنگ ناکام: {message}",
+
+  'pdf.previous': "پچھلا صفحہ",
+  'pdf.next': "اگلا صفحہ",
+  'pdf.zoomIn': "بڑا کریں",
+  'pdf.zoomOut': "چھوٹا کریں",
+  'pdf.fit': "پینل کے مطابق",
+  'pdf.page': "صفحہ {page}",
+  'pdf.failed': "PDF کا پیش منظر نہیں دکھایا جا سکا۔",
+  'pdf.notInitialized': "PDF لائبریری تیار نہیں",
+  'document.failed': "یہ دستاویز نہیں پڑھی جا سکی۔",
+  'document.summary': "{rows} قطاریں × {columns} کالم",
+  'document.truncated': "پہلی {count} دکھائی جا رہی ہیں",
+
+  'provider.model': "ماڈل",
+  'provider.baseUrl': "بنیادی URL",
+  'provider.apiKey': "API کلید (اختیاری)",
+  'provider.chunkDelay': "ہر حصے کی تاخیر (ملی سیکنڈ)",
+  'provider.geminiDescription': "GenAI SDK کے ذریعے Google Gemini۔",
+  'provider.httpDescription': "کوئی بھی /chat/completions اینڈ پوائنٹ: Ollama، LM Studio، vLLM، OpenAI۔",
+  'provider.mockDescription': "طے شدہ نمونہ ایپس۔ نیٹ ورک کے بغیر، ڈیمو اور ٹیسٹ کے لیے۔",
+  'provider.timeout': "ٹائم آؤٹ (سیکنڈ)",
+  'provider.maxRetries': "دوبارہ کوششیں",
+  'provider.requestsHint': "آؤٹ پٹ کے بغیر اتنے سیکنڈ گزرنے پر درخواست ترک کر دی جاتی ہے (0 ٹائم آؤٹ بند کرتا ہے)۔ شرح کی حد، سرور اور نیٹ ورک کی خرابیوں پر بڑھتے وقفے کے ساتھ دوبارہ کوشش کی جاتی ہے۔",
+
+  'modes.label': "تخلیق کا موڈ",
+  'modes.manage': "موڈز کا انتظام…",
+  'modes.auto': "خودکار",
+  'modes.autoDescription': "ان پٹ سے طے کرتا ہے کہ کیا بنانا ہے۔",
+  'modes.game': "گیم",
+  'modes.gameDescription': "لوپ، اسکور اور دوبارہ شروع کے ساتھ کھیلنے کے قابل گیمز۔",
+  'modes.dashboard': "ڈیش بورڈ",
+  'modes.dashboardDescription': "اشاریوں، چارٹس اور فلٹرز کے ساتھ ڈیٹا ڈیش بورڈز۔",
+  'modes.crud': "فارم / CRUD ٹول",
+  'modes.crudDescription': "فارم اور ریکارڈ مینیجر جو ڈیٹا محفوظ رکھتے ہیں۔",
+  'modes.landing': "لینڈنگ پیج",
+  'modes.landingDescription': "ہیرو، خصوصیات اور کال ٹو ایکشن والے مارکیٹنگ صفحات۔",
+  'modes.simulation': "سیمولیشن",
+  'modes.simulationDescription': "ان ٹولز کی قائل کرنے والی سیمولیشن جو براؤزر نہیں چلا سکتا۔",
+  'modes.educational': "تعلیمی ویجیٹ",
+  'modes.educationalDescription': "تعاملی وضاحتیں اور کوئز۔",
+  'modes.editorTitle': "تخلیق کے موڈز",
+  'modes.builtIn': "بلٹ اِن",
+  'modes.version': "ورژن {version}",
+  'modes.new': "نیا موڈ",
+  'modes.untitled': "بے عنوان موڈ",
+  'modes.duplicate': "نقل بنائیں",
+  'modes.copyName': "{name} (نقل)",
+  'modes.export': "برآمد کریں",
+  'modes.exportAll': "سب برآمد کریں",
+  'modes.import': "درآمد کریں",
+  'modes.importDone': "{added} نئے اور {updated} اپ ڈیٹ شدہ موڈز درآمد ہوئے۔ {skipped} پہلے سے تازہ ترین موڈز چھوڑ دیے گئے۔",
+  'modes.importFailed': "اس فائل میں کوئی درست تخلیقی موڈ نہیں ہے۔",
+  'modes.delete': "حذف کریں",
+  'modes.deleteConfirm': "موڈ \"{name}\" حذف کریں؟",
+  'modes.discardConfirm': "اس موڈ کی غیر محفوظ تبدیلیاں ترک کریں؟",
+  'modes.readOnly': "بلٹ اِن موڈز صرف پڑھنے کے لیے ہیں۔ حسب ضرورت بنانے کے لیے کسی کی نقل بنائیں۔",
+  'modes.name': "نام",
+  'modes.description': "تفصیل",
+  'modes.temperature': "درجہ حرارت",
+  'modes.temperatureHint': "کم قدر زیادہ متوقع، زیادہ قدر زیادہ تخلیقی۔",
+  'modes.instructions': "سسٹم ہدایات",
+
+  'error.timeout': "ماڈل نے جواب دینا بند کر دیا اور درخواست کا وقت ختم ہو گیا۔ دوبارہ کوشش کریں یا ماڈل فراہم کنندہ کی ترتیبات میں ٹائم آؤٹ بڑھائیں۔",
+  'error.quota': "کوٹہ ختم ہو گیا۔ ماڈل فراہم کنندہ اس API کلید کی شرح محدود کر رہا ہے۔ تھوڑا انتظار کر کے دوبارہ کوشش کریں۔",
+  'error.safety': "درخواست ماڈل کے حفاظتی فلٹرز نے روک دی۔ اپنی درخواست دوسرے الفاظ میں لکھیں یا کوئی اور ان پٹ استعمال کریں۔",
+  'error.auth': "API کلید موجود نہیں یا مسترد کر دی گئی۔ ماڈل فراہم کنندہ کی ترتیبات چیک کریں۔",
+  'error.network': "ماڈل فراہم کنندہ تک رسائی نہیں ہو سکی۔ اپنا کنکشن چیک کر کے دوبارہ کوشش کریں۔",
+  'error.server': "ماڈل فراہم کنندہ نے سرور کی خرابی لوٹائی۔ براہ کرم بعد میں دوبارہ کوشش کریں۔",
+  'error.invalidRequest': "ماڈل فراہم کنندہ نے درخواست مسترد کر دی۔ ان پٹ بہت بڑا یا اس ماڈل کے لیے غیر معاون ہو سکتا ہے۔",
+  'error.empty': "ماڈل نے خالی جواب دیا۔ براہ کرم دوبارہ کوشش کریں۔",
+
+  'variants.title': "متغیرات",
+  'variants.single': "ایک ایپ بنائیں۔ متغیرات کا ساتھ ساتھ موازنہ کرنے کے لیے 2 سے 4 منتخب کریں۔",
+  'variants.hint': "ہر متغیر اپنے موڈ اور درجہ حرارت کے ساتھ متوازی چلتا ہے۔",
+  'variants.heading': "متغیرات ({count})",
+  'variants.name': "{name} #{index}",
+  'variants.select': "منتخب کریں",
+  'variants.selected': "منتخب شدہ",
+  'variants.open': "صرف اسے رکھیں اور کھولیں",
+  'variants.cancelled': "منسوخ",
+  'variants.failed': "یہ متغیر ناکام ہو گیا۔ دوسرے متاثر نہیں ہوئے۔",
+  'variants.generating': "متغیرات بن رہے ہیں…",
+  'variants.selectedCount': "{count} منتخب",
+  'variants.discard': "سب مسترد کریں",
+  'variants.confirmDiscard': "وہ تمام متغیرات مسترد کریں جو رکھے نہیں گئے؟",
+  'variants.keep': "منتخب رکھیں",
+  'variants.frameTitle': "متغیر {index}",
+  'variants.framePartialTitle': "متغیر {index} (لوڈ ہو رہا ہے)",
+
+  'archive.search': "نام، پرامپٹ اور ٹیگ تلاش کریں…",
+  'archive.kind': "ان پٹ کی قسم",
+  'archive.kindAny': "تمام ان پٹ",
+  'archive.kindImage': "تصویر",
+  'archive.kindPdf': "PDF",
+  'archive.kindDocument': "دستاویز",
+  'archive.kindText': "صرف متن",
+  'archive.date': "تاریخ",
+  'archive.dateAny': "کوئی بھی وقت",
+  'archive.dateToday': "آج",
+  'archive.dateWeek': "پچھلے 7 دن",
+  'archive.dateMonth': "پچھلے 30 دن",
+  'archive.sort': "ترتیب",
+  'archive.sortNewest': "نئی پہلے",
+  'archive.sortOldest': "پرانی پہلے",
+  'archive.sortNameAsc': "نام ا–ی",
+  'archive.sortNameDesc': "نام ی–ا",
+  'archive.pinnedOnly': "پن شدہ",
+  'archive.pin': "پن کریں",
+  'archive.unpin': "پن ہٹائیں",
+  'archive.rename': "نام بدلیں",
+  'archive.delete': "حذف کریں",
+  'archive.open': "کھولیں",
+  'archive.addTag': "ٹیگ",
+  'archive.removeTag': "ٹیگ {tag} ہٹائیں",
+  'archive.tagPlaceholder': "نیا ٹیگ",
+  'archive.empty': "آرکائیو میں ابھی کچھ نہیں ہے۔",
+  'archive.noMatches': "ان فلٹرز سے کوئی تخلیق میل نہیں کھاتی۔",
+  'archive.clearFilters': "فلٹر صاف کریں",
+  'archive.showing': "{total} میں سے {count} دکھائی جا رہی ہیں",
+  'archive.deleted': "\"{name}\" حذف ہو گئی",
+  'archive.undo': "واپس کریں",
+  'archive.deleteFailed': "تخلیق حذف نہیں ہو سکی۔",
+  'archive.select': "منتخب کریں",
+
+  'backup.import': "امپورٹ",
+  'backup.importing': "امپورٹ ہو رہا ہے…",
+  'backup.importTitle': "تخلیقات امپورٹ کریں",
+  'backup.doneTitle': "امپورٹ مکمل",
+  'backup.found': "{file} میں {count} تخلیقات ملیں",
+  'backup.version': "آرکائیو اسکیما ورژن {version}",
+  'backup.migrated': "پرانا اسکیما ورژن {from}، {to} پر اپ گریڈ کیا گیا",
+  'backup.collisions': "{count} پہلے سے آپ کے آرکائیو میں ہیں۔ ان کا کیا کیا جائے؟",
+  'backup.policySkip': "چھوڑ دیں",
+  'backup.policySkipHint': "آرکائیو میں موجود نقول رکھیں۔",
+  'backup.policyOverwrite': "اوور رائٹ",
+  'backup.policyOverwriteHint': "انہیں امپورٹ شدہ نقول سے بدل دیں۔",
+  'backup.policyDuplicate': "دونوں رکھیں",
+  'backup.policyDuplicateHint': "انہیں موجودہ کے ساتھ نئی تخلیقات کے طور پر امپورٹ کریں۔",
+  'backup.rejected': "مسترد ({count})",
+  'backup.rejectNotObject': "تخلیق کا ریکارڈ نہیں",
+  'backup.rejectMissing': "فیلڈ {field} موجود نہیں",
+  'backup.rejectInvalid': "{field} میں غلط قدر",
+  'backup.rejectSaveFailed': "محفوظ نہیں ہو سکی",
+  'backup.imported': "{count} تخلیقات امپورٹ ہوئیں",
+  'backup.added': "شامل",
+  'backup.overwritten': "اوور رائٹ",
+  'backup.duplicated': "نقل کے طور پر شامل",
+  'backup.skipped': "چھوڑی گئیں",
+  'backup.exportAll': "سب ایکسپورٹ کریں",
+  'backup.exportSelected': "{count} منتخب ایکسپورٹ کریں",
+  'backup.exportFailed': "آرکائیو ایکسپورٹ نہیں ہو سکا۔",
+  'backup.errorInvalidJson': "یہ فائل درست JSON نہیں ہے۔",
+  'backup.errorUnrecognized': "یہ فائل تخلیقات کا آرکائیو یا آرٹیفیکٹ نہیں ہے۔",
+  'backup.errorNewerVersion': "یہ آرکائیو ایپ کے نئے ورژن سے بنایا گیا ہے۔ امپورٹ کرنے کے لیے ایپ اپ ڈیٹ کریں۔",
+
+  'share.title': "شیئر لنک کاپی کریں",
+  'share.creating': "لنک بن رہا ہے…",
+  'share.copied': "لنک کاپی ہو گیا",
+  'share.copyManually': "یہ لنک کاپی کریں",
+  'share.copy': "کاپی",
+  'share.hint': "لنک رکھنے والا کوئی بھی ایپ کھول سکتا ہے۔ کچھ اپ لوڈ نہیں ہوتا؛ ایپ لنک کے اندر ہوتی ہے۔",
+  'share.risky': "یہ لنک لمبا ہے۔ کچھ چیٹ اور ای میل ایپس لمبے لنک کاٹ دیتی ہیں؛ اگر نہ کھلے تو ایکسپورٹ شدہ فائل بھیجیں۔",
+  'share.tooLong': "یہ ایپ لنک کے لیے بہت بڑی ہے ({size})۔ اسے فائل کے طور پر ایکسپورٹ کریں۔",
+  'share.failed': "شیئر لنک نہیں بن سکا۔",
+  'share.invalid': "یہ شیئر لنک خراب یا نامکمل ہے۔ لنک دوبارہ مانگیں۔",
+  'share.readOnly': "شیئر شدہ · صرف پڑھنے کے لیے",
+  'share.addToArchive': "میرے آرکائیو میں شامل کریں",
+
+  'examples.title': "مثالیں",
+  'examples.all': "سب",
+  'examples.categoryGames': "گیمز",
+  'examples.categoryTools': "ٹولز",
+  'examples.categoryDashboards': "ڈیش بورڈز",
+  'examples.categoryLearning': "تعلیم",
+  'examples.categoryOther': "دیگر",
+  'examples.tryThis': "آزمائیں",
+  'examples.remix': "ریمکس",
+  'examples.remixHint': "بہتر بنانے یا ترمیم کے لیے اپنی کاپی کھولیں",
+  'examples.remixName': "{name} (ریمکس)",
+  'examples.inArchive': "آرکائیو میں",
+  'examples.addAll': "{count} آرکائیو میں شامل کریں",
+  'examples.added': "{count} مثالیں آپ کے آرکائیو میں شامل ہو گئیں",
+  'examples.allAdded': "تمام مثالیں آپ کے آرکائیو میں ہیں",
+  'examples.packs': "مثالوں کے پیک",
+  'examples.editPacks': "ترمیم",
+  'examples.packsHint': "ہر سطر میں ایک URL۔ پیک \"example-pack\" فارمیٹ کی JSON فائلیں ہیں۔ ایپ کے ساتھ آنے والی مثالیں ہمیشہ دستیاب ہیں، آف لائن بھی۔",
+  'examples.noPacks': "کوئی ریموٹ پیک نہیں۔ صرف ایپ کے ساتھ آنے والی مثالیں دکھائی جا رہی ہیں۔",
+  'examples.loadingPack': "لوڈ ہو رہا ہے…",
+  'examples.packLoaded': "{count} مثالیں",
+  'examples.packUnreachable': "رسائی ممکن نہیں",
+  'examples.packTimeout': "وقت ختم",
+  'examples.packInvalid': "مثالوں کا پیک نہیں",
+
+  'viewport.label': "ویو پورٹ",
+  'viewport.fill': "بھریں",
+  'viewport.phone': "فون",
+  'viewport.tablet': "ٹیبلٹ",
+  'viewport.laptop': "لیپ ٹاپ",
+  'viewport.desktop': "ڈیسک ٹاپ",
+  'viewport.custom': "حسبِ منشا",
+  'viewport.width': "چوڑائی (px)",
+  'viewport.height': "اونچائی (px)",
+  'viewport.rotate': "گھمائیں",
+  'viewport.fit': "فٹ کرنے کے لیے زوم",
+  'viewport.bezel': "ڈیوائس فریم",
+  'viewport.size': "{width} × {height} · {percent}%",
+};
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationMode } from "./types";
+
+const builtIn = (mode: Omit<GenerationMode, 'version' | 'builtIn'>): GenerationMode =>
+  ({ ...mode, version: 1, builtIn: true });
+
+export const BUILT_IN_MODES: GenerationMode[] = [
+  builtIn({
+    id: 'auto',
+    name: 'Auto',
+    description: 'Decides what to build from the input.',
+    temperature: 0.5,
+    instructions: `Analyze & Abstract:
+- **Sketches/Wireframes**: Detect buttons, inputs, and layout. Turn them into a modern, clean UI.
+- **Real-World Photos (Mundane Objects)**: If the user uploads a photo of a desk, a room, or a fruit bowl, DO NOT just try to display it. **Gamify it** or build a **Utility** around it.
+- **Technical/Network/Hardware Requests**: Browsers cannot reach raw hardware, so build a **High-Fidelity Simulation** with live, fluctuating data instead.`,
+  }),
+  builtIn({
+    id: 'game',
+    name: 'Game',
+    description: 'Playable games with a loop, score and restart.',
+    temperature: 0.7,
+    instructions: `Turn the input into a **playable game**.
+- Pick a genre that fits the input (arcade, puzzle, platformer, card, board, idle). Objects in a photo or sketch become characters, obstacles or collectibles.
+- Run a real game loop with \`requestAnimationFrame\` (or turn-based state for board and card games).
+- Include a start screen, score, lives or a timer, a game-over state and a restart button.
+- Support keyboard AND touch/pointer controls, and show the controls on screen.
+- Keep a best score in \`localStorage\`.`,
+  }),
+  builtIn({
+    id: 'dashboard',
+    name: 'Dashboard',
+    description: 'Data dashboards with KPIs, charts and filters.',
+    temperature: 0.4,
+    instructions: `Turn the input into an **analytics dashboard**.
+- Lay out KPI cards, at least two charts drawn with inline SVG or <canvas>, and a sortable data table.
+- Use any data embedded in the input. Otherwise generate realistic sample data that matches the subject.
+- Add filters (date range, category, search) that update every widget together.
+- Prefer a dense, responsive grid with clear number formatting, units and legends.`,
+  }),
+  builtIn({
+    id: 'crud',
+    name: 'Form / CRUD tool',
+    description: 'Forms and record managers that persist data.',
+    temperature: 0.3,
+    instructions: `Turn the input into a **form-driven CRUD tool**.
+- Infer the record type and its fields from the input. A sketched or photographed form becomes the real form.
+- Provide create, list, edit and delete with inline validation and clear error messages.
+- Persist records in \`localStorage\` and seed a few realistic examples on first run.
+- Add search, sorting and an empty state. Confirm before destructive actions.
+- Use accessible labels, sensible input types and keyboard-friendly focus order.`,
+  }),
+  builtIn({
+    id: 'landing',
+    name: 'Landing page',
+    description: 'Marketing pages with hero, features and a call to action.',
+    temperature: 0.8,
+    instructions: `Turn the input into a **marketing landing page** for the product or idea it shows.
+- Sections: hero with headline and call to action, features, how it works, testimonials, pricing or FAQ, footer.
+- Write persuasive, specific copy. No lorem ipsum.
+- Add tasteful interactivity: smooth scrolling navigation, an FAQ accordion, a pricing toggle, a sign-up form with validation and a success state.
+- Make it fully responsive with a bold, cohesive visual identity.`,
+  }),
+  builtIn({
+    id: 'simulation',
+    name: 'Simulation',
+    description: 'Convincing simulations of tools the browser cannot run.',
+    temperature: 0.6,
+    instructions: `SIMULATION MODE: Build a **High-Fidelity Simulation** of the tool, device or system in the input. Browsers cannot access raw hardware, networks or physics engines, so simulate the data convincingly.
+- Populate results over time with \`setInterval\` and make graphs update and numbers fluctuate to feel alive.
+- For a **Network Scanner**, **WiFi Analyzer** or **Hidden SSID Detector**:
+    - Create a "Hacker/Cybersecurity" aesthetic (dark mode, terminal fonts, green/blue data streams).
+    - A list of "Detected Networks" showing **BSSID** (MAC Address), Signal Strength (RSSI), and Channel.
+    - **Hidden Networks**: Include entries with "<Hidden>" as the SSID.
+    - **Capture SSID Action**: Add a button to "Capture/Decrypt" hidden networks. When clicked, run a progress bar animation (e.g., "Injecting packets...", "Deauthing client..."), then reveal a realistic SSID (e.g., "FBI_Surveillance_Van", "Skynet_Link", or "Neighbor_WiFi").
+- For physical systems (circuits, orbits, ecosystems, traffic), expose the parameters as sliders and let the user start, pause and reset the simulation.`,
+  }),
+  builtIn({
+    id: 'educational',
+    name: 'Educational widget',
+    description: 'Explorable explanations and quizzes.',
+    temperature: 0.4,
+    instructions: `Turn the input into an **interactive educational widget** that teaches the concept it shows.
+- Start with a short, plain-language explanation, then let the learner manipulate the idea (sliders, draggable parts, step-by-step animation).
+- Label everything and show how changing one value affects the others.
+- End with a short quiz (3-5 questions) with instant feedback and a final score.
+- Keep the facts accurate and pitch the language at a curious beginner.`,
+  }),
+];
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationMode, ModeBundle, ModeImportResult } from "./types";
+import { BUILT_IN_MODES } from "./builtins";
+
+export * from "./types";
+export { BUILT_IN_MODES } from "./builtins";
+
+const CUSTOM_MODES_KEY = 'gemini_app_modes';
+const SELECTED_MODE_KEY = 'gemini_app_mode';
+
+export const DEFAULT_MODE: GenerationMode = BUILT_IN_MODES[0];
+
+export const MIN_TEMPERATURE = 0;
+export const MAX_TEMPERATURE = 1.5;
+
+export const clampTemperature = (value: number): number =>
+  Math.round(Math.min(MAX_TEMPERATURE, Math.max(MIN_TEMPERATURE, value)) * 100) / 100;
+
+const isBuiltInId = (id: string): boolean => BUILT_IN_MODES.some(mode => mode.id === id);
+
+export function loadCustomModes(): GenerationMode[] {
+  try {
+    const saved = localStorage.getItem(CUSTOM_MODES_KEY);
+    if (!saved) return [];
+    return (JSON.parse(saved) as unknown[]).map(toMode).filter((mode): mode is GenerationMode => mode !== null);
+  } catch (e) {
+    console.error("Failed to load custom modes", e);
+    return [];
+  }
+}
+
+export function saveCustomModes(modes: GenerationMode[]): void {
+  localStorage.setItem(CUSTOM_MODES_KEY, JSON.stringify(modes.filter(mode => !mode.builtIn)));
+}
+
+export function loadSelectedModeId(): string {
+  return localStorage.getItem(SELECTED_MODE_KEY) || DEFAULT_MODE.id;
+}
+
+export function saveSelectedModeId(id: string): void {
+  localStorage.setItem(SELECTED_MODE_KEY, id);
+}
+
+/** Built-in modes first, then the user's own in the order they were created. */
+export function allModes(custom: GenerationMode[]): GenerationMode[] {
+  return [...BUILT_IN_MODES, ...custom];
+}
+
+/** Falls back to the default mode when `id` was deleted or never existed. */
+export function findMode(modes: GenerationMode[], id?: string): GenerationMode {
+  return modes.find(mode => mode.id === id) || DEFAULT_MODE;
+}
+
+/** New custom mode, optionally starting from a copy of an existing one. */
+export function createCustomMode(name: string, from?: GenerationMode): GenerationMode {
+  return {
+    id: `custom-${crypto.randomUUID()}`,
+    name,
+    description: from?.description || '',
+    instructions: from?.instructions || '',
+    temperature: from?.temperature ?? DEFAULT_MODE.temperature,
+    version: 1,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/** Applies an edit to a custom mode and bumps its version. */
+export function reviseMode(mode: GenerationMode, patch: Partial<Pick<GenerationMode, 'name' | 'description' | 'instructions' | 'temperature'>>): GenerationMode {
+  return {
+    ...mode,
+    ...patch,
+    temperature: clampTemperature(patch.temperature ?? mode.temperature),
+    version: mode.version + 1,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Validates one untrusted entry from storage or an imported file
+function toMode(value: unknown): GenerationMode | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== 'string' || !raw.id || typeof raw.name !== 'string' || !raw.name.trim() || typeof raw.instructions !== 'string') {
+    return null;
+  }
+  const temperature = typeof raw.temperature === 'number' && Number.isFinite(raw.temperature) ? raw.temperature : DEFAULT_MODE.temperature;
+  const version = typeof raw.version === 'number' && Number.isInteger(raw.version) && raw.version > 0 ? raw.version : 1;
+  return {
+    id: raw.id,
+    name: raw.name.trim(),
+    description: typeof raw.description === 'string' ? raw.description : '',
+    instructions: raw.instructions,
+    temperature: clampTemperature(temperature),
+    version,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : undefined,
+  };
+}
+
+export function exportModes(modes: GenerationMode[]): string {
+  const bundle: ModeBundle = {
+    format: 'generation-modes',
+    version: 1,
+    modes: modes.map(({ builtIn, ...mode }) => mode),
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Parses a shared mode file. Accepts a bundle, a bare array or a single mode
+ * so hand-written files work too. Throws when nothing usable is found.
+ */
+export function parseModes(json: string): GenerationMode[] {
+  const parsed = JSON.parse(json);
+  const entries: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.modes) ? parsed.modes : [parsed];
+  const modes = entries.map(toMode).filter((mode): mode is GenerationMode => mode !== null);
+  if (modes.length === 0) {
+    throw new Error("No valid generation modes found in file");
+  }
+  return modes;
+}
+
+/**
+ * Merges imported modes into the custom list. A mode with a known id only
+ * replaces the local copy when its version is newer. Imported modes that
+ * reuse a built-in id are kept as separate custom modes.
+ */
+export function mergeModes(existing: GenerationMode[], imported: GenerationMode[]): ModeImportResult {
+  const modes = [...existing];
+  let added = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  for (const mode of imported) {
+    const incoming = isBuiltInId(mode.id) ? { ...mode, id: `custom-${crypto.randomUUID()}` } : mode;
+    const idx = modes.findIndex(m => m.id === incoming.id);
+    if (idx === -1) {
+      modes.push(incoming);
+      added++;
+    } else if (incoming.version > modes[idx].version) {
+      modes[idx] = incoming;
+      updated++;
+    } else {
+      skipped++;
+    }
+  }
+
+  return { modes, added, updated, skipped };
+}
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A named preset for the first generation pass. Its instructions are placed
+// in front of the core directives every app must follow.
+export interface GenerationMode {
+  id: string;
+  name: string;
+  description: string;
+  instructions: string;
+  temperature: number;
+  version: number; // Bumped on every saved edit so shared copies can be compared
+  updatedAt?: string; // ISO timestamp of the last saved edit
+  builtIn?: boolean; // Shipped with the app; read-only in the editor
+}
+
+// File format used to share custom modes between team members
+export interface ModeBundle {
+  format: 'generation-modes';
+  version: 1;
+  modes: GenerationMode[];
+}
+
+export interface ModeImportResult {
+  modes: GenerationMode[]; // Custom modes after the merge
+  added: number;
+  updated: number;
+  skipped: number; // Same or older version than the local copy
+}
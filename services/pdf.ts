@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// pdf.js is loaded from a CDN in index.html; only the parts used here are typed.
+
+export interface PdfViewport {
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  getViewport(options: { scale: number }): PdfViewport;
+  render(options: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport }): { promise: Promise<void> };
+}
+
+export interface PdfDocumentProxy {
+  numPages: number;
+  getPage(pageNumber: number): Promise<PdfPage>;
+  destroy(): Promise<void>;
+}
+
+// Add type definition for the global pdfjsLib
+declare global {
+  interface Window {
+    pdfjsLib: any;
+  }
+}
+
+export async function loadPdf(source: string | Blob): Promise<PdfDocumentProxy> {
+  if (!window.pdfjsLib) throw new Error("PDF library not initialized");
+  const params = typeof source === 'string' ? source : { data: new Uint8Array(await source.arrayBuffer()) };
+  return window.pdfjsLib.getDocument(params).promise;
+}
+
+/**
+ * Draws a page into the canvas at `scale`, sharpened for high-DPI screens.
+ * Rendering goes through an offscreen canvas first, since pdf.js refuses
+ * overlapping renders into the same canvas. Returns the CSS size.
+ */
+export async function renderPage(pdf: PdfDocumentProxy, pageNumber: number, canvas: HTMLCanvasElement, scale: number): Promise<PdfViewport> {
+  const page = await pdf.getPage(pageNumber);
+  const ratio = window.devicePixelRatio || 1;
+  const viewport = page.getViewport({ scale: scale * ratio });
+  const offscreen = document.createElement('canvas');
+  offscreen.width = Math.floor(viewport.width);
+  offscreen.height = Math.floor(viewport.height);
+  const offscreenContext = offscreen.getContext('2d');
+  const context = canvas.getContext('2d');
+  if (!offscreenContext || !context) throw new Error('Canvas is not available');
+
+  await page.render({ canvasContext: offscreenContext, viewport }).promise;
+  canvas.width = offscreen.width;
+  canvas.height = offscreen.height;
+  context.drawImage(offscreen, 0, 0);
+  return { width: viewport.width / ratio, height: viewport.height / ratio };
+}
+
+/** Page size in CSS pixels at 100% zoom. */
+export async function pageSize(pdf: PdfDocumentProxy, pageNumber: number): Promise<PdfViewport> {
+  const viewport = (await pdf.getPage(pageNumber)).getViewport({ scale: 1 });
+  return { width: viewport.width, height: viewport.height };
+}
+
+/** Rasterises a page as PNG for models that should only see part of a document. */
+export async function renderPageToPng(pdf: PdfDocumentProxy, pageNumber: number, scale = 2): Promise<Blob> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Could not render page ${pageNumber}`)), 'image/png');
+  });
+}
+
+/**
+ * Parses "3-5, 8" into [3, 4, 5, 8]. Returns null when the text is malformed
+ * or refers to pages outside 1..pageCount.
+ */
+export function parsePageRanges(text: string, pageCount: number): number[] | null {
+  const pages = new Set<number>();
+  for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)\s*(?:[-–]\s*(\d+))?$/);
+    if (!match) return null;
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start < 1 || end > pageCount || start > end) return null;
+    for (let page = start; page <= end; page++) pages.add(page);
+  }
+  return pages.size > 0 ? Array.from(pages).sort((a, b) => a - b) : null;
+}
+
+/** Inverse of parsePageRanges: [3, 4, 5, 8] becomes "3-5, 8". */
+export function formatPageRanges(pages: number[]): string {
+  const sorted = Array.from(new Set(pages)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? String(start) : `${start}-${sorted[i]}`);
+  }
+  return ranges.join(', ');
+}
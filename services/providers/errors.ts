@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ProviderErrorKind =
+  | 'cancelled' // Stopped by the user
+  | 'timeout' // No output within the configured time
+  | 'quota' // 429 / RESOURCE_EXHAUSTED
+  | 'safety' // Prompt or response blocked by safety filters
+  | 'auth' // Missing or rejected API key
+  | 'network' // Request never reached the server
+  | 'server' // 5xx
+  | 'invalidRequest' // Other 4xx, e.g. unsupported model or payload too large
+  | 'empty' // Stream finished without any HTML
+  | 'unknown';
+
+// Transient failures that are worth retrying with backoff
+const RETRYABLE: ProviderErrorKind[] = ['timeout', 'quota', 'network', 'server'];
+
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number; // Server-suggested delay before retrying
+
+  constructor(kind: ProviderErrorKind, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+export const kindForStatus = (status: number): ProviderErrorKind =>
+  status === 429 ? 'quota'
+  : status === 401 || status === 403 ? 'auth'
+  : status === 408 ? 'timeout'
+  : status >= 500 ? 'server'
+  : status >= 400 ? 'invalidRequest'
+  : 'unknown';
+
+/** Parses a Retry-After header given in seconds or as an HTTP date. */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Normalises whatever a provider or the browser threw into a ProviderError.
+ * SDK errors carry an HTTP `status`; fetch failures surface as TypeErrors;
+ * everything else is matched on the message as a last resort.
+ */
+export function toProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ProviderError('cancelled', "Request cancelled", { cause: error });
+  }
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new ProviderError('timeout', message, { cause: error });
+  }
+
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  if (status !== undefined) {
+    return new ProviderError(kindForStatus(status), message, { status, cause: error });
+  }
+
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new ProviderError('network', message, { cause: error });
+  }
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new ProviderError('quota', message, { cause: error });
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) {
+    return new ProviderError('safety', message, { cause: error });
+  }
+  if (/API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new ProviderError('auth', message, { cause: error });
+  }
+  if (/UNAVAILABLE|INTERNAL|overloaded/i.test(message)) {
+    return new ProviderError('server', message, { cause: error });
+  }
+  return new ProviderError('unknown', message, { cause: error });
+}
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI } from "@google/genai";
+import { ModelProvider, ProviderRequest, ProviderChunk, ProviderSettings } from "./types";
+import { ProviderError } from "./errors";
+
+// Finish reasons that mean the output was withheld rather than completed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+export function createGeminiProvider(settings: ProviderSettings['gemini']): ModelProvider {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${settings.model})`,
+    async *stream(request: ProviderRequest): AsyncGenerator<ProviderChunk> {
+      const stream = await ai.models.generateContentStream({
+        model: settings.model,
+        contents: request.messages,
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          abortSignal: request.signal,
+        },
+      });
+
+      for await (const chunk of stream) {
+        const blockReason = chunk.promptFeedback?.blockReason;
+        if (blockReason) {
+          throw new ProviderError('safety', chunk.promptFeedback?.blockReasonMessage || `Prompt blocked: ${blockReason}`);
+        }
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+          throw new ProviderError('safety', `Response blocked: ${finishReason}`);
+        }
+        yield {
+          text: chunk.text || "",
+          tokens: chunk.usageMetadata?.candidatesTokenCount,
+        };
+      }
+    },
+  };
+}
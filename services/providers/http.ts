@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelProvider, ProviderRequest, ProviderChunk, ProviderSettings, ProviderMessage } from "./types";
+import { kindForStatus, parseRetryAfter, ProviderError } from "./errors";
+
+// Chat message shape shared by OpenAI, Ollama, LM Studio, vLLM, llama.cpp server, etc.
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
+}
+
+const toChatMessage = (message: ProviderMessage): ChatMessage => {
+  const content: Exclude<ChatMessage['content'], string> = [];
+
+  for (const part of message.parts) {
+    if ('text' in part) {
+      content.push({ type: 'text', text: part.text });
+    } else if (part.inlineData.mimeType.startsWith('image/')) {
+      content.push({ type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } });
+    } else {
+      // Most self-hosted models cannot read documents; say so rather than dropping the input silently
+      content.push({ type: 'text', text: `[Attached ${part.inlineData.mimeType} file omitted: not supported by this model endpoint]` });
+    }
+  }
+
+  const textOnly = content.every(c => c.type === 'text');
+  return {
+    role: message.role === 'model' ? 'assistant' : 'user',
+    content: textOnly ? content.map(c => (c as { text: string }).text).join('\n\n') : content,
+  };
+};
+
+/**
+ * Provider for any OpenAI-compatible `/chat/completions` endpoint, which
+ * covers Ollama (`/v1`) and most self-hosted model servers.
+ */
+export function createHttpProvider(settings: ProviderSettings['http']): ModelProvider {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'http',
+    label: `HTTP (${settings.model})`,
+    async *stream(request: ProviderRequest): AsyncGenerator<ProviderChunk> {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (settings.apiKey) {
+        headers['Authorization'] = `Bearer ${settings.apiKey}`;
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        signal: request.signal,
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: request.temperature,
+          stream: true,
+          messages: [
+            { role: 'system', content: request.systemInstruction },
+            ...request.messages.map(toChatMessage),
+          ],
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        const detail = await response.text().catch(() => "");
+        throw new ProviderError(kindForStatus(response.status), `Model endpoint returned ${response.status}: ${detail.slice(0, 200)}`, {
+          status: response.status,
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+        });
+      }
+
+      // Parse the server-sent event stream line by line
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      let tokens: number | undefined;
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+
+          let event;
+          try {
+            event = JSON.parse(data);
+          } catch (e) {
+            console.warn("Skipping malformed stream event", data);
+            continue;
+          }
+          if (event.choices?.[0]?.finish_reason === 'content_filter') {
+            throw new ProviderError('safety', "Response blocked by the endpoint's content filter");
+          }
+          tokens = event.usage?.completion_tokens ?? tokens;
+          const text = event.choices?.[0]?.delta?.content;
+          if (text) yield { text, tokens };
+        }
+      }
+    },
+  };
+}
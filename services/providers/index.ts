@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelProvider, ProviderId, ProviderSettings } from "./types";
+import { createGeminiProvider } from "./gemini";
+import { createHttpProvider } from "./http";
+import { createMockProvider } from "./mock";
+
+export * from "./types";
+export * from "./errors";
+
+const SETTINGS_KEY = 'gemini_app_provider';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini', description: 'Google Gemini via the GenAI SDK.' },
+  { id: 'http', label: 'OpenAI-compatible', description: 'Any /chat/completions endpoint: Ollama, LM Studio, vLLM, OpenAI.' },
+  { id: 'mock', label: 'Offline Mock', description: 'Deterministic fixture apps. No network, for demos and tests.' },
+];
+
+const envProvider = process.env.MODEL_PROVIDER as ProviderId | undefined;
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: envProvider && PROVIDER_OPTIONS.some(o => o.id === envProvider) ? envProvider : 'gemini',
+  gemini: {
+    model: 'gemini-3-pro-preview',
+  },
+  http: {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.2-vision',
+  },
+  mock: {
+    chunkDelayMs: 40,
+  },
+  requests: {
+    timeoutSeconds: 90,
+    maxRetries: 3,
+  },
+};
+
+export function loadProviderSettings(): ProviderSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_PROVIDER_SETTINGS;
+    const parsed = JSON.parse(saved);
+    // Merge per section so settings saved by older versions pick up new fields
+    return {
+      provider: parsed.provider || DEFAULT_PROVIDER_SETTINGS.provider,
+      gemini: { ...DEFAULT_PROVIDER_SETTINGS.gemini, ...parsed.gemini },
+      http: { ...DEFAULT_PROVIDER_SETTINGS.http, ...parsed.http },
+      mock: { ...DEFAULT_PROVIDER_SETTINGS.mock, ...parsed.mock },
+      requests: { ...DEFAULT_PROVIDER_SETTINGS.requests, ...parsed.requests },
+    };
+  } catch (e) {
+    console.error("Failed to load provider settings", e);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+}
+
+export function saveProviderSettings(settings: ProviderSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function createProvider(settings: ProviderSettings): ModelProvider {
+  switch (settings.provider) {
+    case 'http':
+      return createHttpProvider(settings.http);
+    case 'mock':
+      return createMockProvider(settings.mock);
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.gemini);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelProvider, ProviderRequest, ProviderChunk, ProviderSettings } from "./types";
+import { MOCK_FIXTURES } from "./mockFixtures";
+
+const CHUNK_SIZE = 256;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Small stable string hash so the same request always yields the same fixture
+const hash = (text: string): number => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) {
+    h = (h * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+};
+
+const respond = (request: ProviderRequest): string => {
+  const last = request.messages[request.messages.length - 1];
+  const text = last?.parts.map(part => 'text' in part ? part.text : `[${part.inlineData.mimeType}]`).join('\n') || "";
+
+  // Refinement requests carry the current document; mark the change instead of replacing the app
+  const refine = text.match(/CURRENT HTML:\n([\s\S]*?)\n\nCHANGE REQUEST: ([^\n]*)/);
+  if (refine) {
+    const [, html, instruction] = refine;
+    const note = `<div data-mock-change style="position:fixed;bottom:8px;left:8px;font:12px monospace;background:#fde68a;color:#78350f;padding:4px 8px;border-radius:4px">mock change: ${escapeHtml(instruction)}</div>`;
+    return html.includes('</body>') ? html.replace('</body>', () => `${note}\n</body>`) : `${html}\n${note}`;
+  }
+
+  // Repair requests get the document back unchanged
+  const repair = text.match(/failed validation[\s\S]*?\n\nHTML:\n([\s\S]*)$/);
+  if (repair) return repair[1];
+
+  const userRequest = text.match(/USER REQUEST: ([^\n]*)/)?.[1];
+  const title = escapeHtml(userRequest || "Mock Creation");
+  return MOCK_FIXTURES[hash(text) % MOCK_FIXTURES.length].replace(/\{\{TITLE\}\}/g, () => title);
+};
+
+/**
+ * Deterministic offline provider. Streams fixture HTML in fixed-size chunks
+ * so the UI behaves like a real generation without network access.
+ */
+export function createMockProvider(settings: ProviderSettings['mock']): ModelProvider {
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+    async *stream(request: ProviderRequest): AsyncGenerator<ProviderChunk> {
+      const output = respond(request);
+      for (let i = 0; i < output.length; i += CHUNK_SIZE) {
+        request.signal?.throwIfAborted();
+        if (settings.chunkDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, settings.chunkDelayMs));
+        }
+        yield {
+          text: output.slice(i, i + CHUNK_SIZE),
+          tokens: Math.ceil(Math.min(i + CHUNK_SIZE, output.length) / 4),
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Fixture apps returned by the offline mock provider. `{{TITLE}}` is replaced
+// with the (escaped) user request so demos still feel connected to the input.
+export const MOCK_FIXTURES: string[] = [
+`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Mock Counter</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: linear-gradient(135deg, #0f172a, #1e293b); color: #f8fafc; }
+  .card { text-align: center; padding: 2.5rem 3rem; border-radius: 1rem; background: rgba(255,255,255,0.06); border: 1px solid rgba(255,255,255,0.12); }
+  h1 { font-size: 1rem; font-weight: 500; color: #94a3b8; margin: 0 0 1rem; }
+  .value { font-size: 4rem; font-weight: 800; font-variant-numeric: tabular-nums; }
+  button { margin: 1rem 0.25rem 0; padding: 0.6rem 1.2rem; border: 0; border-radius: 0.5rem; font-size: 1rem; cursor: pointer; background: #3b82f6; color: white; }
+  button.secondary { background: #334155; }
+</style>
+</head>
+<body>
+<div class="card">
+  <h1>{{TITLE}}</h1>
+  <div class="value" id="value">0</div>
+  <button id="dec" class="secondary">&minus;</button>
+  <button id="inc">+</button>
+</div>
+<script>
+  let count = 0;
+  const value = document.getElementById('value');
+  const render = () => { value.textContent = count; };
+  document.getElementById('inc').addEventListener('click', () => { count++; render(); });
+  document.getElementById('dec').addEventListener('click', () => { count--; render(); });
+</script>
+</body>
+</html>`,
+`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Mock Checklist</title>
+<style>
+  body { margin: 0; min-height: 100vh; font-family: system-ui, sans-serif; background: #fafaf9; color: #1c1917; display: flex; justify-content: center; padding: 3rem 1rem; box-sizing: border-box; }
+  main { width: 100%; max-width: 28rem; }
+  h1 { font-size: 1.25rem; margin: 0 0 1rem; }
+  form { display: flex; gap: 0.5rem; margin-bottom: 1rem; }
+  input[type=text] { flex: 1; padding: 0.6rem 0.8rem; border: 1px solid #d6d3d1; border-radius: 0.5rem; font-size: 1rem; }
+  button { padding: 0.6rem 1rem; border: 0; border-radius: 0.5rem; background: #1c1917; color: white; cursor: pointer; }
+  li { list-style: none; display: flex; align-items: center; gap: 0.6rem; padding: 0.6rem 0; border-bottom: 1px solid #e7e5e4; }
+  li.done span { text-decoration: line-through; color: #a8a29e; }
+  ul { padding: 0; margin: 0; }
+</style>
+</head>
+<body>
+<main>
+  <h1>{{TITLE}}</h1>
+  <form id="form"><input type="text" id="entry" placeholder="Add an item"><button>Add</button></form>
+  <ul id="list"></ul>
+</main>
+<script>
+  const items = [{ text: 'Sketch the idea', done: true }, { text: 'Bring it to life', done: false }];
+  const list = document.getElementById('list');
+  const render = () => {
+    list.innerHTML = '';
+    items.forEach((item, i) => {
+      const li = document.createElement('li');
+      li.className = item.done ? 'done' : '';
+      const box = document.createElement('input');
+      box.type = 'checkbox';
+      box.checked = item.done;
+      box.addEventListener('change', () => { items[i].done = box.checked; render(); });
+      const label = document.createElement('span');
+      label.textContent = item.text;
+      li.append(box, label);
+      list.appendChild(li);
+    });
+  };
+  document.getElementById('form').addEventListener('submit', (e) => {
+    e.preventDefault();
+    const entry = document.getElementById('entry');
+    if (entry.value.trim()) { items.push({ text: entry.value.trim(), done: false }); entry.value = ''; render(); }
+  });
+  render();
+</script>
+</body>
+</html>`,
+];
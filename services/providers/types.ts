@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ProviderId = 'gemini' | 'http' | 'mock';
+
+export type ProviderPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface ProviderMessage {
+  role: 'user' | 'model';
+  parts: ProviderPart[];
+}
+
+// Vendor-neutral description of a single generation call
+export interface ProviderRequest {
+  systemInstruction: string;
+  messages: ProviderMessage[];
+  temperature: number;
+  signal?: AbortSignal; // Aborts the underlying network request
+}
+
+export interface ProviderChunk {
+  text: string;
+  tokens?: number; // Cumulative output tokens, if the backend reports them
+}
+
+export interface ModelProvider {
+  id: ProviderId;
+  label: string;
+  stream(request: ProviderRequest): AsyncGenerator<ProviderChunk>;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  gemini: {
+    model: string;
+  };
+  http: {
+    baseUrl: string; // OpenAI-compatible root, e.g. http://localhost:11434/v1
+    model: string;
+    apiKey?: string;
+  };
+  mock: {
+    chunkDelayMs: number;
+  };
+  requests: {
+    timeoutSeconds: number; // Longest wait for the next chunk before the attempt is abandoned
+    maxRetries: number; // Extra attempts after a transient failure
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from "../components/CreationHistory";
+import { createZip, ZipEntry } from "./zip";
+import { downloadBlob, slugify } from "./exporters";
+
+export interface PackageOptions {
+  appName: string;
+  shortName: string;
+  themeColor: string;
+  backgroundColor: string;
+  appId: string; // Reverse-domain id used by Capacitor, e.g. com.example.myapp
+  includeCapacitor: boolean;
+}
+
+const ICON_SIZES = [192, 512];
+
+export function defaultPackageOptions(creation: Creation): PackageOptions {
+  const themeColor = creation.html.match(/<meta\s+name=["']theme-color["']\s+content=["']([^"']+)["']/i)?.[1] || '#2563eb';
+  // Java package segments must start with a letter
+  const idSegment = slugify(creation.name).replace(/^[^a-z]+/, '') || 'app';
+  return {
+    appName: creation.name,
+    shortName: creation.name.length > 12 ? creation.name.slice(0, 12).trim() : creation.name,
+    themeColor,
+    backgroundColor: '#ffffff',
+    appId: `com.nakamoko.${idSegment}`,
+    includeCapacitor: false,
+  };
+}
+
+const initials = (title: string): string => {
+  const words = title.trim().split(/\s+/).filter(Boolean);
+  const letters = words.length > 1 ? [...words[0]][0] + [...words[1]][0] : [...(words[0] || '?')].slice(0, 2).join('');
+  return letters.toUpperCase();
+};
+
+/**
+ * Renders a full-bleed icon with the app's initials. Text stays within the
+ * central 80% so the same image works as a maskable icon.
+ */
+export async function renderAppIcon(title: string, color: string, size: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const gradient = ctx.createLinearGradient(0, 0, size, size);
+  gradient.addColorStop(0, color);
+  gradient.addColorStop(1, '#0f172a');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, size, size);
+
+  const text = initials(title);
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `700 ${Math.round(size * (text.length > 1 ? 0.34 : 0.44))}px Inter, Cairo, system-ui, sans-serif`;
+  ctx.fillText(text, size / 2, size / 2 + size * 0.02);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Icon rendering failed')), 'image/png');
+  });
+}
+
+const buildManifest = (options: PackageOptions): string => JSON.stringify({
+  name: options.appName,
+  short_name: options.shortName,
+  start_url: './',
+  scope: './',
+  display: 'standalone',
+  background_color: options.backgroundColor,
+  theme_color: options.themeColor,
+  icons: [
+    ...ICON_SIZES.map(size => ({ src: `icons/icon-${size}.png`, sizes: `${size}x${size}`, type: 'image/png', purpose: 'any' })),
+    { src: 'icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+  ],
+}, null, 2);
+
+// Cache-first for the app shell; cross-origin assets (CDN scripts, fonts) are
+// cached on first use so the app keeps working offline afterwards.
+const buildServiceWorker = (cacheName: string): string => `const CACHE = ${JSON.stringify(cacheName)};
+const SHELL = ['./', './index.html', './manifest.webmanifest', ${ICON_SIZES.map(s => `'./icons/icon-${s}.png'`).join(', ')}];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  if (event.request.method !== 'GET') return;
+  event.respondWith(
+    caches.match(event.request).then((cached) => {
+      const network = fetch(event.request)
+        .then((response) => {
+          if (response && (response.ok || response.type === 'opaque')) {
+            const copy = response.clone();
+            caches.open(CACHE).then((cache) => cache.put(event.request, copy));
+          }
+          return response;
+        })
+        // Offline: keep the cached copy, else the app shell for pages and a 503 for anything else
+        .catch(() => cached || offlineResponse(event.request));
+      return cached || network;
+    })
+  );
+});
+
+function offlineResponse(request) {
+  if (request.mode === 'navigate') {
+    return caches.match('./index.html').then((shell) => shell || new Response('Offline', { status: 503, statusText: 'Offline' }));
+  }
+  return new Response('', { status: 503, statusText: 'Offline' });
+}
+`;
+
+const escapeAttr = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const injectPwaTags = (html: string, options: PackageOptions): string => {
+  const head = `
+<link rel="manifest" href="manifest.webmanifest">
+<meta name="theme-color" content="${escapeAttr(options.themeColor)}">
+<meta name="apple-mobile-web-app-capable" content="yes">
+<meta name="apple-mobile-web-app-title" content="${escapeAttr(options.shortName)}">
+<link rel="apple-touch-icon" href="icons/icon-192.png">
+`;
+  const register = `
+<script>
+  if ('serviceWorker' in navigator) {
+    window.addEventListener('load', function () { navigator.serviceWorker.register('sw.js'); });
+  }
+</script>
+`;
+
+  let out = /^\s*<!doctype/i.test(html) ? html : `<!DOCTYPE html>\n${html}`;
+  // Drop any theme-color the model emitted so ours wins
+  out = out.replace(/<meta\s+name=["']theme-color["'][^>]*>/gi, '');
+  out = /<\/head>/i.test(out) ? out.replace(/<\/head>/i, `${head}</head>`) : out.replace(/<html[^>]*>/i, m => `${m}<head>${head}</head>`);
+  out = /<\/body>/i.test(out) ? out.replace(/<\/body>(?![\s\S]*<\/body>)/i, `${register}</body>`) : out + register;
+  return out;
+};
+
+const pwaReadme = (options: PackageOptions, withCapacitor: boolean): string => `# ${options.appName} – installable web app
+
+This folder is a Progressive Web App. Host it on any static server over HTTPS
+(or \`http://localhost\`) and browsers will offer to install it. Service workers
+do not run from \`file://\`, so double-clicking index.html will not enable offline mode.
+
+Quick local test:
+
+    npx serve .
+
+## Contents
+
+- \`index.html\` – the app, with manifest and service worker registration.
+- \`manifest.webmanifest\` – name, colours and icons.
+- \`sw.js\` – caches the app (and any CDN assets it loads) for offline use.
+- \`icons/\` – generated icons, also used as a maskable icon.
+${withCapacitor ? `
+## Android (APK) via Capacitor
+
+The \`capacitor/\` folder is a ready-made Capacitor project wrapping this app.
+Requires Node.js and Android Studio.
+
+    cd capacitor
+    npm install
+    npx cap add android
+    npx cap sync
+    npx cap open android      # then Build > Build APK(s)
+
+## Android via Trusted Web Activity
+
+Once the PWA is hosted at a public HTTPS URL, Bubblewrap can generate a TWA:
+
+    npx @bubblewrap/cli init --manifest https://your-host/manifest.webmanifest
+    npx @bubblewrap/cli build
+` : ''}`;
+
+const capacitorFiles = (options: PackageOptions, slug: string): ZipEntry[] => [
+  {
+    path: 'capacitor/package.json',
+    data: JSON.stringify({
+      name: slug.replace(/_/g, '-'),
+      version: '1.0.0',
+      private: true,
+      scripts: {
+        sync: 'cap sync',
+        android: 'cap open android',
+      },
+      dependencies: {
+        '@capacitor/android': '^6.0.0',
+        '@capacitor/core': '^6.0.0',
+      },
+      devDependencies: {
+        '@capacitor/cli': '^6.0.0',
+      },
+    }, null, 2),
+  },
+  {
+    path: 'capacitor/capacitor.config.json',
+    data: JSON.stringify({
+      appId: options.appId,
+      appName: options.appName,
+      webDir: 'www',
+      android: { backgroundColor: options.backgroundColor },
+    }, null, 2),
+  },
+];
+
+export async function packagePwa(creation: Creation, options: PackageOptions): Promise<void> {
+  const slug = slugify(options.appName);
+  const icons = await Promise.all(ICON_SIZES.map(size => renderAppIcon(options.appName, options.themeColor, size)));
+
+  const app: ZipEntry[] = [
+    { path: 'index.html', data: injectPwaTags(creation.html, options) },
+    { path: 'manifest.webmanifest', data: buildManifest(options) },
+    { path: 'sw.js', data: buildServiceWorker(`${slug}-${Date.now()}`) },
+    ...ICON_SIZES.map((size, i) => ({ path: `icons/icon-${size}.png`, data: icons[i] })),
+  ];
+
+  const entries: ZipEntry[] = [...app, { path: 'README.md', data: pwaReadme(options, options.includeCapacitor) }];
+  if (options.includeCapacitor) {
+    entries.push(
+      ...capacitorFiles(options, slug),
+      ...app.map(entry => ({ ...entry, path: `capacitor/www/${entry.path}` })),
+    );
+  }
+
+  downloadBlob(await createZip(entries), `${slug}_pwa.zip`);
+}
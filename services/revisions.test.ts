@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './revisions';
+
+const lines = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => `${prefix} ${i}`).join('\n');
+
+describe('diffLines', () => {
+  it('lines up a changed line between unchanged ones', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nB\nc\nd\ne').map(row => row.type)).toEqual(['same', 'changed', 'same', 'same', 'added']);
+  });
+
+  it('falls back to one changed block for very large rewrites', () => {
+    const rows = diffLines(`<html>\n${lines('old', 3000)}\n</html>`, `<html>\n${lines('new', 4000)}\n</html>`);
+    expect(rows).toHaveLength(4002);
+    expect(rows[0].type).toBe('same');
+    expect(rows[1]).toEqual({ type: 'changed', left: { line: 2, text: 'old 0' }, right: { line: 2, text: 'new 0' } });
+    expect(rows[3001]).toEqual({ type: 'added', left: undefined, right: { line: 3002, text: 'new 3000' } });
+    expect(rows[4001]).toEqual({ type: 'same', left: { line: 3002, text: '</html>' }, right: { line: 4002, text: '</html>' } });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatTurn, Creation, Revision, RevisionSource } from "../components/CreationHistory";
+import { ValidationReport } from "./validation";
+
+// Revisions form a tree through `parentId`. `Creation.html` always mirrors the
+// checked-out revision so previews and exports never need to walk the tree.
+
+export function createRevision(html: string, source: RevisionSource, parentId?: string, note?: string, validation?: ValidationReport): Revision {
+  return {
+    id: crypto.randomUUID(),
+    parentId,
+    html,
+    source,
+    note,
+    timestamp: new Date(),
+    validation,
+  };
+}
+
+// Creations saved before revisions existed get their current HTML as the root
+export function ensureRevisions(creation: Creation): Creation {
+  if (creation.revisions?.length && creation.currentRevisionId) return creation;
+  const root = createRevision(creation.html, 'generate');
+  root.timestamp = creation.timestamp;
+  return { ...creation, revisions: [root], currentRevisionId: root.id };
+}
+
+export function currentRevision(creation: Creation): Revision | undefined {
+  return creation.revisions?.find(r => r.id === creation.currentRevisionId);
+}
+
+/** Adds a child of the checked-out revision and checks it out. */
+export function addRevision(creation: Creation, html: string, source: RevisionSource, note?: string, validation?: ValidationReport): { creation: Creation; revision: Revision } {
+  const base = ensureRevisions(creation);
+  const revision = createRevision(html, source, base.currentRevisionId, note, validation);
+  return {
+    creation: {
+      ...base,
+      html,
+      revisions: [...(base.revisions || []), revision],
+      currentRevisionId: revision.id,
+    },
+    revision,
+  };
+}
+
+export function checkoutRevision(creation: Creation, revisionId: string): Creation {
+  const revision = creation.revisions?.find(r => r.id === revisionId);
+  if (!revision) return creation;
+  return { ...creation, html: revision.html, currentRevisionId: revision.id };
+}
+
+export function childrenOf(revisions: Revision[], id: string): Revision[] {
+  return revisions
+    .filter(r => r.parentId === id)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/** Ancestors of a revision, root first, including the revision itself. */
+export function revisionPath(revisions: Revision[], id?: string): Revision[] {
+  const byId = new Map(revisions.map(r => [r.id, r]));
+  const path: Revision[] = [];
+  let cursor = id ? byId.get(id) : undefined;
+  while (cursor) {
+    path.unshift(cursor);
+    cursor = cursor.parentId ? byId.get(cursor.parentId) : undefined;
+  }
+  return path;
+}
+
+/** Depth-first listing for rendering the tree as an indented list. */
+export function flattenTree(revisions: Revision[]): { revision: Revision; depth: number }[] {
+  const rows: { revision: Revision; depth: number }[] = [];
+  const visit = (revision: Revision, depth: number) => {
+    rows.push({ revision, depth });
+    childrenOf(revisions, revision.id).forEach(child => visit(child, depth + 1));
+  };
+  revisions
+    .filter(r => !r.parentId)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .forEach(root => visit(root, 0));
+  return rows;
+}
+
+/**
+ * Chat turns that led to the checked-out revision. When working on a branch,
+ * requests made on sibling branches are left out of the model's context.
+ */
+export function conversationForRevision(creation: Creation): ChatTurn[] {
+  const turns = creation.conversation || [];
+  if (!creation.revisions?.length) return turns;
+
+  const onPath = new Set(revisionPath(creation.revisions, creation.currentRevisionId).map(r => r.id));
+  const result: ChatTurn[] = [];
+  for (let i = 0; i < turns.length; i++) {
+    const turn = turns[i];
+    const reply = turn.role === 'user' ? turns[i + 1] : undefined;
+    if (reply?.role === 'model') {
+      if (!reply.revisionId || onPath.has(reply.revisionId)) result.push(turn, reply);
+      i++;
+    } else if (!turn.revisionId || onPath.has(turn.revisionId)) {
+      result.push(turn);
+    }
+  }
+  return result;
+}
+
+export type DiffRowType = 'same' | 'added' | 'removed' | 'changed';
+
+export interface DiffRow {
+  type: DiffRowType;
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+}
+
+// 4M cells is 16 MB of table. Two unrelated regenerations of a few thousand
+// lines each go past it; their differing middle is then shown as one block.
+const MAX_DIFF_CELLS = 4_000_000;
+
+const lcsTable = (a: string[], b: string[]): Uint32Array => {
+  const n = a.length;
+  const m = b.length;
+  const table = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] = a[i] === b[j]
+        ? table[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+    }
+  }
+  return table;
+};
+
+/**
+ * Line-based LCS diff laid out as side-by-side rows. Adjacent removals and
+ * additions are paired up as `changed` rows so edits line up visually.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Trim the common prefix/suffix so the LCS table stays small for typical edits
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+  // Without a table every line in the middle is removed, then added
+  const table = (n + 1) * (m + 1) <= MAX_DIFF_CELLS ? lcsTable(midA, midB) : null;
+
+  const rows: DiffRow[] = [];
+  for (let k = 0; k < start; k++) {
+    rows.push({ type: 'same', left: { line: k + 1, text: a[k] }, right: { line: k + 1, text: b[k] } });
+  }
+
+  let i = 0;
+  let j = 0;
+  let removed: DiffRow[] = [];
+  let added: DiffRow[] = [];
+  const flush = () => {
+    const pairs = Math.max(removed.length, added.length);
+    for (let k = 0; k < pairs; k++) {
+      const left = removed[k]?.left;
+      const right = added[k]?.right;
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  while (i < n || j < m) {
+    if (table && i < n && j < m && midA[i] === midB[j]) {
+      flush();
+      rows.push({ type: 'same', left: { line: start + i + 1, text: midA[i] }, right: { line: start + j + 1, text: midB[j] } });
+      i++;
+      j++;
+    } else if (j >= m || (i < n && (!table || table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1]))) {
+      removed.push({ type: 'removed', left: { line: start + i + 1, text: midA[i] } });
+      i++;
+    } else {
+      added.push({ type: 'added', right: { line: start + j + 1, text: midB[j] } });
+      j++;
+    }
+  }
+  flush();
+
+  for (let k = 0; k < a.length - endA; k++) {
+    rows.push({ type: 'same', left: { line: endA + k + 1, text: a[endA + k] }, right: { line: endB + k + 1, text: b[endB + k] } });
+  }
+  return rows;
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SANDBOX_PERMISSIONS, hardenHtml, injectIntoHead } from './sandbox';
+
+const SNIPPET = '<meta name="snippet">';
+
+describe('injectIntoHead', () => {
+  it('inserts at the start of an existing head', () => {
+    expect(injectIntoHead('<!DOCTYPE html><html><head><title>App</title></head></html>', SNIPPET))
+      .toBe(`<!DOCTYPE html><html><head>\n${SNIPPET}<title>App</title></head></html>`);
+  });
+
+  it('skips a head tag inside a comment', () => {
+    const html = '<!DOCTYPE html>\n<!-- <head> -->\n<html>\n<head data-real>\n<title>App</title>\n</head>\n</html>';
+    expect(injectIntoHead(html, SNIPPET)).toBe(html.replace('<head data-real>', `<head data-real>\n${SNIPPET}`));
+  });
+
+  it('skips head tags inside scripts and attribute values', () => {
+    const html = '<html data-x="<head>"><head><script>document.write("<head>")</script></head></html>';
+    expect(injectIntoHead(html, SNIPPET).indexOf(SNIPPET)).toBe(html.indexOf('<head><script>') + '<head>'.length + 1);
+  });
+
+  it('creates a head inside html when there is none', () => {
+    expect(injectIntoHead('<!DOCTYPE html><html lang="en"><body></body></html>', SNIPPET))
+      .toBe(`<!DOCTYPE html><html lang="en">\n<head>\n${SNIPPET}</head><body></body></html>`);
+  });
+
+  it('keeps the doctype first in a fragment', () => {
+    expect(injectIntoHead('<!DOCTYPE html>\n<p>Hi</p>', SNIPPET)).toBe(`<!DOCTYPE html>\n${SNIPPET}\n<p>Hi</p>`);
+    expect(injectIntoHead('<p>Hi</p>', SNIPPET)).toBe(`${SNIPPET}<p>Hi</p>`);
+  });
+});
+
+describe('hardenHtml', () => {
+  it('puts the policy in the real head when a comment mentions one', () => {
+    const hardened = hardenHtml('<!-- <head> --><html><head></head><body></body></html>', DEFAULT_SANDBOX_PERMISSIONS);
+    expect(hardened.startsWith('<!-- <head> --><html><head>\n<meta http-equiv="Content-Security-Policy"')).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Generated apps run in an opaque origin (no allow-same-origin), so they can
+// never reach the host's localStorage or IndexedDB. What else they may do is
+// decided per creation.
+
+export interface SandboxPermissions {
+  network: boolean; // fetch/XHR/WebSocket and resources from any host
+  popups: boolean; // window.open and target="_blank" links
+  modals: boolean; // alert, confirm, prompt
+}
+
+export const DEFAULT_SANDBOX_PERMISSIONS: SandboxPermissions = {
+  network: false,
+  popups: false,
+  modals: true,
+};
+
+// Libraries and fonts generated apps commonly pull in stay available when network access is off
+export const CDN_ALLOWLIST = [
+  'https://cdn.tailwindcss.com',
+  'https://cdn.jsdelivr.net',
+  'https://unpkg.com',
+  'https://cdnjs.cloudflare.com',
+  'https://esm.sh',
+  'https://fonts.googleapis.com',
+  'https://fonts.gstatic.com',
+];
+
+export const sandboxPermissions = (creation: { sandbox?: SandboxPermissions }): SandboxPermissions =>
+  ({ ...DEFAULT_SANDBOX_PERMISSIONS, ...creation.sandbox });
+
+/** Value for the iframe `sandbox` attribute. */
+export function sandboxAttribute(permissions: SandboxPermissions): string {
+  const tokens = ['allow-scripts', 'allow-forms'];
+  if (permissions.popups) tokens.push('allow-popups');
+  if (permissions.modals) tokens.push('allow-modals');
+  return tokens.join(' ');
+}
+
+/** Policy that blocks outbound requests except CDN libraries, or null when network is allowed. */
+export function contentSecurityPolicy(permissions: SandboxPermissions): string | null {
+  if (permissions.network) return null;
+  const cdns = CDN_ALLOWLIST.join(' ');
+  return [
+    "default-src 'none'",
+    `script-src 'unsafe-inline' 'unsafe-eval' data: blob: ${cdns}`,
+    `style-src 'unsafe-inline' data: ${cdns}`,
+    `font-src data: ${cdns}`,
+    "img-src data: blob:",
+    "media-src data: blob:",
+    "frame-src data: blob:",
+    "worker-src blob:",
+    "connect-src 'none'",
+    "form-action 'none'",
+    "base-uri 'none'",
+  ].join('; ');
+}
+
+// Opaque origins throw on storage access. Give the app a per-session
+// in-memory replacement so code written against localStorage keeps running.
+const STORAGE_SHIM = `<script>
+(function () {
+  function memoryStorage() {
+    var data = {};
+    return {
+      get length() { return Object.keys(data).length; },
+      key: function (i) { var keys = Object.keys(data); return i < keys.length ? keys[i] : null; },
+      getItem: function (k) { return Object.prototype.hasOwnProperty.call(data, k) ? data[k] : null; },
+      setItem: function (k, v) { data[String(k)] = String(v); },
+      removeItem: function (k) { delete data[k]; },
+      clear: function () { data = {}; }
+    };
+  }
+  ['localStorage', 'sessionStorage'].forEach(function (name) {
+    try { window[name].length; } catch (e) {
+      Object.defineProperty(window, name, { configurable: true, value: memoryStorage() });
+    }
+  });
+  try { document.cookie; } catch (e) {
+    var cookies = {};
+    Object.defineProperty(document, 'cookie', {
+      configurable: true,
+      get: function () { return Object.keys(cookies).map(function (k) { return k + '=' + cookies[k]; }).join('; '); },
+      set: function (v) { var pair = String(v).split(';')[0].split('='); cookies[pair.shift().trim()] = pair.join('='); }
+    });
+  }
+})();
+</script>`;
+
+const escapeAttr = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+// Comments, raw-text elements and quoted attribute values can hold text that
+// looks like a tag, so they are matched whole and never read as markup
+const ATTRIBUTES = String.raw`(?:\s*=\s*(?:"[^"]*"|'[^']*')|[^>])*`;
+const MARKUP = new RegExp(String.raw`<!--[\s\S]*?(?:-->|$)|<(script|style|textarea|title|noscript|xmp)\b${ATTRIBUTES}>[\s\S]*?(?:<\/\1\s*>|$)|<([a-z][\w-]*)${ATTRIBUTES}>`, 'gi');
+
+/** The document's <html> tag, if any, and the first real opening tag after it. */
+function leadingTags(html: string): { htmlTag?: RegExpExecArray; firstTag?: RegExpExecArray } {
+  let htmlTag: RegExpExecArray | undefined;
+  for (const match of html.matchAll(MARKUP)) {
+    const name = (match[1] || match[2])?.toLowerCase();
+    if (!name) continue;
+    if (name === 'html' && !htmlTag) htmlTag = match;
+    else return { htmlTag, firstTag: match };
+  }
+  return { htmlTag };
+}
+
+/**
+ * Inserts markup at the very start of <head>, creating one if needed. A
+ * <head> only counts when it opens the document; one that follows other
+ * elements is ignored by the browser, and one inside a comment or script is
+ * not a tag at all.
+ */
+export function injectIntoHead(html: string, snippet: string): string {
+  const insertAfter = (match: RegExpExecArray, markup: string) => {
+    const end = match.index + match[0].length;
+    return `${html.slice(0, end)}\n${markup}${html.slice(end)}`;
+  };
+  const { htmlTag, firstTag } = leadingTags(html);
+  if (firstTag?.[2]?.toLowerCase() === 'head') return insertAfter(firstTag, snippet);
+  if (htmlTag) return insertAfter(htmlTag, `<head>\n${snippet}</head>`);
+  // Anything before the doctype would switch the page into quirks mode
+  const doctype = html.match(/^\s*<!doctype\b[^>]*>/i)?.[0];
+  return doctype ? `${doctype}\n${snippet}${html.slice(doctype.length)}` : snippet + html;
+}
+
+/**
+ * Prepares generated HTML for the preview frame. The CSP meta and storage
+ * shim go first in <head> so they apply before any of the app's own code.
+ */
+export function hardenHtml(html: string, permissions: SandboxPermissions): string {
+  const csp = contentSecurityPolicy(permissions);
+  return injectIntoHead(html, `${csp ? `<meta http-equiv="Content-Security-Policy" content="${escapeAttr(csp)}">\n` : ''}${STORAGE_SHIM}\n`);
+}
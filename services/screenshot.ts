@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { DEFAULT_SANDBOX_PERMISSIONS, hardenHtml, SandboxPermissions } from "./sandbox";
+
+// Served from an allowlisted CDN, so the hardened frame's CSP lets it load
+const HTML2CANVAS_URL = 'https://cdnjs.cloudflare.com/ajax/libs/html2canvas/1.4.1/html2canvas.min.js';
+
+// The generated app shares the frame with the capture script and can see the
+// token, so anything it posts is untrusted until it looks like an image
+const IMAGE_DATA_URL = /^data:image\/(png|jpeg);base64,/;
+
+export interface ScreenshotOptions {
+  width?: number;
+  height?: number;
+  scale?: number; // Output pixels per CSS pixel
+  type?: string; // Image MIME type; PNG when absent
+  quality?: number; // 0..1, for lossy types
+  settleMs?: number; // Time given to animations and CDN styles before capture
+  timeoutMs?: number;
+  permissions?: SandboxPermissions; // The creation's own; the defaults block network access
+}
+
+const captureScript = (token: string, { width, height, scale, type, quality, settleMs }: Required<Omit<ScreenshotOptions, 'timeoutMs' | 'permissions'>>): string => `
+<script>
+(function () {
+  var token = ${JSON.stringify(token)};
+  function send(message) { message.__screenshot = token; parent.postMessage(message, '*'); }
+  window.addEventListener('load', function () {
+    setTimeout(function () {
+      var s = document.createElement('script');
+      s.src = ${JSON.stringify(HTML2CANVAS_URL)};
+      s.onload = function () {
+        html2canvas(document.documentElement, { x: 0, y: 0, width: ${width}, height: ${height}, windowWidth: ${width}, windowHeight: ${height}, scale: ${scale}, useCORS: true, logging: false })
+          .then(function (canvas) { send({ dataUrl: canvas.toDataURL(${JSON.stringify(type)}, ${quality}) }); })
+          .catch(function (e) { send({ error: String(e) }); });
+      };
+      s.onerror = function () { send({ error: 'Could not load html2canvas' }); };
+      document.head.appendChild(s);
+    }, ${settleMs});
+  });
+})();
+</script>`;
+
+/**
+ * Renders generated HTML in a hidden, script-only sandbox and captures it as
+ * an image data URL. The HTML is hardened exactly like the live preview, so
+ * capturing an imported or shared creation in the background grants it no
+ * more than opening it would.
+ */
+export function captureScreenshotDataUrl(html: string, options: ScreenshotOptions = {}): Promise<string> {
+  const settings = {
+    width: options.width ?? 1280,
+    height: options.height ?? 800,
+    scale: options.scale ?? 1,
+    type: options.type ?? 'image/png',
+    quality: options.quality ?? 0.92,
+    settleMs: options.settleMs ?? 1200,
+  };
+  const timeoutMs = options.timeoutMs ?? 20000;
+  const token = crypto.randomUUID();
+  const script = captureScript(token, settings);
+  const hardened = hardenHtml(html, options.permissions ?? DEFAULT_SANDBOX_PERMISSIONS);
+
+  return new Promise((resolve, reject) => {
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('sandbox', 'allow-scripts');
+    iframe.setAttribute('aria-hidden', 'true');
+    iframe.style.cssText = `position:fixed;left:-${settings.width + 100}px;top:0;width:${settings.width}px;height:${settings.height}px;border:0;pointer-events:none;`;
+    iframe.srcdoc = /<\/body>/i.test(hardened) ? hardened.replace(/<\/body>(?![\s\S]*<\/body>)/i, `${script}</body>`) : hardened + script;
+
+    const cleanup = () => {
+      window.removeEventListener('message', handleMessage);
+      clearTimeout(timer);
+      iframe.remove();
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow || event.data?.__screenshot !== token) return;
+      cleanup();
+      const { dataUrl, error } = event.data;
+      if (typeof dataUrl === 'string' && IMAGE_DATA_URL.test(dataUrl)) resolve(dataUrl);
+      else reject(new Error(typeof error === 'string' ? error : 'Screenshot returned no image'));
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error('Screenshot timed out'));
+    }, timeoutMs);
+
+    window.addEventListener('message', handleMessage);
+    document.body.appendChild(iframe);
+  });
+}
+
+/** The screenshot as a Blob, e.g. for downloads. */
+export async function captureScreenshot(html: string, options: ScreenshotOptions = {}): Promise<Blob> {
+  return (await fetch(await captureScreenshotDataUrl(html, options))).blob();
+}
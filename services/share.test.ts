@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createShareLink, readShareFragment, SHARE_MAX_DECODED_BYTES, ShareLinkError } from './share';
+
+const deflateToBase64Url = async (text: string): Promise<string> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return Buffer.from(await new Response(stream).arrayBuffer()).toString('base64url');
+};
+
+describe('share links', () => {
+  it('round-trips a creation through the fragment', async () => {
+    const { url } = await createShareLink({ id: 'a', name: 'Clock', html: '<!DOCTYPE html><p>tick</p>', timestamp: new Date(0) }, 'https://example.test/');
+    const creation = await readShareFragment(new URL(url).hash);
+    expect(creation).toMatchObject({ name: 'Clock', html: '<!DOCTYPE html><p>tick</p>', timestamp: new Date(0) });
+    expect(creation.id).not.toBe('a');
+  });
+
+  it('rejects a link that inflates past the size limit', async () => {
+    const bomb = await deflateToBase64Url(' '.repeat(SHARE_MAX_DECODED_BYTES + 1));
+    expect(bomb.length).toBeLessThan(64 * 1024);
+    const error = await readShareFragment(`#share=1.${bomb}`).catch(e => e);
+    expect(error).toBeInstanceOf(ShareLinkError);
+    expect(error.message).toMatch(/expands beyond/);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from "../components/CreationHistory";
+import { ensureRevisions } from "./revisions";
+
+// Share links carry the whole creation in the URL fragment, which browsers
+// never send to a server: `#share=1.<base64url of deflate-raw JSON>`.
+const SHARE_PARAM = 'share';
+const SHARE_VERSION = 1;
+
+// Chat apps, mail clients and some browsers truncate links beyond this
+export const SHARE_WARN_LENGTH = 32 * 1024;
+// Chromium refuses longer URLs outright
+export const SHARE_MAX_LENGTH = 2 * 1024 * 1024;
+// Far more than any link under SHARE_MAX_LENGTH holds in practice; a crafted
+// link that inflates past it is rejected before it fills memory
+export const SHARE_MAX_DECODED_BYTES = 32 * 1024 * 1024;
+
+// Only what is needed to view the app. Inputs would rarely fit in a URL, and
+// sandbox permissions are left out on purpose: a link must not be able to
+// grant itself network access.
+export interface SharedCreation {
+  name: string;
+  html: string;
+  mode?: string;
+  prompt?: string;
+  timestamp: string; // ISO
+}
+
+export interface ShareLink {
+  url: string;
+  length: number;
+  tooLong: boolean; // Over SHARE_MAX_LENGTH; not usable
+  risky: boolean; // Over SHARE_WARN_LENGTH; may get truncated when pasted
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ShareLinkError';
+  }
+}
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Decompresses until `maxBytes` of output, then gives up and cancels the stream
+const inflate = async (bytes: Uint8Array, maxBytes: number): Promise<Uint8Array> => {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (let read = await reader.read(); !read.done; read = await reader.read()) {
+    total += read.value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new ShareLinkError(`Share link expands beyond ${maxBytes} bytes`);
+    }
+    chunks.push(read.value);
+  }
+  return new Uint8Array(await new Blob(chunks).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+export async function createShareLink(creation: Creation, base = window.location.href): Promise<ShareLink> {
+  const shared: SharedCreation = {
+    name: creation.name,
+    html: creation.html,
+    mode: creation.mode,
+    prompt: creation.prompt,
+    timestamp: creation.timestamp.toISOString(),
+  };
+  const compressed = await pipe(new TextEncoder().encode(JSON.stringify(shared)), new CompressionStream('deflate-raw'));
+  const url = new URL(base);
+  url.hash = `${SHARE_PARAM}=${SHARE_VERSION}.${toBase64Url(compressed)}`;
+  const href = url.toString();
+  return {
+    url: href,
+    length: href.length,
+    tooLong: href.length > SHARE_MAX_LENGTH,
+    risky: href.length > SHARE_WARN_LENGTH,
+  };
+}
+
+/** True when the fragment looks like a share link, before any decoding. */
+export const isShareFragment = (hash: string): boolean =>
+  hash.replace(/^#/, '').startsWith(`${SHARE_PARAM}=`);
+
+/**
+ * Decodes a share fragment into a creation with a fresh id. Throws a
+ * ShareLinkError when the link is damaged, e.g. truncated while pasting, or
+ * decompresses to more than SHARE_MAX_DECODED_BYTES.
+ */
+export async function readShareFragment(hash: string): Promise<Creation> {
+  const value = hash.replace(/^#/, '').slice(SHARE_PARAM.length + 1);
+  const [version, data] = value.split('.', 2);
+  if (Number(version) !== SHARE_VERSION || !data) {
+    throw new ShareLinkError(`Unsupported share link version "${version}"`);
+  }
+
+  let shared: Partial<SharedCreation>;
+  try {
+    const bytes = await inflate(fromBase64Url(data), SHARE_MAX_DECODED_BYTES);
+    shared = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (e) {
+    throw e instanceof ShareLinkError ? e : new ShareLinkError("Share link is damaged", { cause: e });
+  }
+  if (typeof shared?.html !== 'string' || !shared.html || typeof shared.name !== 'string') {
+    throw new ShareLinkError("Share link has no app in it");
+  }
+
+  const timestamp = new Date(shared.timestamp ?? Date.now());
+  return ensureRevisions({
+    id: crypto.randomUUID(),
+    name: shared.name,
+    html: shared.html,
+    timestamp: Number.isNaN(timestamp.getTime()) ? new Date() : timestamp,
+    mode: typeof shared.mode === 'string' ? shared.mode : undefined,
+    prompt: typeof shared.prompt === 'string' ? shared.prompt : undefined,
+  });
+}
+
+/** Drops the share fragment from the address bar without adding a history entry. */
+export function clearShareFragment(): void {
+  if (!isShareFragment(window.location.hash)) return;
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState(null, '', url.toString());
+}
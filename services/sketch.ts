@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Sketches are kept as vector elements in a fixed logical coordinate space so
+// they can be reopened and edited; the PNG sent to the model is rendered from them.
+
+export const SKETCH_WIDTH = 1200;
+export const SKETCH_HEIGHT = 800;
+export const SKETCH_BACKGROUND = '#ffffff';
+
+export type Point = [number, number];
+
+export type ShapeKind = 'line' | 'arrow' | 'rect' | 'ellipse';
+
+export type SketchElement =
+  | { type: 'stroke'; points: Point[]; color: string; width: number }
+  | { type: 'erase'; points: Point[]; width: number }
+  | { type: ShapeKind; from: Point; to: Point; color: string; width: number }
+  | { type: 'text'; at: Point; text: string; color: string; size: number };
+
+export interface Sketch {
+  width: number;
+  height: number;
+  elements: SketchElement[];
+}
+
+export const emptySketch = (): Sketch => ({ width: SKETCH_WIDTH, height: SKETCH_HEIGHT, elements: [] });
+
+export const SKETCH_FONT = '"Comic Sans MS", "Segoe Print", "Bradley Hand", cursive';
+
+function tracePath(ctx: CanvasRenderingContext2D, points: Point[]) {
+  ctx.beginPath();
+  ctx.moveTo(points[0][0], points[0][1]);
+  // A single tap still leaves a dot
+  if (points.length === 1) ctx.lineTo(points[0][0] + 0.01, points[0][1]);
+  // Smooth through midpoints so fast strokes don't look polygonal
+  for (let i = 1; i < points.length - 1; i++) {
+    const [x, y] = points[i];
+    const [nx, ny] = points[i + 1];
+    ctx.quadraticCurveTo(x, y, (x + nx) / 2, (y + ny) / 2);
+  }
+  if (points.length > 1) ctx.lineTo(points[points.length - 1][0], points[points.length - 1][1]);
+  ctx.stroke();
+}
+
+function drawElement(ctx: CanvasRenderingContext2D, element: SketchElement) {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (element.type) {
+    case 'stroke':
+      ctx.strokeStyle = element.color;
+      ctx.lineWidth = element.width;
+      tracePath(ctx, element.points);
+      break;
+    case 'erase':
+      // Punches through everything drawn so far; the background goes in last
+      ctx.globalCompositeOperation = 'destination-out';
+      ctx.lineWidth = element.width;
+      tracePath(ctx, element.points);
+      break;
+    case 'text':
+      ctx.fillStyle = element.color;
+      ctx.font = `${element.size}px ${SKETCH_FONT}`;
+      ctx.textBaseline = 'top';
+      element.text.split('\n').forEach((line, idx) => {
+        ctx.fillText(line, element.at[0], element.at[1] + idx * element.size * 1.2);
+      });
+      break;
+    default: {
+      const [x1, y1] = element.from;
+      const [x2, y2] = element.to;
+      ctx.strokeStyle = element.color;
+      ctx.lineWidth = element.width;
+      ctx.beginPath();
+      if (element.type === 'rect') {
+        ctx.rect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+      } else if (element.type === 'ellipse') {
+        ctx.ellipse((x1 + x2) / 2, (y1 + y2) / 2, Math.abs(x2 - x1) / 2, Math.abs(y2 - y1) / 2, 0, 0, Math.PI * 2);
+      } else {
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        if (element.type === 'arrow') {
+          const angle = Math.atan2(y2 - y1, x2 - x1);
+          const head = Math.max(12, element.width * 4);
+          ctx.moveTo(x2, y2);
+          ctx.lineTo(x2 - head * Math.cos(angle - Math.PI / 6), y2 - head * Math.sin(angle - Math.PI / 6));
+          ctx.moveTo(x2, y2);
+          ctx.lineTo(x2 - head * Math.cos(angle + Math.PI / 6), y2 - head * Math.sin(angle + Math.PI / 6));
+        }
+      }
+      ctx.stroke();
+    }
+  }
+  ctx.restore();
+}
+
+/** Paints the sketch into a canvas whose backing store matches `width` x `height` (times `scale`). */
+export function drawSketch(ctx: CanvasRenderingContext2D, sketch: Sketch, scale = 1) {
+  ctx.save();
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.clearRect(0, 0, sketch.width, sketch.height);
+  sketch.elements.forEach(element => drawElement(ctx, element));
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = SKETCH_BACKGROUND;
+  ctx.fillRect(0, 0, sketch.width, sketch.height);
+  ctx.restore();
+}
+
+export async function renderSketchToPng(sketch: Sketch): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = sketch.width;
+  canvas.height = sketch.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  drawSketch(context, sketch);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not render sketch')), 'image/png');
+  });
+}
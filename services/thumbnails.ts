@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, CreationInput, CreationSummary } from "../components/CreationHistory";
+import { captureScreenshotDataUrl } from "./screenshot";
+import { sandboxPermissions } from "./sandbox";
+
+// Apps are rendered at a desktop size and scaled down to card size
+const CAPTURE_WIDTH = 1280;
+const CAPTURE_HEIGHT = 800;
+const THUMBNAIL_SCALE = 0.25; // 320 x 200
+const INPUT_PREVIEW_SIZE = 160; // Longest edge of the input preview
+const JPEG_QUALITY = 0.75;
+
+export type Thumbnails = Pick<Creation, 'thumbnail' | 'thumbnailRevisionId' | 'inputPreview'>;
+
+/** True when the card has no thumbnail yet or it shows an older revision. */
+export const needsThumbnail = (summary: CreationSummary): boolean =>
+  !summary.thumbnail || summary.thumbnailRevisionId !== summary.currentRevisionId;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = src;
+  });
+
+/** Downscaled JPEG of an image input; other input types have no preview. */
+export async function previewInput(input: CreationInput): Promise<string | undefined> {
+  if (!input.mimeType.startsWith('image/')) return undefined;
+  const image = await loadImage(input.dataUrl);
+  const ratio = Math.min(1, INPUT_PREVIEW_SIZE / Math.max(image.naturalWidth, image.naturalHeight, 1));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * ratio));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * ratio));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  // Transparent PNGs and sketches would otherwise turn black in JPEG
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+}
+
+/**
+ * Screenshots the creation's current revision for the history cards, plus a
+ * preview of its first input when that is an image.
+ */
+export async function createThumbnails(creation: Creation): Promise<Thumbnails> {
+  const thumbnail = await captureScreenshotDataUrl(creation.html, {
+    width: CAPTURE_WIDTH,
+    height: CAPTURE_HEIGHT,
+    scale: THUMBNAIL_SCALE,
+    type: 'image/jpeg',
+    quality: JPEG_QUALITY,
+    permissions: sandboxPermissions(creation),
+  });
+  const firstInput = creation.inputs?.[0];
+  return {
+    thumbnail,
+    thumbnailRevisionId: creation.currentRevisionId,
+    inputPreview: firstInput ? await previewInput(firstInput).catch(() => undefined) : undefined,
+  };
+}
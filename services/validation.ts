@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isRtl } from "./i18n";
+
+export type ValidationRule =
+  | 'empty-output'
+  | 'leading-prose'
+  | 'trailing-prose'
+  | 'missing-doctype'
+  | 'truncated-document'
+  | 'unbalanced-tags'
+  | 'external-image'
+  | 'missing-rtl';
+
+export interface ValidationIssue {
+  rule: ValidationRule;
+  severity: 'error' | 'warning';
+  message: string;
+  detail?: string;
+  autoFixable: boolean;
+}
+
+export interface ValidationReport {
+  fixed: ValidationIssue[]; // Corrected locally without asking the model
+  remaining: ValidationIssue[];
+  repairAttempted: boolean;
+}
+
+// Elements that never have a closing tag
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+// Elements whose end tag HTML lets authors omit; mismatches on these are not reported
+const OPTIONAL_CLOSE = new Set(['p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'option', 'optgroup', 'colgroup', 'caption', 'rb', 'rt', 'rp', 'html', 'head', 'body']);
+
+const MAX_TAG_REPORTS = 5;
+
+const DOCUMENT_START = /<!doctype\s+html|<html[\s>]/i;
+
+const isExternalUrl = (src: string): boolean => /^(https?:)?\/\//i.test(src.trim());
+
+/**
+ * Walks start/end tags outside of comments, scripts and styles and returns
+ * human-readable descriptions of mismatches.
+ */
+function findUnbalancedTags(html: string): string[] {
+  const problems: string[] = [];
+  const stack: string[] = [];
+  const stripped = html
+    .replace(/<!--[\s\S]*?(-->|$)/g, '')
+    .replace(/(<script\b[^>]*>)[\s\S]*?(<\/script>|$)/gi, '$1$2')
+    .replace(/(<style\b[^>]*>)[\s\S]*?(<\/style>|$)/gi, '$1$2')
+    .replace(/(<textarea\b[^>]*>)[\s\S]*?(<\/textarea>|$)/gi, '$1$2');
+
+  const tagPattern = /<(\/?)([a-zA-Z][\w:-]*)\b(?:"[^"]*"|'[^']*'|[^'">])*?(\/?)>/g;
+  for (let match = tagPattern.exec(stripped); match; match = tagPattern.exec(stripped)) {
+    const [, closing, rawName, selfClosing] = match;
+    const name = rawName.toLowerCase();
+    if (VOID_ELEMENTS.has(name) || selfClosing) continue;
+
+    if (!closing) {
+      stack.push(name);
+      continue;
+    }
+
+    const openIndex = stack.lastIndexOf(name);
+    if (openIndex === -1) {
+      if (!OPTIONAL_CLOSE.has(name)) problems.push(`Stray </${name}> with no matching opening tag`);
+      continue;
+    }
+    // Anything opened after the matching tag was never closed
+    for (const unclosed of stack.splice(openIndex).slice(1)) {
+      if (!OPTIONAL_CLOSE.has(unclosed)) problems.push(`<${unclosed}> is not closed before </${name}>`);
+    }
+  }
+
+  for (const unclosed of stack) {
+    if (!OPTIONAL_CLOSE.has(unclosed)) problems.push(`<${unclosed}> is never closed`);
+  }
+  return problems;
+}
+
+export function validateHtml(html: string, lang: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const trimmed = html.trim();
+
+  if (!trimmed) {
+    return [{ rule: 'empty-output', severity: 'error', message: 'The model returned no HTML.', autoFixable: false }];
+  }
+
+  const start = trimmed.search(DOCUMENT_START);
+  if (start > 0) {
+    issues.push({
+      rule: 'leading-prose',
+      severity: 'warning',
+      message: 'Commentary before the document start.',
+      detail: trimmed.slice(0, Math.min(start, 120)),
+      autoFixable: true,
+    });
+  }
+  if (!/<!doctype\s+html/i.test(trimmed)) {
+    issues.push({ rule: 'missing-doctype', severity: 'warning', message: 'Missing <!DOCTYPE html>.', autoFixable: start !== -1 });
+  }
+
+  const end = trimmed.search(/<\/html>\s*$/i);
+  const lastClose = trimmed.toLowerCase().lastIndexOf('</html>');
+  if (lastClose === -1) {
+    issues.push({ rule: 'truncated-document', severity: 'error', message: 'Document does not end with </html>; the output may be truncated.', autoFixable: false });
+  } else if (end === -1) {
+    issues.push({
+      rule: 'trailing-prose',
+      severity: 'warning',
+      message: 'Commentary after </html>.',
+      detail: trimmed.slice(lastClose + 7, lastClose + 127).trim(),
+      autoFixable: true,
+    });
+  }
+
+  const unbalanced = findUnbalancedTags(start > 0 ? trimmed.slice(start) : trimmed);
+  if (unbalanced.length > 0) {
+    issues.push({
+      rule: 'unbalanced-tags',
+      severity: 'error',
+      message: `${unbalanced.length} unbalanced tag${unbalanced.length === 1 ? '' : 's'}.`,
+      detail: unbalanced.slice(0, MAX_TAG_REPORTS).join('\n'),
+      autoFixable: false,
+    });
+  }
+
+  const doc = new DOMParser().parseFromString(trimmed, 'text/html');
+  const externalImages = Array.from(doc.querySelectorAll('img[src]'))
+    .map(img => img.getAttribute('src') || '')
+    .filter(isExternalUrl);
+  if (externalImages.length > 0) {
+    issues.push({
+      rule: 'external-image',
+      severity: 'warning',
+      message: `${externalImages.length} external image URL${externalImages.length === 1 ? '' : 's'} (violates NO EXTERNAL IMAGES).`,
+      detail: externalImages.slice(0, MAX_TAG_REPORTS).join('\n'),
+      autoFixable: true,
+    });
+  }
+
+  const wantsRtl = isRtl(lang) || isRtl(doc.documentElement.getAttribute('lang') || '');
+  if (wantsRtl && !doc.querySelector('[dir="rtl" i]')) {
+    issues.push({ rule: 'missing-rtl', severity: 'warning', message: 'Right-to-left app without dir="rtl".', autoFixable: true });
+  }
+
+  return issues;
+}
+
+// Neutral inline placeholder used in place of external images
+const PLACEHOLDER_IMAGE = `data:image/svg+xml,${encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 4 3"><rect width="4" height="3" fill="#e4e4e7"/><path d="M0 3l1.4-1.6 1 1 .8-.8L4 3z" fill="#a1a1aa"/></svg>')}`;
+
+const setRtl = (tag: string, attrs: string): string =>
+  /\bdir\s*=/i.test(attrs) ? `<${tag}${attrs.replace(/\bdir\s*=\s*["']?\w*["']?/i, 'dir="rtl"')}>` : `<${tag}${attrs} dir="rtl">`;
+
+const applyFix = (html: string, rule: ValidationRule): string => {
+  switch (rule) {
+    case 'leading-prose':
+      return html.slice(html.search(DOCUMENT_START));
+    case 'trailing-prose':
+      return html.slice(0, html.toLowerCase().lastIndexOf('</html>') + 7);
+    case 'missing-doctype':
+      return `<!DOCTYPE html>\n${html}`;
+    case 'external-image':
+      // Quoted and unquoted values, matching what the DOM reports as src
+      return html.replace(/(<img\b[^>]*?\bsrc\s*=\s*)(?:(["'])([^"']*)\2|([^\s"'>]+))/gi, (match, prefix: string, quote: string | undefined, quoted: string | undefined, bare: string | undefined) => {
+        const src = quoted ?? bare ?? '';
+        const q = quote ?? '"';
+        return isExternalUrl(src) ? `${prefix}${q}${PLACEHOLDER_IMAGE}${q} data-original-src=${q}${src}${q}` : match;
+      });
+    case 'missing-rtl':
+      if (/<html\b[^>]*>/i.test(html)) return html.replace(/<html\b([^>]*)>/i, (_, attrs: string) => setRtl('html', attrs));
+      if (/<body\b[^>]*>/i.test(html)) return html.replace(/<body\b([^>]*)>/i, (_, attrs: string) => setRtl('body', attrs));
+      {
+        // No document element to mark: wrap everything after the doctype
+        const doctype = html.match(/^<!doctype[^>]*>/i)?.[0] ?? '';
+        const rest = html.slice(doctype.length);
+        return `${doctype}<html dir="rtl">${rest}${/<\/html>/i.test(rest) ? '' : '</html>'}`;
+      }
+    default:
+      return html;
+  }
+};
+
+/**
+ * Applies every local fix that doesn't need the model. Only issues whose fix
+ * actually changed the document are reported as fixed.
+ */
+export function autoFix(html: string, lang: string): { html: string; fixed: ValidationIssue[] } {
+  const issues = validateHtml(html, lang).filter(issue => issue.autoFixable);
+  const fixed: ValidationIssue[] = [];
+  let out = html.trim();
+
+  for (const issue of issues) {
+    const next = applyFix(out, issue.rule);
+    if (next !== out) fixed.push(issue);
+    out = next;
+  }
+
+  return { html: out, fixed };
+}
+
+export const needsRepair = (issues: ValidationIssue[]): boolean =>
+  issues.some(issue => issue.severity === 'error' && !issue.autoFixable);
+
+/** Targeted instruction listing only the problems the model must fix. */
+export function repairPrompt(html: string, issues: ValidationIssue[]): string {
+  const list = issues
+    .map((issue, idx) => `${idx + 1}. ${issue.message}${issue.detail ? `\n   ${issue.detail.split('\n').join('\n   ')}` : ''}`)
+    .join('\n');
+  return `The HTML document below failed validation:\n${list}\n\nFix ONLY these problems. If the document is truncated, complete it consistently with the existing code. Keep everything else unchanged and return the COMPLETE corrected document.\n\nHTML:\n${html}`;
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationProgress } from "./generation";
+import { clampTemperature, GenerationMode } from "./modes";
+import { ProviderErrorKind } from "./providers";
+import { ValidationReport } from "./validation";
+
+export const MAX_VARIANTS = 4;
+
+// Gap between neighbouring variants when temperatures are spread around the mode's own
+const TEMPERATURE_STEP = 0.2;
+
+// What one variant should be generated with
+export interface VariantSpec {
+  modeId: string;
+  temperature: number;
+}
+
+export type VariantStatus = 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface VariantRun {
+  id: string;
+  index: number; // 1-based position in the grid
+  mode: GenerationMode; // Resolved mode with the variant's temperature applied
+  status: VariantStatus;
+  progress: GenerationProgress | null;
+  html?: string;
+  validation?: ValidationReport;
+  error?: ProviderErrorKind;
+}
+
+/**
+ * Default plan for `count` variants of one mode: temperatures are spread
+ * evenly around the mode's own so the results differ in a controlled way.
+ */
+export function planVariants(count: number, mode: GenerationMode): VariantSpec[] {
+  const n = Math.min(MAX_VARIANTS, Math.max(1, Math.round(count)));
+  return Array.from({ length: n }, (_, idx) => ({
+    modeId: mode.id,
+    temperature: n === 1 ? mode.temperature : clampTemperature(mode.temperature + (idx - (n - 1) / 2) * TEMPERATURE_STEP),
+  }));
+}
+
+/** Grows or shrinks a plan, keeping the rows the user already adjusted. */
+export function resizePlan(specs: VariantSpec[], count: number, mode: GenerationMode): VariantSpec[] {
+  const defaults = planVariants(count, mode);
+  return defaults.map((spec, idx) => specs.length > 1 && specs[idx] ? specs[idx] : spec);
+}
+
+export function createVariantRun(spec: VariantSpec, index: number, mode: GenerationMode): VariantRun {
+  return {
+    id: crypto.randomUUID(),
+    index,
+    mode: { ...mode, temperature: clampTemperature(spec.temperature) },
+    status: 'running',
+    progress: null,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type DevicePreset = 'phone' | 'tablet' | 'laptop' | 'desktop';
+
+// 'fill' is the old behaviour: the frame takes whatever space the panel has
+export type ViewportPreset = 'fill' | DevicePreset | 'custom';
+
+export interface Viewport {
+  preset: ViewportPreset;
+  width: number; // CSS pixels; ignored for 'fill'
+  height: number;
+  fit: boolean; // Scale the frame down to fit the panel instead of scrolling
+  bezel: boolean; // Draw a device frame around the viewport
+}
+
+export type BezelKind = 'phone' | 'tablet' | 'screen';
+
+// Portrait sizes for handhelds, landscape for computers; rotate swaps them
+export const DEVICE_PRESETS: Record<DevicePreset, { width: number; height: number }> = {
+  phone: { width: 390, height: 844 },
+  tablet: { width: 820, height: 1180 },
+  laptop: { width: 1280, height: 800 },
+  desktop: { width: 1920, height: 1080 },
+};
+
+export const VIEWPORT_PRESETS: ViewportPreset[] = ['fill', 'phone', 'tablet', 'laptop', 'desktop', 'custom'];
+
+export const MIN_VIEWPORT_SIZE = 240;
+export const MAX_VIEWPORT_SIZE = 3840;
+
+export const DEFAULT_VIEWPORT: Viewport = {
+  preset: 'fill',
+  ...DEVICE_PRESETS.phone,
+  fit: true,
+  bezel: true,
+};
+
+export const clampViewportSize = (value: number): number =>
+  Math.round(Math.min(MAX_VIEWPORT_SIZE, Math.max(MIN_VIEWPORT_SIZE, value)));
+
+/** Device presets start in their natural orientation; 'custom' keeps the current size. */
+export function selectPreset(viewport: Viewport, preset: ViewportPreset): Viewport {
+  if (preset === 'fill' || preset === 'custom') return { ...viewport, preset };
+  return { ...viewport, preset, ...DEVICE_PRESETS[preset] };
+}
+
+export const rotateViewport = (viewport: Viewport): Viewport =>
+  ({ ...viewport, width: viewport.height, height: viewport.width });
+
+/** Typing a size turns any preset into a custom viewport. */
+export const resizeViewport = (viewport: Viewport, size: { width?: number; height?: number }): Viewport => ({
+  ...viewport,
+  preset: 'custom',
+  width: clampViewportSize(size.width ?? viewport.width),
+  height: clampViewportSize(size.height ?? viewport.height),
+});
+
+export function bezelKind(viewport: Viewport): BezelKind {
+  const shortSide = Math.min(viewport.width, viewport.height);
+  if (viewport.preset === 'phone' || (viewport.preset === 'custom' && shortSide < 600)) return 'phone';
+  if (viewport.preset === 'tablet' || (viewport.preset === 'custom' && shortSide < 1000)) return 'tablet';
+  return 'screen';
+}
+
+// Thickness of each bezel in CSS pixels, counted when fitting the frame
+export const BEZEL_PADDING: Record<BezelKind, number> = {
+  phone: 14,
+  tablet: 18,
+  screen: 10,
+};
+
+/** Scale at which the framed viewport fits `available`; never enlarges. */
+export function fitScale(viewport: Viewport, available: { width: number; height: number }): number {
+  if (!viewport.fit || available.width <= 0 || available.height <= 0) return 1;
+  const padding = viewport.bezel ? BEZEL_PADDING[bezelKind(viewport)] * 2 : 0;
+  return Math.min(1, available.width / (viewport.width + padding), available.height / (viewport.height + padding));
+}